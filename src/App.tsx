@@ -2,6 +2,10 @@ import React, { Suspense, lazy } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import Layout from './components/Layout';
 import { CurrencyProvider } from './lib/currency';
+import { VaultProvider } from './lib/vault';
+import { AuthProvider } from './lib/auth';
+import { ProvidersProvider } from './lib/providers';
+import RequireAuth from './components/RequireAuth';
 
 // Lazy load all page components for code splitting
 const Dashboard = lazy(() => import('./pages/Dashboard'));
@@ -13,6 +17,8 @@ const Reports = lazy(() => import('./pages/Reports'));
 const CashFlow = lazy(() => import('./pages/CashFlow'));
 const Clients = lazy(() => import('./pages/Clients'));
 const Settings = lazy(() => import('./pages/Settings'));
+const ClientStatus = lazy(() => import('./pages/ClientStatus'));
+const Login = lazy(() => import('./pages/Login'));
 
 // Loading fallback component
 const PageLoader = () => (
@@ -30,86 +36,116 @@ const PageLoader = () => (
 
 function App() {
   return (
-    <CurrencyProvider>
-      <Router>
-        <Routes>
-          <Route path="/" element={<Layout />}>
-            <Route
-              index
-              element={
-                <Suspense fallback={<PageLoader />}>
-                  <Dashboard />
-                </Suspense>
-              }
-            />
-            <Route
-              path="services"
-              element={
-                <Suspense fallback={<PageLoader />}>
-                  <ServicesManager />
-                </Suspense>
-              }
-            />
-            <Route
-              path="transactions"
-              element={
-                <Suspense fallback={<PageLoader />}>
-                  <Transactions />
-                </Suspense>
-              }
-            />
-            <Route
-              path="subscriptions"
-              element={
-                <Suspense fallback={<PageLoader />}>
-                  <Subscriptions />
-                </Suspense>
-              }
-            />
-            <Route
-              path="inventory"
-              element={
-                <Suspense fallback={<PageLoader />}>
-                  <Inventory />
-                </Suspense>
-              }
-            />
-            <Route
-              path="reports"
-              element={
-                <Suspense fallback={<PageLoader />}>
-                  <Reports />
-                </Suspense>
-              }
-            />
-            <Route
-              path="cashflow"
-              element={
-                <Suspense fallback={<PageLoader />}>
-                  <CashFlow />
-                </Suspense>
-              }
-            />
-            <Route
-              path="clients"
-              element={
-                <Suspense fallback={<PageLoader />}>
-                  <Clients />
-                </Suspense>
-              }
-            />
-            <Route
-              path="settings"
-              element={
-                <Suspense fallback={<PageLoader />}>
-                  <Settings />
-                </Suspense>
-              }
-            />
-          </Route>
-        </Routes>
-      </Router>
-    </CurrencyProvider>
+    <AuthProvider>
+      <CurrencyProvider>
+        <VaultProvider>
+          <Router>
+            <Routes>
+              {/* Public client status page, outside the admin layout */}
+              <Route
+                path="/status/:token"
+                element={
+                  <Suspense fallback={<PageLoader />}>
+                    <ClientStatus />
+                  </Suspense>
+                }
+              />
+              <Route
+                path="/login"
+                element={
+                  <Suspense fallback={<PageLoader />}>
+                    <Login />
+                  </Suspense>
+                }
+              />
+              <Route
+                path="/"
+                element={
+                  <RequireAuth>
+                    <ProvidersProvider>
+                      <Layout />
+                    </ProvidersProvider>
+                  </RequireAuth>
+                }
+              >
+                <Route
+                  index
+                  element={
+                    <Suspense fallback={<PageLoader />}>
+                      <Dashboard />
+                    </Suspense>
+                  }
+                />
+                <Route
+                  path="services"
+                  element={
+                    <Suspense fallback={<PageLoader />}>
+                      <ServicesManager />
+                    </Suspense>
+                  }
+                />
+                <Route
+                  path="transactions"
+                  element={
+                    <Suspense fallback={<PageLoader />}>
+                      <Transactions />
+                    </Suspense>
+                  }
+                />
+                <Route
+                  path="subscriptions"
+                  element={
+                    <Suspense fallback={<PageLoader />}>
+                      <Subscriptions />
+                    </Suspense>
+                  }
+                />
+                <Route
+                  path="inventory"
+                  element={
+                    <Suspense fallback={<PageLoader />}>
+                      <Inventory />
+                    </Suspense>
+                  }
+                />
+                <Route
+                  path="reports"
+                  element={
+                    <Suspense fallback={<PageLoader />}>
+                      <Reports />
+                    </Suspense>
+                  }
+                />
+                <Route
+                  path="cashflow"
+                  element={
+                    <Suspense fallback={<PageLoader />}>
+                      <CashFlow />
+                    </Suspense>
+                  }
+                />
+                <Route
+                  path="clients"
+                  element={
+                    <Suspense fallback={<PageLoader />}>
+                      <Clients />
+                    </Suspense>
+                  }
+                />
+                <Route
+                  path="settings"
+                  element={
+                    <Suspense fallback={<PageLoader />}>
+                      <Settings />
+                    </Suspense>
+                  }
+                />
+              </Route>
+            </Routes>
+          </Router>
+        </VaultProvider>
+      </CurrencyProvider>
+    </AuthProvider>
   );
 }
 
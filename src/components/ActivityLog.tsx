@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import { History, RefreshCw } from 'lucide-react';
+import { auditLogDb, AUDIT_ENTITY_LABELS } from '../lib/auditLog';
+import { operatorsDb } from '../lib/operators';
+import { getStartOfDayInTunisia } from '../lib/dateUtils';
+import type { AuditEntityType, AuditLogEntry, AuditLogFilter, Operator } from '../types/operator';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+const PAGE_SIZE = 200;
+
+const formatAction = (action: string) => action.replace(/_/g, ' ');
+
+const formatDateTime = (isoString: string) =>
+  new Date(isoString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// Compact one-line summary of the entry's details
+const summarizeDetails = (details: Record<string, unknown>): string => {
+  return Object.entries(details)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .slice(0, 4)
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+    .join(' · ');
+};
+
+export default function ActivityLog() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [operators, setOperators] = useState<Operator[]>([]);
+  const [filter, setFilter] = useState<AuditLogFilter>({});
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    operatorsDb.getAll().then(setOperators).catch(error => {
+      console.error('Error loading operators:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setLoading(true);
+      try {
+        const to = toDate ? new Date(getStartOfDayInTunisia(new Date(toDate)).getTime() + 24 * 60 * 60 * 1000) : null;
+        setEntries(await auditLogDb.list({
+          ...filter,
+          from: fromDate ? getStartOfDayInTunisia(new Date(fromDate)).toISOString() : undefined,
+          to: to ? to.toISOString() : undefined,
+        }, PAGE_SIZE));
+      } catch (error) {
+        console.error('Error loading activity log:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [filter, fromDate, toDate, refreshKey]);
+
+  const operatorNames = new Map(
+    operators.filter(op => op.user_id).map(op => [op.user_id as string, op.display_name || op.email])
+  );
+
+  const selectClassName = 'mt-2 w-full px-3 py-2 bg-secondary border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5 text-muted-foreground" />
+          <h3 className="text-lg font-semibold text-foreground">Activity</h3>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setRefreshKey(key => key + 1)} title="Refresh">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+        <div>
+          <Label className="text-muted-foreground">Operator</Label>
+          <select
+            value={filter.actorId || ''}
+            onChange={(e) => setFilter(prev => ({ ...prev, actorId: e.target.value || undefined }))}
+            className={selectClassName}
+          >
+            <option value="">Everyone</option>
+            {operators.filter(op => op.user_id).map(op => (
+              <option key={op.id} value={op.user_id as string}>{op.display_name || op.email}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label className="text-muted-foreground">Type</Label>
+          <select
+            value={filter.entityType || ''}
+            onChange={(e) => setFilter(prev => ({ ...prev, entityType: (e.target.value || undefined) as AuditEntityType | undefined }))}
+            className={selectClassName}
+          >
+            <option value="">All types</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(type => (
+              <option key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label className="text-muted-foreground">From</Label>
+          <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="mt-2" />
+        </div>
+        <div>
+          <Label className="text-muted-foreground">To</Label>
+          <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="mt-2" />
+        </div>
+      </div>
+
+      {!loading && entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">No activity matches these filters.</p>
+      ) : (
+        <div className="divide-y divide-border border border-border rounded-lg overflow-hidden">
+          {entries.map(entry => (
+            <div key={entry.id} className="p-3 bg-secondary/20 text-sm">
+              <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                <span className="text-foreground font-medium">
+                  {(entry.actor_id && operatorNames.get(entry.actor_id)) || entry.actor_email || 'Unknown'}
+                </span>
+                <span className="text-muted-foreground">{formatAction(entry.action)}</span>
+                <span className="px-2 py-0.5 bg-secondary text-muted-foreground rounded text-xs">
+                  {AUDIT_ENTITY_LABELS[entry.entity_type] || entry.entity_type}
+                </span>
+                <span className="ml-auto text-xs text-muted-foreground">{formatDateTime(entry.created_at)}</span>
+              </div>
+              {(entry.entity_id || Object.keys(entry.details || {}).length > 0) && (
+                <p className="mt-1 text-xs text-muted-foreground break-all">
+                  {entry.entity_id && <span className="font-mono">{entry.entity_id.slice(0, 8)} </span>}
+                  {summarizeDetails(entry.details || {})}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {entries.length >= PAGE_SIZE && (
+        <p className="text-xs text-muted-foreground">Showing the latest {PAGE_SIZE} entries. Narrow the filters to see older activity.</p>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,15 @@
 import React from 'react';
 import { Calendar, Mail, User, Package, Clock } from 'lucide-react';
 import { AssignmentWithDetails } from '../types/inventory';
-import { PROVIDER_ICONS, POOL_TYPE_LABELS, STATUS_LABELS } from '../constants/provisioning';
-import { getProviderLogo } from '../lib/fileUtils';
+import { POOL_TYPE_LABELS, STATUS_LABELS } from '../constants/provisioning';
+import { useProviders } from '../lib/useProviders';
 
 interface AssignmentCardProps {
   assignment: AssignmentWithDetails;
 }
 
 export function AssignmentCard({ assignment }: AssignmentCardProps) {
+  const { getProviderName, getProviderIcon, getProviderLogoUrl } = useProviders();
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -59,7 +60,7 @@ export function AssignmentCard({ assignment }: AssignmentCardProps) {
           <div className="flex items-center gap-2 sm:gap-3 min-w-0 flex-1">
             <div className="w-6 h-6 sm:w-8 sm:h-8 lg:w-10 lg:h-10 bg-gray-700 rounded-lg overflow-hidden flex items-center justify-center flex-shrink-0">
               {(() => {
-                const providerLogo = getProviderLogo(assignment.resource_pools.provider);
+                const providerLogo = getProviderLogoUrl(assignment.resource_pools.provider);
                 return providerLogo ? (
                   <img 
                     src={providerLogo} 
@@ -76,8 +77,8 @@ export function AssignmentCard({ assignment }: AssignmentCardProps) {
                   />
                 ) : null;
               })()}
-              <div className={`w-full h-full flex items-center justify-center text-sm sm:text-lg ${getProviderLogo(assignment.resource_pools.provider) ? 'hidden' : ''}`}>
-                {PROVIDER_ICONS[assignment.resource_pools.provider] || '📦'}
+              <div className={`w-full h-full flex items-center justify-center text-sm sm:text-lg ${getProviderLogoUrl(assignment.resource_pools.provider) ? 'hidden' : ''}`}>
+                {getProviderIcon(assignment.resource_pools.provider)}
               </div>
             </div>
             <div className="min-w-0 flex-1">
@@ -85,7 +86,7 @@ export function AssignmentCard({ assignment }: AssignmentCardProps) {
                 Seat #{assignment.seat_index}
               </h3>
               <p className="text-xs sm:text-sm text-gray-400 truncate">
-                {assignment.resource_pools.provider.replace('_', ' ').toUpperCase()}
+                {getProviderName(assignment.resource_pools.provider).toUpperCase()}
               </p>
             </div>
           </div>
@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import { Wallet, Plus } from 'lucide-react';
+import type { Client } from '../types/client';
+import type { ClientCreditEntry, CreditEntryKind } from '../types/credit';
+import { clientCreditDb } from '../lib/clientCredit';
+import { clientsDb } from '../lib/clients';
+import { useCurrency } from '../lib/currency';
+import { toast } from '../lib/toast';
+import { CREDIT_ENTRY_KIND_LABELS } from '../constants/credit';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface ClientCreditSectionProps {
+  client: Client;
+  onClientUpdated?: (client: Client) => void;
+}
+
+// Only these are entered by hand; consumption and store credit come from orders and refunds
+type ManualKind = Extract<CreditEntryKind, 'deposit' | 'adjustment'>;
+
+export default function ClientCreditSection({ client, onClientUpdated }: ClientCreditSectionProps) {
+  const { currency, exchangeRate, formatCurrency } = useCurrency();
+  const [ledger, setLedger] = useState<ClientCreditEntry[]>([]);
+  const [kind, setKind] = useState<ManualKind>('deposit');
+  const [amount, setAmount] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    clientCreditDb.getLedger(client.id)
+      .then(setLedger)
+      .catch(error => {
+        console.error('Error loading credit ledger:', error);
+        setLedger([]);
+      });
+  }, [client.id]);
+
+  const handleAdd = async () => {
+    const value = parseFloat(amount) || 0;
+    // Deposits add credit; adjustments may go either way
+    if (value === 0 || (kind === 'deposit' && value < 0)) {
+      alert(kind === 'deposit' ? 'Enter the amount deposited' : 'Enter a non-zero adjustment');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Stored in USD; convert what was typed in the display currency
+      await clientCreditDb.addEntry({
+        client_id: client.id,
+        kind,
+        amount: currency === 'TND' ? value / exchangeRate : value,
+        notes: notes.trim() || null
+      });
+      const [updatedLedger, updatedClient] = await Promise.all([
+        clientCreditDb.getLedger(client.id),
+        clientsDb.getById(client.id)
+      ]);
+      setLedger(updatedLedger);
+      onClientUpdated?.(updatedClient);
+      setAmount('');
+      setNotes('');
+      toast.show(`${CREDIT_ENTRY_KIND_LABELS[kind]} recorded`, { type: 'success' });
+    } catch (error) {
+      console.error('Error adding credit entry:', error);
+      alert(`Failed to record ${CREDIT_ENTRY_KIND_LABELS[kind].toLowerCase()}: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-secondary/30 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Wallet className="h-4 w-4 text-muted-foreground" />
+          <Label className="text-muted-foreground">Credit</Label>
+        </div>
+        <span className={`text-sm font-medium ${(client.credit_balance || 0) < 0 ? 'text-red-400' : 'text-foreground'}`}>
+          {formatCurrency(client.credit_balance || 0)}
+        </span>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as ManualKind)}
+          className="px-3 py-2 bg-secondary border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          <option value="deposit">{CREDIT_ENTRY_KIND_LABELS.deposit}</option>
+          <option value="adjustment">{CREDIT_ENTRY_KIND_LABELS.adjustment}</option>
+        </select>
+        <Input
+          type="number"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={`Amount (${currency})`}
+          className="w-32"
+        />
+        <Input
+          type="text"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Note"
+          className="flex-1"
+        />
+        <Button type="button" variant="secondary" size="icon" onClick={handleAdd} disabled={isSaving} title="Add">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {ledger.length > 0 && (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {ledger.map(entry => (
+            <div key={entry.id} className="flex justify-between gap-3 text-xs">
+              <span className="text-muted-foreground">
+                {new Date(entry.created_at).toLocaleDateString()} · {CREDIT_ENTRY_KIND_LABELS[entry.kind]}
+                {entry.notes && ` · ${entry.notes}`}
+              </span>
+              <span className={entry.amount < 0 ? 'text-red-400' : 'text-green-400'}>
+                {entry.amount > 0 ? '+' : '-'}{formatCurrency(Math.abs(entry.amount))}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,17 @@
 import { useState, useEffect, useRef } from 'react';
-import { X } from 'lucide-react';
+import { X, Link, Copy, RefreshCw, Ban, History } from 'lucide-react';
 import type { Client } from '../types/client';
+import type { Transaction } from '../lib/supabase';
 import { shouldIgnoreKeyboardEvent } from '../lib/useKeyboardShortcuts';
+import { clientsDb, getStatusPageUrl } from '../lib/clients';
+import { copyToClipboard } from '../lib/toast';
+import { useCurrency } from '../lib/currency';
+import { REFUND_KIND_LABELS } from '../constants/refunds';
+import ClientCreditSection from './ClientCreditSection';
+import SearchableDropdown from './SearchableDropdown';
+import { priceListsDb } from '../lib/priceLists';
+import { RETAIL_PRICE_LIST_LABEL } from '../constants/priceLists';
+import type { PriceList } from '../types/priceList';
 
 // shadcn/ui components
 import { Button } from '@/components/ui/button';
@@ -14,9 +24,11 @@ interface ClientModalProps {
     onClose: () => void;
     onSave: (client: Omit<Client, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
     initialData?: Client;
+    onClientUpdated?: (client: Client) => void;
 }
 
-export default function ClientModal({ open, onClose, onSave, initialData }: ClientModalProps) {
+export default function ClientModal({ open, onClose, onSave, initialData, onClientUpdated }: ClientModalProps) {
+    const { formatCurrency } = useCurrency();
     const [formData, setFormData] = useState({
         name: '',
         type: 'client' as 'client' | 'reseller',
@@ -24,8 +36,14 @@ export default function ClientModal({ open, onClose, onSave, initialData }: Clie
         telegram: '',
         discord: '',
         notes: '',
-        source: ''
+        source: '',
+        price_list_id: ''
     });
+    const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+
+    const [statusToken, setStatusToken] = useState<string | null>(null);
+    const [isUpdatingToken, setIsUpdatingToken] = useState(false);
+    const [history, setHistory] = useState<Transaction[]>([]);
 
     // Track if modal was previously open to avoid resetting on browser tab switch
     const wasOpen = useRef(false);
@@ -46,14 +64,42 @@ export default function ClientModal({ open, onClose, onSave, initialData }: Clie
                 telegram: initialData?.telegram ?? '',
                 discord: initialData?.discord ?? '',
                 notes: initialData?.notes ?? '',
-                source: initialData?.source ?? ''
+                source: initialData?.source ?? '',
+                price_list_id: initialData?.price_list_id ?? ''
             });
+            setStatusToken(initialData?.status_token ?? null);
             lastInitialDataId.current = initialData?.id ?? null;
         }
 
         wasOpen.current = open;
     }, [open, initialData]);
 
+    useEffect(() => {
+        if (!open) return;
+
+        priceListsDb.getAll()
+            .then(setPriceLists)
+            .catch(error => {
+                console.error('Error loading price lists:', error);
+                setPriceLists([]);
+            });
+    }, [open]);
+
+    // Purchase history of an existing client
+    useEffect(() => {
+        if (!open || !initialData) {
+            setHistory([]);
+            return;
+        }
+
+        clientsDb.getHistory(initialData.id)
+            .then(setHistory)
+            .catch(error => {
+                console.error('Error loading client history:', error);
+                setHistory([]);
+            });
+    }, [open, initialData]);
+
     // Keyboard shortcuts: Enter to save, Escape to close
     useEffect(() => {
         if (!open) return;
@@ -85,7 +131,7 @@ export default function ClientModal({ open, onClose, onSave, initialData }: Clie
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         try {
-            await onSave(formData);
+            await onSave({ ...formData, price_list_id: formData.price_list_id || null });
             onClose();
         } catch (error: any) {
             console.error('Error in client modal:', error);
@@ -93,6 +139,40 @@ export default function ClientModal({ open, onClose, onSave, initialData }: Clie
         }
     };
 
+    const handleRegenerateToken = async () => {
+        if (!initialData) return;
+        if (statusToken && !confirm('Regenerate the status page link? The current link will stop working.')) return;
+
+        setIsUpdatingToken(true);
+        try {
+            const updated = await clientsDb.regenerateStatusToken(initialData.id);
+            setStatusToken(updated.status_token ?? null);
+            onClientUpdated?.(updated);
+        } catch (error) {
+            console.error('Error regenerating status token:', error);
+            alert((error as Error).message || 'Failed to generate status page link');
+        } finally {
+            setIsUpdatingToken(false);
+        }
+    };
+
+    const handleRevokeToken = async () => {
+        if (!initialData) return;
+        if (!confirm('Revoke the status page link? The client will no longer be able to open it.')) return;
+
+        setIsUpdatingToken(true);
+        try {
+            const updated = await clientsDb.revokeStatusToken(initialData.id);
+            setStatusToken(null);
+            onClientUpdated?.(updated);
+        } catch (error) {
+            console.error('Error revoking status token:', error);
+            alert((error as Error).message || 'Failed to revoke status page link');
+        } finally {
+            setIsUpdatingToken(false);
+        }
+    };
+
     if (!open) return null;
 
     return (
@@ -135,6 +215,20 @@ export default function ClientModal({ open, onClose, onSave, initialData }: Clie
                         </div>
                     </div>
 
+                    <div>
+                        <SearchableDropdown
+                            label="Price List"
+                            options={[
+                                { value: '', label: `${RETAIL_PRICE_LIST_LABEL} (service prices)` },
+                                ...priceLists.map(list => ({ value: list.id, label: list.name }))
+                            ]}
+                            value={formData.price_list_id}
+                            onChange={value => setFormData(prev => ({ ...prev, price_list_id: value }))}
+                            placeholder={RETAIL_PRICE_LIST_LABEL}
+                            allowClear={false}
+                        />
+                    </div>
+
                     <div>
                         <Label htmlFor="name" className="text-muted-foreground">Name</Label>
                         <Input
@@ -208,6 +302,95 @@ export default function ClientModal({ open, onClose, onSave, initialData }: Clie
                             onChange={e => setFormData(prev => ({ ...prev, notes: e.target.value }))}
                         />
                     </div>
+                    {initialData && (
+                        <div className="p-4 bg-secondary/30 rounded-lg space-y-3">
+                            <div className="flex items-center gap-2">
+                                <Link className="h-4 w-4 text-muted-foreground" />
+                                <Label className="text-muted-foreground">Status Page Link</Label>
+                            </div>
+                            {statusToken ? (
+                                <>
+                                    <div className="flex gap-2">
+                                        <Input
+                                            type="text"
+                                            readOnly
+                                            value={getStatusPageUrl(statusToken)}
+                                            className="text-xs"
+                                            onFocus={e => e.target.select()}
+                                        />
+                                        <Button
+                                            type="button"
+                                            variant="secondary"
+                                            size="icon"
+                                            onClick={() => copyToClipboard(getStatusPageUrl(statusToken), 'Status page link copied')}
+                                            title="Copy link"
+                                        >
+                                            <Copy className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button type="button" variant="secondary" size="sm" onClick={handleRegenerateToken} disabled={isUpdatingToken}>
+                                            <RefreshCw className="h-4 w-4 mr-2" />
+                                            Regenerate
+                                        </Button>
+                                        <Button type="button" variant="destructive" size="sm" onClick={handleRevokeToken} disabled={isUpdatingToken}>
+                                            <Ban className="h-4 w-4 mr-2" />
+                                            Revoke
+                                        </Button>
+                                    </div>
+                                </>
+                            ) : (
+                                <div className="flex items-center justify-between gap-3">
+                                    <p className="text-sm text-muted-foreground">
+                                        Share a read-only page where this client can check their subscriptions.
+                                    </p>
+                                    <Button type="button" variant="secondary" size="sm" onClick={handleRegenerateToken} disabled={isUpdatingToken}>
+                                        Generate Link
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {initialData && (
+                        <ClientCreditSection client={initialData} onClientUpdated={onClientUpdated} />
+                    )}
+
+                    {initialData && (
+                        <div className="p-4 bg-secondary/30 rounded-lg space-y-3">
+                            <div className="flex items-center gap-2">
+                                <History className="h-4 w-4 text-muted-foreground" />
+                                <Label className="text-muted-foreground">History</Label>
+                            </div>
+                            {history.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">No purchases yet.</p>
+                            ) : (
+                                <div className="space-y-2 max-h-60 overflow-y-auto">
+                                    {history.map(sale => (
+                                        <div key={sale.id} className="text-sm">
+                                            <div className="flex justify-between gap-3">
+                                                <span className="text-foreground">
+                                                    {sale.services?.product_service || 'Sale'}
+                                                    <span className="text-muted-foreground"> · {new Date(sale.date).toLocaleDateString()}</span>
+                                                </span>
+                                                <span className="text-foreground">{formatCurrency(sale.selling_price)}</span>
+                                            </div>
+                                            {(sale.transaction_refunds || []).map(refund => (
+                                                <div key={refund.id} className="flex justify-between gap-3 text-xs text-red-400 pl-3">
+                                                    <span>
+                                                        {REFUND_KIND_LABELS[refund.kind]} · {new Date(refund.date).toLocaleDateString()}
+                                                        {refund.reason && ` · ${refund.reason}`}
+                                                    </span>
+                                                    <span>-{formatCurrency(refund.amount)}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     <div className="flex gap-3 pt-6 border-t border-border">
                         <Button type="submit" className="flex-1">
                             Save Client
@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { KeyRound, Lock, Unlock } from 'lucide-react';
+import { isVaultInitialized, encryptExistingSecrets, countPlaintextSecrets, VAULT_INACTIVITY_TIMEOUT_MS } from '../lib/credentialVault';
+import { useVault } from '../lib/useVault';
+import { toast } from '../lib/toast';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+export default function CredentialEncryptionSettings() {
+  const { isUnlocked, requestUnlock, lock } = useVault();
+  const [initialized, setInitialized] = useState<boolean | null>(null);
+  const [plaintextCount, setPlaintextCount] = useState<number | null>(null);
+  const [isMigrating, setIsMigrating] = useState(false);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        const [vaultReady, count] = await Promise.all([isVaultInitialized(), countPlaintextSecrets()]);
+        setInitialized(vaultReady);
+        setPlaintextCount(count);
+      } catch (error) {
+        console.error('Error loading credential encryption status:', error);
+      }
+    };
+
+    fetchStatus();
+  }, [isUnlocked]);
+
+  const handleUnlock = async () => {
+    if (await requestUnlock()) {
+      setInitialized(true);
+    }
+  };
+
+  const handleEncryptExisting = async () => {
+    if (!(await requestUnlock())) return;
+
+    setIsMigrating(true);
+    try {
+      const { pools, personalAccounts } = await encryptExistingSecrets();
+      setPlaintextCount(await countPlaintextSecrets());
+      toast.show(`Encrypted ${pools} pool and ${personalAccounts} account passwords`, { type: 'success' });
+    } catch (error) {
+      console.error('Error encrypting existing credentials:', error);
+      alert(`Failed to encrypt credentials: ${(error as Error).message}`);
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const timeoutMinutes = Math.round(VAULT_INACTIVITY_TIMEOUT_MS / 60000);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <KeyRound className="h-5 w-5 text-muted-foreground" />
+        <h3 className="text-lg font-semibold text-foreground">Credential Encryption</h3>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Pool and personal-account passwords are encrypted in the browser with your passphrase before they are saved.
+        Unlocked credentials lock again after {timeoutMinutes} minutes of inactivity.
+      </p>
+
+      <div className="p-4 bg-secondary/30 rounded-lg flex items-center justify-between gap-4">
+        <div>
+          <p className="text-foreground font-medium">Passphrase</p>
+          <div className="mt-2">
+            {initialized === false ? (
+              <Badge variant="warning">Not set up</Badge>
+            ) : isUnlocked ? (
+              <Badge variant="success">Unlocked</Badge>
+            ) : (
+              <Badge variant="secondary">Locked</Badge>
+            )}
+          </div>
+        </div>
+        {isUnlocked ? (
+          <Button variant="secondary" size="sm" onClick={lock}>
+            <Lock className="h-4 w-4 mr-2" />
+            Lock now
+          </Button>
+        ) : (
+          <Button variant="secondary" size="sm" onClick={handleUnlock} disabled={initialized === null}>
+            <Unlock className="h-4 w-4 mr-2" />
+            {initialized === false ? 'Set passphrase' : 'Unlock'}
+          </Button>
+        )}
+      </div>
+
+      <div className="p-4 bg-secondary/30 rounded-lg flex items-center justify-between gap-4">
+        <div>
+          <p className="text-foreground font-medium">Existing passwords</p>
+          <p className="text-sm text-muted-foreground">
+            {plaintextCount === null
+              ? 'Checking...'
+              : plaintextCount === 0
+                ? 'All stored passwords are encrypted'
+                : `${plaintextCount} password${plaintextCount === 1 ? ' is' : 's are'} still stored in plain text`}
+          </p>
+        </div>
+        <Button size="sm" onClick={handleEncryptExisting} disabled={isMigrating || !plaintextCount}>
+          {isMigrating ? 'Encrypting...' : 'Encrypt existing credentials'}
+        </Button>
+      </div>
+    </div>
+  );
+}
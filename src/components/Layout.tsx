@@ -11,13 +11,18 @@ import {
   X,
   Clock,
   Archive,
-  TrendingUp
+  TrendingUp,
+  LogOut,
+  ShieldOff
 } from 'lucide-react';
 import CurrencyToggle from './CurrencyToggle';
+import { useAuth } from '../lib/useAuth';
+import { canAccessPage, OPERATOR_ROLE_LABELS } from '../lib/operators';
 import { Button } from '@/components/ui/button';
 
 export default function Layout() {
   const location = useLocation();
+  const { user, role, signOut } = useAuth();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
   // Close sidebar when route changes
@@ -51,12 +56,23 @@ export default function Layout() {
     { name: 'Cash Flow', href: '/cashflow', icon: TrendingUp },
     { name: 'Clients', href: '/clients', icon: Users },
     { name: 'Settings', href: '/settings', icon: Settings },
-  ];
+  ].filter(item => canAccessPage(role, item.href));
+
+  const canViewPage = canAccessPage(role, location.pathname);
 
   const closeSidebar = () => {
     setSidebarOpen(false);
   };
 
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+      alert(`Failed to sign out: ${(error as Error).message}`);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background flex">
       {/* Mobile Menu Button */}
@@ -122,7 +138,7 @@ export default function Layout() {
 
         {/* Navigation */}
         <nav className="px-3 pb-4 overflow-y-auto" style={{
-          height: 'calc(100vh - 80px - env(safe-area-inset-top) - 0.5rem)',
+          height: 'calc(100vh - 80px - 72px - env(safe-area-inset-top) - 0.5rem)',
           paddingTop: '1rem'
         }}>
           {navigation.map((item) => {
@@ -146,6 +162,28 @@ export default function Layout() {
             );
           })}
         </nav>
+
+        {/* Signed-in operator */}
+        <div className="absolute bottom-0 left-0 right-0 px-3 py-3 border-t border-border bg-card" style={{
+          paddingBottom: `calc(0.75rem + env(safe-area-inset-bottom))`
+        }}>
+          <div className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-xs text-foreground" title={user?.email}>{user?.email}</p>
+              {role && <p className="text-xs text-muted-foreground">{OPERATOR_ROLE_LABELS[role]}</p>}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleSignOut}
+              className="min-h-[44px]"
+              aria-label="Sign out"
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </Button>
+          </div>
+        </div>
       </div>
 
       {/* Main Content */}
@@ -169,7 +207,15 @@ export default function Layout() {
             </div>
           )}
 
-          <Outlet />
+          {canViewPage ? (
+            <Outlet />
+          ) : (
+            <div className="flex flex-col items-center justify-center py-24 text-center">
+              <ShieldOff className="h-10 w-10 text-muted-foreground mb-4" />
+              <p className="text-foreground font-medium">You don't have access to this page</p>
+              <p className="text-sm text-muted-foreground mt-1">Ask the owner if you need it for your role.</p>
+            </div>
+          )}
         </main>
       </div>
 
@@ -2,8 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { Archive, Users, AlertTriangle, CheckCircle } from 'lucide-react';
 import { ResourcePool } from '../types/inventory';
 import { getAvailablePoolsForService, getAvailableSeatsInPool, linkSubscriptionToPool, assignSeat, assignNextFreeSeat } from '../lib/inventory';
-import { SERVICE_PROVISIONING, PROVIDER_ICONS, POOL_TYPE_LABELS } from '../constants/provisioning';
-import { getProviderLogo } from '../lib/fileUtils';
+import { POOL_TYPE_LABELS } from '../constants/provisioning';
+import { useProviders } from '../lib/useProviders';
 import SearchableDropdown from './SearchableDropdown';
 
 interface LinkResourceSectionProps {
@@ -29,9 +29,11 @@ export function LinkResourceSection({
   const [selectedSeatId, setSelectedSeatId] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const { getProvider, getProviderIcon, getProviderLogoUrl } = useProviders();
 
-  // Check if this service has inventory tracking
-  const hasInventory = SERVICE_PROVISIONING[serviceProvider] !== null;
+  // Check if this service has inventory tracking; providers missing from the catalog are still looked up
+  const catalogProvider = getProvider(serviceProvider);
+  const hasInventory = !catalogProvider || catalogProvider.pool_type !== null;
 
   useEffect(() => {
     if (hasInventory && serviceProvider) {
@@ -209,8 +211,8 @@ export function LinkResourceSection({
   }
 
   const poolOptions = availablePools.map(pool => {
-    const providerLogo = getProviderLogo(pool.provider);
-    const displayIcon = providerLogo ? '🖼️' : (PROVIDER_ICONS[pool.provider] || '📦');
+    const providerLogo = getProviderLogoUrl(pool.provider);
+    const displayIcon = providerLogo ? '🖼️' : getProviderIcon(pool.provider);
     return {
       value: pool.id,
       label: `${displayIcon} ${pool.login_email} (${pool.used_seats}/${pool.max_seats} seats) - ${getTimeUntilExpiry(pool.end_at)}`
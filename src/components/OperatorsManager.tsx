@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import { UserCog, Trash2 } from 'lucide-react';
+import { operatorsDb, OPERATOR_ROLE_LABELS, OPERATOR_ROLE_DESCRIPTIONS } from '../lib/operators';
+import { useAuth } from '../lib/useAuth';
+import { toast } from '../lib/toast';
+import type { Operator, OperatorRole } from '../types/operator';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+
+const ROLES: OperatorRole[] = ['owner', 'sales', 'inventory'];
+
+export default function OperatorsManager() {
+  const { operator: currentOperator } = useAuth();
+  const [operators, setOperators] = useState<Operator[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OperatorRole>('sales');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchOperators = async () => {
+      try {
+        setOperators(await operatorsDb.getAll());
+      } catch (error) {
+        console.error('Error loading operators:', error);
+      }
+    };
+
+    fetchOperators();
+  }, []);
+
+  const ownerCount = operators.filter(op => op.role === 'owner').length;
+  const isLastOwner = (op: Operator) => op.role === 'owner' && ownerCount <= 1;
+
+  const handleInvite = async () => {
+    if (!/\S+@\S+\.\S+/.test(email)) {
+      alert('Please enter a valid email address');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const created = await operatorsDb.invite(email, role);
+      setOperators(prev => [...prev, created]);
+      setEmail('');
+      toast.show('Operator added', { type: 'success' });
+    } catch (error) {
+      console.error('Error adding operator:', error);
+      alert(`Failed to add operator: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRoleChange = async (op: Operator, nextRole: OperatorRole) => {
+    if (isLastOwner(op) && nextRole !== 'owner') {
+      alert('There must always be at least one owner');
+      return;
+    }
+
+    try {
+      const updated = await operatorsDb.updateRole(op.id, nextRole);
+      setOperators(prev => prev.map(o => (o.id === updated.id ? updated : o)));
+    } catch (error) {
+      console.error('Error updating operator role:', error);
+      alert(`Failed to update role: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRemove = async (op: Operator) => {
+    if (isLastOwner(op)) {
+      alert('There must always be at least one owner');
+      return;
+    }
+    if (!confirm(`Remove ${op.email}? They will lose access immediately.`)) return;
+
+    try {
+      await operatorsDb.remove(op.id);
+      setOperators(prev => prev.filter(o => o.id !== op.id));
+    } catch (error) {
+      console.error('Error removing operator:', error);
+      alert(`Failed to remove operator: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <UserCog className="h-5 w-5 text-muted-foreground" />
+        <h3 className="text-lg font-semibold text-foreground">Operators</h3>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Add a teammate's email, then create their login in Supabase Auth. The role applies on their next sign-in.
+      </p>
+
+      <div className="space-y-2">
+        {operators.map(op => (
+          <div key={op.id} className="p-4 bg-secondary/30 rounded-lg flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-foreground font-medium truncate">
+                {op.display_name || op.email}
+                {op.id === currentOperator?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">{OPERATOR_ROLE_DESCRIPTIONS[op.role]}</p>
+            </div>
+            {!op.user_id && <Badge variant="warning">Invited</Badge>}
+            <select
+              value={op.role}
+              onChange={(e) => handleRoleChange(op, e.target.value as OperatorRole)}
+              className="px-3 py-2 bg-secondary border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              {ROLES.map(r => (
+                <option key={r} value={r}>{OPERATOR_ROLE_LABELS[r]}</option>
+              ))}
+            </select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleRemove(op)}
+              disabled={op.id === currentOperator?.id}
+              title="Remove operator"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          type="email"
+          placeholder="teammate@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="flex-1"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as OperatorRole)}
+          className="px-3 py-2 bg-secondary border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          {ROLES.map(r => (
+            <option key={r} value={r}>{OPERATOR_ROLE_LABELS[r]}</option>
+          ))}
+        </select>
+        <Button onClick={handleInvite} disabled={isSaving || !email}>
+          {isSaving ? 'Adding...' : 'Add operator'}
+        </Button>
+      </div>
+    </div>
+  );
+}
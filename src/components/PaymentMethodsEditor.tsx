@@ -0,0 +1,296 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Wallet, Edit, Plus, Trash2 } from 'lucide-react';
+import { paymentMethodsDb } from '../lib/paymentMethods';
+import { useCurrency } from '../lib/currency';
+import { toast } from '../lib/toast';
+import SearchableDropdown from './SearchableDropdown';
+import type { MoneyPool, MoneyPoolName } from '../types/cashflow';
+import type { PaymentMethod, PaymentMethodFormData } from '../types/paymentMethod';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// Fees are typed in the display currency, so the form keeps them as text
+const EMPTY_FORM = {
+  key: '',
+  name: '',
+  fee_fixed: '',
+  fee_percent: '',
+  pool_name: 'business_vault' as MoneyPoolName | null,
+  is_active: true,
+};
+
+const toKey = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+interface PaymentMethodsEditorProps {
+  canManage: boolean;
+  pools: MoneyPool[];
+}
+
+export default function PaymentMethodsEditor({ canManage, pools }: PaymentMethodsEditorProps) {
+  const { formatCurrency, currency, exchangeRate } = useCurrency();
+  const [methods, setMethods] = useState<PaymentMethod[]>([]);
+  // null = form closed, 'new' = adding, otherwise the method being edited
+  const [editing, setEditing] = useState<PaymentMethod | 'new' | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [keyTouched, setKeyTouched] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadMethods = useCallback(async () => {
+    try {
+      setMethods(await paymentMethodsDb.getAll());
+    } catch (error) {
+      console.error('Error loading payment methods:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMethods();
+  }, [loadMethods]);
+
+  const getPoolLabel = (poolName: MoneyPoolName) => pools.find(p => p.name === poolName)?.display_name || poolName;
+
+  const openForm = (method: PaymentMethod | 'new') => {
+    setEditing(method);
+    setKeyTouched(method !== 'new');
+    setForm(method === 'new' ? EMPTY_FORM : {
+      key: method.key,
+      name: method.name,
+      fee_fixed: String(currency === 'TND' ? Number(method.fee_fixed) * exchangeRate : Number(method.fee_fixed)),
+      fee_percent: String(method.fee_percent),
+      pool_name: method.pool_name,
+      is_active: method.is_active,
+    });
+  };
+
+  const handleSave = async () => {
+    const feeFixed = parseFloat(form.fee_fixed || '0');
+    const feePercent = parseFloat(form.fee_percent || '0');
+    const data: PaymentMethodFormData = {
+      key: form.key.trim(),
+      name: form.name.trim(),
+      // Fees are stored in USD; convert what was typed in the display currency
+      fee_fixed: currency === 'TND' ? feeFixed / exchangeRate : feeFixed,
+      fee_percent: feePercent,
+      pool_name: form.pool_name,
+      is_active: form.is_active,
+    };
+    if (!data.name || !/^[a-z0-9_]+$/.test(data.key)) {
+      alert('A name and a key made of lowercase letters, digits and underscores are required');
+      return;
+    }
+    if (isNaN(feeFixed) || feeFixed < 0 || isNaN(feePercent) || feePercent < 0 || feePercent > 100) {
+      alert('Fees must be positive and the percentage at most 100%');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editing === 'new') {
+        await paymentMethodsDb.create(data);
+      } else if (editing) {
+        await paymentMethodsDb.update(editing.id, {
+          name: data.name,
+          fee_fixed: data.fee_fixed,
+          fee_percent: data.fee_percent,
+          pool_name: data.pool_name,
+          is_active: data.is_active,
+        });
+      }
+      await loadMethods();
+      setEditing(null);
+      toast.show('Payment method saved', { type: 'success' });
+    } catch (error) {
+      console.error('Error saving payment method:', error);
+      alert(`Failed to save payment method: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (method: PaymentMethod) => {
+    if (!confirm(`Delete ${method.name}? Past sales keep their fee but lose the method; switch it off instead to keep them tagged.`)) return;
+
+    try {
+      await paymentMethodsDb.remove(method.id);
+      await loadMethods();
+    } catch (error) {
+      console.error('Error deleting payment method:', error);
+      alert(`Failed to delete payment method: ${(error as Error).message}`);
+    }
+  };
+
+  const formatFee = (method: PaymentMethod) => {
+    const parts = [
+      Number(method.fee_percent) > 0 ? `${Number(method.fee_percent)}%` : null,
+      Number(method.fee_fixed) > 0 ? formatCurrency(Number(method.fee_fixed)) : null,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' + ') : 'No fee';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Wallet className="h-5 w-5 text-muted-foreground" />
+          <h3 className="text-lg font-semibold text-foreground">Payment Methods</h3>
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={() => openForm('new')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Method
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Money collected on a sale is credited to the method's pool, less its fee.
+      </p>
+
+      {editing && (
+        <div className="p-4 bg-secondary/30 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label className="text-muted-foreground">Name</Label>
+              <Input
+                className="mt-2"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({
+                  ...prev,
+                  name: e.target.value,
+                  key: keyTouched ? prev.key : toKey(e.target.value),
+                }))}
+                placeholder="Flouci"
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Key</Label>
+              <Input
+                className="mt-2 font-mono"
+                value={form.key}
+                onChange={(e) => {
+                  setKeyTouched(true);
+                  setForm(prev => ({ ...prev, key: e.target.value }));
+                }}
+                // Sales store the key, so it is fixed once created
+                disabled={editing !== 'new'}
+                placeholder="flouci"
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Fee (%)</Label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                className="mt-2"
+                value={form.fee_percent}
+                onChange={(e) => setForm(prev => ({ ...prev, fee_percent: e.target.value }))}
+                placeholder="0"
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Fixed fee per payment ({currency})</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                className="mt-2"
+                value={form.fee_fixed}
+                onChange={(e) => setForm(prev => ({ ...prev, fee_fixed: e.target.value }))}
+                placeholder="0"
+              />
+            </div>
+            <div>
+              <SearchableDropdown
+                label="Credited To"
+                options={[
+                  { value: '', label: 'No pool' },
+                  ...pools.map(pool => ({ value: pool.name, label: pool.display_name }))
+                ]}
+                value={form.pool_name || ''}
+                onChange={(value) => setForm(prev => ({ ...prev, pool_name: (value || null) as MoneyPoolName | null }))}
+                placeholder="No pool"
+                allowClear={false}
+              />
+            </div>
+            <div className="flex items-center gap-2 sm:pt-8">
+              <input
+                type="checkbox"
+                id="payment-method-active"
+                checked={form.is_active}
+                onChange={(e) => setForm(prev => ({ ...prev, is_active: e.target.checked }))}
+                className="w-4 h-4 text-white bg-secondary border-border rounded focus:ring-white/20"
+              />
+              <Label htmlFor="payment-method-active" className="text-muted-foreground">Offered on new sales</Label>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setEditing(null)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : editing === 'new' ? 'Add Method' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Method</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Fee</TableHead>
+              <TableHead>Credited To</TableHead>
+              {canManage && <TableHead>Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {methods.map(method => (
+              <TableRow key={method.id} className="group">
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="text-foreground font-medium">{method.name}</span>
+                    {!method.is_active && <Badge variant="secondary">Off</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <code className="text-xs text-muted-foreground">{method.key}</code>
+                </TableCell>
+                <TableCell>
+                  <span className="text-sm text-muted-foreground">{formatFee(method)}</span>
+                </TableCell>
+                <TableCell>
+                  <span className="text-sm text-muted-foreground">
+                    {method.pool_name ? getPoolLabel(method.pool_name) : 'Not credited'}
+                  </span>
+                </TableCell>
+                {canManage && (
+                  <TableCell>
+                    <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                      <Button variant="ghost" size="icon" onClick={() => openForm(method)} className="h-8 w-8">
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(method)}
+                        className="h-8 w-8 text-muted-foreground hover:text-red-500"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
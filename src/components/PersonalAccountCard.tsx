@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { PersonalAccount } from '../types/inventory';
-import { PROVIDER_ICONS } from '../constants/provisioning';
 import { Edit, Trash2, Eye, Calendar, Mail, AlertCircle, Copy, Image } from 'lucide-react';
 import { copyToClipboard } from '../lib/toast';
-import { getProviderLogo, getProviderLogoAsync } from '../lib/fileUtils';
+import { useProviders } from '../lib/useProviders';
+import { getPersonalAccountSecret } from '../lib/inventory';
+import { useSecretReveal } from '../lib/useVault';
 
 interface PersonalAccountCardProps {
   account: PersonalAccount;
@@ -13,33 +14,14 @@ interface PersonalAccountCardProps {
 }
 
 export function PersonalAccountCard({ account, onView, onEdit, onDelete }: PersonalAccountCardProps) {
-  const [showSecret, setShowSecret] = useState(false);
+  const { secret, isShown: showSecret, toggleShow: toggleSecret, copySecret } = useSecretReveal(() => getPersonalAccountSecret(account.id));
   const [providerLogo, setProviderLogo] = useState<string | null>(null);
+  const { getProviderName, getProviderIcon, getProviderLogoUrl } = useProviders();
 
   useEffect(() => {
-    // Try to get logo synchronously first
-    const logo = getProviderLogo(account.provider);
-    setProviderLogo(logo);
-
-    // If not found, try async lookup
-    if (!logo) {
-      getProviderLogoAsync(account.provider).then(setProviderLogo).catch(() => { });
-    }
-
-    // Listen for logo updates
-    const handleLogoUpdate = () => {
-      const newLogo = getProviderLogo(account.provider);
-      if (newLogo) setProviderLogo(newLogo);
-    };
-
-    window.addEventListener('logoUpdated', handleLogoUpdate);
-    window.addEventListener('storage', handleLogoUpdate);
-
-    return () => {
-      window.removeEventListener('logoUpdated', handleLogoUpdate);
-      window.removeEventListener('storage', handleLogoUpdate);
-    };
-  }, [account.provider]);
+    // Reset after a failed load once the catalog or service logos change
+    setProviderLogo(getProviderLogoUrl(account.provider));
+  }, [account.provider, getProviderLogoUrl]);
 
   const isExpired = account.expiry_date && new Date(account.expiry_date) < new Date();
   const isExpiringSoon = account.expiry_date &&
@@ -64,9 +46,8 @@ export function PersonalAccountCard({ account, onView, onEdit, onDelete }: Perso
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
   };
 
-  const handleCopy = async (text: string, type: 'email' | 'password') => {
-    const message = type === 'email' ? 'Email copied to clipboard' : 'Password copied to clipboard';
-    await copyToClipboard(text, message);
+  const handleCopy = async (text: string) => {
+    await copyToClipboard(text, 'Email copied to clipboard');
   };
 
   return (
@@ -91,12 +72,12 @@ export function PersonalAccountCard({ account, onView, onEdit, onDelete }: Perso
               />
             ) : null}
             <div className={`w-full h-full flex items-center justify-center text-2xl ${providerLogo ? 'hidden' : ''}`}>
-              {PROVIDER_ICONS[account.provider] || '📦'}
+              {getProviderIcon(account.provider)}
             </div>
           </div>
           <div>
             <h3 className="text-lg font-semibold text-foreground capitalize">
-              {account.provider.replace('_', ' ')}
+              {getProviderName(account.provider)}
             </h3>
             <p className="text-sm text-muted-foreground flex items-center gap-1">
               <Mail className="w-3 h-3" />
@@ -134,7 +115,7 @@ export function PersonalAccountCard({ account, onView, onEdit, onDelete }: Perso
           <span className="text-xs text-muted-foreground">Email:</span>
           <span className="text-xs text-foreground font-mono flex-1 truncate">{account.login_email}</span>
           <button
-            onClick={() => handleCopy(account.login_email, 'email')}
+            onClick={() => handleCopy(account.login_email)}
             className="p-1 text-gray-400 hover:text-white transition-colors"
             aria-label="Copy email"
           >
@@ -142,21 +123,21 @@ export function PersonalAccountCard({ account, onView, onEdit, onDelete }: Perso
           </button>
         </div>
 
-        {account.login_secret && (
+        {account.has_login_secret && (
           <div className="flex items-center gap-2">
             <span className="text-xs text-muted-foreground">Password:</span>
             <span className="text-xs text-foreground font-mono flex-1 truncate">
-              {showSecret ? account.login_secret : '••••••••'}
+              {showSecret ? secret : '••••••••'}
             </span>
             <button
-              onClick={() => setShowSecret(!showSecret)}
+              onClick={toggleSecret}
               className="p-1 text-gray-400 hover:text-white transition-colors"
               aria-label="Toggle password visibility"
             >
               <Eye className="w-3 h-3" />
             </button>
             <button
-              onClick={() => handleCopy(account.login_secret || '', 'password')}
+              onClick={copySecret}
               className="p-1 text-gray-400 hover:text-white transition-colors"
               aria-label="Copy password"
             >
@@ -5,7 +5,10 @@ import { createPersonalAccount, updatePersonalAccount } from '../lib/inventory';
 import { toast } from '../lib/toast';
 import SearchableDropdown from './SearchableDropdown';
 import { formatDateForInput } from '../lib/dateUtils';
-import { getProvidersByServiceType } from '../lib/fileUtils';
+import { providersDb } from '../lib/providerCatalog';
+import type { Provider } from '../types/provider';
+import { encryptSecret } from '../lib/credentialVault';
+import { useVault } from '../lib/useVault';
 
 interface PersonalAccountFormModalProps {
   isOpen: boolean;
@@ -22,6 +25,7 @@ export function PersonalAccountFormModal({
   onAccountUpdated,
   account
 }: PersonalAccountFormModalProps) {
+  const { requestUnlock } = useVault();
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState<CreatePersonalAccountData>({
     provider: '',
@@ -31,7 +35,7 @@ export function PersonalAccountFormModal({
     expiry_date: '',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [providers, setProviders] = useState<string[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
 
   // Track if modal was previously open to avoid resetting on browser tab switch
   const wasOpen = useRef(false);
@@ -49,7 +53,8 @@ export function PersonalAccountFormModal({
         setFormData({
           provider: account.provider,
           login_email: account.login_email,
-          login_secret: account.login_secret || '',
+          // The stored secret is never prefilled; leaving it blank keeps the current one
+          login_secret: '',
           notes: account.notes || '',
           expiry_date: account.expiry_date ? formatDateForInput(new Date(account.expiry_date)) : '',
         });
@@ -67,7 +72,9 @@ export function PersonalAccountFormModal({
       setErrors({});
 
       // Fetch providers for personal upgrades
-      getProvidersByServiceType('personal_upgrade').then(setProviders);
+      providersDb.getByServiceType('personal_upgrade').then(setProviders).catch(error => {
+        console.error('Error loading providers:', error);
+      });
     }
 
     wasOpen.current = isOpen;
@@ -104,13 +111,18 @@ export function PersonalAccountFormModal({
       return;
     }
 
+    if (formData.login_secret && !(await requestUnlock())) {
+      toast.show('Unlock credentials to save a password', { type: 'error' });
+      return;
+    }
+
     setLoading(true);
 
     try {
       const data = {
         ...formData,
         expiry_date: formData.expiry_date || undefined,
-        login_secret: formData.login_secret || undefined,
+        login_secret: formData.login_secret ? await encryptSecret(formData.login_secret) : undefined,
         notes: formData.notes || undefined,
       };
 
@@ -164,8 +176,8 @@ export function PersonalAccountFormModal({
               options={[
                 { value: '', label: 'Select a provider' },
                 ...providers.map(provider => ({
-                  value: provider,
-                  label: provider.charAt(0).toUpperCase() + provider.slice(1).replace('_', ' ')
+                  value: provider.key,
+                  label: provider.display_name
                 }))
               ]}
               value={formData.provider}
@@ -204,6 +216,7 @@ export function PersonalAccountFormModal({
               value={formData.login_secret}
               onChange={(e) => handleInputChange('login_secret', e.target.value)}
               className="w-full px-4 py-2 bg-secondary border border-border rounded-lg text-foreground focus:outline-none focus:border-white focus:ring-1 focus:ring-white/20 placeholder:text-muted-foreground"
+              placeholder={account?.has_login_secret ? 'Leave blank to keep current password' : undefined}
             />
           </div>
 
@@ -18,10 +18,11 @@ import {
   RotateCcw
 } from 'lucide-react';
 import { ResourcePool } from '../types/inventory';
-import { PROVIDER_ICONS, STATUS_COLORS, POOL_TYPE_LABELS } from '../constants/provisioning';
+import { STATUS_COLORS, POOL_TYPE_LABELS } from '../constants/provisioning';
 import { copyToClipboard } from '../lib/toast';
-import { updateResourcePool } from '../lib/inventory';
-import { getProviderLogo, getProviderLogoAsync } from '../lib/fileUtils';
+import { updateResourcePool, getPoolSecret } from '../lib/inventory';
+import { useSecretReveal } from '../lib/useVault';
+import { useProviders } from '../lib/useProviders';
 import { Image } from 'lucide-react';
 
 interface PoolCardProps {
@@ -36,33 +37,14 @@ interface PoolCardProps {
 
 export function PoolCard({ pool, onUpdate, onArchive, onView, onEdit, onDelete, isArchived = false }: PoolCardProps) {
   const [showMenu, setShowMenu] = useState(false);
-  const [showSecret, setShowSecret] = useState(false);
+  const { secret, isShown: showSecret, toggleShow: toggleSecret, copySecret } = useSecretReveal(() => getPoolSecret(pool.id));
   const [providerLogo, setProviderLogo] = useState<string | null>(null);
+  const { getProviderName, getProviderIcon, getProviderLogoUrl } = useProviders();
 
   useEffect(() => {
-    // Try to get logo synchronously first
-    const logo = getProviderLogo(pool.provider);
-    setProviderLogo(logo);
-
-    // If not found, try async lookup
-    if (!logo) {
-      getProviderLogoAsync(pool.provider).then(setProviderLogo).catch(() => { });
-    }
-
-    // Listen for logo updates
-    const handleLogoUpdate = () => {
-      const newLogo = getProviderLogo(pool.provider);
-      if (newLogo) setProviderLogo(newLogo);
-    };
-
-    window.addEventListener('logoUpdated', handleLogoUpdate);
-    window.addEventListener('storage', handleLogoUpdate);
-
-    return () => {
-      window.removeEventListener('logoUpdated', handleLogoUpdate);
-      window.removeEventListener('storage', handleLogoUpdate);
-    };
-  }, [pool.provider]);
+    // Reset after a failed load once the catalog or service logos change
+    setProviderLogo(getProviderLogoUrl(pool.provider));
+  }, [pool.provider, getProviderLogoUrl]);
 
   const getStatusColor = (status: string) => {
     const colors = {
@@ -108,9 +90,8 @@ export function PoolCard({ pool, onUpdate, onArchive, onView, onEdit, onDelete,
     return 'bg-white';
   };
 
-  const handleCopy = async (text: string, type: 'login' | 'password') => {
-    const message = type === 'login' ? 'Login copied to clipboard' : 'Password copied to clipboard';
-    await copyToClipboard(text, message);
+  const handleCopy = async (text: string) => {
+    await copyToClipboard(text, 'Login copied to clipboard');
   };
 
   const handleToggleAlive = async () => {
@@ -197,12 +178,12 @@ export function PoolCard({ pool, onUpdate, onArchive, onView, onEdit, onDelete,
                 />
               ) : null}
               <div className={`w-full h-full flex items-center justify-center text-sm sm:text-lg lg:text-xl ${providerLogo ? 'hidden' : ''}`}>
-                {PROVIDER_ICONS[pool.provider] || '📦'}
+                {getProviderIcon(pool.provider)}
               </div>
             </div>
             <div className="min-w-0 flex-1">
               <h3 className="text-sm sm:text-base lg:text-lg font-semibold text-foreground capitalize truncate">
-                {pool.provider.replace('_', ' ')}
+                {getProviderName(pool.provider)}
               </h3>
               <p className="text-xs sm:text-sm text-muted-foreground truncate">
                 {POOL_TYPE_LABELS[pool.pool_type] || pool.pool_type}
@@ -254,7 +235,7 @@ export function PoolCard({ pool, onUpdate, onArchive, onView, onEdit, onDelete,
                   </button>
                   <button
                     onClick={() => {
-                      handleCopy(pool.login_email, 'login');
+                      handleCopy(pool.login_email);
                       setShowMenu(false);
                     }}
                     className="w-full px-2 sm:px-3 py-1.5 sm:py-2 text-left text-xs sm:text-sm text-gray-300 hover:bg-gray-700 flex items-center gap-1.5 sm:gap-2"
@@ -326,7 +307,7 @@ export function PoolCard({ pool, onUpdate, onArchive, onView, onEdit, onDelete,
           <span className="text-xs sm:text-sm text-muted-foreground flex-shrink-0">Login:</span>
           <span className="text-xs sm:text-sm text-foreground font-mono flex-1 truncate">{pool.login_email}</span>
           <button
-            onClick={() => handleCopy(pool.login_email, 'login')}
+            onClick={() => handleCopy(pool.login_email)}
             className="p-0.5 sm:p-1 text-gray-400 hover:text-white transition-colors flex-shrink-0"
             aria-label="Copy email"
           >
@@ -334,20 +315,20 @@ export function PoolCard({ pool, onUpdate, onArchive, onView, onEdit, onDelete,
           </button>
         </div>
 
-        {pool.login_secret && (
+        {pool.has_login_secret && (
           <div className="flex items-center gap-1 sm:gap-2">
             <span className="text-xs sm:text-sm text-muted-foreground flex-shrink-0">Password:</span>
             <span className="text-xs sm:text-sm text-foreground font-mono flex-1 truncate">
-              {showSecret ? pool.login_secret : '••••••••'}
+              {showSecret ? secret : '••••••••'}
             </span>
             <button
-              onClick={() => setShowSecret(!showSecret)}
+              onClick={toggleSecret}
               className="p-0.5 sm:p-1 text-gray-400 hover:text-white transition-colors flex-shrink-0"
             >
               <Eye className="w-3 h-3" />
             </button>
             <button
-              onClick={() => handleCopy(pool.login_secret || '', 'password')}
+              onClick={copySecret}
               className="p-0.5 sm:p-1 text-gray-400 hover:text-white transition-colors flex-shrink-0"
               aria-label="Copy password"
             >
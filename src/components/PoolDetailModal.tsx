@@ -17,16 +17,27 @@ import {
   HeartOff,
   AlertTriangle,
   CheckCircle,
-  XCircle
+  XCircle,
+  Shuffle,
+  DollarSign,
+  CalendarPlus
 } from 'lucide-react';
 import { ResourcePool, ResourcePoolSeat, PoolStats } from '../types/inventory';
-import { getPoolWithSeats, getPoolStats, updateResourcePool, deleteResourcePool, assignSeat, unassignSeat } from '../lib/inventory';
-import { PROVIDER_ICONS, STATUS_COLORS, POOL_TYPE_LABELS, STATUS_LABELS } from '../constants/provisioning';
-import { getProviderLogo } from '../lib/fileUtils';
+import { getPoolWithSeats, getPoolStats, updateResourcePool, deleteResourcePool, assignSeat, unassignSeat, getPoolSecret } from '../lib/inventory';
+import { useSecretReveal } from '../lib/useVault';
+import { STATUS_COLORS, POOL_TYPE_LABELS, STATUS_LABELS } from '../constants/provisioning';
+import { useProviders } from '../lib/useProviders';
 import { Image } from 'lucide-react';
 import { copyToClipboard } from '../lib/toast';
 import SeatAssignmentModal from './SeatAssignmentModal';
 import PoolEditModal from './PoolEditModal';
+import PoolMigrationModal from './PoolMigrationModal';
+import PoolExtendModal from './PoolExtendModal';
+import SeatHistoryTimeline from './SeatHistoryTimeline';
+import { getPoolsProfitability, PoolProfitability } from '../lib/poolProfitability';
+import { useCurrency } from '../lib/currency';
+import { useAuth } from '../lib/useAuth';
+import { hasPermission } from '../lib/operators';
 import { shouldIgnoreKeyboardEvent } from '../lib/useKeyboardShortcuts';
 
 interface PoolDetailModalProps {
@@ -41,13 +52,24 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
   const [poolWithSeats, setPoolWithSeats] = useState<ResourcePool & { seats: ResourcePoolSeat[] } | null>(null);
   const [stats, setStats] = useState<PoolStats | null>(null);
   const [loading, setLoading] = useState(false);
-  const [showSecret, setShowSecret] = useState(false);
+  const { secret, isShown: showSecret, toggleShow: toggleSecret, copySecret } = useSecretReveal(
+    async () => (pool ? getPoolSecret(pool.id) : null)
+  );
   const [editing, setEditing] = useState(false);
   const [seatAssignmentModal, setSeatAssignmentModal] = useState<{
     isOpen: boolean;
     seat: ResourcePoolSeat | null;
   }>({ isOpen: false, seat: null });
   const [editModalOpen, setEditModalOpen] = useState(false);
+  const [migrationModalOpen, setMigrationModalOpen] = useState(false);
+  const [extendModalOpen, setExtendModalOpen] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [profitability, setProfitability] = useState<PoolProfitability | null>(null);
+  const { formatCurrency, exchangeRate } = useCurrency();
+  const { role } = useAuth();
+  const { getProviderName, getProviderIcon, getProviderLogoUrl } = useProviders();
+  // Revenue comes from sales, which only report viewers can read
+  const canViewProfitability = hasPermission(role, 'view_reports');
 
   useEffect(() => {
     if (isOpen && pool) {
@@ -69,6 +91,17 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
     }
   }, [pool?.max_seats, pool?.is_alive]);
 
+  useEffect(() => {
+    if (!isOpen || !pool || !canViewProfitability) {
+      setProfitability(null);
+      return;
+    }
+
+    getPoolsProfitability([pool], exchangeRate)
+      .then(result => setProfitability(result.get(pool.id) || null))
+      .catch(error => console.error('Error computing pool profitability:', error));
+  }, [isOpen, pool, exchangeRate, canViewProfitability]);
+
   const fetchPoolDetails = async () => {
     if (!pool) return;
 
@@ -86,6 +119,7 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
       if (poolResult.data) {
         console.log('Setting pool with seats:', poolResult.data);
         setPoolWithSeats(poolResult.data);
+        setHistoryRefreshKey(key => key + 1);
       }
       if (statsResult.data) {
         setStats(statsResult.data[0] || null);
@@ -97,9 +131,8 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
     }
   };
 
-  const handleCopy = async (text: string, type: 'login' | 'password') => {
-    const message = type === 'login' ? 'Login copied to clipboard' : 'Password copied to clipboard';
-    await copyToClipboard(text, message);
+  const handleCopy = async (text: string) => {
+    await copyToClipboard(text, 'Login copied to clipboard');
   };
 
   const getStatusColor = (status: string) => {
@@ -199,6 +232,11 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
       if (poolWithSeats) {
         setPoolWithSeats({ ...poolWithSeats, ...data });
       }
+      // A dead pool's clients need new seats; offer to move them right away
+      const assignedCount = poolWithSeats?.seats.filter(seat => seat.seat_status === 'assigned').length || 0;
+      if (!newAliveStatus && assignedCount > 0 && confirm(`Move the ${assignedCount} assigned seats to other ${getProviderName(pool.provider)} pools now?`)) {
+        setMigrationModalOpen(true);
+      }
     } catch (error) {
       console.error('Error updating pool:', error);
       alert(`Failed to update pool: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -249,8 +287,8 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
     if (!isOpen) return;
 
     const handleKeyDown = (event: KeyboardEvent) => {
-      // Always allow Escape
-      if (event.key === 'Escape') {
+      // Always allow Escape, unless the migration wizard or extend dialog is open
+      if (event.key === 'Escape' && !migrationModalOpen && !extendModalOpen) {
         event.preventDefault();
         onClose();
       }
@@ -260,7 +298,7 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
     return () => {
       document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [isOpen, onClose]);
+  }, [isOpen, onClose, migrationModalOpen, extendModalOpen]);
 
   if (!isOpen || !pool) return null;
 
@@ -272,7 +310,7 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
           <div className="flex items-center gap-4">
             <div className="w-12 h-12 bg-secondary rounded-xl overflow-hidden flex items-center justify-center">
               {(() => {
-                const providerLogo = getProviderLogo(pool.provider);
+                const providerLogo = getProviderLogoUrl(pool.provider);
                 return providerLogo ? (
                   <img
                     src={providerLogo}
@@ -289,13 +327,13 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
                   />
                 ) : null;
               })()}
-              <div className={`w-full h-full flex items-center justify-center text-2xl ${getProviderLogo(pool.provider) ? 'hidden' : ''}`}>
-                {PROVIDER_ICONS[pool.provider] || '📦'}
+              <div className={`w-full h-full flex items-center justify-center text-2xl ${getProviderLogoUrl(pool.provider) ? 'hidden' : ''}`}>
+                {getProviderIcon(pool.provider)}
               </div>
             </div>
             <div>
-              <h2 className="text-xl font-semibold text-foreground capitalize">
-                {pool.provider.replace('_', ' ')} Pool
+              <h2 className="text-xl font-semibold text-foreground">
+                {getProviderName(pool.provider)} Pool
               </h2>
               <p className="text-sm text-muted-foreground">
                 {POOL_TYPE_LABELS[pool.pool_type] || pool.pool_type}
@@ -340,7 +378,7 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
                     <span className="text-sm text-muted-foreground w-16">Email:</span>
                     <span className="text-sm text-foreground font-mono flex-1">{pool.login_email}</span>
                     <button
-                      onClick={() => handleCopy(pool.login_email, 'login')}
+                      onClick={() => handleCopy(pool.login_email)}
                       className="p-1 text-gray-400 hover:text-white transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center"
                       aria-label="Copy email"
                     >
@@ -348,20 +386,20 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
                     </button>
                   </div>
 
-                  {pool.login_secret && (
+                  {pool.has_login_secret && (
                     <div className="flex items-center gap-2">
                       <span className="text-sm text-muted-foreground w-16">Password:</span>
                       <span className="text-sm text-foreground font-mono flex-1">
-                        {showSecret ? pool.login_secret : '••••••••'}
+                        {showSecret ? secret : '••••••••'}
                       </span>
                       <button
-                        onClick={() => setShowSecret(!showSecret)}
+                        onClick={toggleSecret}
                         className="p-1 text-gray-400 hover:text-white transition-colors"
                       >
                         {showSecret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                       </button>
                       <button
-                        onClick={() => handleCopy(pool.login_secret || '', 'password')}
+                        onClick={copySecret}
                         className="p-1 text-gray-400 hover:text-white transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center"
                         aria-label="Copy password"
                       >
@@ -427,6 +465,51 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
               </div>
             </div>
 
+            {/* Profitability */}
+            {profitability && (
+              <div className="bg-secondary/50 rounded-xl p-4">
+                <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+                  <DollarSign className="w-5 h-5" />
+                  Profitability
+                </h3>
+                {profitability.cost === null ? (
+                  <p className="text-sm text-muted-foreground">
+                    Revenue so far: <span className="text-foreground font-medium">{formatCurrency(profitability.revenue)}</span>.
+                    Add a purchase cost to see margin and break-even.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    <div>
+                      <span className="text-sm text-muted-foreground">Cost:</span>
+                      <p className="text-foreground font-medium">{formatCurrency(profitability.cost)}</p>
+                    </div>
+                    <div>
+                      <span className="text-sm text-muted-foreground">Revenue:</span>
+                      <p className="text-foreground font-medium">{formatCurrency(profitability.revenue)}</p>
+                    </div>
+                    <div>
+                      <span className="text-sm text-muted-foreground">Margin:</span>
+                      <p className={`font-medium ${(profitability.margin ?? 0) < 0 ? 'text-red-400' : 'text-foreground'}`}>
+                        {formatCurrency(profitability.margin ?? 0)}
+                      </p>
+                    </div>
+                    <div>
+                      <span className="text-sm text-muted-foreground">Margin / Seat:</span>
+                      <p className="text-foreground font-medium">
+                        {profitability.marginPerSeat !== null ? formatCurrency(profitability.marginPerSeat) : '—'}
+                      </p>
+                    </div>
+                    <div>
+                      <span className="text-sm text-muted-foreground">Break-even:</span>
+                      <p className="text-foreground font-medium">
+                        {profitability.breakEvenSeats !== null ? `${profitability.breakEvenSeats} of ${pool.max_seats} seats` : '—'}
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Notes */}
             {pool.notes && (
               <div className="bg-secondary/50 rounded-xl p-4">
@@ -472,6 +555,11 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
               </div>
             )}
 
+            {/* Seat History */}
+            {poolWithSeats && (
+              <SeatHistoryTimeline poolId={pool.id} seats={poolWithSeats.seats} refreshKey={historyRefreshKey} />
+            )}
+
             {/* Actions */}
             <div className="flex gap-3 pt-4 border-t border-border">
               <button
@@ -488,6 +576,22 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
                 {pool.is_alive ? <HeartOff className="w-4 h-4" /> : <Heart className="w-4 h-4" />}
                 {pool.is_alive ? 'Mark Dead' : 'Mark Alive'}
               </button>
+              {poolWithSeats?.seats.some(seat => seat.seat_status === 'assigned') && (
+                <button
+                  onClick={() => setMigrationModalOpen(true)}
+                  className="px-4 py-2 ghost-button-secondary flex items-center gap-2"
+                >
+                  <Shuffle className="w-4 h-4" />
+                  Migrate Seats
+                </button>
+              )}
+              <button
+                onClick={() => setExtendModalOpen(true)}
+                className="px-4 py-2 ghost-button-secondary flex items-center gap-2"
+              >
+                <CalendarPlus className="w-4 h-4" />
+                Extend
+              </button>
               <button
                 onClick={() => setEditModalOpen(true)}
                 className="px-4 py-2 ghost-button-primary flex items-center gap-2"
@@ -516,6 +620,26 @@ export function PoolDetailModal({ isOpen, onClose, pool, onUpdate, onDelete }: P
         onSeatUpdated={handleSeatUpdated}
       />
 
+      {/* Pool Migration Wizard */}
+      <PoolMigrationModal
+        isOpen={migrationModalOpen}
+        onClose={() => setMigrationModalOpen(false)}
+        pool={pool}
+        seats={poolWithSeats?.seats || []}
+        onMigrated={fetchPoolDetails}
+      />
+
+      {/* Pool Extend Modal */}
+      <PoolExtendModal
+        isOpen={extendModalOpen}
+        onClose={() => setExtendModalOpen(false)}
+        pool={pool}
+        onExtended={(extendedPool) => {
+          onUpdate(extendedPool);
+          fetchPoolDetails();
+        }}
+      />
+
       {/* Pool Edit Modal */}
       <PoolEditModal
         isOpen={editModalOpen}
@@ -1,10 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Save, Calendar, Users, Mail, Lock, FileText } from 'lucide-react';
-import { ResourcePool } from '../types/inventory';
+import { X, Save, Calendar, Users, Mail, Lock, FileText, DollarSign } from 'lucide-react';
+import { ResourcePool, PurchaseCurrency } from '../types/inventory';
 import { updateResourcePool } from '../lib/inventory';
-import { SERVICE_PROVISIONING, POOL_TYPE_LABELS } from '../constants/provisioning';
+import { POOL_TYPE_LABELS } from '../constants/provisioning';
 import SearchableDropdown from './SearchableDropdown';
 import { shouldIgnoreKeyboardEvent } from '../lib/useKeyboardShortcuts';
+import { encryptSecret } from '../lib/credentialVault';
+import { useVault } from '../lib/useVault';
+import { useProviders } from '../lib/useProviders';
 
 interface PoolEditModalProps {
   isOpen: boolean;
@@ -19,6 +22,8 @@ export default function PoolEditModal({
   pool,
   onPoolUpdated
 }: PoolEditModalProps) {
+  const { requestUnlock } = useVault();
+  const { getProviderName } = useProviders();
   const [formData, setFormData] = useState({
     provider: '',
     pool_type: 'admin_console',
@@ -29,6 +34,8 @@ export default function PoolEditModal({
     end_at: '',
     max_seats: 1 as number | string,
     is_alive: true,
+    purchase_cost: '' as number | string,
+    purchase_currency: 'USD' as PurchaseCurrency,
   });
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -50,12 +57,15 @@ export default function PoolEditModal({
           provider: pool.provider,
           pool_type: pool.pool_type,
           login_email: pool.login_email,
-          login_secret: pool.login_secret || '',
+          // The stored secret is never prefilled; leaving it blank keeps the current one
+          login_secret: '',
           notes: pool.notes || '',
           start_at: pool.start_at.split('T')[0],
           end_at: pool.end_at.split('T')[0],
           max_seats: pool.max_seats,
           is_alive: pool.is_alive,
+          purchase_cost: pool.purchase_cost ?? '',
+          purchase_currency: pool.purchase_currency || 'USD',
         });
         lastPoolId.current = pool.id;
       }
@@ -107,6 +117,11 @@ export default function PoolEditModal({
 
     if (!(await validateForm()) || !pool) return;
 
+    if (formData.login_secret && !(await requestUnlock())) {
+      alert('Unlock credentials to change the password');
+      return;
+    }
+
     setLoading(true);
     try {
       // Check if is_alive is being changed from true to false
@@ -115,9 +130,12 @@ export default function PoolEditModal({
 
       console.log(`Updating pool ${pool.id}, is_alive: ${wasAlive} -> ${willBeAlive}`);
 
+      const { login_secret, ...fields } = formData;
       const { data, error } = await updateResourcePool(pool.id, {
-        ...formData,
+        ...fields,
+        ...(login_secret ? { login_secret: await encryptSecret(login_secret) } : {}),
         max_seats: typeof formData.max_seats === 'string' ? parseInt(formData.max_seats) || 1 : formData.max_seats,
+        purchase_cost: formData.purchase_cost === '' ? null : Number(formData.purchase_cost),
         start_at: new Date(formData.start_at).toISOString(),
         end_at: new Date(formData.end_at).toISOString(),
       });
@@ -221,9 +239,9 @@ export default function PoolEditModal({
             </label>
             <input
               type="text"
-              value={formData.provider}
-              onChange={(e) => handleInputChange('provider', e.target.value)}
+              value={formData.provider ? getProviderName(formData.provider) : ''}
               className="w-full px-4 py-3 bg-secondary border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-white focus:ring-1 focus:ring-white/20 transition-colors opacity-50 cursor-not-allowed"
+              readOnly
               disabled
             />
             <p className="mt-1 text-sm text-muted-foreground">Provider cannot be changed</p>
@@ -271,7 +289,7 @@ export default function PoolEditModal({
               value={formData.login_secret}
               onChange={(e) => handleInputChange('login_secret', e.target.value)}
               className="w-full px-4 py-3 bg-secondary border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-white focus:ring-1 focus:ring-white/20 transition-colors"
-              placeholder="Password or API key"
+              placeholder={pool?.has_login_secret ? 'Leave blank to keep current password' : 'Password or API key'}
             />
           </div>
 
@@ -340,6 +358,33 @@ export default function PoolEditModal({
             </p>
           </div>
 
+          {/* Purchase Cost */}
+          <div>
+            <label className="block text-sm font-semibold text-muted-foreground mb-2">
+              <DollarSign className="w-4 h-4 inline mr-2" />
+              Purchase Cost
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.purchase_cost}
+                onChange={(e) => handleInputChange('purchase_cost', e.target.value)}
+                className="flex-1 px-4 py-3 bg-secondary border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-white focus:ring-1 focus:ring-white/20 transition-colors"
+                placeholder="What we paid for this account"
+              />
+              <select
+                value={formData.purchase_currency}
+                onChange={(e) => handleInputChange('purchase_currency', e.target.value)}
+                className="px-4 py-3 bg-secondary border border-border rounded-lg text-foreground focus:outline-none focus:border-white focus:ring-1 focus:ring-white/20 transition-colors"
+              >
+                <option value="USD">USD</option>
+                <option value="TND">TND</option>
+              </select>
+            </div>
+          </div>
+
           {/* Notes */}
           <div>
             <label className="block text-sm font-semibold text-muted-foreground mb-2">
@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react';
+import { X, CalendarPlus, AlertTriangle, CheckCircle } from 'lucide-react';
+import { ResourcePool, ResourcePoolEvent, PoolExtensionResult } from '../types/inventory';
+import { extendResourcePool, getPoolEvents } from '../lib/inventory';
+import { formatDate } from '../lib/subscriptionUtils';
+import { addDaysInTunisia, formatDateForInput } from '../lib/dateUtils';
+import { useCurrency } from '../lib/currency';
+import { toast } from '../lib/toast';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface PoolExtendModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pool: ResourcePool;
+  onExtended: (pool: ResourcePool) => void;
+}
+
+type ExtendMode = 'days' | 'date';
+
+export default function PoolExtendModal({ isOpen, onClose, pool, onExtended }: PoolExtendModalProps) {
+  const { currency, exchangeRate, formatCurrency } = useCurrency();
+  const [mode, setMode] = useState<ExtendMode>('days');
+  const [days, setDays] = useState('30');
+  const [endDate, setEndDate] = useState('');
+  const [cost, setCost] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [result, setResult] = useState<PoolExtensionResult | null>(null);
+  const [events, setEvents] = useState<ResourcePoolEvent[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setMode('days');
+    setDays('30');
+    setEndDate(formatDateForInput(addDaysInTunisia(new Date(pool.end_at), 30)));
+    setCost('');
+    setResult(null);
+    getPoolEvents(pool.id).then(setEvents).catch(error => {
+      console.error('Error loading pool events:', error);
+    });
+  }, [isOpen, pool]);
+
+  // Extensions count from the current end date, even when it already passed
+  const newEndAt = (() => {
+    if (mode === 'days') {
+      const n = parseInt(days);
+      return n > 0 ? addDaysInTunisia(new Date(pool.end_at), n).toISOString() : null;
+    }
+    if (!endDate) return null;
+    // Keep the pool's time of day so the end moment does not shift
+    const [year, month, day] = endDate.split('-').map(Number);
+    const end = new Date(pool.end_at);
+    end.setFullYear(year, month - 1, day);
+    return end.toISOString();
+  })();
+
+  const isValid = !!newEndAt && new Date(newEndAt) > new Date(pool.end_at);
+
+  const handleExtend = async () => {
+    if (!newEndAt || !isValid) {
+      alert('The new end date must be after the current end date');
+      return;
+    }
+
+    const costValue = parseFloat(cost) || 0;
+    setIsSaving(true);
+    try {
+      const extension = await extendResourcePool(
+        pool.id,
+        newEndAt,
+        // Money is stored in USD; convert what was typed in the display currency
+        costValue > 0 ? { amount: currency === 'TND' ? costValue / exchangeRate : costValue } : undefined
+      );
+      setResult(extension);
+      onExtended(extension.pool);
+      if (extension.failures.length === 0) {
+        toast.show(`Pool extended to ${formatDate(newEndAt)}`, { type: 'success' });
+      }
+    } catch (error) {
+      console.error('Error extending pool:', error);
+      alert(`Failed to extend pool: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[110]" style={{ top: 0, left: 0, right: 0, bottom: 0, width: '100vw', height: '100vh', margin: 0, padding: '16px' }}>
+      <div className="bg-card border border-border rounded-lg w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div className="flex items-center gap-2">
+            <CalendarPlus className="w-5 h-5 text-muted-foreground" />
+            <h2 className="text-xl font-semibold text-foreground">Extend Pool</h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="text-muted-foreground hover:text-foreground transition-colors p-1 rounded-lg hover:bg-secondary/50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {result ? (
+            <>
+              <div className="flex items-center gap-2 text-foreground">
+                <CheckCircle className="w-5 h-5" />
+                <span>
+                  Extended to {formatDate(result.pool.end_at)}. {result.updated} subscription{result.updated === 1 ? '' : 's'} updated.
+                </span>
+              </div>
+              {result.failures.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm text-red-400 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" />
+                    {result.failures.length} subscription{result.failures.length === 1 ? '' : 's'} could not be updated:
+                  </p>
+                  <ul className="space-y-1 text-sm">
+                    {result.failures.map(failure => (
+                      <li key={failure.subscriptionId} className="p-2 bg-red-500/10 border border-red-500/30 rounded-lg">
+                        <span className="font-mono text-foreground">{failure.subscriptionId.slice(0, 8)}</span>
+                        <span className="text-muted-foreground"> — {failure.error}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <div className="flex justify-end">
+                <Button onClick={onClose}>Done</Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Currently ends {formatDate(pool.end_at)}. Linked subscriptions will renew on the new end date.
+              </p>
+
+              <div className="flex space-x-1 bg-secondary p-1 rounded-lg">
+                <button
+                  onClick={() => setMode('days')}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${mode === 'days' ? 'bg-white text-black' : 'text-muted-foreground hover:text-foreground'}`}
+                >
+                  + Days
+                </button>
+                <button
+                  onClick={() => setMode('date')}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${mode === 'date' ? 'bg-white text-black' : 'text-muted-foreground hover:text-foreground'}`}
+                >
+                  New end date
+                </button>
+              </div>
+
+              {mode === 'days' ? (
+                <div>
+                  <Label className="text-muted-foreground">Days to add</Label>
+                  <Input type="number" min="1" className="mt-2" value={days} onChange={(e) => setDays(e.target.value)} />
+                </div>
+              ) : (
+                <div>
+                  <Label className="text-muted-foreground">New end date</Label>
+                  <Input type="date" className="mt-2" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                </div>
+              )}
+
+              {newEndAt && (
+                <p className={`text-sm ${isValid ? 'text-muted-foreground' : 'text-red-400'}`}>
+                  {isValid ? `New end: ${formatDate(newEndAt)}` : 'The new end date must be after the current end date'}
+                </p>
+              )}
+
+              <div>
+                <Label className="text-muted-foreground">Extension cost in {currency} (optional)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  className="mt-2"
+                  value={cost}
+                  onChange={(e) => setCost(e.target.value)}
+                  placeholder="Paid out of the Business Vault"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2 pt-2">
+                <Button variant="secondary" onClick={onClose}>Cancel</Button>
+                <Button onClick={handleExtend} disabled={isSaving || !isValid}>
+                  {isSaving ? 'Extending...' : 'Extend'}
+                </Button>
+              </div>
+
+              {events.length > 0 && (
+                <div className="pt-4 border-t border-border space-y-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">Previous extensions</h3>
+                  {events.map(event => (
+                    <p key={event.id} className="text-xs text-muted-foreground">
+                      {formatDate(event.at)}: {formatDate(event.meta.previousEndAt)} → {formatDate(event.meta.newEndAt)}
+                      {event.meta.expenseAmount ? ` · ${formatCurrency(event.meta.expenseAmount)}` : ''}
+                      {event.meta.failedSubscriptionIds?.length ? ` · ${event.meta.failedSubscriptionIds.length} failed` : ''}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
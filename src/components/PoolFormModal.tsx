@@ -1,13 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { X, Calendar, Mail, Lock, Users, FileText, Package } from 'lucide-react';
-import { CreatePoolData, PoolType } from '../types/inventory';
+import { X, Calendar, Mail, Lock, Users, FileText, Package, DollarSign } from 'lucide-react';
+import { CreatePoolData, PoolType, PurchaseCurrency } from '../types/inventory';
 import { createResourcePool } from '../lib/inventory';
-import { SERVICE_PROVISIONING, PROVIDER_ICONS, POOL_TYPE_LABELS } from '../constants/provisioning';
+import { POOL_TYPE_LABELS } from '../constants/provisioning';
 import SearchableDropdown from './SearchableDropdown';
 import { toast } from '../lib/toast';
 import { shouldIgnoreKeyboardEvent } from '../lib/useKeyboardShortcuts';
 import { getTodayInTunisia, getNowInTunisia, addDaysInTunisia, formatDateForInput } from '../lib/dateUtils';
-import { getProvidersByServiceType } from '../lib/fileUtils';
+import { useProviders } from '../lib/useProviders';
+import { providersDb } from '../lib/providerCatalog';
+import type { Provider } from '../types/provider';
+import { encryptSecret } from '../lib/credentialVault';
+import { useVault } from '../lib/useVault';
 
 interface PoolFormModalProps {
   isOpen: boolean;
@@ -16,6 +20,8 @@ interface PoolFormModalProps {
 }
 
 export function PoolFormModal({ isOpen, onClose, onPoolCreated }: PoolFormModalProps) {
+  const { requestUnlock } = useVault();
+  const { providers: allProviders, getProvider } = useProviders();
   const resetForm = () => {
     const startDate = getNowInTunisia();
     const endDate = addDaysInTunisia(startDate, 30);
@@ -29,6 +35,8 @@ export function PoolFormModal({ isOpen, onClose, onPoolCreated }: PoolFormModalP
       start_at: formatDateForInput(startDate),
       end_at: formatDateForInput(endDate),
       max_seats: 1,
+      purchase_cost: null,
+      purchase_currency: 'USD',
     });
     setMaxSeatsInput('1');
     setErrors({});
@@ -43,20 +51,22 @@ export function PoolFormModal({ isOpen, onClose, onPoolCreated }: PoolFormModalP
     start_at: getTodayInTunisia(),
     end_at: formatDateForInput(addDaysInTunisia(getNowInTunisia(), 30)),
     max_seats: 1,
+    purchase_cost: null,
+    purchase_currency: 'USD',
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [maxSeatsInput, setMaxSeatsInput] = useState<string>('1');
-  const [providers, setProviders] = useState<string[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
 
-  // Initialize providers on mount and when modal opens
+  // Initialize providers on mount and when modal opens; only tracked providers get pools
   useEffect(() => {
     if (isOpen) {
-      getProvidersByServiceType('family_invite').then(setProviders).catch(() => {
-        // Fallback to all providers if there's an error
-        setProviders(Object.keys(SERVICE_PROVISIONING).filter(p => SERVICE_PROVISIONING[p] !== null));
-      });
+      // On error the options fall back to every tracked provider
+      providersDb.getByServiceType('family_invite')
+        .then(list => setProviders(list.filter(provider => provider.pool_type)))
+        .catch(error => console.error('Error loading providers:', error));
     }
   }, [isOpen]);
 
@@ -77,6 +87,8 @@ export function PoolFormModal({ isOpen, onClose, onPoolCreated }: PoolFormModalP
           start_at: formatDateForInput(startDate),
           end_at: formatDateForInput(endDate),
           max_seats: 1,
+          purchase_cost: null,
+          purchase_currency: 'USD',
         });
         setMaxSeatsInput('1');
         setErrors({});
@@ -86,24 +98,30 @@ export function PoolFormModal({ isOpen, onClose, onPoolCreated }: PoolFormModalP
 
   // Auto-fill defaults when provider changes
   useEffect(() => {
-    if (formData.provider && SERVICE_PROVISIONING[formData.provider] && formData.start_at && formData.start_at.trim() !== '') {
-      const config = SERVICE_PROVISIONING[formData.provider];
+    const config = formData.provider ? getProvider(formData.provider) : undefined;
+    if (config?.pool_type && formData.start_at && formData.start_at.trim() !== '') {
       const startDate = new Date(formData.start_at);
 
-      // Check if the date is valid and config has valid values
-      if (!isNaN(startDate.getTime()) && config && typeof config.defaultSeats === 'number' && !isNaN(config.defaultSeats)) {
-        const endDate = new Date(startDate.getTime() + config.defaultDurationDays * 24 * 60 * 60 * 1000);
+      // Check if the date is valid; each default is optional in the catalog
+      if (!isNaN(startDate.getTime())) {
+        const poolType = config.pool_type;
+        const defaultSeats = config.default_seats;
+        const defaultDurationDays = config.default_duration_days;
 
         setFormData(prev => ({
           ...prev,
-          pool_type: config.poolType,
-          max_seats: config.defaultSeats,
-          end_at: endDate.toISOString().split('T')[0],
+          pool_type: poolType,
+          ...(defaultSeats ? { max_seats: defaultSeats } : {}),
+          ...(defaultDurationDays
+            ? { end_at: new Date(startDate.getTime() + defaultDurationDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0] }
+            : {}),
         }));
-        setMaxSeatsInput(config.defaultSeats.toString());
+        if (defaultSeats) {
+          setMaxSeatsInput(defaultSeats.toString());
+        }
       }
     }
-  }, [formData.provider, formData.start_at]);
+  }, [formData.provider, formData.start_at, getProvider]);
 
   const handleInputChange = (field: keyof CreatePoolData, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -193,9 +211,18 @@ export function PoolFormModal({ isOpen, onClose, onPoolCreated }: PoolFormModalP
 
     if (!validateForm()) return;
 
+    // Passwords are encrypted before they leave the browser
+    if (formData.login_secret && !(await requestUnlock())) {
+      toast.show('Unlock credentials to save a password', { type: 'error' });
+      return;
+    }
+
     setIsLoading(true);
     try {
-      const { data, error } = await createResourcePool(formData);
+      const { data, error } = await createResourcePool({
+        ...formData,
+        login_secret: formData.login_secret ? await encryptSecret(formData.login_secret) : undefined,
+      });
       if (error) throw error;
 
       toast.show('Pool created successfully', { type: 'success' });
@@ -243,10 +270,11 @@ export function PoolFormModal({ isOpen, onClose, onPoolCreated }: PoolFormModalP
     };
   }, [isOpen, isLoading, onClose]);
 
-  const providerOptions = (providers.length > 0 ? providers : Object.keys(SERVICE_PROVISIONING).filter(p => SERVICE_PROVISIONING[p] !== null)).map(provider => ({
-    value: provider,
-    label: provider.charAt(0).toUpperCase() + provider.slice(1).replace('_', ' ')
+  const providerOptions = (providers.length > 0 ? providers : allProviders.filter(provider => provider.pool_type)).map(provider => ({
+    value: provider.key,
+    label: provider.display_name
   }));
+  const selectedProvider = formData.provider ? getProvider(formData.provider) : undefined;
 
   const poolTypeOptions = Object.entries(POOL_TYPE_LABELS).map(([key, label]) => ({
     value: key,
@@ -289,9 +317,9 @@ export function PoolFormModal({ isOpen, onClose, onPoolCreated }: PoolFormModalP
               error={errors.provider}
               showSearchThreshold={5}
             />
-            {formData.provider && SERVICE_PROVISIONING[formData.provider] && (
+            {selectedProvider && (selectedProvider.default_seats || selectedProvider.default_duration_days) && (
               <p className="mt-1 text-sm text-muted-foreground">
-                Default: {SERVICE_PROVISIONING[formData.provider]?.defaultSeats} seats, {SERVICE_PROVISIONING[formData.provider]?.defaultDurationDays} days
+                Default: {selectedProvider.default_seats ?? '-'} seats, {selectedProvider.default_duration_days ?? '-'} days
               </p>
             )}
           </div>
@@ -418,6 +446,33 @@ export function PoolFormModal({ isOpen, onClose, onPoolCreated }: PoolFormModalP
             </p>
           </div>
 
+          {/* Purchase Cost */}
+          <div>
+            <label className="block text-sm font-semibold text-muted-foreground mb-2">
+              <DollarSign className="w-4 h-4 inline mr-2" />
+              Purchase Cost (optional)
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.purchase_cost ?? ''}
+                onChange={(e) => handleInputChange('purchase_cost', e.target.value === '' ? null : parseFloat(e.target.value))}
+                className="flex-1 px-4 py-3 bg-secondary border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-white focus:ring-1 focus:ring-white/20 transition-colors"
+                placeholder="What we paid for this account"
+              />
+              <select
+                value={formData.purchase_currency}
+                onChange={(e) => handleInputChange('purchase_currency', e.target.value as PurchaseCurrency)}
+                className="px-4 py-3 bg-secondary border border-border rounded-lg text-foreground focus:outline-none focus:border-white focus:ring-1 focus:ring-white/20 transition-colors"
+              >
+                <option value="USD">USD</option>
+                <option value="TND">TND</option>
+              </select>
+            </div>
+          </div>
+
           {/* Notes */}
           <div>
             <label className="block text-sm font-semibold text-muted-foreground mb-2">
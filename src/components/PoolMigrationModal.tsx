@@ -0,0 +1,284 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, ArrowRight, AlertTriangle, CheckCircle, Shuffle } from 'lucide-react';
+import { ResourcePool, ResourcePoolSeat, SeatMigration, PoolMigrationResult } from '../types/inventory';
+import { getMigrationTargets, migratePoolSeats } from '../lib/inventory';
+import { formatDate } from '../lib/subscriptionUtils';
+import { toast } from '../lib/toast';
+import { useProviders } from '../lib/useProviders';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+
+interface PoolMigrationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pool: ResourcePool;
+  seats: ResourcePoolSeat[];
+  onMigrated: () => void;
+}
+
+type Step = 'targets' | 'preview' | 'done';
+
+const freeSeats = (pool: ResourcePool) => Math.max(pool.max_seats - pool.used_seats, 0);
+
+// Fill the chosen pools in order (latest end date first) until every seat has a place
+const buildMapping = (seats: ResourcePoolSeat[], targets: ResourcePool[]): Record<string, string> => {
+  const remaining = new Map(targets.map(target => [target.id, freeSeats(target)]));
+  const mapping: Record<string, string> = {};
+  for (const seat of seats) {
+    const target = targets.find(t => (remaining.get(t.id) || 0) > 0);
+    if (!target) break;
+    mapping[seat.id] = target.id;
+    remaining.set(target.id, (remaining.get(target.id) || 0) - 1);
+  }
+  return mapping;
+};
+
+export default function PoolMigrationModal({ isOpen, onClose, pool, seats, onMigrated }: PoolMigrationModalProps) {
+  const [step, setStep] = useState<Step>('targets');
+  const [targets, setTargets] = useState<ResourcePool[]>([]);
+  const [selectedTargetIds, setSelectedTargetIds] = useState<Set<string>>(new Set());
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [result, setResult] = useState<PoolMigrationResult | null>(null);
+  const { getProviderName } = useProviders();
+
+  const assignedSeats = useMemo(
+    () => seats.filter(seat => seat.seat_status === 'assigned').sort((a, b) => a.seat_index - b.seat_index),
+    [seats]
+  );
+
+  useEffect(() => {
+    const fetchTargets = async () => {
+      setLoading(true);
+      try {
+        const candidates = await getMigrationTargets(pool);
+        setTargets(candidates);
+        setSelectedTargetIds(new Set(candidates.map(candidate => candidate.id)));
+      } catch (error) {
+        console.error('Error loading migration targets:', error);
+        alert(`Failed to load target pools: ${(error as Error).message}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (isOpen) {
+      setStep('targets');
+      setResult(null);
+      setMapping({});
+      fetchTargets();
+    }
+  }, [isOpen, pool]);
+
+  const selectedTargets = targets.filter(target => selectedTargetIds.has(target.id));
+  const selectedCapacity = selectedTargets.reduce((sum, target) => sum + freeSeats(target), 0);
+
+  // Seats planned per target, to flag pools that would be over capacity after manual edits
+  const plannedCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    Object.values(mapping).forEach(targetId => counts.set(targetId, (counts.get(targetId) || 0) + 1));
+    return counts;
+  }, [mapping]);
+
+  const overCapacity = selectedTargets.filter(target => (plannedCounts.get(target.id) || 0) > freeSeats(target));
+  const unmappedCount = assignedSeats.filter(seat => !mapping[seat.id]).length;
+
+  const toggleTarget = (targetId: string) => {
+    setSelectedTargetIds(prev => {
+      const next = new Set(prev);
+      if (next.has(targetId)) {
+        next.delete(targetId);
+      } else {
+        next.add(targetId);
+      }
+      return next;
+    });
+  };
+
+  const handlePreview = () => {
+    setMapping(buildMapping(assignedSeats, selectedTargets));
+    setStep('preview');
+  };
+
+  const handleMigrate = async () => {
+    const moves: SeatMigration[] = assignedSeats
+      .filter(seat => mapping[seat.id])
+      .map(seat => ({
+        seatId: seat.id,
+        targetPoolId: mapping[seat.id],
+        email: seat.assigned_email,
+        clientId: seat.assigned_client_id,
+        subscriptionId: seat.assigned_subscription_id,
+      }));
+
+    if (!confirm(`Move ${moves.length} seat${moves.length === 1 ? '' : 's'} out of this pool?`)) return;
+
+    setIsMigrating(true);
+    try {
+      const migrationResult = await migratePoolSeats(pool.id, moves);
+      setResult(migrationResult);
+      setStep('done');
+      if (migrationResult.failures.length === 0) {
+        toast.show(`Migrated ${migrationResult.migrated} seats`, { type: 'success' });
+      }
+      onMigrated();
+    } catch (error) {
+      console.error('Error migrating seats:', error);
+      alert(`Failed to migrate seats: ${(error as Error).message}`);
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const poolLabel = (target: ResourcePool) => `${target.login_email} · ends ${formatDate(target.end_at)}`;
+  const seatLabel = (seatId: string) => {
+    const seat = assignedSeats.find(s => s.id === seatId);
+    return seat ? `Seat #${seat.seat_index}${seat.assigned_email ? ` (${seat.assigned_email})` : ''}` : seatId;
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[110]" style={{ top: 0, left: 0, right: 0, bottom: 0, width: '100vw', height: '100vh', margin: 0, padding: '16px' }}>
+      <div className="bg-card border border-border rounded-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div className="flex items-center gap-2">
+            <Shuffle className="w-5 h-5 text-muted-foreground" />
+            <h2 className="text-xl font-semibold text-foreground">Migrate Seats</h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isMigrating}
+            className="text-muted-foreground hover:text-foreground transition-colors p-1 rounded-lg hover:bg-secondary/50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {step === 'targets' && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Move the {assignedSeats.length} assigned seat{assignedSeats.length === 1 ? '' : 's'} of {pool.login_email} to other {getProviderName(pool.provider)} pools.
+                Linked subscriptions go back to active and renew on their new pool's end date.
+              </p>
+
+              {loading ? (
+                <p className="text-sm text-muted-foreground py-6 text-center">Looking for pools with free seats...</p>
+              ) : targets.length === 0 ? (
+                <div className="flex items-start gap-2 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-400">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>No alive, active pool of this provider has free seats. Create a new pool first.</span>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {targets.map(target => (
+                    <label key={target.id} className="flex items-center gap-3 p-3 bg-secondary/30 rounded-lg cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedTargetIds.has(target.id)}
+                        onChange={() => toggleTarget(target.id)}
+                      />
+                      <span className="flex-1 min-w-0 text-sm text-foreground truncate">{poolLabel(target)}</span>
+                      <span className="text-xs text-muted-foreground">{freeSeats(target)} free</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {targets.length > 0 && selectedCapacity < assignedSeats.length && (
+                <p className="text-sm text-yellow-400">
+                  The selected pools only have {selectedCapacity} free seats; {assignedSeats.length - selectedCapacity} seats will stay behind.
+                </p>
+              )}
+
+              <div className="flex justify-end gap-2 pt-2">
+                <Button variant="secondary" onClick={onClose}>Cancel</Button>
+                <Button onClick={handlePreview} disabled={selectedTargets.length === 0 || assignedSeats.length === 0}>
+                  Preview
+                  <ArrowRight className="w-4 h-4 ml-2" />
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <div className="divide-y divide-border border border-border rounded-lg overflow-hidden">
+                {assignedSeats.map(seat => (
+                  <div key={seat.id} className="p-3 flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-foreground truncate">{seatLabel(seat.id)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {seat.assigned_subscription_id ? 'Linked subscription' : 'No subscription'}
+                      </p>
+                    </div>
+                    <select
+                      value={mapping[seat.id] || ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [seat.id]: e.target.value }))}
+                      className="sm:w-72 px-3 py-2 bg-secondary border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                    >
+                      <option value="">Leave in this pool</option>
+                      {selectedTargets.map(target => (
+                        <option key={target.id} value={target.id}>{poolLabel(target)}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {overCapacity.length > 0 && (
+                <p className="text-sm text-red-400">
+                  Too many seats planned for {overCapacity.map(target => target.login_email).join(', ')}.
+                </p>
+              )}
+              {unmappedCount > 0 && (
+                <p className="text-sm text-yellow-400">{unmappedCount} seat{unmappedCount === 1 ? '' : 's'} will stay in this pool.</p>
+              )}
+
+              <div className="flex justify-between gap-2 pt-2">
+                <Button variant="secondary" onClick={() => setStep('targets')} disabled={isMigrating}>Back</Button>
+                <Button
+                  onClick={handleMigrate}
+                  disabled={isMigrating || overCapacity.length > 0 || unmappedCount === assignedSeats.length}
+                >
+                  {isMigrating ? 'Migrating...' : `Migrate ${assignedSeats.length - unmappedCount} seats`}
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <>
+              <div className="flex items-center gap-2 text-foreground">
+                <CheckCircle className="w-5 h-5" />
+                <span>{result.migrated} seat{result.migrated === 1 ? '' : 's'} migrated.</span>
+              </div>
+              {result.failures.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm text-red-400">
+                    {result.failures.length} seat{result.failures.length === 1 ? '' : 's'} could not be moved. Relink them by hand:
+                  </p>
+                  <ul className="space-y-1 text-sm">
+                    {result.failures.map(failure => (
+                      <li key={failure.seatId} className="p-2 bg-red-500/10 border border-red-500/30 rounded-lg">
+                        <span className="text-foreground">{seatLabel(failure.seatId)}</span>
+                        <span className="text-muted-foreground"> — {failure.error}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <div className="flex justify-end pt-2">
+                <Button onClick={onClose}>Done</Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { Tags, Edit, Plus, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { Service } from '../lib/supabase';
+import { priceListsDb } from '../lib/priceLists';
+import { PRICE_LIST_KIND_LABELS } from '../constants/priceLists';
+import { useCurrency } from '../lib/currency';
+import { toast } from '../lib/toast';
+import SearchableDropdown from './SearchableDropdown';
+import type { PriceList, PriceListFormData, PriceListItem, PriceListKind } from '../types/priceList';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const EMPTY_FORM: PriceListFormData = {
+  name: '',
+  kind: 'reseller',
+  discount_percent: 0,
+  notes: '',
+};
+
+const EMPTY_ITEM = { service_id: '', selling_price: '' };
+
+interface PriceListsEditorProps {
+  canManage: boolean;
+  services: Service[];
+}
+
+export default function PriceListsEditor({ canManage, services }: PriceListsEditorProps) {
+  const { formatCurrency, currency, exchangeRate } = useCurrency();
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  // null = form closed, 'new' = adding, otherwise the list being edited
+  const [editing, setEditing] = useState<PriceList | 'new' | null>(null);
+  const [form, setForm] = useState<PriceListFormData>(EMPTY_FORM);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [itemForm, setItemForm] = useState(EMPTY_ITEM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPriceLists = useCallback(async () => {
+    try {
+      setPriceLists(await priceListsDb.getAll());
+    } catch (error) {
+      console.error('Error loading price lists:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPriceLists();
+  }, [loadPriceLists]);
+
+  const openForm = (priceList: PriceList | 'new') => {
+    setEditing(priceList);
+    setForm(priceList === 'new' ? EMPTY_FORM : {
+      name: priceList.name,
+      kind: priceList.kind,
+      discount_percent: priceList.discount_percent,
+      notes: priceList.notes || '',
+    });
+  };
+
+  const handleSave = async () => {
+    const data: PriceListFormData = {
+      ...form,
+      name: form.name.trim(),
+      notes: form.notes?.trim() || null,
+    };
+    if (!data.name) {
+      alert('A price list name is required');
+      return;
+    }
+    if (data.discount_percent < 0 || data.discount_percent > 100) {
+      alert('The discount must be between 0 and 100%');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editing === 'new') {
+        await priceListsDb.create(data);
+      } else if (editing) {
+        await priceListsDb.update(editing.id, data);
+      }
+      await loadPriceLists();
+      setEditing(null);
+      toast.show('Price list saved', { type: 'success' });
+    } catch (error) {
+      console.error('Error saving price list:', error);
+      alert(`Failed to save price list: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (priceList: PriceList) => {
+    if (!confirm(`Delete ${priceList.name}? Its clients go back to retail prices; past sales keep their price.`)) return;
+
+    try {
+      await priceListsDb.remove(priceList.id);
+      await loadPriceLists();
+    } catch (error) {
+      console.error('Error deleting price list:', error);
+      alert(`Failed to delete price list: ${(error as Error).message}`);
+    }
+  };
+
+  const toggleExpanded = (priceListId: string) => {
+    setExpandedId(prev => (prev === priceListId ? null : priceListId));
+    setItemForm(EMPTY_ITEM);
+  };
+
+  const handleSaveItem = async (priceListId: string) => {
+    const price = parseFloat(itemForm.selling_price);
+    if (!itemForm.service_id || isNaN(price) || price < 0) {
+      alert('Pick a service and enter the price');
+      return;
+    }
+
+    try {
+      await priceListsDb.saveItem({
+        price_list_id: priceListId,
+        service_id: itemForm.service_id,
+        // Prices are stored in USD; convert what was typed in the display currency
+        selling_price: currency === 'TND' ? price / exchangeRate : price,
+      });
+      await loadPriceLists();
+      setItemForm(EMPTY_ITEM);
+    } catch (error) {
+      console.error('Error saving price override:', error);
+      alert(`Failed to save price: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRemoveItem = async (item: PriceListItem) => {
+    try {
+      await priceListsDb.removeItem(item.id);
+      await loadPriceLists();
+    } catch (error) {
+      console.error('Error removing price override:', error);
+      alert(`Failed to remove price: ${(error as Error).message}`);
+    }
+  };
+
+  const serviceLabel = (serviceId: string) => {
+    const service = services.find(s => s.id === serviceId);
+    return service ? `${service.product_service} - ${service.duration}` : 'Unknown service';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Tags className="h-5 w-5 text-muted-foreground" />
+          <h3 className="text-lg font-semibold text-foreground">Price Lists</h3>
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={() => openForm('new')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Price List
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Clients on a list are charged its price per service: the override if set, otherwise the retail price less the list discount.
+        Clients without a list pay retail.
+      </p>
+
+      {editing && (
+        <div className="p-4 bg-secondary/30 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <Label className="text-muted-foreground">Name</Label>
+              <Input
+                className="mt-2"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Reseller Tier 1"
+              />
+            </div>
+            <div>
+              <SearchableDropdown
+                label="Type"
+                options={Object.entries(PRICE_LIST_KIND_LABELS).map(([value, label]) => ({ value, label }))}
+                value={form.kind}
+                onChange={(value) => setForm(prev => ({ ...prev, kind: value as PriceListKind }))}
+                allowClear={false}
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Discount off retail (%)</Label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                className="mt-2"
+                value={form.discount_percent}
+                onChange={(e) => setForm(prev => ({ ...prev, discount_percent: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+            <div className="sm:col-span-3">
+              <Label className="text-muted-foreground">Notes</Label>
+              <Textarea
+                className="mt-2"
+                rows={2}
+                value={form.notes || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setEditing(null)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : editing === 'new' ? 'Add Price List' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Price List</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Discount</TableHead>
+              <TableHead>Overrides</TableHead>
+              {canManage && <TableHead>Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {priceLists.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={canManage ? 5 : 4} className="text-center text-sm text-muted-foreground">
+                  No price lists yet
+                </TableCell>
+              </TableRow>
+            )}
+            {priceLists.map(priceList => {
+              const items = priceList.price_list_items || [];
+              const isExpanded = expandedId === priceList.id;
+              return (
+                <Fragment key={priceList.id}>
+                  <TableRow className="group cursor-pointer" onClick={() => toggleExpanded(priceList.id)}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        <span className="font-medium text-foreground">{priceList.name}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{PRICE_LIST_KIND_LABELS[priceList.kind]}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-muted-foreground">
+                        {Number(priceList.discount_percent) ? `${Number(priceList.discount_percent)}%` : '-'}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-muted-foreground">{items.length}</span>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openForm(priceList);
+                            }}
+                            className="h-8 w-8"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDelete(priceList);
+                            }}
+                            className="h-8 w-8 text-muted-foreground hover:text-red-500"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow>
+                      <TableCell colSpan={canManage ? 5 : 4} className="bg-secondary/20">
+                        <div className="pl-6 space-y-2">
+                          {items.length === 0 && (
+                            <p className="text-sm text-muted-foreground">No overrides; every service uses the list discount.</p>
+                          )}
+                          {items.map(item => {
+                            const retail = services.find(s => s.id === item.service_id)?.selling_price;
+                            return (
+                              <div key={item.id} className="flex items-center justify-between text-sm">
+                                <span className="text-foreground">{serviceLabel(item.service_id)}</span>
+                                <div className="flex items-center gap-4">
+                                  {retail !== undefined && (
+                                    <span className="text-muted-foreground line-through">{formatCurrency(retail)}</span>
+                                  )}
+                                  <span className="font-medium text-foreground">{formatCurrency(item.selling_price)}</span>
+                                  {canManage && (
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() => handleRemoveItem(item)}
+                                      className="h-7 w-7 text-muted-foreground hover:text-red-500"
+                                    >
+                                      <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                  )}
+                                </div>
+                              </div>
+                            );
+                          })}
+
+                          {canManage && (
+                            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 pt-2 items-end">
+                              <div className="sm:col-span-2">
+                                <SearchableDropdown
+                                  options={[
+                                    { value: '', label: 'Select a service' },
+                                    ...services.map(service => ({
+                                      value: service.id,
+                                      label: `${service.product_service} - ${service.duration}`
+                                    }))
+                                  ]}
+                                  value={itemForm.service_id}
+                                  onChange={(value) => setItemForm(prev => ({ ...prev, service_id: value }))}
+                                  placeholder="Select a service"
+                                  searchPlaceholder="Search services..."
+                                  showSearchThreshold={5}
+                                />
+                              </div>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={itemForm.selling_price}
+                                onChange={(e) => setItemForm(prev => ({ ...prev, selling_price: e.target.value }))}
+                                placeholder={`Price (${currency})`}
+                              />
+                              <Button size="sm" onClick={() => handleSaveItem(priceList.id)}>Save</Button>
+                            </div>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { Boxes, Edit, Plus, Trash2 } from 'lucide-react';
+import { useProviders } from '../lib/useProviders';
+import { providersDb } from '../lib/providerCatalog';
+import { POOL_TYPE_LABELS } from '../constants/provisioning';
+import { toast } from '../lib/toast';
+import SearchableDropdown from './SearchableDropdown';
+import type { PoolType } from '../types/inventory';
+import type { Provider, ProviderFormData } from '../types/provider';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const EMPTY_FORM: ProviderFormData = {
+  key: '',
+  display_name: '',
+  pool_type: null,
+  default_seats: null,
+  default_duration_days: null,
+  icon: '',
+  logo_url: '',
+};
+
+const toKey = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+const parsePositive = (value: string) => {
+  const parsed = parseInt(value);
+  return !isNaN(parsed) && parsed > 0 ? parsed : null;
+};
+
+interface ProvidersEditorProps {
+  canManage: boolean;
+}
+
+export default function ProvidersEditor({ canManage }: ProvidersEditorProps) {
+  const { providers, refreshProviders, getProviderLogoUrl } = useProviders();
+  // null = form closed, 'new' = adding, otherwise the provider being edited
+  const [editing, setEditing] = useState<Provider | 'new' | null>(null);
+  const [form, setForm] = useState<ProviderFormData>(EMPTY_FORM);
+  const [keyTouched, setKeyTouched] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openForm = (provider: Provider | 'new') => {
+    setEditing(provider);
+    setKeyTouched(provider !== 'new');
+    setForm(provider === 'new' ? EMPTY_FORM : {
+      key: provider.key,
+      display_name: provider.display_name,
+      pool_type: provider.pool_type,
+      default_seats: provider.default_seats,
+      default_duration_days: provider.default_duration_days,
+      icon: provider.icon || '',
+      logo_url: provider.logo_url || '',
+    });
+  };
+
+  const handleSave = async () => {
+    const data: ProviderFormData = {
+      ...form,
+      key: form.key.trim(),
+      display_name: form.display_name.trim(),
+      icon: form.icon?.trim() || null,
+      logo_url: form.logo_url?.trim() || null,
+      // Pool defaults only apply to tracked providers
+      default_seats: form.pool_type ? form.default_seats : null,
+      default_duration_days: form.pool_type ? form.default_duration_days : null,
+    };
+    if (!data.display_name || !/^[a-z0-9_]+$/.test(data.key)) {
+      alert('A name and a key made of lowercase letters, digits and underscores are required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editing === 'new') {
+        await providersDb.create(data);
+      } else if (editing) {
+        await providersDb.update(editing.id, {
+          display_name: data.display_name,
+          pool_type: data.pool_type,
+          default_seats: data.default_seats,
+          default_duration_days: data.default_duration_days,
+          icon: data.icon,
+          logo_url: data.logo_url,
+        });
+      }
+      await refreshProviders();
+      setEditing(null);
+      toast.show('Provider saved', { type: 'success' });
+    } catch (error) {
+      console.error('Error saving provider:', error);
+      alert(`Failed to save provider: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (provider: Provider) => {
+    if (!confirm(`Delete ${provider.display_name}? Services linked to it will lose their provider.`)) return;
+
+    try {
+      await providersDb.remove(provider.id);
+      await refreshProviders();
+    } catch (error) {
+      console.error('Error deleting provider:', error);
+      // Pools, accounts and waitlist entries reference the key and block the delete
+      alert(`Failed to delete provider: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Boxes className="h-5 w-5 text-muted-foreground" />
+          <h3 className="text-lg font-semibold text-foreground">Providers</h3>
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={() => openForm('new')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Provider
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Providers with a pool type get resource pools in Inventory; the defaults prefill new pools.
+      </p>
+
+      {editing && (
+        <div className="p-4 bg-secondary/30 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label className="text-muted-foreground">Name</Label>
+              <Input
+                className="mt-2"
+                value={form.display_name}
+                onChange={(e) => setForm(prev => ({
+                  ...prev,
+                  display_name: e.target.value,
+                  key: keyTouched ? prev.key : toKey(e.target.value),
+                }))}
+                placeholder="YouTube Premium"
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Key</Label>
+              <Input
+                className="mt-2 font-mono"
+                value={form.key}
+                onChange={(e) => {
+                  setKeyTouched(true);
+                  setForm(prev => ({ ...prev, key: e.target.value }));
+                }}
+                // Pools and accounts store the key, so it is fixed once created
+                disabled={editing !== 'new'}
+                placeholder="youtube_premium"
+              />
+            </div>
+            <div>
+              <SearchableDropdown
+                label="Pool Type"
+                options={[
+                  { value: '', label: 'No inventory tracking' },
+                  ...Object.entries(POOL_TYPE_LABELS).map(([key, label]) => ({ value: key, label }))
+                ]}
+                value={form.pool_type || ''}
+                onChange={(value) => setForm(prev => ({ ...prev, pool_type: (value || null) as PoolType | null }))}
+                placeholder="No inventory tracking"
+                allowClear={false}
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Icon (emoji)</Label>
+              <Input
+                className="mt-2"
+                value={form.icon || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, icon: e.target.value }))}
+                placeholder="📦"
+              />
+            </div>
+            {form.pool_type && (
+              <>
+                <div>
+                  <Label className="text-muted-foreground">Default seats</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="mt-2"
+                    value={form.default_seats ?? ''}
+                    onChange={(e) => setForm(prev => ({ ...prev, default_seats: parsePositive(e.target.value) }))}
+                  />
+                </div>
+                <div>
+                  <Label className="text-muted-foreground">Default duration (days)</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="mt-2"
+                    value={form.default_duration_days ?? ''}
+                    onChange={(e) => setForm(prev => ({ ...prev, default_duration_days: parsePositive(e.target.value) }))}
+                  />
+                </div>
+              </>
+            )}
+            <div className="sm:col-span-2">
+              <Label className="text-muted-foreground">Logo URL</Label>
+              <Input
+                type="url"
+                className="mt-2"
+                value={form.logo_url || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, logo_url: e.target.value }))}
+                placeholder="https://example.com/logo.png"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setEditing(null)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : editing === 'new' ? 'Add Provider' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Provider</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Pool Type</TableHead>
+              <TableHead>Defaults</TableHead>
+              {canManage && <TableHead>Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {providers.map(provider => {
+              const logo = getProviderLogoUrl(provider.key);
+              return (
+                <TableRow key={provider.id} className="group">
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <div className="w-8 h-8 rounded-lg overflow-hidden bg-secondary flex items-center justify-center">
+                        {logo ? (
+                          <img src={logo} alt={`${provider.display_name} logo`} className="w-full h-full object-cover" loading="lazy" />
+                        ) : (
+                          <span>{provider.icon || '📦'}</span>
+                        )}
+                      </div>
+                      <span className="text-foreground font-medium">{provider.display_name}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <code className="text-xs text-muted-foreground">{provider.key}</code>
+                  </TableCell>
+                  <TableCell>
+                    {provider.pool_type ? (
+                      <Badge variant="secondary">{POOL_TYPE_LABELS[provider.pool_type] || provider.pool_type}</Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Not tracked</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-sm text-muted-foreground">
+                      {provider.pool_type
+                        ? `${provider.default_seats ?? '-'} seats, ${provider.default_duration_days ?? '-'} days`
+                        : '-'}
+                    </span>
+                  </TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                        <Button variant="ghost" size="icon" onClick={() => openForm(provider)} className="h-8 w-8">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(provider)}
+                          className="h-8 w-8 text-muted-foreground hover:text-red-500"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { Receipt, ChevronDown, ChevronRight, CheckCircle } from 'lucide-react';
+import { Transaction } from '../lib/supabase';
+import { receivablesDb, summarizeReceivables, getOutstanding } from '../lib/receivables';
+import { useCurrency } from '../lib/currency';
+import { toast } from '../lib/toast';
+import { RECEIVABLE_AGING_LABELS } from '../constants/payments';
+import type { ReceivableAgingBucket } from '../types/receivable';
+
+// shadcn/ui components
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const BUCKETS = Object.keys(RECEIVABLE_AGING_LABELS) as ReceivableAgingBucket[];
+
+const BUCKET_COLORS: Record<ReceivableAgingBucket, string> = {
+  current: 'text-foreground',
+  late: 'text-yellow-400',
+  overdue: 'text-red-400',
+};
+
+interface ReceivablesSectionProps {
+  // Called after a payment is recorded, so client totals can refresh
+  onPaymentRecorded?: () => void;
+}
+
+export default function ReceivablesSection({ onPaymentRecorded }: ReceivablesSectionProps) {
+  const { formatCurrency } = useCurrency();
+  const [openSales, setOpenSales] = useState<Transaction[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [payingId, setPayingId] = useState<string | null>(null);
+
+  const loadReceivables = useCallback(async () => {
+    try {
+      setOpenSales(await receivablesDb.getOpen());
+    } catch (error) {
+      console.error('Error loading receivables:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReceivables();
+  }, [loadReceivables]);
+
+  const handleMarkPaid = async (sale: Transaction) => {
+    const outstanding = getOutstanding(sale);
+    if (!confirm(`Record ${formatCurrency(outstanding)} received for ${sale.services?.product_service || 'this sale'}?`)) return;
+
+    setPayingId(sale.id);
+    try {
+      await receivablesDb.recordPayment(sale, outstanding, sale.payment_method ?? null);
+      await loadReceivables();
+      onPaymentRecorded?.();
+      toast.show('Payment recorded', { type: 'success' });
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      alert(`Failed to record payment: ${(error as Error).message}`);
+    } finally {
+      setPayingId(null);
+    }
+  };
+
+  const receivables = summarizeReceivables(openSales);
+  if (receivables.length === 0) return null;
+
+  const totals = BUCKETS.reduce((acc, bucket) => ({
+    ...acc,
+    [bucket]: receivables.reduce((sum, r) => sum + r.buckets[bucket], 0)
+  }), {} as Record<ReceivableAgingBucket, number>);
+  const totalOutstanding = receivables.reduce((sum, r) => sum + r.outstanding, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Receivables
+          <span className="text-sm font-normal text-muted-foreground">· {formatCurrency(totalOutstanding)} outstanding</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          {BUCKETS.map(bucket => (
+            <div key={bucket} className="p-3 bg-secondary/30 rounded-lg">
+              <p className="text-xs text-muted-foreground">{RECEIVABLE_AGING_LABELS[bucket]}</p>
+              <p className={`text-lg font-bold ${totals[bucket] > 0 ? BUCKET_COLORS[bucket] : 'text-muted-foreground'}`}>
+                {formatCurrency(totals[bucket])}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Client</TableHead>
+                {BUCKETS.map(bucket => (
+                  <TableHead key={bucket} className="text-right">{RECEIVABLE_AGING_LABELS[bucket]}</TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {receivables.map(receivable => {
+                const isExpanded = expandedId === receivable.client_id;
+                return (
+                  <Fragment key={receivable.client_id}>
+                    <TableRow
+                      className="cursor-pointer hover:bg-secondary/50"
+                      onClick={() => setExpandedId(isExpanded ? null : receivable.client_id)}
+                    >
+                      <TableCell>
+                        <div className="flex items-center gap-2 font-medium text-foreground">
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          {receivable.name}
+                          <span className="text-xs font-normal text-muted-foreground">
+                            {receivable.sales} sale{receivable.sales !== 1 ? 's' : ''} · since {new Date(receivable.oldest_date).toLocaleDateString()}
+                          </span>
+                        </div>
+                      </TableCell>
+                      {BUCKETS.map(bucket => (
+                        <TableCell key={bucket} className={`text-right ${receivable.buckets[bucket] > 0 ? BUCKET_COLORS[bucket] : 'text-muted-foreground/50'}`}>
+                          {receivable.buckets[bucket] > 0 ? formatCurrency(receivable.buckets[bucket]) : '-'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-medium text-foreground">
+                        {formatCurrency(receivable.outstanding)}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={BUCKETS.length + 2} className="bg-secondary/20">
+                          <div className="pl-6 space-y-2">
+                            {openSales.filter(sale => sale.client_id === receivable.client_id).map(sale => (
+                              <div key={sale.id} className="flex items-center justify-between text-sm">
+                                <span className="text-foreground">
+                                  {sale.services?.product_service || 'Sale'}
+                                  <span className="text-muted-foreground"> · {new Date(sale.date).toLocaleDateString()}</span>
+                                </span>
+                                <div className="flex items-center gap-4">
+                                  <span className="text-muted-foreground">
+                                    {formatCurrency(Number(sale.selling_price) - getOutstanding(sale))} of {formatCurrency(sale.selling_price)} paid
+                                  </span>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleMarkPaid(sale)}
+                                    disabled={payingId === sale.id}
+                                  >
+                                    <CheckCircle className="h-4 w-4 mr-2" />
+                                    Mark Paid
+                                  </Button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState, useEffect } from 'react';
+import { X, Undo2 } from 'lucide-react';
+import { Transaction } from '../lib/supabase';
+import { refundsDb, sumRefunds } from '../lib/refunds';
+import { getOutstanding } from '../lib/receivables';
+import { getTodayInTunisia } from '../lib/dateUtils';
+import { useCurrency } from '../lib/currency';
+import { toast } from '../lib/toast';
+import { REFUND_KIND_LABELS } from '../constants/refunds';
+import type { RefundKind } from '../types/refund';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface RefundModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transaction: Transaction | null;
+  onRefunded: () => void;
+}
+
+export default function RefundModal({ isOpen, onClose, transaction, onRefunded }: RefundModalProps) {
+  const { currency, exchangeRate, formatCurrency } = useCurrency();
+  const [kind, setKind] = useState<RefundKind>('refund');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(getTodayInTunisia());
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setKind('refund');
+    setAmount('');
+    setDate(getTodayInTunisia());
+    setReason('');
+  }, [isOpen, transaction]);
+
+  if (!isOpen || !transaction) return null;
+
+  // What's left to refund after earlier refunds on this sale (USD)
+  const refundable = Math.max(0, transaction.selling_price - sumRefunds(transaction.transaction_refunds || []));
+  const amountValue = parseFloat(amount) || 0;
+  // Refunds are stored in USD; convert what was typed in the display currency
+  const amountUsd = currency === 'TND' ? amountValue / exchangeRate : amountValue;
+  // The database takes a refund off what's still owed before paying anything back
+  const owed = getOutstanding(transaction);
+
+  const handleSave = async () => {
+    if (amountUsd <= 0) {
+      alert('Enter an amount to refund');
+      return;
+    }
+    // Allow a cent of slack for currency conversion
+    if (amountUsd > refundable + 0.01) {
+      alert(`Only ${formatCurrency(refundable)} of this sale is left to refund`);
+      return;
+    }
+    if (kind === 'store_credit' && !transaction.client_id) {
+      alert('Store credit needs a client on the sale');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await refundsDb.create({
+        transaction_id: transaction.id,
+        client_id: transaction.client_id || null,
+        kind,
+        amount: Math.min(amountUsd, refundable),
+        reason: reason.trim() || null,
+        date
+      });
+      toast.show(`${REFUND_KIND_LABELS[kind]} of ${formatCurrency(Math.min(amountUsd, refundable))} recorded`, { type: 'success' });
+      onRefunded();
+      onClose();
+    } catch (error) {
+      console.error('Error recording refund:', error);
+      alert(`Failed to record refund: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[110]" style={{ top: 0, left: 0, right: 0, bottom: 0, width: '100vw', height: '100vh', margin: 0, padding: '16px' }}>
+      <div className="bg-card border border-border rounded-lg w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div className="flex items-center gap-2">
+            <Undo2 className="w-5 h-5 text-muted-foreground" />
+            <h2 className="text-xl font-semibold text-foreground">Refund Sale</h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="text-muted-foreground hover:text-foreground transition-colors p-1 rounded-lg hover:bg-secondary/50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {transaction.services?.product_service || 'Sale'} on {new Date(transaction.date).toLocaleDateString()} for {formatCurrency(transaction.selling_price)}.
+            {' '}{formatCurrency(refundable)} left to refund.
+          </p>
+
+          <div className="flex space-x-1 bg-secondary p-1 rounded-lg">
+            {(Object.keys(REFUND_KIND_LABELS) as RefundKind[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setKind(option)}
+                className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${kind === option ? 'bg-white text-black' : 'text-muted-foreground hover:text-foreground'}`}
+              >
+                {REFUND_KIND_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          {kind === 'store_credit' && (
+            <p className="text-xs text-muted-foreground">
+              Nothing is paid out; the amount goes onto the client's credit balance.
+            </p>
+          )}
+          {owed > 0 && (
+            <p className="text-xs text-yellow-400">
+              The client still owes {formatCurrency(owed)} on this sale. That much of the refund cancels the debt; only the rest is {kind === 'store_credit' ? 'credited' : 'paid back'}.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="text-muted-foreground">Amount ({currency})</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="mt-2"
+                placeholder="0.00"
+              />
+              <button
+                type="button"
+                onClick={() => setAmount((currency === 'TND' ? refundable * exchangeRate : refundable).toFixed(2))}
+                className="mt-1 text-xs text-muted-foreground hover:text-foreground"
+              >
+                Refund the rest
+              </button>
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Date</Label>
+              <Input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="mt-2"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label className="text-muted-foreground">Reason (Optional)</Label>
+            <Input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="mt-2"
+              placeholder="e.g. Account died mid-cycle"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4 border-t border-border">
+            <Button onClick={handleSave} disabled={isSaving || refundable <= 0} className="flex-1">
+              {isSaving ? 'Saving...' : `Record ${REFUND_KIND_LABELS[kind]}`}
+            </Button>
+            <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import { MessageSquare, Trash2 } from 'lucide-react';
+import { supabase, Service } from '../lib/supabase';
+import { reminderTemplatesDb, renderReminderTemplate, DEFAULT_REMINDER_TEMPLATE, REMINDER_PLACEHOLDERS } from '../lib/reminders';
+import { ReminderTemplate } from '../types/reminder';
+import { useCurrency } from '../lib/currency';
+import { toast } from '../lib/toast';
+import SearchableDropdown from './SearchableDropdown';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+
+const PREVIEW_VALUES = {
+  client_name: 'Ahmed',
+  service: 'Netflix Premium',
+  renewal_date: 'Jan 15, 2026',
+  price_usd: '10.00',
+  days_overdue: '0',
+};
+
+// Drafts are keyed by service id, with 'default' for the global template
+const draftKey = (serviceId: string | null) => serviceId || 'default';
+
+export default function ReminderTemplatesEditor() {
+  const { exchangeRate } = useCurrency();
+  const [templates, setTemplates] = useState<ReminderTemplate[]>([]);
+  const [services, setServices] = useState<Pick<Service, 'id' | 'product_service'>[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [newServiceId, setNewServiceId] = useState('');
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [loadedTemplates, { data: serviceData, error: serviceError }] = await Promise.all([
+          reminderTemplatesDb.getAll(),
+          supabase.from('services').select('id, product_service').order('product_service')
+        ]);
+        if (serviceError) throw serviceError;
+
+        setTemplates(loadedTemplates);
+        setServices(serviceData || []);
+
+        const initialDrafts: Record<string, string> = { default: DEFAULT_REMINDER_TEMPLATE };
+        loadedTemplates.forEach(template => {
+          initialDrafts[draftKey(template.service_id)] = template.body;
+        });
+        setDrafts(initialDrafts);
+      } catch (error) {
+        console.error('Error loading reminder templates:', error);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const handleSave = async (serviceId: string | null) => {
+    const key = draftKey(serviceId);
+    const body = (drafts[key] || '').trim();
+    if (!body) {
+      alert('Template cannot be empty');
+      return;
+    }
+
+    setSavingKey(key);
+    try {
+      const saved = await reminderTemplatesDb.save(serviceId, body);
+      setTemplates(prev => [...prev.filter(t => t.id !== saved.id), saved]);
+      toast.show('Template saved', { type: 'success' });
+    } catch (error) {
+      console.error('Error saving reminder template:', error);
+      alert(`Failed to save template: ${(error as Error).message}`);
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleRemove = async (template: ReminderTemplate) => {
+    if (!confirm('Remove this service template? Reminders will fall back to the default template.')) return;
+
+    try {
+      await reminderTemplatesDb.remove(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[draftKey(template.service_id)];
+        return next;
+      });
+    } catch (error) {
+      console.error('Error removing reminder template:', error);
+      alert(`Failed to remove template: ${(error as Error).message}`);
+    }
+  };
+
+  const handleAddOverride = () => {
+    if (!newServiceId) return;
+    setDrafts(prev => ({ ...prev, [newServiceId]: prev[newServiceId] || prev.default || DEFAULT_REMINDER_TEMPLATE }));
+    setNewServiceId('');
+  };
+
+  const serviceNames = new Map(services.map(service => [service.id, service.product_service]));
+  const overrideServiceIds = Object.keys(drafts).filter(key => key !== 'default');
+
+  const renderEditor = (serviceId: string | null, title: string) => {
+    const key = draftKey(serviceId);
+    const saved = templates.find(t => t.service_id === serviceId);
+    const value = drafts[key] || '';
+
+    return (
+      <div key={key} className="p-4 bg-secondary/30 rounded-lg space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-foreground font-medium">{title}</p>
+          <div className="flex items-center gap-2">
+            {serviceId && saved && (
+              <Button variant="ghost" size="sm" onClick={() => handleRemove(saved)} title="Remove template">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Button size="sm" onClick={() => handleSave(serviceId)} disabled={savingKey === key}>
+              {savingKey === key ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+        <textarea
+          value={value}
+          onChange={(e) => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+          rows={3}
+          className="w-full px-3 py-2 bg-secondary border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring resize-y"
+        />
+        <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+          <span className="font-medium">Preview: </span>
+          {renderReminderTemplate(value, {
+            ...PREVIEW_VALUES,
+            price_tnd: (parseFloat(PREVIEW_VALUES.price_usd) * exchangeRate).toFixed(2),
+          })}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <MessageSquare className="h-5 w-5 text-muted-foreground" />
+        <h3 className="text-lg font-semibold text-foreground">Renewal Reminder Templates</h3>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Used by "Copy all reminders" on the Subscriptions page. Available placeholders:
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {REMINDER_PLACEHOLDERS.map(placeholder => (
+          <code
+            key={placeholder.key}
+            className="px-2 py-1 bg-secondary text-muted-foreground rounded text-xs"
+            title={placeholder.description}
+          >
+            {placeholder.key}
+          </code>
+        ))}
+      </div>
+
+      {renderEditor(null, 'Default template')}
+
+      {overrideServiceIds.map(serviceId =>
+        renderEditor(serviceId, serviceNames.get(serviceId) || 'Unknown Service')
+      )}
+
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <Label className="text-muted-foreground">Add a service-specific template</Label>
+          <SearchableDropdown
+            options={services
+              .filter(service => !overrideServiceIds.includes(service.id))
+              .map(service => ({ value: service.id, label: service.product_service }))}
+            value={newServiceId}
+            onChange={setNewServiceId}
+            placeholder="Select service"
+            searchPlaceholder="Search services..."
+            className="mt-2"
+          />
+        </div>
+        <Button variant="secondary" onClick={handleAddOverride} disabled={!newServiceId}>
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
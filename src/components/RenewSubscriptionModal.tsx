@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { X, RefreshCw } from 'lucide-react';
+import { Subscription, RenewalPayment } from '../types/subscription';
+import { subscriptionService } from '../lib/subscriptionService';
+import { getRenewalPrice } from '../lib/supabaseSalesIntegration';
+import { paymentMethodsDb } from '../lib/paymentMethods';
+import { useCurrency } from '../lib/currency';
+import { PAYMENT_STATUS_LABELS } from '../constants/payments';
+import SearchableDropdown from './SearchableDropdown';
+import type { PaymentMethod } from '../types/paymentMethod';
+import type { PaymentStatus } from '../types/receivable';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface RenewSubscriptionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  subscription: Subscription;
+  onRenewed: (subscription: Subscription) => void;
+}
+
+// Renews a charged subscription, recording what the client paid for it
+export default function RenewSubscriptionModal({ isOpen, onClose, subscription, onRenewed }: RenewSubscriptionModalProps) {
+  const { currency, exchangeRate, formatCurrency } = useCurrency();
+  const [price, setPrice] = useState<number | null>(null);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus>('paid');
+  const [amountReceived, setAmountReceived] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setPaymentStatus('paid');
+    setAmountReceived('');
+    setPaymentMethod('');
+    setPrice(null);
+    getRenewalPrice(subscription).then(setPrice).catch(error => {
+      console.error('Error loading renewal price:', error);
+    });
+    paymentMethodsDb.getAll().then(setPaymentMethods).catch(error => {
+      console.error('Error loading payment methods:', error);
+    });
+  }, [isOpen, subscription]);
+
+  const handleRenew = async () => {
+    const received = parseFloat(amountReceived) || 0;
+    if (paymentStatus === 'partial' && received <= 0) {
+      alert('Enter the amount received');
+      return;
+    }
+
+    const payment: RenewalPayment | undefined = paymentStatus === 'unpaid' ? undefined : {
+      // Payments are stored in USD; convert what was typed in the display currency
+      amount: paymentStatus === 'paid' ? null : currency === 'TND' ? received / exchangeRate : received,
+      paymentMethod: paymentMethod || null
+    };
+
+    setIsSaving(true);
+    try {
+      const updated = await subscriptionService.renewNow(subscription.id, payment);
+      onRenewed(updated);
+      onClose();
+    } catch (error) {
+      console.error('Error renewing subscription:', error);
+      alert(`Failed to renew subscription: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[110]" style={{ top: 0, left: 0, right: 0, bottom: 0, width: '100vw', height: '100vh', margin: 0, padding: '16px' }}>
+      <div className="bg-card border border-border rounded-lg w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div className="flex items-center gap-2">
+            <RefreshCw className="w-5 h-5 text-muted-foreground" />
+            <h2 className="text-xl font-semibold text-foreground">Renew Subscription</h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="text-muted-foreground hover:text-foreground transition-colors p-1 rounded-lg hover:bg-secondary/50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {price !== null ? `The renewal is charged ${formatCurrency(price)}.` : 'Loading the renewal price...'}
+            {' '}Anything not paid now is left owed on the sale.
+          </p>
+
+          <div>
+            <Label className="text-muted-foreground">Payment</Label>
+            <div className="flex space-x-1 bg-secondary p-1 rounded-lg mt-2">
+              {(Object.keys(PAYMENT_STATUS_LABELS) as PaymentStatus[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setPaymentStatus(option)}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${paymentStatus === option ? 'bg-white text-black' : 'text-muted-foreground hover:text-foreground'}`}
+                >
+                  {PAYMENT_STATUS_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {paymentStatus !== 'unpaid' && (
+            <div className="grid grid-cols-2 gap-4">
+              {paymentStatus === 'partial' && (
+                <div>
+                  <Label className="text-muted-foreground">Amount Received ({currency})</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={amountReceived}
+                    onChange={(e) => setAmountReceived(e.target.value)}
+                    className="mt-2"
+                    placeholder="0.00"
+                  />
+                </div>
+              )}
+              <div className={paymentStatus === 'partial' ? '' : 'col-span-2'}>
+                <SearchableDropdown
+                  label="Method"
+                  options={[
+                    { value: '', label: 'Not specified' },
+                    ...paymentMethods
+                      .filter(method => method.is_active)
+                      .map(method => ({ value: method.key, label: method.name }))
+                  ]}
+                  value={paymentMethod}
+                  onChange={setPaymentMethod}
+                  placeholder="Not specified"
+                  allowClear={false}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="secondary" onClick={onClose} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleRenew} disabled={isSaving}>
+              {isSaving ? 'Renewing...' : 'Renew'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldOff } from 'lucide-react';
+import { useAuth } from '../lib/useAuth';
+import { Button } from '@/components/ui/button';
+
+// Session guard for the admin routes; unauthenticated visitors go to /login
+export default function RequireAuth({ children }: { children: ReactNode }) {
+  const { session, operator, loading, signOut } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-black">
+        <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location.pathname + location.search }} />;
+  }
+
+  // Signed in, but the account was never added as an operator
+  if (!operator) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-black px-4">
+        <div className="bg-card border border-border rounded-2xl p-6 max-w-sm text-center space-y-4">
+          <ShieldOff className="w-8 h-8 text-yellow-500 mx-auto" />
+          <p className="text-muted-foreground">
+            {session.user.email} is not an operator yet. Ask the owner to add you in Settings &gt; Security.
+          </p>
+          <Button variant="secondary" onClick={() => signOut()}>Sign out</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect, useMemo } from 'react';
+import { History, ChevronDown, ChevronRight } from 'lucide-react';
+import { ResourcePoolSeat, SeatHistoryEntry } from '../types/inventory';
+import { getSeatHistory } from '../lib/inventory';
+import { formatDate } from '../lib/subscriptionUtils';
+
+interface SeatHistoryTimelineProps {
+  poolId: string;
+  seats: ResourcePoolSeat[];
+  // Bump to reload after seats change
+  refreshKey?: number;
+}
+
+const formatDuration = (from: string, to?: string | null) => {
+  const ms = (to ? new Date(to).getTime() : Date.now()) - new Date(from).getTime();
+  const days = Math.floor(ms / (24 * 60 * 60 * 1000));
+  if (days >= 1) return `${days} day${days === 1 ? '' : 's'}`;
+  const hours = Math.max(Math.floor(ms / (60 * 60 * 1000)), 0);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+export default function SeatHistoryTimeline({ poolId, seats, refreshKey = 0 }: SeatHistoryTimelineProps) {
+  const [history, setHistory] = useState<SeatHistoryEntry[]>([]);
+  const [expandedSeatId, setExpandedSeatId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setHistory(await getSeatHistory(poolId));
+      } catch (error) {
+        console.error('Error loading seat history:', error);
+      }
+    };
+
+    fetchHistory();
+  }, [poolId, refreshKey]);
+
+  const historyBySeat = useMemo(() => {
+    const grouped = new Map<string, SeatHistoryEntry[]>();
+    for (const entry of history) {
+      grouped.set(entry.seat_id, [...(grouped.get(entry.seat_id) || []), entry]);
+    }
+    return grouped;
+  }, [history]);
+
+  const seatsWithHistory = seats.filter(seat => historyBySeat.has(seat.id));
+
+  return (
+    <div className="bg-secondary/50 rounded-xl p-4">
+      <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <History className="w-5 h-5" />
+        Seat History
+      </h3>
+      {seatsWithHistory.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No seat has been assigned yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {seatsWithHistory.map(seat => {
+            const entries = historyBySeat.get(seat.id) || [];
+            const isExpanded = expandedSeatId === seat.id;
+            return (
+              <div key={seat.id} className="border border-border rounded-lg">
+                <button
+                  onClick={() => setExpandedSeatId(isExpanded ? null : seat.id)}
+                  className="w-full flex items-center justify-between p-3 text-sm text-foreground hover:bg-secondary/50 rounded-lg transition-colors"
+                >
+                  <span className="flex items-center gap-2">
+                    {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    Seat {seat.seat_index}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {entries.length} occupant{entries.length === 1 ? '' : 's'}
+                  </span>
+                </button>
+                {isExpanded && (
+                  <div className="px-3 pb-3 space-y-3">
+                    {entries.map(entry => (
+                      <div key={entry.id} className="flex items-start space-x-3">
+                        <div className={`w-3 h-3 rounded-full mt-1 ${entry.unassigned_at ? 'bg-gray-500' : 'bg-white'}`} />
+                        <div className="flex-1 min-w-0 text-sm">
+                          <p className="text-foreground truncate">
+                            {entry.clients?.name || entry.assigned_email || 'Unknown occupant'}
+                            {entry.clients?.name && entry.assigned_email && (
+                              <span className="text-muted-foreground"> · {entry.assigned_email}</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDate(entry.assigned_at)} → {entry.unassigned_at ? formatDate(entry.unassigned_at) : 'now'}
+                            {' · '}{formatDuration(entry.assigned_at, entry.unassigned_at)}
+                          </p>
+                          {entry.subscriptions && (
+                            <p className="text-xs text-muted-foreground">
+                              {entry.subscriptions.services?.product_service || 'Subscription'} ({entry.subscriptions.status})
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
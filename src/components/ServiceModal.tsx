@@ -5,6 +5,7 @@ import { uploadServiceLogo, validateLogoFile } from '../lib/fileUtils';
 import SearchableDropdown from './SearchableDropdown';
 import { shouldIgnoreKeyboardEvent } from '../lib/useKeyboardShortcuts';
 import { useCurrency } from '../lib/currency';
+import { useProviders } from '../lib/useProviders';
 
 // shadcn/ui components
 import { Button } from '@/components/ui/button';
@@ -14,13 +15,13 @@ import { Label } from '@/components/ui/label';
 interface ServiceModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (service: Omit<Service, 'id' | 'created_at' | 'updated_at'>) => void;
+  onSave: (service: Omit<Service, 'id' | 'created_at' | 'updated_at'>, priceChangeReason?: string) => void;
   service?: Service | null;
-  onLogoChange?: () => void; // Callback for logo changes
 }
 
-export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoChange }: ServiceModalProps) {
+export default function ServiceModal({ isOpen, onClose, onSave, service }: ServiceModalProps) {
   const { formatCurrency, currency } = useCurrency();
+  const { providers } = useProviders();
   const [formData, setFormData] = useState({
     product_service: '',
     category: 'Software',
@@ -29,7 +30,8 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
     cost: 0,
     selling_price: 0,
     logo_url: '',
-    service_type: 'family_invite' as ServiceType
+    service_type: 'family_invite' as ServiceType,
+    provider_id: null as string | null
   });
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [logoPreview, setLogoPreview] = useState<string>('');
@@ -37,6 +39,7 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [logoInputType, setLogoInputType] = useState<'file' | 'url'>('file');
   const [logoUrlInput, setLogoUrlInput] = useState('');
+  const [priceChangeReason, setPriceChangeReason] = useState('');
 
   // Track if modal was previously open to avoid resetting on browser tab switch
   const wasOpen = useRef(false);
@@ -49,6 +52,7 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
     const isDifferentService = service?.id !== lastServiceId.current;
 
     if (isNewOpen || (isOpen && isDifferentService)) {
+      setPriceChangeReason('');
       if (service) {
         setFormData({
           product_service: service.product_service,
@@ -58,7 +62,8 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
           cost: service.cost,
           selling_price: service.selling_price,
           logo_url: service.logo_url || '',
-          service_type: service.service_type || 'family_invite'
+          service_type: service.service_type || 'family_invite',
+          provider_id: service.provider_id || null
         });
         setLogoPreview(service.logo_url || '');
         setLogoUrlInput(service.logo_url || '');
@@ -75,7 +80,8 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
           cost: 0,
           selling_price: 0,
           logo_url: '',
-          service_type: 'family_invite' as ServiceType
+          service_type: 'family_invite' as ServiceType,
+          provider_id: null
         });
         setLogoPreview('');
         setLogoFile(null);
@@ -97,8 +103,6 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
         const reader = new FileReader();
         reader.onload = () => {
           setLogoPreview(reader.result as string);
-          // Notify parent of logo change
-          onLogoChange?.();
         };
         reader.readAsDataURL(file);
       }
@@ -116,14 +120,10 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
       setFormData({ ...formData, logo_url: url.trim() });
       // Set new preview immediately
       setLogoPreview(url.trim());
-      // Notify parent of logo change
-      onLogoChange?.();
     } else {
       // If URL is empty, clear everything
       setLogoPreview('');
       setFormData({ ...formData, logo_url: '' });
-      // Notify parent of logo change
-      onLogoChange?.();
     }
   };
 
@@ -135,18 +135,6 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
-
-    // Remove logo from localStorage for immediate UI updates
-    if (formData.product_service) {
-      const logoKey = `service_logo_${formData.product_service.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
-      localStorage.removeItem(logoKey);
-    }
-
-    // Dispatch custom event for immediate UI update
-    window.dispatchEvent(new CustomEvent('logoUpdated'));
-
-    // Notify parent of logo change
-    onLogoChange?.();
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -158,29 +146,11 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
 
       // Handle logo based on input type
       if (logoInputType === 'file' && logoFile) {
-        // Upload new logo file
-        const uploadedFile = await uploadServiceLogo(logoFile, formData.product_service);
-        finalLogoUrl = uploadedFile.url;
-
-        // Dispatch custom event for immediate UI update
-        window.dispatchEvent(new CustomEvent('logoUpdated'));
+        // Upload the new logo file to storage
+        finalLogoUrl = await uploadServiceLogo(logoFile, formData.product_service);
       } else if (logoInputType === 'url' && logoUrlInput.trim()) {
-        // Use provided URL and store it in localStorage for immediate UI updates
+        // Use provided URL
         finalLogoUrl = logoUrlInput.trim();
-
-        // Store URL-based logo in localStorage for immediate UI updates
-        const logoKey = `service_logo_${formData.product_service.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
-        const urlBasedLogo = {
-          name: 'URL Logo',
-          url: finalLogoUrl,
-          size: 0,
-          type: 'image/url',
-          timestamp: Date.now()
-        };
-        localStorage.setItem(logoKey, JSON.stringify(urlBasedLogo));
-
-        // Dispatch custom event for immediate UI update
-        window.dispatchEvent(new CustomEvent('logoUpdated'));
       } else if (formData.logo_url) {
         // Keep existing logo if no new input
         finalLogoUrl = formData.logo_url;
@@ -192,11 +162,11 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
         logo_url: finalLogoUrl
       };
 
-      onSave(serviceData);
+      onSave(serviceData, priceChangeReason);
       onClose();
     } catch (error) {
-      console.error('Error handling logo:', error);
-      alert('Error handling logo. Please try again.');
+      console.error('Error uploading logo:', error);
+      alert(`Failed to upload logo: ${(error as Error).message}`);
     } finally {
       setIsUploading(false);
     }
@@ -233,6 +203,7 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
   if (!isOpen) return null;
 
   const profit = formData.selling_price - formData.cost;
+  const pricesChanged = !!service && (formData.cost !== service.cost || formData.selling_price !== service.selling_price);
 
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100]" style={{ top: 0, left: 0, right: 0, bottom: 0, width: '100vw', height: '100vh', margin: 0, padding: '16px' }}>
@@ -408,6 +379,27 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
             </p>
           </div>
 
+          <div>
+            <SearchableDropdown
+              label="Provider"
+              options={[
+                { value: '', label: 'No provider' },
+                ...providers.map(provider => ({
+                  value: provider.id,
+                  label: `${provider.icon || '📦'} ${provider.display_name}`
+                }))
+              ]}
+              value={formData.provider_id || ''}
+              onChange={(value) => setFormData({ ...formData, provider_id: value || null })}
+              placeholder="No provider"
+              searchPlaceholder="Search providers..."
+              showSearchThreshold={5}
+            />
+            <p className="mt-1 text-xs text-muted-foreground">
+              Links the service to its pools and personal accounts in Inventory.
+            </p>
+          </div>
+
           <div>
             <Label className="text-muted-foreground">Duration</Label>
             <Input
@@ -474,6 +466,22 @@ export default function ServiceModal({ isOpen, onClose, onSave, service, onLogoC
             </div>
           </div>
 
+          {service && pricesChanged && (
+            <div>
+              <Label className="text-muted-foreground">Reason for price change (optional)</Label>
+              <Input
+                type="text"
+                value={priceChangeReason}
+                onChange={(e) => setPriceChangeReason(e.target.value)}
+                className="mt-2"
+                placeholder="e.g. Supplier raised prices"
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Was {formatCurrency(service.cost)} cost / {formatCurrency(service.selling_price)} price. Kept in the price history.
+              </p>
+            </div>
+          )}
+
           <div className="p-4 bg-secondary/30 border border-border rounded-lg">
             <div className="text-sm font-medium text-muted-foreground mb-1">Profit Preview:</div>
             <div className={`text-2xl font-bold ${profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { X, LineChart } from 'lucide-react';
+import { Service } from '../lib/supabase';
+import { servicePriceHistoryDb, getMarginPercent } from '../lib/servicePriceHistory';
+import { formatDate } from '../lib/subscriptionUtils';
+import { useCurrency } from '../lib/currency';
+import type { ServicePriceChange } from '../types/priceHistory';
+
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface ServicePriceHistoryDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  service: Service | null;
+}
+
+const formatMargin = (margin: number | null) => (margin === null ? '-' : `${margin.toFixed(1)}%`);
+
+export default function ServicePriceHistoryDrawer({ isOpen, onClose, service }: ServicePriceHistoryDrawerProps) {
+  const { formatCurrency } = useCurrency();
+  const [history, setHistory] = useState<ServicePriceChange[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !service) return;
+
+    setLoading(true);
+    servicePriceHistoryDb.getForService(service.id)
+      .then(setHistory)
+      .catch(error => {
+        console.error('Error loading price history:', error);
+        setHistory([]);
+      })
+      .finally(() => setLoading(false));
+  }, [isOpen, service]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen || !service) return null;
+
+  // Each row is the price from that moment on; extend the last one to today
+  const points = [
+    ...history.map(change => ({ at: change.changed_at, cost: change.new_cost, selling_price: change.new_selling_price })),
+    ...(history.length > 0 ? [{ at: new Date().toISOString(), cost: service.cost, selling_price: service.selling_price }] : []),
+  ];
+
+  const chartData = {
+    labels: points.map((point, index) => (index === points.length - 1 ? 'Now' : formatDate(point.at))),
+    datasets: [
+      {
+        label: 'Selling price',
+        data: points.map(point => point.selling_price),
+        borderColor: 'rgb(59, 130, 246)',
+        backgroundColor: 'rgba(59, 130, 246, 0.1)',
+        stepped: true,
+        yAxisID: 'y',
+      },
+      {
+        label: 'Cost',
+        data: points.map(point => point.cost),
+        borderColor: 'rgb(239, 68, 68)',
+        backgroundColor: 'rgba(239, 68, 68, 0.1)',
+        stepped: true,
+        yAxisID: 'y',
+      },
+      {
+        label: 'Margin %',
+        data: points.map(point => getMarginPercent(point)),
+        borderColor: 'rgb(34, 197, 94)',
+        backgroundColor: 'rgba(34, 197, 94, 0.1)',
+        borderDash: [4, 4],
+        stepped: true,
+        yAxisID: 'margin',
+      },
+    ],
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-end z-[110]" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-xl bg-card border-l border-border shadow-2xl overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div className="flex items-center gap-2">
+            <LineChart className="w-5 h-5 text-muted-foreground" />
+            <div>
+              <h2 className="text-xl font-semibold text-foreground">Price History</h2>
+              <p className="text-sm text-muted-foreground">{service.product_service} · {service.duration}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground transition-colors p-1 rounded-lg hover:bg-secondary/50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-foreground"></div>
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No price changes recorded for this service yet.</p>
+          ) : (
+            <>
+              <div className="h-[260px]">
+                <Line
+                  data={chartData}
+                  options={{
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    plugins: {
+                      legend: { position: 'top' as const, labels: { color: '#9ca3af', font: { size: 12 } } },
+                      tooltip: {
+                        callbacks: {
+                          label: (context) => context.dataset.yAxisID === 'margin'
+                            ? `${context.dataset.label}: ${formatMargin(context.parsed.y)}`
+                            : `${context.dataset.label}: ${formatCurrency(context.parsed.y)}`,
+                        },
+                      },
+                    },
+                    scales: {
+                      x: { ticks: { color: '#9ca3af', font: { size: 10 } }, grid: { color: '#374151' } },
+                      y: {
+                        beginAtZero: true,
+                        ticks: { color: '#9ca3af', font: { size: 10 }, callback: (value) => formatCurrency(Number(value)) },
+                        grid: { color: '#374151' },
+                      },
+                      margin: {
+                        position: 'right' as const,
+                        ticks: { color: '#9ca3af', font: { size: 10 }, callback: (value) => `${value}%` },
+                        grid: { drawOnChartArea: false },
+                      },
+                    },
+                  }}
+                />
+              </div>
+
+              {/* Newest change first */}
+              <div className="space-y-2">
+                {[...history].reverse().map(change => {
+                  const isStart = change.old_cost === null || change.old_selling_price === null;
+                  return (
+                    <div key={change.id} className="p-3 bg-secondary/30 border border-border rounded-lg space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-foreground font-medium">{formatDate(change.changed_at)}</span>
+                        <span className="text-muted-foreground">
+                          Margin {formatMargin(getMarginPercent({ cost: change.new_cost, selling_price: change.new_selling_price }))}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {isStart ? (
+                          <>Cost {formatCurrency(change.new_cost)} · Price {formatCurrency(change.new_selling_price)}</>
+                        ) : (
+                          <>
+                            Cost {formatCurrency(change.old_cost as number)} → {formatCurrency(change.new_cost)} ·
+                            Price {formatCurrency(change.old_selling_price as number)} → {formatCurrency(change.new_selling_price)}
+                          </>
+                        )}
+                      </p>
+                      {(change.reason || change.changed_by_email) && (
+                        <p className="text-xs text-muted-foreground">
+                          {change.reason}
+                          {change.reason && change.changed_by_email ? ' · ' : ''}
+                          {change.changed_by_email}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
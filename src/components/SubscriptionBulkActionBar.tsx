@@ -0,0 +1,335 @@
+import { useState, useEffect } from 'react';
+import { X, RefreshCw, Archive, CheckCircle, AlertTriangle, Calendar, Link, CheckSquare } from 'lucide-react';
+import { Subscription } from '../types/subscription';
+import { ResourcePool } from '../types/inventory';
+import { PaymentMethod } from '../types/paymentMethod';
+import { listResourcePools } from '../lib/inventory';
+import { paymentMethodsDb } from '../lib/paymentMethods';
+import {
+  runBulkSubscriptionAction,
+  BulkSubscriptionAction,
+  BulkActionOptions,
+  BulkActionResult,
+  BULK_ACTION_LABELS
+} from '../lib/subscriptionBulkActions';
+import { getTodayInTunisia } from '../lib/dateUtils';
+import { toast } from '../lib/toast';
+import SearchableDropdown from './SearchableDropdown';
+
+interface SubscriptionBulkActionBarProps {
+  selectedSubscriptions: Subscription[];
+  visibleCount: number;
+  getSubscriptionLabel: (subscription: Subscription) => string;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onSubscriptionsUpdated: (subscriptions: Subscription[]) => void;
+}
+
+export default function SubscriptionBulkActionBar({
+  selectedSubscriptions,
+  visibleCount,
+  getSubscriptionLabel,
+  onSelectAll,
+  onClearSelection,
+  onSubscriptionsUpdated
+}: SubscriptionBulkActionBarProps) {
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [pendingAction, setPendingAction] = useState<'renew' | 'setCustomRenewalDate' | 'relinkPool' | null>(null);
+  const [customDate, setCustomDate] = useState(getTodayInTunisia());
+  const [poolId, setPoolId] = useState('');
+  const [pools, setPools] = useState<ResourcePool[]>([]);
+  const [renewalPaid, setRenewalPaid] = useState(true);
+  const [renewalMethod, setRenewalMethod] = useState('');
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [lastRun, setLastRun] = useState<{
+    action: BulkSubscriptionAction;
+    results: BulkActionResult[];
+    labels: Record<string, string>;
+  } | null>(null);
+
+  // Load pools with free seats when the relink form is opened
+  useEffect(() => {
+    if (pendingAction !== 'relinkPool') return;
+
+    const fetchPools = async () => {
+      const { data, error } = await listResourcePools({ status: 'active', alive: true });
+      if (error) {
+        console.error('Error fetching pools for relink:', error);
+        return;
+      }
+      setPools((data || []).filter(pool => pool.used_seats < pool.max_seats));
+    };
+
+    fetchPools();
+  }, [pendingAction]);
+
+  // Load payment methods when the renew form is opened
+  useEffect(() => {
+    if (pendingAction !== 'renew') return;
+
+    paymentMethodsDb.getAll()
+      .then(methods => setPaymentMethods(methods.filter(method => method.is_active)))
+      .catch(error => console.error('Error fetching payment methods for renewal:', error));
+  }, [pendingAction]);
+
+  const runAction = async (action: BulkSubscriptionAction, options: BulkActionOptions = {}) => {
+    const targets = selectedSubscriptions;
+    if (targets.length === 0) return;
+
+    const label = BULK_ACTION_LABELS[action];
+    if (!confirm(`${label} ${targets.length} subscription${targets.length !== 1 ? 's' : ''}?`)) return;
+
+    // Capture labels up front so the report stays readable after the selection changes
+    const labels: Record<string, string> = {};
+    targets.forEach(sub => {
+      labels[sub.id] = getSubscriptionLabel(sub);
+    });
+
+    setIsRunning(true);
+    setProgress({ done: 0, total: targets.length });
+    try {
+      const results = await runBulkSubscriptionAction(targets, action, options, (done, total) => {
+        setProgress({ done, total });
+      });
+
+      const updated = results
+        .filter(result => result.success && result.subscription)
+        .map(result => result.subscription as Subscription);
+      if (updated.length > 0) {
+        onSubscriptionsUpdated(updated);
+      }
+
+      const failedCount = results.length - updated.length;
+      if (failedCount === 0) {
+        toast.show(`${label}: ${updated.length} subscription${updated.length !== 1 ? 's' : ''} updated`, { type: 'success' });
+      } else {
+        toast.show(`${label}: ${updated.length} succeeded, ${failedCount} failed`, { type: 'error' });
+      }
+
+      setLastRun({ action, results, labels });
+      setPendingAction(null);
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const failedResults = lastRun ? lastRun.results.filter(result => !result.success) : [];
+  const succeededResults = lastRun ? lastRun.results.filter(result => result.success) : [];
+
+  if (selectedSubscriptions.length === 0 && !lastRun) return null;
+
+  return (
+    <div className="space-y-3">
+      {selectedSubscriptions.length > 0 && (
+        <div className="sticky top-2 z-20 bg-card/95 backdrop-blur-sm border border-border rounded-2xl p-4 shadow-lg">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-white mr-2">
+              {selectedSubscriptions.length} selected
+            </span>
+            {selectedSubscriptions.length < visibleCount && (
+              <button
+                onClick={onSelectAll}
+                disabled={isRunning}
+                className="px-3 py-1.5 text-xs text-muted-foreground hover:text-white hover:bg-secondary rounded-lg transition-colors flex items-center gap-1"
+              >
+                <CheckSquare className="w-3 h-3" />
+                Select all ({visibleCount})
+              </button>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 ml-auto">
+              <button
+                onClick={() => setPendingAction(pendingAction === 'renew' ? null : 'renew')}
+                disabled={isRunning}
+                className={`px-3 py-1.5 disabled:opacity-50 text-xs rounded-lg transition-colors flex items-center gap-1 ${pendingAction === 'renew' ? 'bg-white text-black' : 'bg-secondary hover:bg-muted text-white'}`}
+              >
+                <RefreshCw className="w-3 h-3" />
+                Renew
+              </button>
+              <button
+                onClick={() => runAction('complete')}
+                disabled={isRunning}
+                className="px-3 py-1.5 bg-secondary hover:bg-muted disabled:opacity-50 text-white text-xs rounded-lg transition-colors flex items-center gap-1"
+              >
+                <CheckCircle className="w-3 h-3" />
+                Complete
+              </button>
+              <button
+                onClick={() => runAction('markOverdue')}
+                disabled={isRunning}
+                className="px-3 py-1.5 bg-secondary hover:bg-muted disabled:opacity-50 text-red-400 text-xs rounded-lg transition-colors flex items-center gap-1"
+              >
+                <AlertTriangle className="w-3 h-3" />
+                Mark Overdue
+              </button>
+              <button
+                onClick={() => setPendingAction(pendingAction === 'setCustomRenewalDate' ? null : 'setCustomRenewalDate')}
+                disabled={isRunning}
+                className={`px-3 py-1.5 disabled:opacity-50 text-xs rounded-lg transition-colors flex items-center gap-1 ${pendingAction === 'setCustomRenewalDate' ? 'bg-white text-black' : 'bg-secondary hover:bg-muted text-white'}`}
+              >
+                <Calendar className="w-3 h-3" />
+                Set Renewal Date
+              </button>
+              <button
+                onClick={() => setPendingAction(pendingAction === 'relinkPool' ? null : 'relinkPool')}
+                disabled={isRunning}
+                className={`px-3 py-1.5 disabled:opacity-50 text-xs rounded-lg transition-colors flex items-center gap-1 ${pendingAction === 'relinkPool' ? 'bg-white text-black' : 'bg-secondary hover:bg-muted text-white'}`}
+              >
+                <Link className="w-3 h-3" />
+                Relink Pool
+              </button>
+              <button
+                onClick={() => runAction('archive')}
+                disabled={isRunning}
+                className="px-3 py-1.5 bg-secondary hover:bg-muted disabled:opacity-50 text-muted-foreground text-xs rounded-lg transition-colors flex items-center gap-1"
+              >
+                <Archive className="w-3 h-3" />
+                Archive
+              </button>
+              <button
+                onClick={onClearSelection}
+                disabled={isRunning}
+                className="p-1.5 text-muted-foreground hover:text-white hover:bg-secondary rounded-lg transition-colors"
+                title="Clear selection (Esc)"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {pendingAction === 'renew' && (
+            <div className="mt-3 flex flex-wrap items-end gap-2">
+              <div>
+                <label className="block text-xs font-medium text-muted-foreground mb-1">Charged renewals</label>
+                <div className="flex space-x-1 bg-secondary p-1 rounded-lg">
+                  {[true, false].map(paid => (
+                    <button
+                      key={String(paid)}
+                      type="button"
+                      onClick={() => setRenewalPaid(paid)}
+                      className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${renewalPaid === paid ? 'bg-white text-black' : 'text-muted-foreground hover:text-white'}`}
+                    >
+                      {paid ? 'Paid' : 'Left owed'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {renewalPaid && (
+                <SearchableDropdown
+                  label="Method"
+                  options={[
+                    { value: '', label: 'Not specified' },
+                    ...paymentMethods.map(method => ({ value: method.key, label: method.name }))
+                  ]}
+                  value={renewalMethod}
+                  onChange={setRenewalMethod}
+                  placeholder="Not specified"
+                  allowClear={false}
+                  className="min-w-[200px]"
+                />
+              )}
+              <button
+                onClick={() => runAction('renew', {
+                  renewalPayment: renewalPaid ? { amount: null, paymentMethod: renewalMethod || null } : undefined
+                })}
+                disabled={isRunning}
+                className="px-3 py-2 ghost-button text-black text-sm"
+              >
+                Renew {selectedSubscriptions.length}
+              </button>
+            </div>
+          )}
+
+          {pendingAction === 'setCustomRenewalDate' && (
+            <div className="mt-3 flex flex-wrap items-end gap-2">
+              <div>
+                <label className="block text-xs font-medium text-muted-foreground mb-1">New renewal date</label>
+                <input
+                  type="date"
+                  value={customDate}
+                  onChange={(e) => setCustomDate(e.target.value)}
+                  className="px-3 py-2 bg-secondary border border-border rounded-lg text-white text-sm focus:outline-none focus:border-white"
+                />
+              </div>
+              <button
+                onClick={() => runAction('setCustomRenewalDate', { customDate })}
+                disabled={isRunning || !customDate}
+                className="px-3 py-2 ghost-button text-black text-sm"
+              >
+                Apply to {selectedSubscriptions.length}
+              </button>
+            </div>
+          )}
+
+          {pendingAction === 'relinkPool' && (
+            <div className="mt-3 flex flex-wrap items-end gap-2">
+              <SearchableDropdown
+                label="Target pool"
+                options={pools.map(pool => ({
+                  value: pool.id,
+                  label: `${pool.provider.replace('_', ' ').toUpperCase()} - ${pool.login_email} (${pool.max_seats - pool.used_seats} free)`
+                }))}
+                value={poolId}
+                onChange={setPoolId}
+                placeholder="Select pool"
+                searchPlaceholder="Search pools..."
+                emptyMessage="No pools with free seats"
+                className="min-w-[280px]"
+                showSearchThreshold={5}
+              />
+              <button
+                onClick={() => runAction('relinkPool', { poolId })}
+                disabled={isRunning || !poolId}
+                className="px-3 py-2 ghost-button text-black text-sm"
+              >
+                Relink {selectedSubscriptions.length}
+              </button>
+            </div>
+          )}
+
+          {progress && (
+            <p className="mt-3 text-xs text-muted-foreground">
+              Processing {progress.done} / {progress.total}...
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Per-subscription results of the last bulk run */}
+      {lastRun && (
+        <div className="bg-secondary/50 border border-border/50 rounded-2xl p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-white">
+              {BULK_ACTION_LABELS[lastRun.action]}: {succeededResults.length} succeeded, {failedResults.length} failed
+            </h3>
+            <button
+              onClick={() => setLastRun(null)}
+              className="p-1 text-muted-foreground hover:text-white rounded-lg transition-colors"
+              aria-label="Dismiss results"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="space-y-1 max-h-48 overflow-y-auto text-xs">
+            {failedResults.map(result => (
+              <li key={result.subscriptionId} className="flex items-start gap-2 text-red-400">
+                <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                <span>
+                  <span className="font-medium">{lastRun.labels[result.subscriptionId]}</span>: {result.error}
+                </span>
+              </li>
+            ))}
+            {succeededResults.map(result => (
+              <li key={result.subscriptionId} className="flex items-start gap-2 text-muted-foreground">
+                <CheckCircle className="w-3 h-3 mt-0.5 flex-shrink-0 text-green-400" />
+                <span>{lastRun.labels[result.subscriptionId]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Edit, Trash2, Copy, Eye, MoreVertical, AlertTriangle, RefreshCw, CheckCircle, Archive } from 'lucide-react';
+import { Edit, Trash2, Copy, Eye, MoreVertical, AlertTriangle, RefreshCw, CheckCircle, Archive, Pause, Play } from 'lucide-react';
 import { Subscription } from '../types/subscription';
 import { subscriptionService } from '../lib/subscriptionService';
-import { formatFullPeriodCountdown, formatRenewalCountdown, formatElapsedTime, formatDate, getStatusBadge, getStrategyDisplayName, getStrategyPillColor, getProgressBarColor, formatServiceTitleWithDuration } from '../lib/subscriptionUtils';
-import { computeCycleProgress, computeRenewalProgress } from '../lib/subscriptionStrategies';
+import { formatFullPeriodCountdown, formatRenewalCountdown, formatElapsedTime, formatDate, getStatusBadge, getStrategyDisplayName, getStrategyPillColor, getProgressBarColor, formatServiceTitleWithDuration, formatPrepaidCycles, needsPayment, isChargedRenewal } from '../lib/subscriptionUtils';
+import { computeCycleProgress, computeRenewalProgress, getCountdownNow } from '../lib/subscriptionStrategies';
 import { supabase } from '../lib/supabase';
-import { getServiceLogo } from '../lib/fileUtils';
 import { getResourcePool } from '../lib/inventory';
 import { ResourcePool } from '../types/inventory';
 import { copyToClipboard } from '../lib/toast';
 import { getNowInTunisia, toTunisiaTime } from '../lib/dateUtils';
+import RenewSubscriptionModal from './RenewSubscriptionModal';
 
 // Status Badge Component
 const StatusBadge: React.FC<{ status: Subscription['status'] }> = ({ status }) => {
@@ -33,6 +33,8 @@ interface SubscriptionCardProps {
   onView: (subscription: Subscription) => void;
   onEdit: (subscription: Subscription) => void;
   isArchived?: boolean;
+  isSelected?: boolean;
+  onSelectToggle?: (subscriptionId: string, extendRange: boolean) => void;
 }
 
 export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
@@ -41,7 +43,9 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
   onDelete,
   onView,
   onEdit,
-  isArchived = false
+  isArchived = false,
+  isSelected = false,
+  onSelectToggle
 }) => {
   const [serviceName, setServiceName] = useState<string>('');
   const [serviceDuration, setServiceDuration] = useState<string>('');
@@ -49,50 +53,27 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
   const [countdown, setCountdown] = useState<string>('');
   const [fullPeriodCountdown, setFullPeriodCountdown] = useState<string>('');
   const [resourcePool, setResourcePool] = useState<ResourcePool | null>(null);
-  const [logoRefreshTrigger, setLogoRefreshTrigger] = useState(0);
+  const [serviceLogo, setServiceLogo] = useState<string | null>(null);
   const [showMenu, setShowMenu] = useState(false);
+  const [showRenewModal, setShowRenewModal] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
 
-  // Listen for localStorage changes and custom logo update events
-  useEffect(() => {
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key && e.key.startsWith('service_logo_')) {
-        // Force logo refresh when localStorage changes
-        setLogoRefreshTrigger(prev => prev + 1);
-      }
-    };
-
-    const handleLogoUpdate = () => {
-      // Force logo refresh when custom logo update event is dispatched
-      setLogoRefreshTrigger(prev => prev + 1);
-    };
-
-    window.addEventListener('storage', handleStorageChange);
-    window.addEventListener('logoUpdated', handleLogoUpdate);
-
-    return () => {
-      window.removeEventListener('storage', handleStorageChange);
-      window.removeEventListener('logoUpdated', handleLogoUpdate);
-    };
-  }, []);
-
   // Fetch service and client names
   useEffect(() => {
     const fetchNames = async () => {
       try {
-        // Fetch service name and duration
+        // Fetch service name, duration, and logo
         const { data: serviceData } = await supabase
           .from('services')
-          .select('product_service, duration')
+          .select('product_service, duration, logo_url')
           .eq('id', subscription.serviceId)
           .single();
 
         if (serviceData) {
           setServiceName(serviceData.product_service);
           setServiceDuration(serviceData.duration);
-          // Trigger logo refresh when service name is loaded
-          setLogoRefreshTrigger(prev => prev + 1);
+          setServiceLogo(serviceData.logo_url || null);
         }
 
         // Fetch client name
@@ -134,7 +115,7 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
       // Update renewal countdown
       const targetDate = subscription.nextRenewalAt || subscription.targetEndAt;
       if (targetDate) {
-        const now = getNowInTunisia();
+        const now = getCountdownNow(subscription);
         const target = toTunisiaTime(new Date(targetDate));
         const msLeft = target.getTime() - now.getTime();
         setCountdown(formatRenewalCountdown(msLeft));
@@ -142,7 +123,7 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
 
       // Update full period countdown
       if (subscription.targetEndAt) {
-        const now = getNowInTunisia();
+        const now = getCountdownNow(subscription);
         const target = toTunisiaTime(new Date(subscription.targetEndAt));
         const fullPeriodMsLeft = target.getTime() - now.getTime();
         setFullPeriodCountdown(formatFullPeriodCountdown(fullPeriodMsLeft));
@@ -152,7 +133,7 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
     updateCountdown();
     const interval = setInterval(updateCountdown, 1000);
     return () => clearInterval(interval);
-  }, [subscription.nextRenewalAt, subscription.targetEndAt]);
+  }, [subscription]);
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -191,6 +172,11 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
   const handleRenew = async (e: React.MouseEvent) => {
     e.stopPropagation();
     setShowMenu(false);
+    // Charged renewals ask how the client paid
+    if (isChargedRenewal(subscription)) {
+      setShowRenewModal(true);
+      return;
+    }
     try {
       const updated = await subscriptionService.renewNow(subscription.id);
       onUpdate(updated);
@@ -199,6 +185,30 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
     }
   };
 
+  const handlePause = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowMenu(false);
+    if (confirm('Pause this subscription? The countdown will freeze until it is resumed.')) {
+      try {
+        const updated = await subscriptionService.pause(subscription.id);
+        onUpdate(updated);
+      } catch (error) {
+        alert(`Failed to pause subscription: ${(error as Error).message}`);
+      }
+    }
+  };
+
+  const handleResume = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowMenu(false);
+    try {
+      const updated = await subscriptionService.resume(subscription.id);
+      onUpdate(updated);
+    } catch (error) {
+      alert(`Failed to resume subscription: ${(error as Error).message}`);
+    }
+  };
+
   const handleComplete = async (e: React.MouseEvent) => {
     e.stopPropagation();
     setShowMenu(false);
@@ -245,11 +255,13 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
   // Determine display text - show "Overdue" if linked to dead pool, otherwise show normal text
   const displayText = isOverdueFromDeadPool
     ? 'Overdue'
-    : subscription.customNextRenewalAt
-      ? 'Custom renewal'
-      : subscription.targetEndAt
-        ? 'Subscription ends'
-        : 'Next renewal';
+    : subscription.status === 'paused'
+      ? 'Paused'
+      : subscription.customNextRenewalAt
+        ? 'Custom renewal'
+        : subscription.targetEndAt
+          ? 'Subscription ends'
+          : 'Next renewal';
 
   // For overdue subscriptions linked to dead pools, ensure progress bar shows at 100%
   const progressBarWidth = isOverdueFromDeadPool
@@ -270,9 +282,18 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
   const daysUsed = getDaysUsed();
 
   return (
+    <>
     <div
-      onClick={() => onView(subscription)}
-      className={`w-full max-w-full rounded-2xl border transition-all duration-200 cursor-pointer group hover-lift-subtle ${subscription.status === 'completed'
+      onClick={(e) => {
+        // Shift/Ctrl/Cmd-click selects the card instead of opening it
+        if (onSelectToggle && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+          e.preventDefault();
+          onSelectToggle(subscription.id, e.shiftKey);
+          return;
+        }
+        onView(subscription);
+      }}
+      className={`w-full max-w-full rounded-2xl border transition-all duration-200 cursor-pointer group hover-lift-subtle ${isSelected ? 'border-white/70 ' : ''}${subscription.status === 'completed'
         ? 'bg-card/30 border-border/50'
         : subscription.status === 'archived'
           ? 'bg-card/20 border-border/30'
@@ -285,27 +306,37 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
       <div className="p-3 sm:p-4 border-b border-border/30">
         <div className="flex items-start justify-between mb-2">
           <div className="flex items-center space-x-2 sm:space-x-3 min-w-0 flex-1">
+            {onSelectToggle && (
+              <input
+                type="checkbox"
+                checked={isSelected}
+                readOnly
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelectToggle(subscription.id, e.shiftKey);
+                }}
+                className="w-4 h-4 rounded border-border bg-secondary accent-white cursor-pointer flex-shrink-0"
+                aria-label="Select subscription"
+              />
+            )}
             <div className="w-6 h-6 sm:w-8 sm:h-8 rounded-lg overflow-hidden bg-secondary flex items-center justify-center border border-border flex-shrink-0">
-              {(() => {
-                const serviceLogo = getServiceLogo(serviceName);
-                return serviceLogo ? (
-                  <img
-                    key={`${serviceName}_${logoRefreshTrigger}`} // Force re-render with new key
-                    src={serviceLogo}
-                    alt={`${serviceName} logo`}
-                    className="w-full h-full object-cover"
-                    loading="lazy"
-                    decoding="async"
-                    fetchPriority="low"
-                    onError={(e) => {
-                      const target = e.target as HTMLImageElement;
-                      target.style.display = 'none';
-                      target.nextElementSibling?.classList.remove('hidden');
-                    }}
-                  />
-                ) : null;
-              })()}
-              <div className={`w-full h-full flex items-center justify-center text-muted-foreground ${getServiceLogo(serviceName) ? 'hidden' : ''}`}>
+              {serviceLogo ? (
+                <img
+                  key={serviceLogo}
+                  src={serviceLogo}
+                  alt={`${serviceName} logo`}
+                  className="w-full h-full object-cover"
+                  loading="lazy"
+                  decoding="async"
+                  fetchPriority="low"
+                  onError={(e) => {
+                    const target = e.target as HTMLImageElement;
+                    target.style.display = 'none';
+                    target.nextElementSibling?.classList.remove('hidden');
+                  }}
+                />
+              ) : null}
+              <div className={`w-full h-full flex items-center justify-center text-muted-foreground ${serviceLogo ? 'hidden' : ''}`}>
                 <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
@@ -385,6 +416,15 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
                         <RefreshCw className="w-3 h-3 sm:w-4 sm:h-4" />
                         <span>Renew</span>
                       </button>
+                      {subscription.status === 'active' && (
+                        <button
+                          onClick={handlePause}
+                          className="w-full px-3 py-2 text-left text-xs sm:text-sm text-yellow-400 hover:bg-secondary flex items-center gap-2"
+                        >
+                          <Pause className="w-3 h-3 sm:w-4 sm:h-4" />
+                          <span>Pause</span>
+                        </button>
+                      )}
                       <button
                         onClick={handleComplete}
                         className="w-full px-3 py-2 text-left text-xs sm:text-sm text-white hover:bg-secondary flex items-center gap-2"
@@ -395,6 +435,19 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
                     </>
                   )}
 
+                  {subscription.status === 'paused' && (
+                    <>
+                      <div className="border-t border-border my-1" />
+                      <button
+                        onClick={handleResume}
+                        className="w-full px-3 py-2 text-left text-xs sm:text-sm text-white hover:bg-secondary flex items-center gap-2"
+                      >
+                        <Play className="w-3 h-3 sm:w-4 sm:h-4" />
+                        <span>Resume</span>
+                      </button>
+                    </>
+                  )}
+
                   {(subscription.status === 'active' || subscription.status === 'completed' || subscription.status === 'overdue') && (
                     <>
                       <div className="border-t border-border my-1" />
@@ -615,6 +668,26 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
             </div>
           )}
 
+          {/* Prepaid Cycles Badge */}
+          {formatPrepaidCycles(subscription) && (
+            <div className="inline-flex items-center px-1.5 sm:px-2 py-0.5 sm:py-1 bg-emerald-900/30 text-emerald-400 rounded-full text-xs font-medium">
+              <svg className="w-2.5 h-2.5 sm:w-3 sm:h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <span className="text-xs">{formatPrepaidCycles(subscription)}</span>
+            </div>
+          )}
+
+          {/* Needs Payment Badge */}
+          {needsPayment(subscription) && !isOverdueFromDeadPool && (
+            <div className="inline-flex items-center px-1.5 sm:px-2 py-0.5 sm:py-1 bg-orange-900/30 text-orange-400 rounded-full text-xs font-medium border border-orange-800/50">
+              <svg className="w-2.5 h-2.5 sm:w-3 sm:h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <span className="text-xs">Needs payment</span>
+            </div>
+          )}
+
           {/* Days Used for Completed Subscriptions */}
           {subscription.status === 'completed' && daysUsed > 0 && (
             <div className="inline-flex items-center px-1.5 sm:px-2 py-0.5 sm:py-1 bg-zinc-800/50 text-white rounded-full text-xs font-medium">
@@ -699,6 +772,13 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
         </div>
       </div>
     </div>
+    <RenewSubscriptionModal
+      isOpen={showRenewModal}
+      onClose={() => setShowRenewModal(false)}
+      subscription={subscription}
+      onRenewed={onUpdate}
+    />
+    </>
   );
 }, (prevProps, nextProps) => {
   // Custom comparison for better memoization
@@ -708,7 +788,10 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = React.memo(({
     prevProps.subscription.nextRenewalAt === nextProps.subscription.nextRenewalAt &&
     prevProps.subscription.customNextRenewalAt === nextProps.subscription.customNextRenewalAt &&
     prevProps.subscription.notes === nextProps.subscription.notes &&
+    prevProps.subscription.iterationsDone === nextProps.subscription.iterationsDone &&
+    prevProps.subscription.cyclesPaid === nextProps.subscription.cyclesPaid &&
     prevProps.subscription.resourcePoolId === nextProps.subscription.resourcePoolId &&
-    prevProps.isArchived === nextProps.isArchived
+    prevProps.isArchived === nextProps.isArchived &&
+    prevProps.isSelected === nextProps.isSelected
   );
 });
@@ -1,13 +1,13 @@
 import { useState, useEffect } from 'react';
-import { X, Edit, Clock, Calendar, Package, CheckCircle, RefreshCw, Trash2, Mail, Copy, AlertTriangle } from 'lucide-react';
+import { X, Edit, Clock, Calendar, Package, CheckCircle, RefreshCw, Trash2, Mail, Copy, AlertTriangle, Pause, Play } from 'lucide-react';
 import { Subscription, SubscriptionEvent } from '../types/subscription';
 import { subscriptionService } from '../lib/subscriptionService';
-import { getStrategyDisplayName, formatDate, formatFullPeriodCountdown, formatRenewalCountdown, formatElapsedTime, getStatusBadge, getProgressBarColor, formatServiceTitleWithDuration } from '../lib/subscriptionUtils';
-import { computeCycleProgress, computeRenewalProgress } from '../lib/subscriptionStrategies';
+import { getStrategyDisplayName, formatDate, formatFullPeriodCountdown, formatRenewalCountdown, formatElapsedTime, getStatusBadge, getProgressBarColor, formatServiceTitleWithDuration, formatPrepaidCycles, needsPayment, isChargedRenewal } from '../lib/subscriptionUtils';
+import { computeCycleProgress, computeRenewalProgress, getCountdownNow } from '../lib/subscriptionStrategies';
 import { supabase } from '../lib/supabase';
-import { getServiceLogo } from '../lib/fileUtils';
 import { shouldIgnoreKeyboardEvent } from '../lib/useKeyboardShortcuts';
-import { getNowInTunisia, toTunisiaTime } from '../lib/dateUtils';
+import { toTunisiaTime } from '../lib/dateUtils';
+import RenewSubscriptionModal from './RenewSubscriptionModal';
 
 interface SubscriptionDetailModalProps {
   isOpen: boolean;
@@ -28,6 +28,7 @@ export default function SubscriptionDetailModal({
 }: SubscriptionDetailModalProps) {
   // Remove edit state - this modal is now read-only
   const [isLoading, setIsLoading] = useState(false);
+  const [showRenewModal, setShowRenewModal] = useState(false);
   const [events, setEvents] = useState<SubscriptionEvent[]>([]);
   const [serviceName, setServiceName] = useState('');
   const [clientName, setClientName] = useState('');
@@ -36,30 +37,6 @@ export default function SubscriptionDetailModal({
   // Remove edit data - editing is handled by SubscriptionEditModal
   const [countdown, setCountdown] = useState<string>('');
   const [fullPeriodCountdown, setFullPeriodCountdown] = useState<string>('');
-  const [logoRefreshTrigger, setLogoRefreshTrigger] = useState(0);
-
-  // Listen for localStorage changes and custom logo update events
-  useEffect(() => {
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key && e.key.startsWith('service_logo_')) {
-        // Force logo refresh when localStorage changes
-        setLogoRefreshTrigger(prev => prev + 1);
-      }
-    };
-
-    const handleLogoUpdate = () => {
-      // Force logo refresh when custom logo update event is dispatched
-      setLogoRefreshTrigger(prev => prev + 1);
-    };
-
-    window.addEventListener('storage', handleStorageChange);
-    window.addEventListener('logoUpdated', handleLogoUpdate);
-
-    return () => {
-      window.removeEventListener('storage', handleStorageChange);
-      window.removeEventListener('logoUpdated', handleLogoUpdate);
-    };
-  }, []);
 
   useEffect(() => {
     if (isOpen && subscription) {
@@ -75,7 +52,7 @@ export default function SubscriptionDetailModal({
       // Update renewal countdown
       const targetDate = subscription.nextRenewalAt || subscription.targetEndAt;
       if (targetDate) {
-        const now = getNowInTunisia();
+        const now = getCountdownNow(subscription);
         const target = toTunisiaTime(new Date(targetDate));
         const msLeft = target.getTime() - now.getTime();
         setCountdown(formatRenewalCountdown(msLeft));
@@ -83,7 +60,7 @@ export default function SubscriptionDetailModal({
 
       // Update full period countdown
       if (subscription.targetEndAt) {
-        const now = getNowInTunisia();
+        const now = getCountdownNow(subscription);
         const target = toTunisiaTime(new Date(subscription.targetEndAt));
         const fullPeriodMsLeft = target.getTime() - now.getTime();
         setFullPeriodCountdown(formatFullPeriodCountdown(fullPeriodMsLeft));
@@ -110,11 +87,7 @@ export default function SubscriptionDetailModal({
       if (service) {
         setServiceName(service.product_service);
         setServiceDuration(service.duration || '');
-        // Get the logo using the service name
-        const logoUrl = getServiceLogo(service.product_service);
-        setServiceLogo(logoUrl);
-        // Trigger logo refresh when service name is loaded
-        setLogoRefreshTrigger(prev => prev + 1);
+        setServiceLogo(service.logo_url || null);
       }
 
       // Fetch client name
@@ -160,6 +133,11 @@ export default function SubscriptionDetailModal({
 
   const handleRenew = async () => {
     if (!subscription) return;
+    // Charged renewals ask how the client paid
+    if (isChargedRenewal(subscription)) {
+      setShowRenewModal(true);
+      return;
+    }
 
     setIsLoading(true);
     try {
@@ -198,6 +176,44 @@ export default function SubscriptionDetailModal({
 
 
 
+  const handlePause = async () => {
+    if (!subscription) return;
+
+    if (!confirm('Pause this subscription? The countdown will freeze until it is resumed.')) return;
+
+    setIsLoading(true);
+    try {
+      const updated = await subscriptionService.pause(subscription.id);
+      onUpdate(updated);
+      fetchSubscriptionData();
+      // Close modal after successful update
+      onClose();
+    } catch (error) {
+      console.error('Error pausing subscription:', error);
+      alert(`Failed to pause subscription: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResume = async () => {
+    if (!subscription) return;
+
+    setIsLoading(true);
+    try {
+      const updated = await subscriptionService.resume(subscription.id);
+      onUpdate(updated);
+      fetchSubscriptionData();
+      // Close modal after successful update
+      onClose();
+    } catch (error) {
+      console.error('Error resuming subscription:', error);
+      alert(`Failed to resume subscription: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleRevert = async () => {
     if (!subscription) return;
 
@@ -356,7 +372,7 @@ export default function SubscriptionDetailModal({
             <div className="w-10 h-10 rounded-xl overflow-hidden bg-gray-700 flex items-center justify-center border border-gray-600">
               {serviceLogo ? (
                 <img
-                  key={`${serviceName}_${logoRefreshTrigger}`} // Force re-render with new key
+                  key={serviceLogo}
                   src={serviceLogo}
                   alt={`${serviceName} logo`}
                   className="w-full h-full object-cover"
@@ -421,6 +437,18 @@ export default function SubscriptionDetailModal({
               <p className="text-gray-400 text-sm">Strategy</p>
             </div>
 
+            {(formatPrepaidCycles(subscription) || needsPayment(subscription)) && (
+              <div className={`p-4 rounded-lg ${needsPayment(subscription) ? 'bg-orange-900/20 border border-orange-800' : 'bg-gray-800/50'}`}>
+                <div className={`font-medium mb-2 ${needsPayment(subscription) ? 'text-orange-400' : 'text-white'}`}>
+                  {needsPayment(subscription) ? 'Needs payment' : formatPrepaidCycles(subscription)}
+                </div>
+                <p className="text-gray-400 text-sm">
+                  {needsPayment(subscription) && formatPrepaidCycles(subscription)
+                    ? `Prepaid cycles used up (${formatPrepaidCycles(subscription)})`
+                    : 'Prepaid Cycles'}
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Timeline Section */}
@@ -433,8 +461,9 @@ export default function SubscriptionDetailModal({
                 <div className="flex items-center justify-between mb-3">
                   <span className="text-sm font-medium text-gray-300 flex items-center">
                     <Clock className="w-4 h-4 mr-2 text-white" />
-                    {subscription.customNextRenewalAt ? 'Custom renewal' :
-                      subscription.targetEndAt ? 'Subscription ends' : 'Next renewal'}
+                    {subscription.status === 'paused' ? 'Paused' :
+                      subscription.customNextRenewalAt ? 'Custom renewal' :
+                        subscription.targetEndAt ? 'Subscription ends' : 'Next renewal'}
                   </span>
                   {(subscription.nextRenewalAt || subscription.targetEndAt) && (
                     <span className="text-xs font-medium text-white bg-blue-900/50 px-2 py-1 rounded-full">
@@ -593,6 +622,28 @@ export default function SubscriptionDetailModal({
                 </>
               )}
 
+              {subscription.status === 'active' && (
+                <button
+                  onClick={handlePause}
+                  disabled={isLoading}
+                  className="p-2 bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 text-white text-sm rounded-lg transition-colors flex items-center gap-2 justify-center"
+                >
+                  <Pause className="w-4 h-4" />
+                  Pause
+                </button>
+              )}
+
+              {subscription.status === 'paused' && (
+                <button
+                  onClick={handleResume}
+                  disabled={isLoading}
+                  className="p-2 ghost-button text-black text-sm flex items-center gap-2 justify-center"
+                >
+                  <Play className="w-4 h-4" />
+                  Resume
+                </button>
+              )}
+
               {subscription.status === 'active' && (
                 <button
                   onClick={handleMarkOverdue}
@@ -617,7 +668,7 @@ export default function SubscriptionDetailModal({
                 </button>
               )}
 
-              {(subscription.status === 'completed' || subscription.status === 'paused' || subscription.status === 'canceled') && (
+              {(subscription.status === 'completed' || subscription.status === 'canceled') && (
                 <button
                   onClick={handleRevert}
                   disabled={isLoading}
@@ -684,6 +735,18 @@ export default function SubscriptionDetailModal({
                       <span className="text-white">{subscription.intervalDays} days</span>
                     </div>
                   )}
+                  {subscription.chargeOnRenewal === false && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Renewals:</span>
+                      <span className="text-white">Renew without charging</span>
+                    </div>
+                  )}
+                  {subscription.cyclesPaid && subscription.cyclesPaid > 1 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Prepaid:</span>
+                      <span className="text-white">{formatPrepaidCycles(subscription)}</span>
+                    </div>
+                  )}
                   {subscription.targetEndAt && (
                     <div className="flex justify-between">
                       <span className="text-gray-400">Target End:</span>
@@ -720,8 +783,10 @@ export default function SubscriptionDetailModal({
                           event.type === 'overdue' ? 'bg-red-500' :
                             event.type === 'custom_date_set' ? 'bg-purple-500' :
                               event.type === 'archived' ? 'bg-gray-500' :
-                                event.type === 'reverted' ? 'bg-orange-500' :
-                                  'bg-gray-500'
+                                event.type === 'paused' ? 'bg-yellow-500' :
+                                  event.type === 'resumed' ? 'bg-white' :
+                                    event.type === 'reverted' ? 'bg-orange-500' :
+                                      'bg-gray-500'
                     }`} />
                   <div className="flex-1">
                     <div className="text-white font-medium capitalize">
@@ -759,6 +824,20 @@ export default function SubscriptionDetailModal({
                             <span className="font-medium ml-1">{event.meta.strategy}</span>
                           </div>
                         )}
+                        {event.meta.transactionId && (
+                          <div>
+                            <span className="text-gray-400">Sale:</span>
+                            <span className="font-medium ml-1">Recorded in transactions</span>
+                          </div>
+                        )}
+                        {event.meta.prepaid && (
+                          <div>
+                            <span className="text-gray-400">Prepaid cycle:</span>
+                            <span className="font-medium ml-1">
+                              {event.meta.cyclesRemaining} of {event.meta.cyclesPaid} remaining
+                            </span>
+                          </div>
+                        )}
                       </div>
                     )}
 
@@ -774,6 +853,37 @@ export default function SubscriptionDetailModal({
                       </div>
                     )}
 
+                    {/* Show info for reminder events */}
+                    {event.type === 'reminder_sent' && event.meta?.message && (
+                      <div className="mt-2 text-xs text-gray-300 whitespace-pre-wrap">
+                        {event.meta.message}
+                      </div>
+                    )}
+
+                    {/* Show info for pause/resume events */}
+                    {event.type === 'paused' && event.meta?.reason && (
+                      <div className="mt-2 text-xs text-gray-300">
+                        <span className="text-gray-400">Reason:</span>
+                        <span className="font-medium ml-1">{event.meta.reason}</span>
+                      </div>
+                    )}
+                    {event.type === 'resumed' && event.meta && (
+                      <div className="mt-2 space-y-1 text-xs text-gray-300">
+                        <div>
+                          <span className="text-gray-400">Paused:</span>
+                          <span className="font-medium ml-1">
+                            {event.meta.pausedAt ? formatDate(event.meta.pausedAt) : 'Unknown'} → {formatDate(event.meta.resumedAt || event.at)} ({event.meta.pausedDays ?? 0} days)
+                          </span>
+                        </div>
+                        {event.meta.newNextRenewalAt && (
+                          <div>
+                            <span className="text-gray-400">Next Renewal moved to:</span>
+                            <span className="font-medium ml-1">{formatDate(event.meta.newNextRenewalAt)}</span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {/* Show info for archived events */}
                     {event.type === 'archived' && event.meta && (
                       <div className="mt-2 text-xs text-gray-300">
@@ -830,6 +940,16 @@ export default function SubscriptionDetailModal({
           </div>
         </div>
       </div>
+
+      <RenewSubscriptionModal
+        isOpen={showRenewModal}
+        onClose={() => setShowRenewModal(false)}
+        subscription={subscription}
+        onRenewed={(updated) => {
+          onUpdate(updated);
+          onClose();
+        }}
+      />
     </div>
   );
 }
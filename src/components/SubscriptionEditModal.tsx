@@ -6,11 +6,10 @@ import { supabase } from '../lib/supabase';
 import { calculateEndDateFromDuration, formatServiceTitleWithDuration, parseServiceDuration } from '../lib/subscriptionUtils';
 import SearchableDropdown from './SearchableDropdown';
 import { LinkResourceSection } from './LinkResourceSection';
-import { SERVICE_PROVISIONING } from '../constants/provisioning';
 import { getResourcePool, getPoolSeats, unlinkSubscriptionFromPool, linkSubscriptionToPool, assignSeat } from '../lib/inventory';
 import { ResourcePool, ResourcePoolSeat } from '../types/inventory';
-import { PROVIDER_ICONS, POOL_TYPE_LABELS, STATUS_LABELS } from '../constants/provisioning';
-import { getProviderLogo } from '../lib/fileUtils';
+import { POOL_TYPE_LABELS, STATUS_LABELS } from '../constants/provisioning';
+import { useProviders } from '../lib/useProviders';
 import PoolEditModal from './PoolEditModal';
 import { shouldIgnoreKeyboardEvent } from '../lib/useKeyboardShortcuts';
 
@@ -29,6 +28,7 @@ interface Service {
   duration?: string;
   cost?: number;
   selling_price?: number;
+  provider_id?: string | null;
 }
 
 interface Client {
@@ -44,12 +44,16 @@ export default function SubscriptionEditModal({
   onUpdate,
   onDelete
 }: SubscriptionEditModalProps) {
+  const { getProviderById, getProviderName, getProviderIcon, getProviderLogoUrl } = useProviders();
   const [formData, setFormData] = useState({
     serviceId: '',
     clientId: '',
     startDate: '',
     strategy: 'MONTHLY' as RenewalStrategyKey,
     intervalDays: 30,
+    renewalDay: new Date().getDate(),
+    cyclesPaid: 1,
+    chargeOnRenewal: true,
     notes: '',
     customNextRenewalAt: '',
     targetEndAt: ''
@@ -79,6 +83,9 @@ export default function SubscriptionEditModal({
         startDate: subscription.startedAt ? subscription.startedAt.split('T')[0] : '',
         strategy: subscription.strategy,
         intervalDays: subscription.intervalDays || 30,
+        renewalDay: subscription.renewalDay || new Date(subscription.startedAt).getDate(),
+        cyclesPaid: subscription.cyclesPaid || 1,
+        chargeOnRenewal: subscription.chargeOnRenewal !== false,
         notes: subscription.notes || '',
         customNextRenewalAt: subscription.customNextRenewalAt ?
           subscription.customNextRenewalAt.split('T')[0] : '',
@@ -118,7 +125,7 @@ export default function SubscriptionEditModal({
         // Fetch services
         const { data: servicesData, error: servicesError } = await supabase
           .from('services')
-          .select('id, product_service, logo_url, duration, cost, selling_price')
+          .select('id, product_service, logo_url, duration, cost, selling_price, provider_id')
           .order('product_service');
 
         if (servicesError) throw servicesError;
@@ -200,6 +207,12 @@ export default function SubscriptionEditModal({
     if (!formData.strategy) {
       newErrors.strategy = 'Strategy is required';
     }
+    if (formData.strategy === 'DAY_OF_MONTH' && (!formData.renewalDay || formData.renewalDay < 1 || formData.renewalDay > 31)) {
+      newErrors.renewalDay = 'Renewal day must be between 1 and 31';
+    }
+    if (isNaN(formData.cyclesPaid) || formData.cyclesPaid < 1) {
+      newErrors.cyclesPaid = 'Prepaid cycles must be at least 1';
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -219,6 +232,9 @@ export default function SubscriptionEditModal({
         clientId: formData.clientId,
         strategy: formData.strategy,
         intervalDays: formData.intervalDays,
+        renewalDay: formData.strategy === 'DAY_OF_MONTH' ? formData.renewalDay : undefined,
+        cyclesPaid: formData.cyclesPaid !== (subscription.cyclesPaid || 1) ? formData.cyclesPaid : undefined,
+        chargeOnRenewal: formData.chargeOnRenewal,
         startedAt: formData.startDate,
         targetEndAt: formData.targetEndAt ? new Date(formData.targetEndAt).toISOString() : undefined,
         notes: formData.notes
@@ -303,7 +319,7 @@ export default function SubscriptionEditModal({
   const handleUnlinkPool = async () => {
     if (!subscription?.resourcePoolId) return;
 
-    const poolInfo = resourcePool ? `${resourcePool.provider.replace('_', ' ').toUpperCase()} (${resourcePool.login_email})` : 'the resource pool';
+    const poolInfo = resourcePool ? `${getProviderName(resourcePool.provider).toUpperCase()} (${resourcePool.login_email})` : 'the resource pool';
     const seatInfo = assignedSeat ? ` and free up seat #${assignedSeat.seat_index}` : '';
 
     if (!confirm(`Are you sure you want to unlink this subscription from ${poolInfo}?${seatInfo}\n\nThis action will:\n• Remove the pool assignment from this subscription\n• Free up the assigned seat for other subscriptions\n• Cannot be undone automatically`)) {
@@ -419,6 +435,9 @@ export default function SubscriptionEditModal({
         clientId: formData.clientId,
         strategy: formData.strategy,
         intervalDays: formData.intervalDays,
+        renewalDay: formData.strategy === 'DAY_OF_MONTH' ? formData.renewalDay : undefined,
+        cyclesPaid: formData.cyclesPaid !== (subscription.cyclesPaid || 1) ? formData.cyclesPaid : undefined,
+        chargeOnRenewal: formData.chargeOnRenewal,
         startedAt: formData.startDate,
         targetEndAt: formData.targetEndAt ? new Date(formData.targetEndAt).toISOString() : undefined,
         notes: formData.notes
@@ -499,31 +518,7 @@ export default function SubscriptionEditModal({
 
   const getServiceProvider = () => {
     if (!selectedService) return '';
-    // Map service name to provider key
-    const serviceName = selectedService.product_service.toLowerCase();
-    const providerMap: Record<string, string> = {
-      'adobe': 'adobe',
-      'acrobat': 'acrobat',
-      'apple one': 'apple_one',
-      'apple music': 'apple_music',
-      'canva': 'canva',
-      'chatgpt': 'chatgpt',
-      'duolingo': 'duolingo',
-      'icloud': 'icloud',
-      'lastpass': 'lastpass',
-      'microsoft 365': 'microsoft_365',
-      'netflix': 'netflix',
-      'spotify': 'spotify',
-      'workspace': 'workspace',
-      'google workspace': 'google_workspace',
-    };
-
-    for (const [key, provider] of Object.entries(providerMap)) {
-      if (serviceName.includes(key)) {
-        return provider;
-      }
-    }
-    return '';
+    return getProviderById(selectedService.provider_id)?.key || '';
   };
 
   // Keyboard shortcuts: Enter to save, Escape to close
@@ -634,6 +629,9 @@ export default function SubscriptionEditModal({
                 icon={<Clock className="w-4 h-4" />}
                 options={[
                   { value: 'MONTHLY', label: 'Monthly' },
+                  { value: 'QUARTERLY', label: 'Quarterly' },
+                  { value: 'YEARLY', label: 'Yearly' },
+                  { value: 'DAY_OF_MONTH', label: 'Fixed Day of Month' },
                   { value: 'EVERY_N_DAYS', label: 'Every N Days' }
                 ]}
                 value={formData.strategy}
@@ -644,6 +642,28 @@ export default function SubscriptionEditModal({
               />
             </div>
 
+            {/* Renewal Day (for DAY_OF_MONTH strategy) */}
+            {formData.strategy === 'DAY_OF_MONTH' && (
+              <div>
+                <label className="block text-sm font-semibold text-gray-300 mb-2">
+                  <Calendar className="w-4 h-4 inline mr-2" />
+                  Renewal Day of Month
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="31"
+                  value={formData.renewalDay}
+                  onChange={(e) => handleInputChange('renewalDay', parseInt(e.target.value))}
+                  className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-colors"
+                  placeholder="1"
+                />
+                {errors.renewalDay && (
+                  <p className="mt-1 text-sm text-red-400">{errors.renewalDay}</p>
+                )}
+              </div>
+            )}
+
             {/* Interval Days (for EVERY_N_DAYS strategy) */}
             {formData.strategy === 'EVERY_N_DAYS' && (
               <div>
@@ -662,6 +682,39 @@ export default function SubscriptionEditModal({
               </div>
             )}
 
+            {/* Prepaid Cycles */}
+            <div>
+              <label className="block text-sm font-semibold text-gray-300 mb-2">
+                <Clock className="w-4 h-4 inline mr-2" />
+                Prepaid Cycles
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={formData.cyclesPaid}
+                onChange={(e) => handleInputChange('cyclesPaid', parseInt(e.target.value))}
+                className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-colors"
+                placeholder="1"
+              />
+              {errors.cyclesPaid && (
+                <p className="mt-1 text-sm text-red-400">{errors.cyclesPaid}</p>
+              )}
+            </div>
+
+            {/* Charge on Renewal */}
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="charge_on_renewal"
+                checked={formData.chargeOnRenewal}
+                onChange={(e) => handleInputChange('chargeOnRenewal', e.target.checked)}
+                className="w-4 h-4 text-white bg-gray-800 border-gray-600 rounded focus:ring-blue-500"
+              />
+              <label htmlFor="charge_on_renewal" className="text-sm font-semibold text-gray-300">
+                Record a sale on each renewal
+              </label>
+            </div>
+
             {/* Target End Date */}
             <div>
               <label className="block text-sm font-semibold text-gray-300 mb-2">
@@ -758,7 +811,7 @@ export default function SubscriptionEditModal({
                   <div className="flex items-center gap-3">
                     <div className="w-8 h-8 bg-gray-700 rounded-lg overflow-hidden flex items-center justify-center">
                       {(() => {
-                        const providerLogo = getProviderLogo(resourcePool.provider);
+                        const providerLogo = getProviderLogoUrl(resourcePool.provider);
                         return providerLogo ? (
                           <img
                             src={providerLogo}
@@ -775,14 +828,14 @@ export default function SubscriptionEditModal({
                           />
                         ) : null;
                       })()}
-                      <div className={`w-full h-full flex items-center justify-center text-lg ${getProviderLogo(resourcePool.provider) ? 'hidden' : ''}`}>
-                        {PROVIDER_ICONS[resourcePool.provider] || '📦'}
+                      <div className={`w-full h-full flex items-center justify-center text-lg ${getProviderLogoUrl(resourcePool.provider) ? 'hidden' : ''}`}>
+                        {getProviderIcon(resourcePool.provider)}
                       </div>
                     </div>
                     <div className="flex-1">
                       <div className="flex items-center gap-2">
                         <span className="text-white font-medium">
-                          {resourcePool.provider.replace('_', ' ').toUpperCase()}
+                          {getProviderName(resourcePool.provider).toUpperCase()}
                         </span>
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${resourcePool.status === 'active' ? 'bg-white/10 text-white' :
                             resourcePool.status === 'overdue' ? 'bg-amber-900/30 text-amber-400' :
@@ -6,11 +6,10 @@ import { supabase } from '../lib/supabase';
 import { calculateEndDateFromDuration, formatServiceTitleWithDuration, parseServiceDuration } from '../lib/subscriptionUtils';
 import SearchableDropdown from './SearchableDropdown';
 import { LinkResourceSection } from './LinkResourceSection';
-import { SERVICE_PROVISIONING } from '../constants/provisioning';
 import { getResourcePool, getPoolSeats, unlinkSubscriptionFromPool } from '../lib/inventory';
 import { ResourcePool, ResourcePoolSeat } from '../types/inventory';
-import { PROVIDER_ICONS, POOL_TYPE_LABELS, STATUS_LABELS } from '../constants/provisioning';
-import { getProviderLogo } from '../lib/fileUtils';
+import { POOL_TYPE_LABELS, STATUS_LABELS } from '../constants/provisioning';
+import { useProviders } from '../lib/useProviders';
 import { shouldIgnoreKeyboardEvent } from '../lib/useKeyboardShortcuts';
 import { getTodayInTunisia } from '../lib/dateUtils';
 
@@ -37,6 +36,7 @@ interface Service {
   duration?: string;
   cost?: number;
   selling_price?: number;
+  provider_id?: string | null;
 }
 
 interface Client {
@@ -55,12 +55,16 @@ export default function SubscriptionModal({
   initialClientId,
   editingSubscription
 }: SubscriptionModalProps) {
+  const { getProviderById, getProviderName, getProviderIcon, getProviderLogoUrl } = useProviders();
   const [formData, setFormData] = useState({
     serviceId: initialServiceId || '',
     clientId: initialClientId || '',
     startDate: new Date().toISOString().split('T')[0], // Default to today
     strategy: 'MONTHLY' as RenewalStrategyKey,
     intervalDays: 30,
+    renewalDay: new Date().getDate(),
+    cyclesPaid: 1,
+    chargeOnRenewal: true,
     notes: ''
   });
 
@@ -101,6 +105,9 @@ export default function SubscriptionModal({
         startDate: editingSubscription.startedAt ? editingSubscription.startedAt.split('T')[0] : getTodayInTunisia(),
         strategy: editingSubscription.strategy,
         intervalDays: editingSubscription.intervalDays || 30,
+        renewalDay: editingSubscription.renewalDay || new Date(editingSubscription.startedAt).getDate(),
+        cyclesPaid: editingSubscription.cyclesPaid || 1,
+        chargeOnRenewal: editingSubscription.chargeOnRenewal !== false,
         notes: editingSubscription.notes || ''
       });
       setCreatedSubscriptionId(editingSubscription.id);
@@ -169,7 +176,7 @@ export default function SubscriptionModal({
         // Fetch services
         const { data: servicesData, error: servicesError } = await supabase
           .from('services')
-          .select('id, product_service, logo_url, duration, cost, selling_price')
+          .select('id, product_service, logo_url, duration, cost, selling_price, provider_id')
           .order('product_service');
 
         if (servicesError) throw servicesError;
@@ -269,6 +276,12 @@ export default function SubscriptionModal({
     if (!formData.strategy) {
       newErrors.strategy = 'Strategy is required';
     }
+    if (formData.strategy === 'DAY_OF_MONTH' && (!formData.renewalDay || formData.renewalDay < 1 || formData.renewalDay > 31)) {
+      newErrors.renewalDay = 'Renewal day must be between 1 and 31';
+    }
+    if (isNaN(formData.cyclesPaid) || formData.cyclesPaid < 1) {
+      newErrors.cyclesPaid = 'Prepaid cycles must be at least 1';
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -292,6 +305,9 @@ export default function SubscriptionModal({
           {
             strategy: formData.strategy,
             intervalDays: formData.intervalDays,
+            renewalDay: formData.strategy === 'DAY_OF_MONTH' ? formData.renewalDay : undefined,
+            cyclesPaid: formData.cyclesPaid > 1 ? formData.cyclesPaid : undefined,
+            chargeOnRenewal: formData.chargeOnRenewal,
             startedAt: formData.startDate,
             targetEndAt: calculatedEndDate ? new Date(calculatedEndDate).toISOString() : undefined,
             notes: formData.notes
@@ -304,6 +320,9 @@ export default function SubscriptionModal({
           {
             strategy: formData.strategy,
             intervalDays: formData.intervalDays,
+            renewalDay: formData.strategy === 'DAY_OF_MONTH' ? formData.renewalDay : undefined,
+            cyclesPaid: formData.cyclesPaid > 1 ? formData.cyclesPaid : undefined,
+            chargeOnRenewal: formData.chargeOnRenewal,
             startedAt: formData.startDate,
             targetEndAt: calculatedEndDate ? new Date(calculatedEndDate).toISOString() : undefined,
             notes: formData.notes
@@ -331,6 +350,9 @@ export default function SubscriptionModal({
       startDate: new Date().toISOString().split('T')[0],
       strategy: 'MONTHLY',
       intervalDays: 30,
+      renewalDay: new Date().getDate(),
+      cyclesPaid: 1,
+      chargeOnRenewal: true,
       notes: ''
     });
     setErrors({});
@@ -427,6 +449,9 @@ export default function SubscriptionModal({
         clientId: formData.clientId,
         strategy: formData.strategy,
         intervalDays: formData.intervalDays,
+        renewalDay: formData.strategy === 'DAY_OF_MONTH' ? formData.renewalDay : undefined,
+        cyclesPaid: formData.cyclesPaid !== (editingSubscription.cyclesPaid || 1) ? formData.cyclesPaid : undefined,
+        chargeOnRenewal: formData.chargeOnRenewal,
         startedAt: formData.startDate,
         targetEndAt: calculatedEndDate ? new Date(calculatedEndDate).toISOString() : undefined,
         notes: formData.notes
@@ -474,31 +499,7 @@ export default function SubscriptionModal({
 
   const getServiceProvider = () => {
     if (!selectedService) return '';
-    // Map service name to provider key
-    const serviceName = selectedService.product_service.toLowerCase();
-    const providerMap: Record<string, string> = {
-      'adobe': 'adobe',
-      'acrobat': 'acrobat',
-      'apple one': 'apple_one',
-      'apple music': 'apple_music',
-      'canva': 'canva',
-      'chatgpt': 'chatgpt',
-      'duolingo': 'duolingo',
-      'icloud': 'icloud',
-      'lastpass': 'lastpass',
-      'microsoft 365': 'microsoft_365',
-      'netflix': 'netflix',
-      'spotify': 'spotify',
-      'workspace': 'workspace',
-      'google workspace': 'google_workspace',
-    };
-
-    for (const [key, provider] of Object.entries(providerMap)) {
-      if (serviceName.includes(key)) {
-        return provider;
-      }
-    }
-    return '';
+    return getProviderById(selectedService.provider_id)?.key || '';
   };
 
   if (!isOpen) return null;
@@ -603,6 +604,9 @@ export default function SubscriptionModal({
               icon={<Clock className="w-4 h-4" />}
               options={[
                 { value: 'MONTHLY', label: 'Monthly' },
+                { value: 'QUARTERLY', label: 'Quarterly' },
+                { value: 'YEARLY', label: 'Yearly' },
+                { value: 'DAY_OF_MONTH', label: 'Fixed Day of Month' },
                 { value: 'EVERY_N_DAYS', label: 'Every N Days' }
               ]}
               value={formData.strategy}
@@ -613,6 +617,31 @@ export default function SubscriptionModal({
             />
           </div>
 
+          {/* Renewal Day (for DAY_OF_MONTH strategy) */}
+          {formData.strategy === 'DAY_OF_MONTH' && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-300 mb-2">
+                <Calendar className="w-4 h-4 inline mr-2" />
+                Renewal Day of Month
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="31"
+                value={formData.renewalDay}
+                onChange={(e) => handleInputChange('renewalDay', parseInt(e.target.value))}
+                className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-colors"
+                placeholder="1"
+              />
+              {errors.renewalDay && (
+                <p className="mt-1 text-sm text-red-400">{errors.renewalDay}</p>
+              )}
+              <p className="mt-2 text-sm text-gray-400">
+                Renews on this day every month (clamped to the last day for shorter months)
+              </p>
+            </div>
+          )}
+
           {/* Interval Days (for EVERY_N_DAYS strategy) */}
           {formData.strategy === 'EVERY_N_DAYS' && (
             <div>
@@ -639,6 +668,42 @@ export default function SubscriptionModal({
             </div>
           )}
 
+          {/* Prepaid Cycles */}
+          <div>
+            <label className="block text-sm font-semibold text-gray-300 mb-2">
+              <Clock className="w-4 h-4 inline mr-2" />
+              Prepaid Cycles
+            </label>
+            <input
+              type="number"
+              min="1"
+              value={formData.cyclesPaid}
+              onChange={(e) => handleInputChange('cyclesPaid', parseInt(e.target.value))}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-colors"
+              placeholder="1"
+            />
+            {errors.cyclesPaid && (
+              <p className="mt-1 text-sm text-red-400">{errors.cyclesPaid}</p>
+            )}
+            <p className="mt-2 text-sm text-gray-400">
+              How many cycles the client paid upfront, counting the current one (renewals don't need payment until they run out)
+            </p>
+          </div>
+
+          {/* Charge on Renewal */}
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="charge_on_renewal"
+              checked={formData.chargeOnRenewal}
+              onChange={(e) => handleInputChange('chargeOnRenewal', e.target.checked)}
+              className="w-4 h-4 text-white bg-gray-800 border-gray-600 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="charge_on_renewal" className="text-sm font-semibold text-gray-300">
+              Record a sale on each renewal
+            </label>
+          </div>
+
           {/* Login */}
           <div>
             <Label className="text-muted-foreground mb-2 flex items-center gap-2">
@@ -691,7 +756,7 @@ export default function SubscriptionModal({
                 <div className="flex items-center gap-3">
                   <div className="w-8 h-8 bg-gray-700 rounded-lg overflow-hidden flex items-center justify-center">
                     {(() => {
-                      const providerLogo = getProviderLogo(resourcePool.provider);
+                      const providerLogo = getProviderLogoUrl(resourcePool.provider);
                       return providerLogo ? (
                         <img
                           src={providerLogo}
@@ -708,14 +773,14 @@ export default function SubscriptionModal({
                         />
                       ) : null;
                     })()}
-                    <div className={`w-full h-full flex items-center justify-center text-lg ${getProviderLogo(resourcePool.provider) ? 'hidden' : ''}`}>
-                      {PROVIDER_ICONS[resourcePool.provider] || '📦'}
+                    <div className={`w-full h-full flex items-center justify-center text-lg ${getProviderLogoUrl(resourcePool.provider) ? 'hidden' : ''}`}>
+                      {getProviderIcon(resourcePool.provider)}
                     </div>
                   </div>
                   <div className="flex-1">
                     <div className="flex items-center gap-2">
                       <span className="text-white font-medium">
-                        {resourcePool.provider.replace('_', ' ').toUpperCase()}
+                        {getProviderName(resourcePool.provider).toUpperCase()}
                       </span>
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${resourcePool.status === 'active' ? 'bg-white/10 text-white' :
                         resourcePool.status === 'overdue' ? 'bg-amber-900/30 text-amber-400' :
@@ -0,0 +1,420 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { Truck, Edit, Plus, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { Service } from '../lib/supabase';
+import { suppliersDb } from '../lib/suppliers';
+import { SUPPLIER_KIND_LABELS } from '../constants/suppliers';
+import { useCurrency } from '../lib/currency';
+import { toast } from '../lib/toast';
+import SearchableDropdown from './SearchableDropdown';
+import type { Supplier, SupplierFormData, SupplierKind, SupplierOffer } from '../types/supplier';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const EMPTY_FORM: SupplierFormData = {
+  name: '',
+  kind: 'key_seller',
+  contact_name: '',
+  email: '',
+  phone: '',
+  website: '',
+  notes: '',
+  is_active: true,
+};
+
+const EMPTY_OFFER = { service_id: '', cost: '', lead_time_days: '' };
+
+interface SuppliersEditorProps {
+  canManage: boolean;
+  services: Service[];
+}
+
+export default function SuppliersEditor({ canManage, services }: SuppliersEditorProps) {
+  const { formatCurrency, currency, exchangeRate } = useCurrency();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [offers, setOffers] = useState<SupplierOffer[]>([]);
+  // null = form closed, 'new' = adding, otherwise the supplier being edited
+  const [editing, setEditing] = useState<Supplier | 'new' | null>(null);
+  const [form, setForm] = useState<SupplierFormData>(EMPTY_FORM);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [offerForm, setOfferForm] = useState(EMPTY_OFFER);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSuppliers = useCallback(async () => {
+    try {
+      const [supplierList, offerList] = await Promise.all([suppliersDb.getAll(), suppliersDb.getOffers()]);
+      setSuppliers(supplierList);
+      setOffers(offerList);
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSuppliers();
+  }, [loadSuppliers]);
+
+  const openForm = (supplier: Supplier | 'new') => {
+    setEditing(supplier);
+    setForm(supplier === 'new' ? EMPTY_FORM : {
+      name: supplier.name,
+      kind: supplier.kind,
+      contact_name: supplier.contact_name || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      website: supplier.website || '',
+      notes: supplier.notes || '',
+      is_active: supplier.is_active,
+    });
+  };
+
+  const handleSave = async () => {
+    const data: SupplierFormData = {
+      ...form,
+      name: form.name.trim(),
+      contact_name: form.contact_name?.trim() || null,
+      email: form.email?.trim() || null,
+      phone: form.phone?.trim() || null,
+      website: form.website?.trim() || null,
+      notes: form.notes?.trim() || null,
+    };
+    if (!data.name) {
+      alert('A supplier name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editing === 'new') {
+        await suppliersDb.create(data);
+      } else if (editing) {
+        await suppliersDb.update(editing.id, data);
+      }
+      await loadSuppliers();
+      setEditing(null);
+      toast.show('Supplier saved', { type: 'success' });
+    } catch (error) {
+      console.error('Error saving supplier:', error);
+      alert(`Failed to save supplier: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!confirm(`Delete ${supplier.name} and its offers? Past sales keep their cost.`)) return;
+
+    try {
+      await suppliersDb.remove(supplier.id);
+      await loadSuppliers();
+    } catch (error) {
+      console.error('Error deleting supplier:', error);
+      alert(`Failed to delete supplier: ${(error as Error).message}`);
+    }
+  };
+
+  const toggleExpanded = (supplierId: string) => {
+    setExpandedId(prev => (prev === supplierId ? null : supplierId));
+    setOfferForm(EMPTY_OFFER);
+  };
+
+  const handleSaveOffer = async (supplierId: string) => {
+    const cost = parseFloat(offerForm.cost);
+    const leadTime = parseInt(offerForm.lead_time_days);
+    if (!offerForm.service_id || isNaN(cost) || cost < 0) {
+      alert('Pick a service and enter the cost');
+      return;
+    }
+
+    try {
+      await suppliersDb.saveOffer({
+        supplier_id: supplierId,
+        service_id: offerForm.service_id,
+        // Offers are stored in USD; convert what was typed in the display currency
+        cost: currency === 'TND' ? cost / exchangeRate : cost,
+        lead_time_days: !isNaN(leadTime) && leadTime >= 0 ? leadTime : null,
+        notes: null,
+      });
+      await loadSuppliers();
+      setOfferForm(EMPTY_OFFER);
+    } catch (error) {
+      console.error('Error saving offer:', error);
+      alert(`Failed to save offer: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRemoveOffer = async (offer: SupplierOffer) => {
+    try {
+      await suppliersDb.removeOffer(offer.id);
+      await loadSuppliers();
+    } catch (error) {
+      console.error('Error removing offer:', error);
+      alert(`Failed to remove offer: ${(error as Error).message}`);
+    }
+  };
+
+  const serviceLabel = (serviceId: string) => {
+    const service = services.find(s => s.id === serviceId);
+    return service ? `${service.product_service} - ${service.duration}` : 'Unknown service';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Truck className="h-5 w-5 text-muted-foreground" />
+          <h3 className="text-lg font-semibold text-foreground">Suppliers</h3>
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={() => openForm('new')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Supplier
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Offers set what each supplier charges per service; picking the supplier on a sale uses that cost.
+      </p>
+
+      {editing && (
+        <div className="p-4 bg-secondary/30 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label className="text-muted-foreground">Name</Label>
+              <Input
+                className="mt-2"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Supplier name"
+              />
+            </div>
+            <div>
+              <SearchableDropdown
+                label="Type"
+                options={Object.entries(SUPPLIER_KIND_LABELS).map(([value, label]) => ({ value, label }))}
+                value={form.kind}
+                onChange={(value) => setForm(prev => ({ ...prev, kind: value as SupplierKind }))}
+                allowClear={false}
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Contact name</Label>
+              <Input
+                className="mt-2"
+                value={form.contact_name || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, contact_name: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Email</Label>
+              <Input
+                type="email"
+                className="mt-2"
+                value={form.email || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Phone / WhatsApp</Label>
+              <Input
+                className="mt-2"
+                value={form.phone || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, phone: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Website</Label>
+              <Input
+                type="url"
+                className="mt-2"
+                value={form.website || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, website: e.target.value }))}
+                placeholder="https://"
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <Label className="text-muted-foreground">Notes</Label>
+              <Textarea
+                className="mt-2"
+                rows={2}
+                value={form.notes || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={form.is_active}
+                onChange={(e) => setForm(prev => ({ ...prev, is_active: e.target.checked }))}
+                className="w-4 h-4 accent-white"
+              />
+              Active (offered when recording sales)
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setEditing(null)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : editing === 'new' ? 'Add Supplier' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Supplier</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Contact</TableHead>
+              <TableHead>Offers</TableHead>
+              {canManage && <TableHead>Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {suppliers.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={canManage ? 5 : 4} className="text-center text-sm text-muted-foreground">
+                  No suppliers yet
+                </TableCell>
+              </TableRow>
+            )}
+            {suppliers.map(supplier => {
+              const supplierOffers = offers.filter(offer => offer.supplier_id === supplier.id);
+              const isExpanded = expandedId === supplier.id;
+              return (
+                <Fragment key={supplier.id}>
+                  <TableRow className="group cursor-pointer" onClick={() => toggleExpanded(supplier.id)}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        <span className={`font-medium ${supplier.is_active ? 'text-foreground' : 'text-muted-foreground line-through'}`}>
+                          {supplier.name}
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{SUPPLIER_KIND_LABELS[supplier.kind]}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm text-muted-foreground">
+                        {[supplier.contact_name, supplier.email, supplier.phone].filter(Boolean).join(' · ') || '-'}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-muted-foreground">{supplierOffers.length}</span>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openForm(supplier);
+                            }}
+                            className="h-8 w-8"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDelete(supplier);
+                            }}
+                            className="h-8 w-8 text-muted-foreground hover:text-red-500"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow>
+                      <TableCell colSpan={canManage ? 5 : 4} className="bg-secondary/20">
+                        <div className="pl-6 space-y-2">
+                          {supplierOffers.length === 0 && (
+                            <p className="text-sm text-muted-foreground">No offers yet.</p>
+                          )}
+                          {supplierOffers.map(offer => (
+                            <div key={offer.id} className="flex items-center justify-between text-sm">
+                              <span className="text-foreground">{serviceLabel(offer.service_id)}</span>
+                              <div className="flex items-center gap-4">
+                                <span className="text-muted-foreground">
+                                  {offer.lead_time_days !== null ? `${offer.lead_time_days} day lead` : 'Lead time unknown'}
+                                </span>
+                                <span className="font-medium text-foreground">{formatCurrency(offer.cost)}</span>
+                                {canManage && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleRemoveOffer(offer)}
+                                    className="h-7 w-7 text-muted-foreground hover:text-red-500"
+                                  >
+                                    <Trash2 className="h-3 w-3" />
+                                  </Button>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+
+                          {canManage && (
+                            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 pt-2 items-end">
+                              <div className="sm:col-span-2">
+                                <SearchableDropdown
+                                  options={[
+                                    { value: '', label: 'Select a service' },
+                                    ...services.map(service => ({
+                                      value: service.id,
+                                      label: `${service.product_service} - ${service.duration}`
+                                    }))
+                                  ]}
+                                  value={offerForm.service_id}
+                                  onChange={(value) => setOfferForm(prev => ({ ...prev, service_id: value }))}
+                                  placeholder="Select a service"
+                                  searchPlaceholder="Search services..."
+                                  showSearchThreshold={5}
+                                />
+                              </div>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={offerForm.cost}
+                                onChange={(e) => setOfferForm(prev => ({ ...prev, cost: e.target.value }))}
+                                placeholder={`Cost (${currency})`}
+                              />
+                              <div className="flex gap-2">
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  value={offerForm.lead_time_days}
+                                  onChange={(e) => setOfferForm(prev => ({ ...prev, lead_time_days: e.target.value }))}
+                                  placeholder="Lead days"
+                                />
+                                <Button size="sm" onClick={() => handleSaveOffer(supplier.id)}>Save</Button>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -31,6 +31,8 @@ export default function TodaysNumbers({ data }: TodaysNumbersProps) {
                         </p>
                         <p className="text-xs text-gray-500 mt-1">
                             {data.salesCount} sale{data.salesCount !== 1 ? 's' : ''}
+                            {data.refunds > 0 && ` · ${formatCurrency(data.refunds)} refunded`}
+                            {data.outstanding > 0 && ` · ${formatCurrency(data.outstanding)} not yet collected`}
                         </p>
                     </CardContent>
                 </Card>
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { X, Plus } from 'lucide-react';
+import { X, Plus, Trash2 } from 'lucide-react';
 import { Transaction, Service } from '../lib/supabase';
 import type { Client } from '../types/client';
 import { clientsDb } from '../lib/clients';
@@ -8,6 +8,16 @@ import SearchableDropdown from './SearchableDropdown';
 import { shouldIgnoreKeyboardEvent } from '../lib/useKeyboardShortcuts';
 import { getTodayInTunisia } from '../lib/dateUtils';
 import { useCurrency } from '../lib/currency';
+import { suppliersDb } from '../lib/suppliers';
+import type { SupplierOffer } from '../types/supplier';
+import type { OrderFormData } from '../types/order';
+import { allocateDiscount } from '../lib/orders';
+import { priceListsDb, resolvePrice } from '../lib/priceLists';
+import type { PriceList } from '../types/priceList';
+import type { PaymentStatus } from '../types/receivable';
+import { PAYMENT_STATUS_LABELS } from '../constants/payments';
+import { paymentMethodsDb, computePaymentFee } from '../lib/paymentMethods';
+import type { PaymentMethod } from '../types/paymentMethod';
 
 // shadcn/ui components
 import { Button } from '@/components/ui/button';
@@ -18,23 +28,55 @@ import { Textarea } from '@/components/ui/textarea';
 interface TransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (transaction: Omit<Transaction, 'id' | 'created_at' | 'updated_at' | 'services'>) => void;
+  // Editing an existing sale
+  onSave: (transaction: Omit<Transaction, 'id' | 'created_at' | 'updated_at' | 'services' | 'supplier' | 'order' | 'price_list'>) => void;
+  // New sales are recorded as an order with one or more lines
+  onSaveOrder: (order: OrderFormData) => void;
   transaction?: Transaction | null;
   services: Service[];
 }
 
-export default function TransactionModal({ isOpen, onClose, onSave, transaction, services }: TransactionModalProps) {
+interface LineFormState {
+  key: number;
+  service_id: string;
+  supplier_id: string;
+  cost_at_sale: string | number;
+  selling_price: string | number;
+  create_subscription: boolean;
+}
+
+let nextLineKey = 0;
+
+const emptyLine = (): LineFormState => ({
+  key: nextLineKey++,
+  service_id: '',
+  supplier_id: '',
+  cost_at_sale: '',
+  selling_price: '',
+  create_subscription: true
+});
+
+const toNumber = (value: string | number) => parseFloat(value.toString()) || 0;
+
+export default function TransactionModal({ isOpen, onClose, onSave, onSaveOrder, transaction, services }: TransactionModalProps) {
   const { formatCurrency, currency, exchangeRate } = useCurrency();
   const [formData, setFormData] = useState({
-    service_id: '',
     client_id: '',
     date: getTodayInTunisia(),
-    cost_at_sale: '' as string | number,
-    selling_price: '' as string | number,
-    notes: ''
+    discount: '' as string | number,
+    notes: '',
+    pay_from_credit: false,
+    payment_status: 'paid' as PaymentStatus,
+    amount_paid: '' as string | number,
+    payment_method: ''
   });
+  const [lines, setLines] = useState<LineFormState[]>([emptyLine()]);
 
   const [clients, setClients] = useState<Client[]>([]);
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  // Supplier offers by service id
+  const [offers, setOffers] = useState<Record<string, SupplierOffer[]>>({});
   const [isClientModalOpen, setIsClientModalOpen] = useState(false);
   const [loading, setLoading] = useState(false);
 
@@ -44,6 +86,16 @@ export default function TransactionModal({ isOpen, onClose, onSave, transaction,
 
   useEffect(() => {
     loadClients();
+    priceListsDb.getAll()
+      .then(setPriceLists)
+      .catch(error => {
+        console.error('Error loading price lists:', error);
+      });
+    paymentMethodsDb.getAll()
+      .then(setPaymentMethods)
+      .catch(error => {
+        console.error('Error loading payment methods:', error);
+      });
   }, []);
 
   useEffect(() => {
@@ -56,28 +108,45 @@ export default function TransactionModal({ isOpen, onClose, onSave, transaction,
       // When opening for edit, convert stored USD values to selected currency if needed
       if (transaction) {
         setFormData({
-          service_id: transaction.service_id,
           client_id: transaction.client_id || '',
           date: transaction.date,
+          discount: '',
+          notes: transaction.notes,
+          pay_from_credit: false,
+          payment_status: transaction.payment_status || 'paid',
+          amount_paid: transaction.payment_status !== 'partial'
+            ? ''
+            : currency === 'TND'
+              ? Number((Number(transaction.amount_paid) * exchangeRate).toFixed(2))
+              : Number(transaction.amount_paid),
+          payment_method: transaction.payment_method || ''
+        });
+        setLines([{
+          key: nextLineKey++,
+          service_id: transaction.service_id,
+          supplier_id: transaction.supplier_id || '',
           cost_at_sale: currency === 'TND'
             ? Number((transaction.cost_at_sale * exchangeRate).toFixed(2))
             : transaction.cost_at_sale,
           selling_price: currency === 'TND'
             ? Number((transaction.selling_price * exchangeRate).toFixed(2))
             : transaction.selling_price,
-          notes: transaction.notes
-        });
+          create_subscription: false
+        }]);
         lastTransactionId.current = transaction.id;
       } else {
         // Reset form (default TND date is handled by getTodayInTunisia)
         setFormData({
-          service_id: '',
           client_id: '',
           date: getTodayInTunisia(),
-          cost_at_sale: '',
-          selling_price: '',
-          notes: ''
+          discount: '',
+          notes: '',
+          pay_from_credit: false,
+          payment_status: 'paid',
+          amount_paid: '',
+          payment_method: ''
         });
+        setLines([emptyLine()]);
         lastTransactionId.current = null;
       }
     }
@@ -85,6 +154,25 @@ export default function TransactionModal({ isOpen, onClose, onSave, transaction,
     wasOpen.current = isOpen;
   }, [isOpen]);
 
+  // Supplier offers for every service picked on a line
+  const selectedServiceIds = [...new Set(lines.map(line => line.service_id).filter(Boolean))].join(',');
+  useEffect(() => {
+    if (!isOpen) {
+      setOffers({});
+      return;
+    }
+
+    selectedServiceIds.split(',').filter(Boolean).forEach(serviceId => {
+      suppliersDb.getOffersForService(serviceId)
+        .then(serviceOffers => setOffers(prev => ({ ...prev, [serviceId]: serviceOffers })))
+        .catch(error => {
+          console.error('Error loading supplier offers:', error);
+        });
+    });
+  }, [isOpen, selectedServiceIds]);
+
+  const toDisplayCurrency = (usd: number) => (currency === 'TND' ? Number((usd * exchangeRate).toFixed(2)) : usd);
+
   const loadClients = async () => {
     try {
       setLoading(true);
@@ -97,51 +185,127 @@ export default function TransactionModal({ isOpen, onClose, onSave, transaction,
     }
   };
 
-  const handleServiceChange = (serviceId: string) => {
+  const toUsd = (value: number) => (currency === 'TND' ? value / exchangeRate : value);
+
+  // Store credit the selected client can pay with (USD)
+  const creditBalance = Number(clients.find(c => c.id === formData.client_id)?.credit_balance) || 0;
+
+  // The list a client's sales are priced from; none = retail
+  const getPriceList = (clientId: string) => {
+    const priceListId = clients.find(c => c.id === clientId)?.price_list_id;
+    return priceLists.find(list => list.id === priceListId) || null;
+  };
+  const clientPriceList = getPriceList(formData.client_id);
+
+  // Money received now towards what credit (or an earlier refund) doesn't cover: all of it, or what was received
+  const getReceived = (total: number, settled: number, received: number) => {
+    const rest = Math.max(0, total - settled);
+    if (formData.payment_status === 'paid') return rest;
+    return formData.payment_status === 'partial' ? Math.min(rest, received) : 0;
+  };
+
+  const updateLine = (key: number, updates: Partial<LineFormState>) => {
+    setLines(prev => prev.map(line => (line.key === key ? { ...line, ...updates } : line)));
+  };
+
+  const handleServiceChange = (key: number, serviceId: string) => {
     const service = services.find(s => s.id === serviceId);
     if (service) {
       // Auto-fill prices, converting to selected currency if needed
-      setFormData({
-        ...formData,
+      updateLine(key, {
         service_id: serviceId,
-        cost_at_sale: currency === 'TND'
-          ? Number((service.cost * exchangeRate).toFixed(2))
-          : service.cost,
-        selling_price: currency === 'TND'
-          ? Number((service.selling_price * exchangeRate).toFixed(2))
-          : service.selling_price
+        // Offers are per service, so the supplier is picked again
+        supplier_id: '',
+        cost_at_sale: toDisplayCurrency(service.cost),
+        selling_price: toDisplayCurrency(resolvePrice(service, clientPriceList))
       });
     }
   };
 
-  const handleInputChange = (field: 'cost_at_sale' | 'selling_price', value: string) => {
-    // Remove leading zeros (e.g., "01" -> "1", but keep "0" or "0.5")
-    let cleanValue = value;
-    if (cleanValue.length > 1 && cleanValue.startsWith('0') && cleanValue[1] !== '.') {
-      cleanValue = cleanValue.replace(/^0+/, '');
-    }
+  const handleClientChange = (clientId: string) => {
+    setFormData({ ...formData, client_id: clientId });
+    // A new order is re-priced from the client's list; an edited sale keeps its price
+    if (transaction) return;
 
-    setFormData({ ...formData, [field]: cleanValue });
+    const priceList = getPriceList(clientId);
+    setLines(prev => prev.map(line => {
+      const service = services.find(s => s.id === line.service_id);
+      return service ? { ...line, selling_price: toDisplayCurrency(resolvePrice(service, priceList)) } : line;
+    }));
+  };
+
+  const handleSupplierChange = (line: LineFormState, supplierId: string) => {
+    const offer = (offers[line.service_id] || []).find(o => o.supplier_id === supplierId);
+    const service = services.find(s => s.id === line.service_id);
+    // The cost comes from the supplier's offer, or the service's default cost without one
+    const cost = offer ? offer.cost : service?.cost;
+    updateLine(line.key, {
+      supplier_id: supplierId,
+      cost_at_sale: cost !== undefined ? toDisplayCurrency(cost) : line.cost_at_sale
+    });
+  };
+
+  // Remove leading zeros (e.g., "01" -> "1", but keep "0" or "0.5")
+  const cleanAmount = (value: string) => {
+    if (value.length > 1 && value.startsWith('0') && value[1] !== '.') {
+      return value.replace(/^0+/, '');
+    }
+    return value;
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    const cost = parseFloat(formData.cost_at_sale.toString()) || 0;
-    const price = parseFloat(formData.selling_price.toString()) || 0;
-
-    // Convert back to USD (base currency) before saving if currently in TND
-    const submissionData = {
-      ...formData,
-      cost_at_sale: currency === 'TND'
-        ? cost / exchangeRate
-        : cost,
-      selling_price: currency === 'TND'
-        ? price / exchangeRate
-        : price
-    };
+    if (formData.payment_status === 'partial' && toNumber(formData.amount_paid) <= 0) {
+      alert('Enter the amount received');
+      return;
+    }
+    const receivedUsd = toUsd(toNumber(formData.amount_paid));
+    const paymentMethod = formData.payment_status !== 'unpaid' ? formData.payment_method || null : null;
+
+    if (transaction) {
+      const line = lines[0];
+      const settledUsd = Number(transaction.credit_paid || 0) + Number(transaction.amount_canceled || 0);
+      // Convert back to USD (base currency) before saving if currently in TND
+      onSave({
+        service_id: line.service_id,
+        client_id: formData.client_id,
+        supplier_id: line.supplier_id || null,
+        date: formData.date,
+        notes: formData.notes,
+        cost_at_sale: toUsd(toNumber(line.cost_at_sale)),
+        selling_price: toUsd(toNumber(line.selling_price)),
+        amount_paid: getReceived(toUsd(toNumber(line.selling_price)), settledUsd, receivedUsd),
+        payment_method: paymentMethod
+      });
+    } else {
+      if (lines.some(line => !line.service_id)) {
+        alert('Select a service for every line');
+        return;
+      }
 
-    onSave(submissionData as any);
+      const discountUsd = toUsd(toNumber(formData.discount));
+      const totalUsd = Math.max(0, lines.reduce((sum, line) => sum + toUsd(toNumber(line.selling_price)), 0) - discountUsd);
+      const creditUsed = formData.pay_from_credit ? Math.min(creditBalance, totalUsd) : 0;
+
+      onSaveOrder({
+        client_id: formData.client_id,
+        date: formData.date,
+        notes: formData.notes,
+        discount: discountUsd,
+        price_list_id: clientPriceList?.id || null,
+        credit_used: creditUsed,
+        amount_paid: getReceived(totalUsd, creditUsed, receivedUsd),
+        payment_method: paymentMethod,
+        lines: lines.map(line => ({
+          service_id: line.service_id,
+          supplier_id: line.supplier_id || null,
+          cost_at_sale: toUsd(toNumber(line.cost_at_sale)),
+          selling_price: toUsd(toNumber(line.selling_price)),
+          create_subscription: line.create_subscription
+        }))
+      });
+    }
     onClose();
   };
 
@@ -175,17 +339,31 @@ export default function TransactionModal({ isOpen, onClose, onSave, transaction,
 
   if (!isOpen) return null;
 
-  const costNum = parseFloat(formData.cost_at_sale.toString()) || 0;
-  const priceNum = parseFloat(formData.selling_price.toString()) || 0;
-  const profit = priceNum - costNum;
-  const selectedService = services.find(s => s.id === formData.service_id);
+  const isOrder = !transaction;
+  const totalCost = lines.reduce((sum, line) => sum + toNumber(line.cost_at_sale), 0);
+  const subtotal = lines.reduce((sum, line) => sum + toNumber(line.selling_price), 0);
+  const discountShares = allocateDiscount(lines.map(line => toNumber(line.selling_price)), isOrder ? toNumber(formData.discount) : 0);
+  const discount = discountShares.reduce((sum, share) => sum + share, 0);
+  const total = subtotal - discount;
+  const formatAmount = (amount: number) => (currency === 'TND' ? `TND ${amount.toFixed(2)}` : formatCurrency(amount));
+  const paidFromCredit = isOrder && formData.pay_from_credit ? Math.min(toDisplayCurrency(creditBalance), Math.max(0, total)) : 0;
+  // An edited sale keeps the credit it drew and what refunds canceled
+  const settled = isOrder
+    ? paidFromCredit
+    : toDisplayCurrency(Number(transaction?.credit_paid || 0) + Number(transaction?.amount_canceled || 0));
+  const received = getReceived(Math.max(0, total), settled, toNumber(formData.amount_paid));
+  const dueLater = Math.max(0, total - settled - received);
+  // The method's fee is charged once on the money received, then spread over the lines when saving
+  const selectedMethod = formData.payment_status !== 'unpaid' ? paymentMethods.find(m => m.key === formData.payment_method) : undefined;
+  const paymentFee = toDisplayCurrency(computePaymentFee(selectedMethod, toUsd(received)));
+  const profit = total - totalCost - paymentFee;
 
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] animate-fade-in" style={{ top: 0, left: 0, right: 0, bottom: 0, width: '100vw', height: '100vh', margin: 0, padding: '16px' }}>
-      <div className="bg-card border border-border rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl animate-scale-in">
+      <div className={`bg-card border border-border rounded-2xl w-full ${isOrder ? 'max-w-2xl' : 'max-w-md'} max-h-[90vh] overflow-y-auto shadow-2xl animate-scale-in`}>
         <div className="flex items-center justify-between p-6 border-b border-border">
           <h2 className="text-xl font-semibold text-foreground">
-            {transaction ? 'Edit Transaction' : 'Add New Transaction'}
+            {transaction ? 'Edit Transaction' : 'New Order'}
           </h2>
           <Button variant="ghost" size="icon" onClick={onClose}>
             <X className="w-5 h-5" />
@@ -205,7 +383,7 @@ export default function TransactionModal({ isOpen, onClose, onSave, transaction,
                   }))
                 ]}
                 value={formData.client_id}
-                onChange={(value) => setFormData({ ...formData, client_id: value })}
+                onChange={handleClientChange}
                 placeholder="Select a client"
                 searchPlaceholder="Search clients..."
                 className="flex-1"
@@ -221,28 +399,11 @@ export default function TransactionModal({ isOpen, onClose, onSave, transaction,
                 New
               </Button>
             </div>
-          </div>
-
-          <div>
-            <Label className="text-muted-foreground">Service</Label>
-            <div className="mt-2">
-              <SearchableDropdown
-                options={[
-                  { value: '', label: 'Select a service' },
-                  ...services.map(service => ({
-                    value: service.id,
-                    label: `${service.product_service} - ${service.duration}`
-                  }))
-                ]}
-                value={formData.service_id}
-                onChange={(value) => handleServiceChange(value)}
-                placeholder="Select a service"
-                searchPlaceholder="Search services..."
-                className="w-full"
-                showSearchThreshold={5}
-                required
-              />
-            </div>
+            {isOrder && clientPriceList && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Priced from the {clientPriceList.name} price list
+              </p>
+            )}
           </div>
 
           <div>
@@ -256,40 +417,224 @@ export default function TransactionModal({ isOpen, onClose, onSave, transaction,
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-4">
+            {lines.map((line, index) => {
+              const lineOffers = offers[line.service_id] || [];
+              const selectedOffer = lineOffers.find(o => o.supplier_id === line.supplier_id);
+              const selectedService = services.find(s => s.id === line.service_id);
+              return (
+                <div key={line.key} className={isOrder ? 'p-4 bg-secondary/30 border border-border rounded-lg space-y-4' : 'space-y-6'}>
+                  {isOrder && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-muted-foreground">Item {index + 1}</span>
+                      {lines.length > 1 && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))}
+                          className="h-8 w-8 text-muted-foreground hover:text-red-500"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  <div>
+                    <Label className="text-muted-foreground">Service</Label>
+                    <div className="mt-2">
+                      <SearchableDropdown
+                        options={[
+                          { value: '', label: 'Select a service' },
+                          ...services.map(service => ({
+                            value: service.id,
+                            label: `${service.product_service} - ${service.duration}`
+                          }))
+                        ]}
+                        value={line.service_id}
+                        onChange={(value) => handleServiceChange(line.key, value)}
+                        placeholder="Select a service"
+                        searchPlaceholder="Search services..."
+                        className="w-full"
+                        showSearchThreshold={5}
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  {line.service_id && (lineOffers.length > 0 || line.supplier_id) && (
+                    <div>
+                      <SearchableDropdown
+                        label="Supplier"
+                        options={[
+                          { value: '', label: 'No supplier (service cost)' },
+                          ...lineOffers.map(offer => ({
+                            value: offer.supplier_id,
+                            label: `${offer.suppliers?.name || 'Supplier'} - ${formatCurrency(offer.cost)}${offer.lead_time_days !== null ? ` · ${offer.lead_time_days}d lead` : ''}`
+                          })),
+                          // Keep the recorded supplier selectable when it no longer has an active offer
+                          ...(line.supplier_id && !selectedOffer
+                            ? [{ value: line.supplier_id, label: transaction?.supplier?.name || 'Recorded supplier' }]
+                            : [])
+                        ]}
+                        value={line.supplier_id}
+                        onChange={(value) => handleSupplierChange(line, value)}
+                        placeholder="No supplier (service cost)"
+                        searchPlaceholder="Search suppliers..."
+                        showSearchThreshold={5}
+                      />
+                      {selectedOffer && (
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Cost at sale taken from {selectedOffer.suppliers?.name}'s offer.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label className="text-muted-foreground">Cost at Sale ({currency})</Label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={line.cost_at_sale}
+                        onChange={(e) => updateLine(line.key, { cost_at_sale: cleanAmount(e.target.value) })}
+                        className="mt-2"
+                        placeholder="0.00"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <Label className="text-muted-foreground">Selling Price ({currency})</Label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={line.selling_price}
+                        onChange={(e) => updateLine(line.key, { selling_price: cleanAmount(e.target.value) })}
+                        className="mt-2"
+                        placeholder="0.00"
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  {selectedService && (
+                    <div className="p-4 bg-secondary/30 border border-border rounded-lg">
+                      <div className="text-sm font-medium text-muted-foreground mb-1">Service Info:</div>
+                      <div className="text-sm text-foreground">{selectedService.category} • {selectedService.info_needed}</div>
+                    </div>
+                  )}
+
+                  {isOrder && (
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        id={`create_subscription_${line.key}`}
+                        checked={line.create_subscription}
+                        onChange={(e) => updateLine(line.key, { create_subscription: e.target.checked })}
+                        className="w-4 h-4 text-white bg-gray-800 border-gray-600 rounded focus:ring-blue-500"
+                      />
+                      <label htmlFor={`create_subscription_${line.key}`} className="text-sm text-muted-foreground">
+                        Create a subscription for this item
+                      </label>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {isOrder && (
+              <Button type="button" variant="secondary" onClick={() => setLines(prev => [...prev, emptyLine()])}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Item
+              </Button>
+            )}
+          </div>
+
+          {isOrder && (
             <div>
-              <Label className="text-muted-foreground">Cost at Sale ({currency})</Label>
+              <Label className="text-muted-foreground">Order Discount ({currency})</Label>
               <Input
                 type="number"
                 step="0.01"
-                value={formData.cost_at_sale}
-                onChange={(e) => handleInputChange('cost_at_sale', e.target.value)}
+                min="0"
+                value={formData.discount}
+                onChange={(e) => setFormData({ ...formData, discount: cleanAmount(e.target.value) })}
                 className="mt-2"
                 placeholder="0.00"
-                required
               />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Spread over the items in proportion to their price.
+              </p>
             </div>
+          )}
 
-            <div>
-              <Label className="text-muted-foreground">Selling Price ({currency})</Label>
-              <Input
-                type="number"
-                step="0.01"
-                value={formData.selling_price}
-                onChange={(e) => handleInputChange('selling_price', e.target.value)}
-                className="mt-2"
-                placeholder="0.00"
-                required
+          {isOrder && creditBalance > 0 && (
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="pay_from_credit"
+                checked={formData.pay_from_credit}
+                onChange={(e) => setFormData({ ...formData, pay_from_credit: e.target.checked })}
+                className="w-4 h-4 text-white bg-gray-800 border-gray-600 rounded focus:ring-blue-500"
               />
+              <label htmlFor="pay_from_credit" className="text-sm text-muted-foreground">
+                Pay from credit (balance {formatCurrency(creditBalance)})
+              </label>
             </div>
-          </div>
+          )}
 
-          {selectedService && (
-            <div className="p-4 bg-secondary/30 border border-border rounded-lg">
-              <div className="text-sm font-medium text-muted-foreground mb-1">Service Info:</div>
-              <div className="text-sm text-foreground">{selectedService.category} • {selectedService.info_needed}</div>
+          <div>
+            <Label className="text-muted-foreground">Payment</Label>
+            <div className="flex space-x-1 bg-secondary p-1 rounded-lg mt-2">
+              {(Object.keys(PAYMENT_STATUS_LABELS) as PaymentStatus[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setFormData({ ...formData, payment_status: option })}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${formData.payment_status === option ? 'bg-white text-black' : 'text-muted-foreground hover:text-foreground'}`}
+                >
+                  {PAYMENT_STATUS_LABELS[option]}
+                </button>
+              ))}
             </div>
-          )}
+            {formData.payment_status !== 'unpaid' && (
+              <div className="grid grid-cols-2 gap-4 mt-3">
+                {formData.payment_status === 'partial' && (
+                  <div>
+                    <Label className="text-muted-foreground">Amount Received ({currency})</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.amount_paid}
+                      onChange={(e) => setFormData({ ...formData, amount_paid: cleanAmount(e.target.value) })}
+                      className="mt-2"
+                      placeholder="0.00"
+                    />
+                  </div>
+                )}
+                <div className={formData.payment_status === 'partial' ? '' : 'col-span-2'}>
+                  <SearchableDropdown
+                    label="Method"
+                    options={[
+                      { value: '', label: 'Not specified' },
+                      // Keep the recorded method selectable when it's been switched off
+                      ...paymentMethods
+                        .filter(method => method.is_active || method.key === formData.payment_method)
+                        .map(method => ({ value: method.key, label: method.name }))
+                    ]}
+                    value={formData.payment_method}
+                    onChange={(value) => setFormData({ ...formData, payment_method: value })}
+                    placeholder="Not specified"
+                    allowClear={false}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
 
           <div>
             <Label className="text-muted-foreground">Notes (Optional)</Label>
@@ -303,9 +648,57 @@ export default function TransactionModal({ isOpen, onClose, onSave, transaction,
           </div>
 
           <div className="p-4 bg-secondary/30 border border-border rounded-lg">
+            {isOrder && (
+              <div className="space-y-1 mb-3 text-sm">
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Subtotal</span>
+                  <span>{formatAmount(subtotal)}</span>
+                </div>
+                {discount > 0 && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Discount</span>
+                    <span>-{formatAmount(discount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-medium text-foreground">
+                  <span>Total</span>
+                  <span>{formatAmount(total)}</span>
+                </div>
+                {paidFromCredit > 0 && (
+                  <>
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Paid from credit</span>
+                      <span>-{formatAmount(paidFromCredit)}</span>
+                    </div>
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Left to pay</span>
+                      <span>{formatAmount(total - paidFromCredit)}</span>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+            {dueLater > 0 && (
+              <div className="flex justify-between mb-3 text-sm text-yellow-400">
+                <span>Due later</span>
+                <span>{formatAmount(dueLater)}</span>
+              </div>
+            )}
+            {paymentFee > 0 && (
+              <div className="space-y-1 mb-3 text-sm text-muted-foreground">
+                <div className="flex justify-between">
+                  <span>{selectedMethod?.name} fee</span>
+                  <span>-{formatAmount(paymentFee)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Net received</span>
+                  <span>{formatAmount(received - paymentFee)}</span>
+                </div>
+              </div>
+            )}
             <div className="text-sm font-medium text-muted-foreground mb-1">Profit:</div>
             <div className={`text-2xl font-bold ${profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-              {currency === 'TND' ? `TND ${profit.toFixed(2)}` : formatCurrency(profit)}
+              {formatAmount(profit)}
             </div>
             <div className="text-xs text-muted-foreground/70 mt-1">
               {profit >= 0 ? 'Positive profit' : 'Negative profit - check pricing'}
@@ -314,7 +707,7 @@ export default function TransactionModal({ isOpen, onClose, onSave, transaction,
 
           <div className="flex gap-3 pt-6 border-t border-border">
             <Button type="submit" className="flex-1">
-              {transaction ? 'Update Transaction' : 'Add Transaction'}
+              {transaction ? 'Update Transaction' : lines.length > 1 ? `Add Order (${lines.length} items)` : 'Add Transaction'}
             </Button>
             <Button type="button" variant="secondary" onClick={onClose}>
               Cancel
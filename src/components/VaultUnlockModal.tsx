@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { X, Lock } from 'lucide-react';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface VaultUnlockModalProps {
+  open: boolean;
+  isSetup: boolean;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export default function VaultUnlockModal({ open, isSetup, onSubmit, onCancel }: VaultUnlockModalProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPassphrase('');
+      setConfirmation('');
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (isSetup) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('Passphrases do not match');
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+    } catch (submitError) {
+      setError((submitError as Error).message || 'Failed to unlock');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[120] p-4">
+      <div className="bg-card border border-border rounded-2xl w-full max-w-md shadow-2xl">
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            {isSetup ? 'Set Credentials Passphrase' : 'Unlock Credentials'}
+          </h2>
+          <Button variant="ghost" size="icon" onClick={onCancel}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {isSetup
+              ? 'Choose a passphrase to encrypt pool and account passwords. It is never stored; if you lose it, the passwords cannot be recovered.'
+              : 'Enter your passphrase to view or copy passwords. It stays unlocked for this session until you are inactive for a while.'}
+          </p>
+          <div>
+            <Label htmlFor="vault-passphrase" className="text-muted-foreground">Passphrase</Label>
+            <Input
+              id="vault-passphrase"
+              type="password"
+              autoFocus
+              autoComplete={isSetup ? 'new-password' : 'current-password'}
+              className="mt-2"
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+            />
+          </div>
+          {isSetup && (
+            <div>
+              <Label htmlFor="vault-passphrase-confirm" className="text-muted-foreground">Confirm passphrase</Label>
+              <Input
+                id="vault-passphrase-confirm"
+                type="password"
+                autoComplete="new-password"
+                className="mt-2"
+                value={confirmation}
+                onChange={e => setConfirmation(e.target.value)}
+              />
+            </div>
+          )}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex gap-3 pt-2">
+            <Button type="submit" className="flex-1" disabled={isSubmitting || !passphrase}>
+              {isSubmitting ? 'Checking...' : isSetup ? 'Set Passphrase' : 'Unlock'}
+            </Button>
+            <Button type="button" variant="secondary" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Hourglass, Plus, RefreshCw, Trash2, X, User, Package } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { waitlistDb, offerFreeSeatsToWaitlist, WAITLIST_PRIORITY_LABELS } from '../lib/waitlist';
+import { getAvailablePoolsForService } from '../lib/inventory';
+import { useProviders } from '../lib/useProviders';
+import { formatDate } from '../lib/subscriptionUtils';
+import { toast } from '../lib/toast';
+import SearchableDropdown from './SearchableDropdown';
+import type { WaitlistEntry, WaitlistPriority, WaitlistStatus } from '../types/waitlist';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+
+const PRIORITIES: WaitlistPriority[] = [1, 2, 3];
+
+const PRIORITY_BADGES: Record<WaitlistPriority, 'destructive' | 'secondary' | 'outline'> = {
+  1: 'destructive',
+  2: 'secondary',
+  3: 'outline',
+};
+
+const STATUS_FILTERS: Array<{ value: WaitlistStatus | 'all'; label: string }> = [
+  { value: 'waiting', label: 'Waiting' },
+  { value: 'assigned', label: 'Assigned' },
+  { value: 'canceled', label: 'Canceled' },
+  { value: 'all', label: 'All' },
+];
+
+interface ServiceOption {
+  id: string;
+  product_service: string;
+  duration: string | null;
+  provider_id: string | null;
+}
+
+interface ClientOption {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
+const EMPTY_FORM = { clientId: '', serviceId: '', seatEmail: '', priority: 2 as WaitlistPriority, notes: '' };
+
+export default function WaitlistPanel() {
+  const { getProviderById, getProviderIcon } = useProviders();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [statusFilter, setStatusFilter] = useState<WaitlistStatus | 'all'>('waiting');
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [services, setServices] = useState<ServiceOption[]>([]);
+  const [clients, setClients] = useState<ClientOption[]>([]);
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setLoading(true);
+      try {
+        setEntries(await waitlistDb.list(statusFilter));
+      } catch (error) {
+        console.error('Error loading waitlist:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [statusFilter, refreshKey]);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [servicesResult, clientsResult] = await Promise.all([
+          supabase.from('services').select('id, product_service, duration, provider_id').order('product_service'),
+          supabase.from('clients').select('id, name, email').order('name'),
+        ]);
+        if (servicesResult.error) throw servicesResult.error;
+        if (clientsResult.error) throw clientsResult.error;
+        setServices(servicesResult.data || []);
+        setClients(clientsResult.data || []);
+      } catch (error) {
+        console.error('Error loading waitlist options:', error);
+      }
+    };
+
+    if (isFormOpen) {
+      fetchOptions();
+    }
+  }, [isFormOpen]);
+
+  // Only services backed by a pool provider can be waitlisted
+  const serviceOptions = useMemo(() => services
+    .filter(service => getProviderById(service.provider_id)?.pool_type)
+    .map(service => ({
+      value: service.id,
+      label: service.duration ? `${service.product_service} (${service.duration})` : service.product_service,
+    })), [services, getProviderById]);
+
+  const clientOptions = useMemo(() => clients.map(client => ({
+    value: client.id,
+    label: client.email ? `${client.name} (${client.email})` : client.name,
+  })), [clients]);
+
+  // Queue position within each provider, in assignment order
+  const positions = useMemo(() => {
+    const counters = new Map<string, number>();
+    const result = new Map<string, number>();
+    for (const entry of entries) {
+      if (entry.status !== 'waiting') continue;
+      const next = (counters.get(entry.provider) || 0) + 1;
+      counters.set(entry.provider, next);
+      result.set(entry.id, next);
+    }
+    return result;
+  }, [entries]);
+
+  const handleAdd = async () => {
+    const service = services.find(s => s.id === form.serviceId);
+    if (!form.clientId || !service) {
+      alert('Please select a client and a service');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const provider = getProviderById(service.provider_id)?.key || '';
+      await waitlistDb.add({
+        client_id: form.clientId,
+        service_id: service.id,
+        provider,
+        seat_email: form.seatEmail.trim() || undefined,
+        priority: form.priority,
+        notes: form.notes.trim() || undefined,
+      });
+      setForm(EMPTY_FORM);
+      setIsFormOpen(false);
+      toast.show('Added to waitlist', { type: 'success' });
+
+      // A seat may already be free for this provider
+      await assignFromPools([provider]);
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Error adding to waitlist:', error);
+      alert(`Failed to add to waitlist: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const assignFromPools = async (providers: string[]) => {
+    let assignedCount = 0;
+    for (const provider of providers) {
+      const { data: pools, error } = await getAvailablePoolsForService(provider);
+      if (error) throw error;
+      for (const pool of pools || []) {
+        if (pool.used_seats >= pool.max_seats) continue;
+        assignedCount += (await offerFreeSeatsToWaitlist(pool.id)).length;
+      }
+    }
+    return assignedCount;
+  };
+
+  const handleCheckPools = async () => {
+    const providers = [...new Set(entries.filter(e => e.status === 'waiting').map(e => e.provider))];
+    setIsChecking(true);
+    try {
+      const assignedCount = await assignFromPools(providers);
+      if (assignedCount === 0) {
+        toast.show('No free seats for waiting clients', { type: 'info' });
+      }
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Error assigning waitlist:', error);
+      alert(`Failed to assign waitlist: ${(error as Error).message}`);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handlePriorityChange = async (entry: WaitlistEntry, priority: WaitlistPriority) => {
+    try {
+      const updated = await waitlistDb.updatePriority(entry.id, priority);
+      setEntries(prev => prev
+        .map(e => (e.id === updated.id ? updated : e))
+        .sort((a, b) => a.priority - b.priority || a.created_at.localeCompare(b.created_at)));
+    } catch (error) {
+      console.error('Error updating waitlist priority:', error);
+      alert(`Failed to update priority: ${(error as Error).message}`);
+    }
+  };
+
+  const handleCancel = async (entry: WaitlistEntry) => {
+    if (!confirm(`Take ${entry.clients?.name || 'this client'} off the waitlist?`)) return;
+
+    try {
+      await waitlistDb.cancel(entry.id);
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Error canceling waitlist entry:', error);
+      alert(`Failed to cancel entry: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    if (!confirm('Delete this waitlist entry permanently?')) return;
+
+    try {
+      await waitlistDb.remove(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (error) {
+      console.error('Error deleting waitlist entry:', error);
+      alert(`Failed to delete entry: ${(error as Error).message}`);
+    }
+  };
+
+  const selectClassName = 'px-3 py-2 bg-secondary border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-card border border-border rounded-lg shadow-sm p-4 flex flex-wrap items-center gap-3">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as WaitlistStatus | 'all')}
+          className={selectClassName}
+        >
+          {STATUS_FILTERS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <p className="text-sm text-muted-foreground flex-1">
+          Waiting clients get the next free seat of their provider automatically, high priority first.
+        </p>
+        <Button variant="secondary" onClick={handleCheckPools} disabled={isChecking || positions.size === 0}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isChecking ? 'animate-spin' : ''}`} />
+          Check pools
+        </Button>
+        <Button onClick={() => setIsFormOpen(open => !open)}>
+          {isFormOpen ? <X className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+          {isFormOpen ? 'Close' : 'Add to Waitlist'}
+        </Button>
+      </div>
+
+      {isFormOpen && (
+        <div className="bg-card border border-border rounded-lg shadow-sm p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <SearchableDropdown
+              label="Client"
+              icon={<User className="w-4 h-4" />}
+              options={clientOptions}
+              value={form.clientId}
+              onChange={(value) => setForm(prev => ({ ...prev, clientId: value }))}
+              placeholder="Select a client"
+              searchPlaceholder="Search clients..."
+              showSearchThreshold={5}
+            />
+            <SearchableDropdown
+              label="Service"
+              icon={<Package className="w-4 h-4" />}
+              options={serviceOptions}
+              value={form.serviceId}
+              onChange={(value) => setForm(prev => ({ ...prev, serviceId: value }))}
+              placeholder="Select a service"
+              searchPlaceholder="Search services..."
+              emptyMessage="No pool-backed services"
+              showSearchThreshold={5}
+            />
+            <div>
+              <Label className="text-muted-foreground">Seat email (optional)</Label>
+              <Input
+                type="email"
+                className="mt-2"
+                value={form.seatEmail}
+                onChange={(e) => setForm(prev => ({ ...prev, seatEmail: e.target.value }))}
+                placeholder="client@example.com"
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Priority</Label>
+              <select
+                value={form.priority}
+                onChange={(e) => setForm(prev => ({ ...prev, priority: Number(e.target.value) as WaitlistPriority }))}
+                className={`mt-2 w-full ${selectClassName}`}
+              >
+                {PRIORITIES.map(priority => (
+                  <option key={priority} value={priority}>{WAITLIST_PRIORITY_LABELS[priority]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <Label className="text-muted-foreground">Notes</Label>
+            <Input
+              className="mt-2"
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              placeholder="e.g. wants the Duo plan, paid in advance"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={isSaving || !form.clientId || !form.serviceId}>
+              {isSaving ? 'Adding...' : 'Add to Waitlist'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">Loading waitlist...</p>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12">
+          <Hourglass className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h3 className="mt-2 text-sm font-medium text-foreground">Nobody is waiting</h3>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Add clients here when every pool of a provider is full.
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y divide-border border border-border rounded-lg overflow-hidden">
+          {entries.map(entry => (
+            <div key={entry.id} className="p-4 bg-card flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  {positions.has(entry.id) && (
+                    <span className="text-xs font-mono text-muted-foreground">#{positions.get(entry.id)}</span>
+                  )}
+                  <span className="text-foreground font-medium truncate">{entry.clients?.name || 'Unknown client'}</span>
+                  <span className="text-sm text-muted-foreground">
+                    {getProviderIcon(entry.provider)} {entry.services?.product_service || entry.provider}
+                  </span>
+                  <Badge variant={PRIORITY_BADGES[entry.priority]}>{WAITLIST_PRIORITY_LABELS[entry.priority]}</Badge>
+                  {entry.status === 'assigned' && <Badge variant="success">Assigned</Badge>}
+                  {entry.status === 'canceled' && <Badge variant="outline">Canceled</Badge>}
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground truncate">
+                  Waiting since {formatDate(entry.created_at)}
+                  {entry.assigned_at && ` · assigned ${formatDate(entry.assigned_at)}`}
+                  {entry.seat_email && ` · ${entry.seat_email}`}
+                  {entry.notes && ` · ${entry.notes}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {entry.status === 'waiting' && (
+                  <>
+                    <select
+                      value={entry.priority}
+                      onChange={(e) => handlePriorityChange(entry, Number(e.target.value) as WaitlistPriority)}
+                      className={selectClassName}
+                      title="Priority"
+                    >
+                      {PRIORITIES.map(priority => (
+                        <option key={priority} value={priority}>{WAITLIST_PRIORITY_LABELS[priority]}</option>
+                      ))}
+                    </select>
+                    <Button variant="ghost" size="sm" onClick={() => handleCancel(entry)} title="Take off the waitlist">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(entry)} title="Delete entry">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
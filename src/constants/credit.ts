@@ -0,0 +1,11 @@
+import type { CreditEntryKind } from '../types/credit';
+
+export const CREDIT_ENTRY_KIND_LABELS: Record<CreditEntryKind, string> = {
+  deposit: 'Deposit',
+  consumption: 'Paid from credit',
+  adjustment: 'Adjustment',
+  store_credit: 'Store Credit',
+};
+
+// Resellers who prepay are flagged in the Decision Zone below this balance (USD)
+export const LOW_CREDIT_BALANCE = 20;
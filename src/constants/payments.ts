@@ -0,0 +1,16 @@
+import type { PaymentStatus, ReceivableAgingBucket } from '../types/receivable';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  paid: 'Paid',
+  partial: 'Partial',
+  unpaid: 'Unpaid',
+};
+
+// Sales collected without a method, or whose method was deleted
+export const UNSPECIFIED_PAYMENT_METHOD_LABEL = 'Not specified';
+
+export const RECEIVABLE_AGING_LABELS: Record<ReceivableAgingBucket, string> = {
+  current: '0–7 days',
+  late: '8–30 days',
+  overdue: '30+ days',
+};
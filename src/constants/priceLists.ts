@@ -0,0 +1,9 @@
+import type { PriceListKind } from '../types/priceList';
+
+export const PRICE_LIST_KIND_LABELS: Record<PriceListKind, string> = {
+  reseller: 'Reseller Tier',
+  custom: 'Custom',
+};
+
+// Clients and sales without a price list pay the service's own price
+export const RETAIL_PRICE_LIST_LABEL = 'Retail';
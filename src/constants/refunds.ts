@@ -0,0 +1,7 @@
+import type { RefundKind } from '../types/refund';
+
+export const REFUND_KIND_LABELS: Record<RefundKind, string> = {
+  refund: 'Refund',
+  chargeback: 'Chargeback',
+  store_credit: 'Store Credit',
+};
@@ -0,0 +1,8 @@
+import type { SupplierKind } from '../types/supplier';
+
+export const SUPPLIER_KIND_LABELS: Record<SupplierKind, string> = {
+  key_seller: 'Key Seller',
+  gift_card_vendor: 'Gift Card Vendor',
+  reseller: 'Reseller',
+  other: 'Other',
+};
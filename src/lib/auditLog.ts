@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+import type { AuditEntityType, AuditLogEntry, AuditLogFilter } from '../types/operator';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  subscription: 'Subscription',
+  resource_pool: 'Pool',
+  resource_pool_seat: 'Seat',
+  personal_account: 'Personal Account',
+  client: 'Client',
+  transaction: 'Transaction',
+  money_pool: 'Money Pool',
+  ad_spend: 'Ad Spend',
+  pending_payout: 'Pending Payout',
+  operator: 'Operator',
+  waitlist: 'Waitlist',
+};
+
+/**
+ * Record who changed what. actor_id/actor_email are filled in by the database
+ * from the signed-in session, so callers only describe the change. A failed
+ * audit write is logged and never fails the mutation it describes.
+ */
+export async function recordAudit(
+  entityType: AuditEntityType,
+  action: string,
+  entityId?: string | null,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from('audit_log')
+    .insert({ entity_type: entityType, entity_id: entityId ?? null, action, details });
+  if (error) {
+    console.error('Error writing audit log:', error);
+  }
+}
+
+export const auditLogDb = {
+  async list(filter: AuditLogFilter = {}, limit = 200) {
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (filter.actorId) query = query.eq('actor_id', filter.actorId);
+    if (filter.entityType) query = query.eq('entity_type', filter.entityType);
+    if (filter.action) query = query.eq('action', filter.action);
+    if (filter.from) query = query.gte('created_at', filter.from);
+    if (filter.to) query = query.lte('created_at', filter.to);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data as AuditLogEntry[];
+  }
+};
@@ -0,0 +1,103 @@
+import { useState, useEffect, useRef, ReactNode } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { lockVault } from './credentialVault';
+import { operatorsDb } from './operators';
+import type { Operator } from '../types/operator';
+import { AuthContext } from './useAuth';
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [operator, setOperator] = useState<Operator | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  // User id the current operator value was resolved for
+  const [resolvedUserId, setResolvedUserId] = useState<string | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const signingOut = useRef(false);
+  const hadSession = useRef(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      hadSession.current = data.session !== null;
+      setSessionLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      if (event === 'SIGNED_OUT') {
+        if (hadSession.current && !signingOut.current) {
+          setSessionExpired(true);
+        }
+        signingOut.current = false;
+        // Decrypted credentials must not outlive the session
+        lockVault();
+      }
+      if (nextSession) {
+        setSessionExpired(false);
+      }
+
+      hadSession.current = nextSession !== null;
+      setSession(nextSession);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Re-resolve the operator whenever a different user signs in
+  const userId = session?.user.id ?? null;
+  useEffect(() => {
+    if (!userId) {
+      setOperator(null);
+      setResolvedUserId(null);
+      return;
+    }
+
+    let cancelled = false;
+    operatorsDb.getCurrent()
+      .then(current => {
+        if (!cancelled) setOperator(current);
+      })
+      .catch(error => {
+        console.error('Error loading operator:', error);
+        if (!cancelled) setOperator(null);
+      })
+      .finally(() => {
+        if (!cancelled) setResolvedUserId(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const signIn = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  };
+
+  const signOut = async () => {
+    signingOut.current = true;
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      signingOut.current = false;
+      throw error;
+    }
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user: session?.user ?? null,
+        operator,
+        role: operator?.role ?? null,
+        loading: sessionLoading || (userId !== null && resolvedUserId !== userId),
+        sessionExpired,
+        signIn,
+        signOut
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
@@ -1,5 +1,8 @@
 import { Subscription } from '../types/subscription';
 import { Transaction, Service } from './supabase';
+import { getNetReceived } from './receivables';
+import { sumRefundsPaidOut } from './refunds';
+import type { TransactionRefund } from '../types/refund';
 
 export interface DailyProjection {
     date: string;
@@ -43,16 +46,22 @@ export interface ForecastOptions {
     startingCash?: number;
     includeOneTimeSales?: boolean;
     optimismFactor?: number; // 0.5 = pessimistic, 1.0 = realistic, 1.5 = optimistic
+    refunds?: Pick<TransactionRefund, 'amount' | 'paid_out'>[]; // Paid back over the same period as transactions
 }
 
 /**
  * Calculate current cash position from transaction history
+ * (only what has been received after payment fees; unpaid sales are receivables,
+ * and refunds and chargebacks paid back come off)
  */
-export function calculateCurrentCashPosition(transactions: Transaction[]): number {
+export function calculateCurrentCashPosition(
+    transactions: Transaction[],
+    refunds: Pick<TransactionRefund, 'amount' | 'paid_out'>[] = []
+): number {
     return transactions.reduce((total, t) => {
-        const profit = t.selling_price - t.cost_at_sale;
+        const profit = getNetReceived(t) - t.cost_at_sale;
         return total + profit;
-    }, 0);
+    }, 0) - sumRefundsPaidOut(refunds);
 }
 
 /**
@@ -191,11 +200,12 @@ export function generateCashFlowForecast(
         days = 90,
         startingCash,
         includeOneTimeSales = true,
-        optimismFactor = 1.0
+        optimismFactor = 1.0,
+        refunds = []
     } = options;
 
     // Calculate starting balance
-    const currentCash = startingCash ?? calculateCurrentCashPosition(transactions);
+    const currentCash = startingCash ?? calculateCurrentCashPosition(transactions, refunds);
 
     // Analyze historical patterns
     const historicalPattern = analyzeHistoricalSalesPatterns(transactions, 30);
@@ -1,5 +1,10 @@
 import { supabase, Transaction, Service } from './supabase';
 import { subscriptionService } from './subscriptionService';
+import { recordAudit } from './auditLog';
+import { refundsDb, sumRefundsPaidOut } from './refunds';
+import { getOutstanding, receivablesDb, sumNetPayments } from './receivables';
+import { clientCreditDb } from './clientCredit';
+import { LOW_CREDIT_BALANCE } from '../constants/credit';
 import { Subscription } from '../types/subscription';
 import {
     MoneyPool,
@@ -58,6 +63,7 @@ export async function updatePoolBalance(poolName: MoneyPoolName, newBalance: num
         .eq('name', poolName);
 
     if (error) throw error;
+    await recordAudit('money_pool', 'balance_updated', poolName, { balance: newBalance });
 }
 
 export async function updatePoolTarget(poolName: MoneyPoolName, newTarget: number): Promise<void> {
@@ -67,6 +73,7 @@ export async function updatePoolTarget(poolName: MoneyPoolName, newTarget: numbe
         .eq('name', poolName);
 
     if (error) throw error;
+    await recordAudit('money_pool', 'target_updated', poolName, { target: newTarget });
 }
 
 export async function transferBetweenPools(
@@ -104,6 +111,7 @@ export async function transferBetweenPools(
         });
 
     if (error) throw error;
+    await recordAudit('money_pool', 'transferred', null, { from: fromPool, to: toPool, amount });
 }
 
 // ============================================
@@ -148,6 +156,7 @@ export async function addAdSpend(date: string, amount: number, platform: string,
         });
 
     if (error) throw error;
+    await recordAudit('ad_spend', 'recorded', null, { date, amount, platform });
 }
 
 // ============================================
@@ -181,6 +190,7 @@ export async function addPendingPayout(
         });
 
     if (error) throw error;
+    await recordAudit('pending_payout', 'created', null, { source, amount, expectedDate });
 }
 
 export async function markPayoutReceived(payoutId: string): Promise<void> {
@@ -193,6 +203,7 @@ export async function markPayoutReceived(payoutId: string): Promise<void> {
         .eq('id', payoutId);
 
     if (error) throw error;
+    await recordAudit('pending_payout', 'received', payoutId);
 }
 
 // ============================================
@@ -212,7 +223,14 @@ export async function getTodaysNumbers(): Promise<TodaysNumbers> {
 
     const txList = (transactions || []) as Transaction[];
 
-    const revenue = txList.reduce((sum, t) => sum + Number(t.selling_price), 0);
+    // Refunds count on the day the money went back, whenever the sale was
+    const refunds = sumRefundsPaidOut(await refundsDb.getBetween(today, today));
+
+    // Only money actually collected counts, on the day it came in and less payment
+    // fees; the rest is a receivable
+    const payments = await receivablesDb.getPaymentsBetween(today, today);
+    const revenue = sumNetPayments(payments) - refunds;
+    const outstanding = txList.reduce((sum, t) => sum + getOutstanding(t), 0);
     const cogs = txList.reduce((sum, t) => sum + Number(t.cost_at_sale), 0);
     const salesCount = txList.length;
 
@@ -237,6 +255,8 @@ export async function getTodaysNumbers(): Promise<TodaysNumbers> {
 
     return {
         revenue,
+        refunds,
+        outstanding,
         salesCount,
         adSpend,
         cogs,
@@ -282,8 +302,10 @@ export async function getWeeklyPulse(): Promise<WeeklyPulse> {
 
     if (txError) throw txError;
 
-    // Get ad spend for this week
+    // Get ad spend, payments and refunds for this week
     const adSpendData = await getAdSpendForDateRange(formatDate(weekStart), formatDate(today));
+    const paymentsData = await receivablesDb.getPaymentsBetween(formatDate(weekStart), formatDate(today));
+    const refundsData = await refundsDb.getBetween(formatDate(weekStart), formatDate(today));
 
     // Calculate daily profits
     const days: DailyPulse[] = [];
@@ -295,7 +317,8 @@ export async function getWeeklyPulse(): Promise<WeeklyPulse> {
         const dateStr = formatDate(day);
 
         const dayTransactions = (transactions || []).filter(t => t.date === dateStr) as Transaction[];
-        const dayRevenue = dayTransactions.reduce((sum, t) => sum + Number(t.selling_price), 0);
+        const dayRevenue = sumNetPayments(paymentsData.filter(p => p.date === dateStr))
+            - sumRefundsPaidOut(refundsData.filter(r => r.date === dateStr));
         const dayCogs = dayTransactions.reduce((sum, t) => sum + Number(t.cost_at_sale), 0);
         const dayAdSpend = adSpendData
             .filter(a => a.date === dateStr)
@@ -326,7 +349,10 @@ export async function getWeeklyPulse(): Promise<WeeklyPulse> {
         formatDate(lastWeekEnd)
     );
 
-    const lastWeekRevenue = (lastWeekTx || []).reduce((sum, t) => sum + Number(t.selling_price), 0);
+    const lastWeekPayments = await receivablesDb.getPaymentsBetween(formatDate(lastWeekStart), formatDate(lastWeekEnd));
+    const lastWeekRefunds = await refundsDb.getBetween(formatDate(lastWeekStart), formatDate(lastWeekEnd));
+
+    const lastWeekRevenue = sumNetPayments(lastWeekPayments) - sumRefundsPaidOut(lastWeekRefunds);
     const lastWeekCogs = (lastWeekTx || []).reduce((sum, t) => sum + Number(t.cost_at_sale), 0);
     const lastWeekAds = lastWeekAdSpend.reduce((sum, a) => sum + Number(a.amount), 0);
     const lastWeekTotal = lastWeekRevenue - lastWeekCogs - lastWeekAds;
@@ -430,9 +456,18 @@ export async function getDecisionZone(
             suggestedActions.push('Consider 10% ad budget increase tomorrow');
         }
 
-        if (suggestedActions.length === 0) {
-            suggestedActions.push('Stay the course - you\'re doing great!');
-        }
+    }
+
+    // Prepaid resellers running low won't be able to pay for their next orders
+    const lowCreditResellers = await clientCreditDb
+        .getLowBalanceResellers(LOW_CREDIT_BALANCE)
+        .catch(() => []);
+    lowCreditResellers.forEach(reseller => {
+        suggestedActions.push(`Ask ${reseller.name} for a top-up - credit down to $${reseller.balance.toFixed(2)}`);
+    });
+
+    if (status === 'green' && suggestedActions.length === 0) {
+        suggestedActions.push('Stay the course - you\'re doing great!');
     }
 
     return {
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+import { recordAudit } from './auditLog';
+import type { ClientCreditEntry, CreditEntryFormData, LowCreditClient } from '../types/credit';
+
+export const clientCreditDb = {
+  // Newest first
+  async getLedger(clientId: string) {
+    const { data, error } = await supabase
+      .from('client_credit_ledger')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as ClientCreditEntry[];
+  },
+
+  // clients.credit_balance follows the ledger, so this is the only write path
+  async addEntry(entry: CreditEntryFormData) {
+    const { data, error } = await supabase
+      .from('client_credit_ledger')
+      .insert(entry)
+      .select()
+      .single();
+    if (error) throw error;
+    await recordAudit('client', `credit_${entry.kind}`, entry.client_id, { amount: entry.amount, notes: entry.notes });
+    return data as ClientCreditEntry;
+  },
+
+  async getBalance(clientId: string) {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('credit_balance')
+      .eq('id', clientId)
+      .single();
+    if (error) throw error;
+    return Number(data.credit_balance) || 0;
+  },
+
+  // Resellers who have prepaid at some point and are now below the threshold
+  async getLowBalanceResellers(threshold: number) {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('id, name, credit_balance, client_credit_ledger!inner (kind)')
+      .eq('type', 'reseller')
+      .eq('client_credit_ledger.kind', 'deposit')
+      .lt('credit_balance', threshold)
+      .order('credit_balance');
+    if (error) throw error;
+    return (data || []).map(client => ({
+      id: client.id,
+      name: client.name,
+      balance: Number(client.credit_balance) || 0
+    })) as LowCreditClient[];
+  }
+};
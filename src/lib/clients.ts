@@ -1,5 +1,17 @@
-import { supabase } from './supabase';
-import type { Client, ClientPurchase, ClientStatistics } from '../types/client';
+import { supabase, Transaction } from './supabase';
+import { recordAudit } from './auditLog';
+import type { Client, ClientPurchase, ClientStatistics, PublicClientStatus } from '../types/client';
+
+// 32 random bytes as hex; long enough that tokens can't be guessed
+function generateStatusToken(): string {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function getStatusPageUrl(token: string): string {
+    return `${window.location.origin}/status/${token}`;
+}
 
 export const clientsDb = {
     async getAll() {
@@ -28,6 +40,7 @@ export const clientsDb = {
             .select()
             .single();
         if (error) throw error;
+        await recordAudit('client', 'created', data.id, { name: data.name });
         return data as Client;
     },
 
@@ -39,6 +52,8 @@ export const clientsDb = {
             .select()
             .single();
         if (error) throw error;
+        // Only field names are logged; values may include the status token
+        await recordAudit('client', 'updated', id, { name: data.name, fields: Object.keys(updates) });
         return data as Client;
     },
 
@@ -48,6 +63,7 @@ export const clientsDb = {
             .delete()
             .eq('id', id);
         if (error) throw error;
+        await recordAudit('client', 'deleted', id);
     },
 
     async getPurchases(clientId: string) {
@@ -78,14 +94,19 @@ export const clientsDb = {
                     *,
                     services (
                         product_service
+                    ),
+                    transaction_refunds (
+                        amount
                     )
                 `)
                 .eq('client_id', clientId);
 
             if (transError) throw transError;
 
-            // Calculate statistics
-            const totalSpent = transactions?.reduce((sum, t) => sum + (t.selling_price || 0), 0) || 0;
+            // Calculate statistics; what was refunded doesn't count as spent
+            const totalRefunded = transactions?.reduce((sum, t) =>
+                sum + (t.transaction_refunds || []).reduce((refundSum: number, r: { amount: number }) => refundSum + Number(r.amount), 0), 0) || 0;
+            const totalSpent = (transactions?.reduce((sum, t) => sum + (t.selling_price || 0), 0) || 0) - totalRefunded;
             const totalPurchases = transactions?.length || 0;
             const servicesBought = transactions?.map(t => t.services?.product_service).filter(Boolean) || [];
             const uniqueServices = [...new Set(servicesBought)];
@@ -95,6 +116,7 @@ export const clientsDb = {
                 name: client.name,
                 total_purchases: totalPurchases,
                 total_spent: totalSpent,
+                total_refunded: totalRefunded,
                 services_bought: uniqueServices
             };
         } catch (error) {
@@ -109,5 +131,51 @@ export const clientsDb = {
                 services_bought: []
             };
         }
+    },
+
+    // Sales with their refunds, newest first
+    async getHistory(clientId: string) {
+        const { data, error } = await supabase
+            .from('transactions')
+            .select(`
+                *,
+                services (
+                    product_service,
+                    duration
+                ),
+                transaction_refunds (
+                    id,
+                    kind,
+                    amount,
+                    date,
+                    reason
+                )
+            `)
+            .eq('client_id', clientId)
+            .order('date', { ascending: false });
+        if (error) throw error;
+        return data as Transaction[];
+    },
+
+    // Issue a new share token, invalidating any previous status page link
+    async regenerateStatusToken(id: string) {
+        return this.update(id, {
+            status_token: generateStatusToken(),
+            status_token_created_at: new Date().toISOString()
+        });
+    },
+
+    async revokeStatusToken(id: string) {
+        return this.update(id, {
+            status_token: null,
+            status_token_created_at: null
+        });
+    },
+
+    // Public lookup used by the status page; returns null for unknown or revoked tokens
+    async getPublicStatus(token: string) {
+        const { data, error } = await supabase.rpc('get_client_status', { p_token: token });
+        if (error) throw error;
+        return data as PublicClientStatus | null;
     }
 };
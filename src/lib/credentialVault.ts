@@ -0,0 +1,208 @@
+import { supabase } from './supabase';
+
+// Client-side encryption for pool / personal-account login secrets.
+// A passphrase is stretched with PBKDF2 into an AES-GCM key that only lives in
+// memory; the database only ever sees `enc:v1:<iv>:<ciphertext>` strings.
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const VERIFIER_PLAINTEXT = 'upgrade-tn-credential-vault';
+const DEFAULT_ITERATIONS = 250000;
+export const VAULT_INACTIVITY_TIMEOUT_MS = 15 * 60 * 1000;
+
+interface VaultConfig {
+  salt: string;
+  iterations: number;
+  verifier: string;
+}
+
+let sessionKey: CryptoKey | null = null;
+let inactivityTimer: ReturnType<typeof setTimeout> | null = null;
+const lockListeners = new Set<(unlocked: boolean) => void>();
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const notify = () => {
+  lockListeners.forEach(listener => listener(sessionKey !== null));
+};
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptWithKey(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+async function decryptWithKey(key: CryptoKey, stored: string): Promise<string> {
+  const [iv, ciphertext] = stored.slice(ENCRYPTED_PREFIX.length).split(':');
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+async function getVaultConfig(): Promise<VaultConfig | null> {
+  const { data, error } = await supabase
+    .from('credential_vault')
+    .select('salt, iterations, verifier')
+    .eq('id', 1)
+    .maybeSingle();
+  if (error) throw error;
+  return data as VaultConfig | null;
+}
+
+export const isEncryptedSecret = (value: string | null | undefined): boolean => {
+  return !!value && value.startsWith(ENCRYPTED_PREFIX);
+};
+
+export const isVaultUnlocked = (): boolean => sessionKey !== null;
+
+export async function isVaultInitialized(): Promise<boolean> {
+  return (await getVaultConfig()) !== null;
+}
+
+export function onVaultLockChange(listener: (unlocked: boolean) => void): () => void {
+  lockListeners.add(listener);
+  return () => {
+    lockListeners.delete(listener);
+  };
+}
+
+export function lockVault() {
+  sessionKey = null;
+  if (inactivityTimer) {
+    clearTimeout(inactivityTimer);
+    inactivityTimer = null;
+  }
+  notify();
+}
+
+// Push the auto-lock back; called on user activity while the vault is unlocked
+export function touchVault() {
+  if (!sessionKey) return;
+  if (inactivityTimer) clearTimeout(inactivityTimer);
+  inactivityTimer = setTimeout(lockVault, VAULT_INACTIVITY_TIMEOUT_MS);
+}
+
+// First-time setup: store the salt and a verifier so later passphrases can be checked
+export async function initializeVault(passphrase: string): Promise<void> {
+  if (await isVaultInitialized()) {
+    throw new Error('Credential vault is already set up');
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, DEFAULT_ITERATIONS);
+  const verifier = await encryptWithKey(key, VERIFIER_PLAINTEXT);
+
+  const { error } = await supabase
+    .from('credential_vault')
+    .insert({ id: 1, salt: toBase64(salt), iterations: DEFAULT_ITERATIONS, verifier });
+  if (error) throw error;
+
+  sessionKey = key;
+  touchVault();
+  notify();
+}
+
+export async function unlockVault(passphrase: string): Promise<void> {
+  const config = await getVaultConfig();
+  if (!config) {
+    throw new Error('Credential vault is not set up yet. Set a passphrase in Settings > Security.');
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    const check = await decryptWithKey(key, config.verifier);
+    if (check !== VERIFIER_PLAINTEXT) throw new Error('Verifier mismatch');
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+
+  sessionKey = key;
+  touchVault();
+  notify();
+}
+
+export async function encryptSecret(plaintext: string): Promise<string> {
+  if (!sessionKey) throw new Error('Credential vault is locked');
+  touchVault();
+  return encryptWithKey(sessionKey, plaintext);
+}
+
+// Legacy plaintext values are returned unchanged until they are migrated
+export async function decryptSecret(stored: string | null | undefined): Promise<string> {
+  if (!stored) return '';
+  if (!isEncryptedSecret(stored)) return stored;
+  if (!sessionKey) throw new Error('Credential vault is locked');
+  touchVault();
+  return decryptWithKey(sessionKey, stored);
+}
+
+// Migration helper: encrypt every plaintext login_secret still stored in the database
+export async function encryptExistingSecrets(): Promise<{ pools: number; personalAccounts: number }> {
+  if (!sessionKey) throw new Error('Credential vault is locked');
+
+  const migrateTable = async (table: 'resource_pools' | 'personal_accounts') => {
+    const { data, error } = await supabase
+      .from(table)
+      .select('id, login_secret')
+      .not('login_secret', 'is', null)
+      .not('login_secret', 'like', `${ENCRYPTED_PREFIX}%`);
+    if (error) throw error;
+
+    let migrated = 0;
+    for (const row of data || []) {
+      if (!row.login_secret) continue;
+      const { error: updateError } = await supabase
+        .from(table)
+        .update({ login_secret: await encryptSecret(row.login_secret) })
+        .eq('id', row.id);
+      if (updateError) throw updateError;
+      migrated++;
+    }
+    return migrated;
+  };
+
+  const pools = await migrateTable('resource_pools');
+  const personalAccounts = await migrateTable('personal_accounts');
+  return { pools, personalAccounts };
+}
+
+export async function countPlaintextSecrets(): Promise<number> {
+  const countTable = async (table: 'resource_pools' | 'personal_accounts') => {
+    const { count, error } = await supabase
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+      .not('login_secret', 'is', null)
+      .neq('login_secret', '')
+      .not('login_secret', 'like', `${ENCRYPTED_PREFIX}%`);
+    if (error) throw error;
+    return count || 0;
+  };
+
+  const [pools, accounts] = await Promise.all([countTable('resource_pools'), countTable('personal_accounts')]);
+  return pools + accounts;
+}
@@ -1,8 +1,11 @@
 import { supabase } from './supabase';
 import { subscriptionService } from './subscriptionService';
+import { recordAudit } from './auditLog';
+import { offerFreeSeatsToWaitlist } from './waitlist';
 import { 
   ResourcePool, 
   ResourcePoolSeat, 
+  SeatHistoryEntry,
   PoolStats, 
   PoolWithSeats, 
   SeatAssignment, 
@@ -13,13 +16,23 @@ import {
   PersonalAccount,
   CreatePersonalAccountData,
   UpdatePersonalAccountData,
-  PersonalAccountFilter
+  PersonalAccountFilter,
+  SeatMigration,
+  PoolMigrationResult,
+  ResourcePoolEvent,
+  PoolExtensionResult,
+  PoolExtensionMeta
 } from '../types/inventory';
 import { getNowInTunisia, getStartOfDayInTunisia, addDaysInTunisia, getNowISOInTunisia } from './dateUtils';
 
+// Columns returned by pool / personal account queries. login_secret is left out on
+// purpose: it is only fetched on demand through getPoolSecret/getPersonalAccountSecret.
+export const POOL_COLUMNS = 'id, provider, pool_type, login_email, has_login_secret, notes, start_at, end_at, is_alive, max_seats, used_seats, status, purchase_cost, purchase_currency, created_at, updated_at';
+export const PERSONAL_ACCOUNT_COLUMNS = 'id, provider, login_email, has_login_secret, notes, created_at, expiry_date, status, assigned_to_client_id, assigned_at, updated_at';
+
 // Resource Pool CRUD operations
 export async function listResourcePools(filter?: PoolFilter) {
-  let query = supabase.from('resource_pools').select('*');
+  let query = supabase.from('resource_pools').select(POOL_COLUMNS);
   
   if (filter?.provider) {
     query = query.eq('provider', filter.provider);
@@ -80,15 +93,28 @@ export async function listResourcePools(filter?: PoolFilter) {
 }
 
 export async function getResourcePool(id: string) {
-  return supabase.from('resource_pools').select('*').eq('id', id).single();
+  return supabase.from('resource_pools').select(POOL_COLUMNS).eq('id', id).single();
+}
+
+// Encrypted login secret for a single pool (decrypt with credentialVault.decryptSecret)
+export async function getPoolSecret(id: string): Promise<string | null> {
+  const { data, error } = await supabase.from('resource_pools').select('login_secret').eq('id', id).single();
+  if (error) throw error;
+  return data?.login_secret ?? null;
 }
 
 export async function createResourcePool(data: CreatePoolData) {
-  const result = await supabase.from('resource_pools').insert(data).select('*').single();
+  const result = await supabase.from('resource_pools').insert(data).select(POOL_COLUMNS).single();
   
   if (result.data) {
     // Initialize seats for the new pool
     await initSeats(result.data.id, data.max_seats);
+    await recordAudit('resource_pool', 'created', result.data.id, {
+      provider: data.provider,
+      login_email: data.login_email,
+      max_seats: data.max_seats,
+    });
+    await offerFreeSeatsToWaitlist(result.data.id);
   }
   
   return result;
@@ -109,7 +135,7 @@ export async function updateResourcePool(id: string, data: UpdatePoolData) {
     .from('resource_pools')
     .update({ ...data, updated_at: new Date().toISOString() })
     .eq('id', id)
-    .select('*')
+    .select(POOL_COLUMNS)
     .single();
 
   if (result.error) {
@@ -119,6 +145,13 @@ export async function updateResourcePool(id: string, data: UpdatePoolData) {
 
   console.log('Pool updated successfully:', result.data);
 
+  // Never log the (encrypted) secret itself, only that it changed
+  const { login_secret, ...loggedChanges } = data;
+  await recordAudit('resource_pool', 'updated', id, {
+    ...loggedChanges,
+    ...(login_secret !== undefined ? { login_secret_changed: true } : {}),
+  });
+
   // If pool was just marked dead, mark linked subscriptions as overdue
   try {
     if (typeof data.is_alive === 'boolean' && currentPool && currentPool.is_alive && !data.is_alive) {
@@ -144,6 +177,16 @@ export async function updateResourcePool(id: string, data: UpdatePoolData) {
     await ensureCorrectSeatCount(id, data.max_seats);
   }
 
+  // A revived pool or a later end date can make room for waiting clients
+  // (added seats are offered in ensureCorrectSeatCount)
+  const gainedCapacity =
+    (data.is_alive === true && !currentPool.is_alive) ||
+    (data.status === 'active' && currentPool.status !== 'active') ||
+    (!!data.end_at && new Date(data.end_at) > new Date(currentPool.end_at));
+  if (gainedCapacity) {
+    await offerFreeSeatsToWaitlist(id);
+  }
+
   return result;
 }
 
@@ -186,6 +229,7 @@ async function ensureCorrectSeatCount(poolId: string, targetSeatCount: number) {
       console.error('Error inserting seats:', insertError);
     } else {
       console.log('Successfully inserted seats:', insertedSeats);
+      await offerFreeSeatsToWaitlist(poolId);
     }
   } else if (currentSeatCount > targetSeatCount) {
     // Need to remove seats (only unassigned ones)
@@ -226,7 +270,114 @@ async function ensureCorrectSeatCount(poolId: string, targetSeatCount: number) {
 }
 
 export async function deleteResourcePool(id: string) {
-  return supabase.from('resource_pools').delete().eq('id', id);
+  const result = await supabase.from('resource_pools').delete().eq('id', id);
+  if (!result.error) {
+    await recordAudit('resource_pool', 'deleted', id);
+  }
+  return result;
+}
+
+/**
+ * Extend a pool we paid to keep: move its end date, optionally pay what the
+ * extension cost out of the Business Vault (amount in USD), and recalculate the renewal
+ * date of every active or overdue linked subscription, setting overdue ones
+ * back to active. Subscriptions that could not be
+ * updated are returned rather than failing the whole extension.
+ */
+export async function extendResourcePool(
+  poolId: string,
+  newEndAt: string,
+  expense?: { amount: number; notes?: string }
+): Promise<PoolExtensionResult> {
+  const { data: currentPool, error: fetchError } = await getResourcePool(poolId);
+  if (fetchError || !currentPool) {
+    throw fetchError || new Error('Pool not found');
+  }
+  if (new Date(newEndAt) <= new Date(currentPool.end_at)) {
+    throw new Error('The new end date must be after the current end date');
+  }
+
+  const { data: pool, error: updateError } = await supabase
+    .from('resource_pools')
+    .update({
+      end_at: newEndAt,
+      // An overdue or expired pool is running again once extended
+      ...(currentPool.status === 'overdue' || currentPool.status === 'expired' ? { status: 'active' } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', poolId)
+    .select(POOL_COLUMNS)
+    .single();
+  if (updateError) throw updateError;
+
+  // Paid out of the Business Vault, not recorded as a sale
+  let expenseTransferId: string | null = null;
+  if (expense && expense.amount > 0) {
+    const { data: transferId, error: expenseError } = await supabase.rpc('record_pool_extension_expense', {
+      p_pool_id: poolId,
+      p_amount: expense.amount,
+      p_notes: expense.notes || `Pool extension: ${currentPool.provider} (${currentPool.login_email})`,
+    });
+    if (expenseError) {
+      console.error('Error recording pool extension expense:', expenseError);
+    } else {
+      expenseTransferId = transferId as string;
+    }
+  }
+
+  const { data: subscriptions, error: subsError } = await supabase
+    .from('subscriptions')
+    .select('id')
+    .eq('resource_pool_id', poolId)
+    // Subscriptions flagged overdue while the pool ran out are picked up too
+    .in('status', ['active', 'overdue']);
+  if (subsError) throw subsError;
+
+  const results = await Promise.allSettled(
+    (subscriptions || []).map(sub =>
+      subscriptionService.applyPoolExtension(sub.id, poolId, currentPool.end_at, newEndAt)
+    )
+  );
+  const failures: PoolExtensionResult['failures'] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      failures.push({
+        subscriptionId: (subscriptions || [])[index].id,
+        error: (result.reason as Error)?.message || 'Unknown error',
+      });
+    }
+  });
+
+  const meta: PoolExtensionMeta = {
+    previousEndAt: currentPool.end_at,
+    newEndAt,
+    daysAdded: Math.round((new Date(newEndAt).getTime() - new Date(currentPool.end_at).getTime()) / (24 * 60 * 60 * 1000)),
+    expenseAmount: expense?.amount || null,
+    expenseTransferId,
+    updatedSubscriptions: results.length - failures.length,
+    failedSubscriptionIds: failures.map(failure => failure.subscriptionId),
+  };
+  const { error: eventError } = await supabase
+    .from('resource_pool_events')
+    .insert({ pool_id: poolId, type: 'extended', meta });
+  if (eventError) {
+    console.error('Error recording pool extension event:', eventError);
+  }
+  await recordAudit('resource_pool', 'extended', poolId, meta);
+
+  await offerFreeSeatsToWaitlist(poolId);
+
+  return { pool, updated: results.length - failures.length, failures, expenseTransferId };
+}
+
+export async function getPoolEvents(poolId: string) {
+  const { data, error } = await supabase
+    .from('resource_pool_events')
+    .select('*')
+    .eq('pool_id', poolId)
+    .order('at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as ResourcePoolEvent[];
 }
 
 export async function archiveResourcePool(id: string) {
@@ -238,10 +389,11 @@ export async function archiveResourcePool(id: string) {
       updated_at: new Date().toISOString()
     })
     .eq('id', id)
-    .select('*')
+    .select(POOL_COLUMNS)
     .single();
 
   if (!result.error) {
+    await recordAudit('resource_pool', 'archived', id);
     try {
       await markLinkedSubscriptionsOverdue([id]);
     } catch (e) {
@@ -263,11 +415,12 @@ export async function archiveExpiredPools() {
     })
     .lt('end_at', now.toISOString())
     .in('status', ['active', 'overdue'])
-    .select('*');
+    .select(POOL_COLUMNS);
 
   if (result.data && result.data.length > 0) {
     try {
       const poolIds = result.data.map((p: any) => p.id);
+      await recordAudit('resource_pool', 'auto_archived', null, { poolIds });
       await markLinkedSubscriptionsOverdue(poolIds);
     } catch (e) {
       console.warn('Failed to mark linked subscriptions overdue for expired pools', e);
@@ -286,9 +439,10 @@ export async function bulkArchivePools(poolIds: string[]) {
       updated_at: new Date().toISOString()
     })
     .in('id', poolIds)
-    .select('*');
+    .select(POOL_COLUMNS);
 
   if (!result.error) {
+    await recordAudit('resource_pool', 'bulk_archived', null, { poolIds });
     try {
       await markLinkedSubscriptionsOverdue(poolIds);
     } catch (e) {
@@ -344,6 +498,60 @@ export async function getPoolWithSeats(poolId: string) {
   };
 }
 
+// Seat history: every occupant gets a row, closed when they leave the seat.
+// Editing the current occupant's details keeps their row open.
+async function openSeatHistory(seatId: string, poolId: string, assignment: SeatAssignment) {
+  const { data: open } = await supabase
+    .from('seat_assignments_history')
+    .select('id, assigned_email, client_id, subscription_id')
+    .eq('seat_id', seatId)
+    .is('unassigned_at', null)
+    .maybeSingle();
+
+  const email = assignment.email || null;
+  const clientId = assignment.clientId || null;
+  const subscriptionId = assignment.subscriptionId || null;
+  if (open && open.assigned_email === email && open.client_id === clientId && open.subscription_id === subscriptionId) {
+    return;
+  }
+
+  if (open) {
+    await closeSeatHistory(seatId);
+  }
+  const { error } = await supabase.from('seat_assignments_history').insert({
+    seat_id: seatId,
+    pool_id: poolId,
+    assigned_email: email,
+    client_id: clientId,
+    subscription_id: subscriptionId,
+    assigned_at: assignment.assignedAt || new Date().toISOString(),
+  });
+  if (error) {
+    console.error('Error writing seat history:', error);
+  }
+}
+
+async function closeSeatHistory(seatId: string) {
+  const { error } = await supabase
+    .from('seat_assignments_history')
+    .update({ unassigned_at: new Date().toISOString() })
+    .eq('seat_id', seatId)
+    .is('unassigned_at', null);
+  if (error) {
+    console.error('Error closing seat history:', error);
+  }
+}
+
+export async function getSeatHistory(poolId: string) {
+  const { data, error } = await supabase
+    .from('seat_assignments_history')
+    .select('*, clients(name), subscriptions(id, status, services(product_service))')
+    .eq('pool_id', poolId)
+    .order('assigned_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as SeatHistoryEntry[];
+}
+
 export async function assignSeat(seatId: string, assignment: SeatAssignment) {
   // First, get the seat to find its pool_id
   const { data: seat, error: seatError } = await supabase
@@ -392,9 +600,16 @@ export async function assignSeat(seatId: string, assignment: SeatAssignment) {
     if (seatResult.error) return { data: null, error: seatResult.error };
     if (subResult.error) return { data: null, error: subResult.error };
     
+    await openSeatHistory(seatId, seat.pool_id, assignment);
+    await recordAudit('resource_pool_seat', 'assigned', seatId, { poolId: seat.pool_id, ...assignment });
     return seatResult;
   } else {
-    return await seatUpdate;
+    const seatResult = await seatUpdate;
+    if (!seatResult.error) {
+      await openSeatHistory(seatId, seat.pool_id, assignment);
+      await recordAudit('resource_pool_seat', 'assigned', seatId, { poolId: seat.pool_id, ...assignment });
+    }
+    return seatResult;
   }
 }
 
@@ -402,7 +617,7 @@ export async function unassignSeat(seatId: string) {
   // First, get the current seat assignment to find the subscription
   const { data: seat, error: seatError } = await supabase
     .from('resource_pool_seats')
-    .select('assigned_subscription_id')
+    .select('pool_id, assigned_subscription_id')
     .eq('id', seatId)
     .single();
 
@@ -443,26 +658,51 @@ export async function unassignSeat(seatId: string) {
     if (seatResult.error) return { data: null, error: seatResult.error };
     if (subResult.error) return { data: null, error: subResult.error };
     
+    await closeSeatHistory(seatId);
+    await recordAudit('resource_pool_seat', 'unassigned', seatId, { subscriptionId: seat.assigned_subscription_id });
+    await offerFreeSeatsToWaitlist(seat.pool_id);
     return seatResult;
   } else {
-    return await seatUpdate;
+    const seatResult = await seatUpdate;
+    if (!seatResult.error) {
+      await closeSeatHistory(seatId);
+      await recordAudit('resource_pool_seat', 'unassigned', seatId);
+      await offerFreeSeatsToWaitlist(seat.pool_id);
+    }
+    return seatResult;
   }
 }
 
 // RPC functions
 export async function assignNextFreeSeat(poolId: string, assignment: SeatAssignment) {
-  return supabase.rpc('assign_next_free_seat', {
+  const result = await supabase.rpc('assign_next_free_seat', {
     p_pool_id: poolId,
     p_email: assignment.email || null,
     p_client_id: assignment.clientId || null,
     p_subscription_id: assignment.subscriptionId || null,
   });
+  if (!result.error && result.data) {
+    await recordAudit('resource_pool_seat', 'assigned', result.data, { poolId, ...assignment });
+  }
+  return result;
 }
 
 export async function unassignSeatRPC(seatId: string) {
-  return supabase.rpc('unassign_seat', {
+  const result = await supabase.rpc('unassign_seat', {
     p_seat_id: seatId,
   });
+  if (!result.error) {
+    await recordAudit('resource_pool_seat', 'unassigned', seatId);
+    const { data: seat } = await supabase
+      .from('resource_pool_seats')
+      .select('pool_id')
+      .eq('id', seatId)
+      .single();
+    if (seat) {
+      await offerFreeSeatsToWaitlist(seat.pool_id);
+    }
+  }
+  return result;
 }
 
 export async function getPoolStats(poolId: string) {
@@ -480,7 +720,7 @@ export async function getAvailablePoolsForService(serviceProvider: string) {
   console.log('Querying pools for provider:', serviceProvider);
   const result = await supabase
     .from('resource_pools')
-    .select('*')
+    .select(POOL_COLUMNS)
     .eq('provider', serviceProvider)
     .order('created_at', { ascending: false }); // Show newest pools first
   
@@ -753,6 +993,9 @@ export async function linkSubscriptionToPool(subscriptionId: string, poolId: str
     if (shouldMarkOverdue) {
       console.log(`Subscription ${subscriptionId} linked to dead pool ${poolId}, marked as overdue`);
     }
+
+    await openSeatHistory(seatId, poolId, { ...assignment, subscriptionId });
+    await recordAudit('subscription', 'linked_to_pool', subscriptionId, { poolId, seatId, markedOverdue: !!shouldMarkOverdue });
     
     // Recalculate renewal date with pool awareness
     try {
@@ -789,6 +1032,7 @@ export async function linkSubscriptionToPool(subscriptionId: string, poolId: str
 
     // Recalculate renewal date with pool awareness
     if (!result.error) {
+      await recordAudit('subscription', 'linked_to_pool', subscriptionId, { poolId, seatId: seatData, markedOverdue: !!shouldMarkOverdue });
       try {
         await subscriptionService.recalculateRenewalDateForPool(subscriptionId);
       } catch (error) {
@@ -849,6 +1093,11 @@ export async function unlinkSubscriptionFromPool(subscriptionId: string) {
   if (result.error) {
     return result;
   }
+
+  await recordAudit('subscription', 'unlinked_from_pool', subscriptionId, {
+    poolId: subscription?.resource_pool_id,
+    seatId: subscription?.resource_pool_seat_id,
+  });
   
   // Recalculate renewal date after unlinking (will use standard strategy logic since no pool)
   try {
@@ -877,6 +1126,118 @@ export async function unlinkSubscriptionFromPool(subscriptionId: string) {
   return result;
 }
 
+// Move a linked subscription to another pool. The new seat is taken first and the
+// old one only released once that worked, so a full or unreachable target leaves
+// the subscription where it was.
+export async function moveSubscriptionToPool(subscriptionId: string, targetPoolId: string, assignment?: SeatAssignment) {
+  const { data: subscription, error: fetchError } = await supabase
+    .from('subscriptions')
+    .select('resource_pool_seat_id, resource_pool_id')
+    .eq('id', subscriptionId)
+    .single();
+
+  if (fetchError) {
+    return { data: null, error: fetchError };
+  }
+
+  const linkResult = await linkSubscriptionToPool(subscriptionId, targetPoolId, undefined, assignment);
+  if (linkResult.error || !subscription?.resource_pool_seat_id) {
+    return linkResult;
+  }
+
+  // The subscription now points at its new seat; free the old one without touching the subscription
+  const oldSeatId = subscription.resource_pool_seat_id;
+  const { error: releaseError } = await supabase
+    .from('resource_pool_seats')
+    .update({
+      assigned_email: null,
+      assigned_client_id: null,
+      assigned_subscription_id: null,
+      unassigned_at: new Date().toISOString(),
+      seat_status: 'available',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', oldSeatId)
+    .eq('assigned_subscription_id', subscriptionId);
+
+  if (releaseError) {
+    console.error('Error releasing previous seat after move:', releaseError);
+    return { data: null, error: releaseError };
+  }
+
+  await closeSeatHistory(oldSeatId);
+  await recordAudit('resource_pool_seat', 'unassigned', oldSeatId, { subscriptionId, movedToPoolId: targetPoolId });
+  if (subscription.resource_pool_id) {
+    await offerFreeSeatsToWaitlist(subscription.resource_pool_id);
+  }
+
+  return linkResult;
+}
+
+// Pools of the same provider that can take seats from a dying pool, latest end date first
+export async function getMigrationTargets(sourcePool: ResourcePool): Promise<ResourcePool[]> {
+  const { data, error } = await supabase
+    .from('resource_pools')
+    .select(POOL_COLUMNS)
+    .eq('provider', sourcePool.provider)
+    .eq('is_alive', true)
+    .eq('status', 'active')
+    .neq('id', sourcePool.id)
+    .gt('end_at', new Date().toISOString())
+    .order('end_at', { ascending: false });
+  if (error) throw error;
+
+  return (data || []).filter(pool => pool.used_seats < pool.max_seats);
+}
+
+// Move every planned seat to its target pool. Seats are moved one by one so a
+// failure only affects that seat; failures are returned for the operator to fix by hand.
+export async function migratePoolSeats(sourcePoolId: string, moves: SeatMigration[]): Promise<PoolMigrationResult> {
+  const result: PoolMigrationResult = { migrated: 0, failures: [] };
+
+  for (const move of moves) {
+    try {
+      const assignment = {
+        email: move.email || undefined,
+        clientId: move.clientId || undefined,
+        subscriptionId: move.subscriptionId || undefined,
+      };
+
+      // The target seat is taken before the source seat is freed, so a failed move keeps its seat
+      if (move.subscriptionId) {
+        const { error: moveError } = await moveSubscriptionToPool(move.subscriptionId, move.targetPoolId, assignment);
+        if (moveError) throw moveError;
+
+        await subscriptionService.recordPoolMigration(move.subscriptionId, sourcePoolId, move.targetPoolId);
+      } else {
+        // Seat handed out without a subscription (e.g. a family member)
+        const { error: assignError } = await assignNextFreeSeat(move.targetPoolId, assignment);
+        if (assignError) throw assignError;
+
+        const { error: unassignError } = await unassignSeat(move.seatId);
+        if (unassignError) throw unassignError;
+      }
+
+      result.migrated++;
+    } catch (error) {
+      console.error('Error migrating seat', move.seatId, error);
+      result.failures.push({
+        seatId: move.seatId,
+        subscriptionId: move.subscriptionId,
+        error: (error as Error).message || 'Unknown error',
+      });
+    }
+  }
+
+  await recordAudit('resource_pool', 'seats_migrated', sourcePoolId, {
+    targetPoolIds: [...new Set(moves.map(move => move.targetPoolId))],
+    migrated: result.migrated,
+    failed: result.failures.length,
+  });
+
+  return result;
+}
+
 // Get pool information for a subscription
 export async function getPoolForSubscription(subscriptionId: string): Promise<{ data: ResourcePool | null; error: any }> {
   const { data, error } = await supabase
@@ -888,7 +1249,7 @@ export async function getPoolForSubscription(subscriptionId: string): Promise<{
         provider,
         pool_type,
         login_email,
-        login_secret,
+        has_login_secret,
         notes,
         start_at,
         end_at,
@@ -931,7 +1292,7 @@ export async function searchPoolsBySeatEmail(searchTerm: string): Promise<{ data
 
 // Personal Accounts CRUD operations
 export async function listPersonalAccounts(filter?: PersonalAccountFilter) {
-  let query = supabase.from('personal_accounts').select('*');
+  let query = supabase.from('personal_accounts').select(PERSONAL_ACCOUNT_COLUMNS);
   
   if (filter?.provider) {
     query = query.eq('provider', filter.provider);
@@ -947,24 +1308,47 @@ export async function listPersonalAccounts(filter?: PersonalAccountFilter) {
 }
 
 export async function getPersonalAccount(id: string) {
-  return supabase.from('personal_accounts').select('*').eq('id', id).single();
+  return supabase.from('personal_accounts').select(PERSONAL_ACCOUNT_COLUMNS).eq('id', id).single();
+}
+
+// Encrypted login secret for a single personal account (decrypt with credentialVault.decryptSecret)
+export async function getPersonalAccountSecret(id: string): Promise<string | null> {
+  const { data, error } = await supabase.from('personal_accounts').select('login_secret').eq('id', id).single();
+  if (error) throw error;
+  return data?.login_secret ?? null;
 }
 
 export async function createPersonalAccount(data: CreatePersonalAccountData) {
-  return supabase.from('personal_accounts').insert(data).select('*').single();
+  const result = await supabase.from('personal_accounts').insert(data).select(PERSONAL_ACCOUNT_COLUMNS).single();
+  if (result.data) {
+    await recordAudit('personal_account', 'created', result.data.id, { provider: data.provider, login_email: data.login_email });
+  }
+  return result;
 }
 
 export async function updatePersonalAccount(id: string, data: UpdatePersonalAccountData) {
-  return supabase
+  const result = await supabase
     .from('personal_accounts')
     .update({ ...data, updated_at: new Date().toISOString() })
     .eq('id', id)
-    .select('*')
+    .select(PERSONAL_ACCOUNT_COLUMNS)
     .single();
+  if (!result.error) {
+    const { login_secret, ...loggedChanges } = data;
+    await recordAudit('personal_account', 'updated', id, {
+      ...loggedChanges,
+      ...(login_secret !== undefined ? { login_secret_changed: true } : {}),
+    });
+  }
+  return result;
 }
 
 export async function deletePersonalAccount(id: string) {
-  return supabase.from('personal_accounts').delete().eq('id', id);
+  const result = await supabase.from('personal_accounts').delete().eq('id', id);
+  if (!result.error) {
+    await recordAudit('personal_account', 'deleted', id);
+  }
+  return result;
 }
 
 export async function refreshPersonalAccountStatus() {
@@ -0,0 +1,98 @@
+import { supabase } from './supabase';
+import { recordAudit } from './auditLog';
+import type { Operator, OperatorRole } from '../types/operator';
+
+export const OPERATOR_ROLE_LABELS: Record<OperatorRole, string> = {
+  owner: 'Owner',
+  sales: 'Sales',
+  inventory: 'Inventory only',
+};
+
+export const OPERATOR_ROLE_DESCRIPTIONS: Record<OperatorRole, string> = {
+  owner: 'Full access, including cash flow, reports, operators and the activity log',
+  sales: 'Sales, subscriptions and clients; read-only services and inventory',
+  inventory: 'Pools and personal accounts; read-only subscriptions',
+};
+
+export type OperatorPermission =
+  | 'manage_operators'
+  | 'view_activity'
+  | 'manage_services'
+  | 'manage_sales'
+  | 'manage_inventory'
+  | 'manage_cash_flow'
+  | 'view_reports';
+
+// UI mirror of the RLS policies in 20260202000000_operator_roles.sql
+const ROLE_PERMISSIONS: Record<OperatorRole, OperatorPermission[]> = {
+  owner: ['manage_operators', 'view_activity', 'manage_services', 'manage_sales', 'manage_inventory', 'manage_cash_flow', 'view_reports'],
+  sales: ['manage_sales'],
+  inventory: ['manage_inventory'],
+};
+
+// Top-level routes each role may open (Settings is always available)
+const ROLE_PAGES: Record<OperatorRole, string[]> = {
+  owner: ['/', '/services', '/transactions', '/subscriptions', '/inventory', '/reports', '/cashflow', '/clients', '/settings'],
+  sales: ['/', '/services', '/transactions', '/subscriptions', '/clients', '/settings'],
+  inventory: ['/', '/subscriptions', '/inventory', '/settings'],
+};
+
+export const hasPermission = (role: OperatorRole | null | undefined, permission: OperatorPermission): boolean => {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+};
+
+export const canAccessPage = (role: OperatorRole | null | undefined, pathname: string): boolean => {
+  if (!role) return false;
+  const section = '/' + (pathname.split('/')[1] || '');
+  return ROLE_PAGES[role].includes(section);
+};
+
+export const operatorsDb = {
+    // Resolves the signed-in operator; links an invited email on first sign-in
+    async getCurrent() {
+        const { data, error } = await supabase.rpc('get_my_operator');
+        if (error) throw error;
+        return (data as Operator | null) || null;
+    },
+
+    async getAll() {
+        const { data, error } = await supabase
+            .from('operators')
+            .select('*')
+            .order('created_at', { ascending: true });
+        if (error) throw error;
+        return data as Operator[];
+    },
+
+    async invite(email: string, role: OperatorRole, displayName?: string) {
+        const { data, error } = await supabase
+            .from('operators')
+            .insert({ email: email.trim().toLowerCase(), role, display_name: displayName || null })
+            .select()
+            .single();
+        if (error) throw error;
+        await recordAudit('operator', 'invited', data.id, { email: data.email, role });
+        return data as Operator;
+    },
+
+    async updateRole(id: string, role: OperatorRole) {
+        const { data, error } = await supabase
+            .from('operators')
+            .update({ role, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select()
+            .single();
+        if (error) throw error;
+        await recordAudit('operator', 'role_changed', id, { email: data.email, role });
+        return data as Operator;
+    },
+
+    async remove(id: string) {
+        const { error } = await supabase
+            .from('operators')
+            .delete()
+            .eq('id', id);
+        if (error) throw error;
+        await recordAudit('operator', 'removed', id);
+    }
+};
@@ -0,0 +1,103 @@
+import { supabase, Transaction } from './supabase';
+import type { PaymentFormData } from '../types/receivable';
+import type { Order, OrderFormData } from '../types/order';
+
+// Split the order discount over the lines in proportion to their price, in cents;
+// the last line takes the rounding remainder so the shares add up to the discount
+export const allocateDiscount = (prices: number[], discount: number): number[] => {
+  const subtotal = prices.reduce((sum, price) => sum + price, 0);
+  if (discount <= 0 || subtotal <= 0) return prices.map(() => 0);
+
+  const total = Math.min(discount, subtotal);
+  const shares = prices.map(price => Math.round((price / subtotal) * total * 100) / 100);
+  const remainder = Math.round((total - shares.reduce((sum, share) => sum + share, 0)) * 100) / 100;
+  shares[shares.length - 1] = Math.max(0, shares[shares.length - 1] + remainder);
+  return shares;
+};
+
+export const ordersDb = {
+  // Creates the order and one transaction per line, returned in line order
+  async create(order: OrderFormData) {
+    const { lines } = order;
+
+    // credit_used is drawn by the caller once the order exists
+    const { data: created, error } = await supabase
+      .from('orders')
+      .insert({ client_id: order.client_id, date: order.date, discount: order.discount, notes: order.notes })
+      .select()
+      .single();
+    if (error) throw error;
+
+    const shares = allocateDiscount(lines.map(line => line.selling_price), order.discount);
+    // Credit is spread over the discounted lines the same way, then what's been collected over the rest
+    const lineTotals = lines.map((line, index) => line.selling_price - shares[index]);
+    const creditShares = allocateDiscount(lineTotals, order.credit_used);
+    const paidShares = allocateDiscount(lineTotals.map((total, index) => total - creditShares[index]), order.amount_paid);
+    const now = new Date().toISOString();
+    const { data: transactions, error: linesError } = await supabase
+      .from('transactions')
+      .insert(lines.map((line, index) => ({
+        order_id: created.id,
+        service_id: line.service_id,
+        client_id: order.client_id,
+        supplier_id: line.supplier_id,
+        price_list_id: order.price_list_id,
+        date: order.date,
+        cost_at_sale: line.cost_at_sale,
+        selling_price: line.selling_price - shares[index],
+        discount_amount: shares[index],
+        credit_paid: creditShares[index],
+        payment_method: order.payment_method,
+        notes: order.notes,
+        created_at: now,
+        updated_at: now
+      })))
+      .select();
+
+    if (linesError) {
+      // Don't leave an empty order behind
+      await supabase.from('orders').delete().eq('id', created.id);
+      throw linesError;
+    }
+
+    // Each line's share is a payment on the order date; the database totals them into amount_paid.
+    // The shares are one payment, so they share a group and the method's fixed fee is charged once.
+    const paymentGroup = crypto.randomUUID();
+    const payments: PaymentFormData[] = (transactions as Transaction[])
+      .map((transaction, index) => ({
+        transaction_id: transaction.id,
+        amount: paidShares[index],
+        payment_method: order.payment_method,
+        date: order.date,
+        payment_group: paymentGroup
+      }))
+      .filter(payment => payment.amount > 0);
+    if (payments.length > 0) {
+      const { error: paymentsError } = await supabase.from('transaction_payments').insert(payments);
+      if (paymentsError) {
+        await supabase.from('orders').delete().eq('id', created.id);
+        throw paymentsError;
+      }
+    }
+
+    return { order: created as Order, transactions: transactions as Transaction[] };
+  },
+
+  // The order couldn't be drawn from credit, so its lines are owed instead
+  async releaseCredit(orderId: string) {
+    const { error } = await supabase
+      .from('transactions')
+      .update({ credit_paid: 0, updated_at: new Date().toISOString() })
+      .eq('order_id', orderId);
+    if (error) throw error;
+  },
+
+  // Lines and the credit the order drew go with it
+  async remove(id: string) {
+    const { error } = await supabase
+      .from('orders')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,51 @@
+import { supabase } from './supabase';
+import type { PaymentMethod, PaymentMethodFormData } from '../types/paymentMethod';
+
+// Same rule as the database trigger, for previews before a sale is saved
+export const computePaymentFee = (method: Pick<PaymentMethod, 'fee_fixed' | 'fee_percent'> | null | undefined, amount: number) => {
+  if (!method || amount <= 0) return 0;
+  const fee = Number(method.fee_fixed) + amount * (Number(method.fee_percent) / 100);
+  return Math.min(amount, Math.round(fee * 100) / 100);
+};
+
+export const paymentMethodsDb = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('payment_methods')
+      .select('*')
+      .order('name');
+    if (error) throw error;
+    return data as PaymentMethod[];
+  },
+
+  async create(method: PaymentMethodFormData) {
+    const { data, error } = await supabase
+      .from('payment_methods')
+      .insert(method)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PaymentMethod;
+  },
+
+  // Sales store the key, so it never changes
+  async update(id: string, updates: Omit<PaymentMethodFormData, 'key'>) {
+    const { data, error } = await supabase
+      .from('payment_methods')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PaymentMethod;
+  },
+
+  // Sales keep their fee and lose the method
+  async remove(id: string) {
+    const { error } = await supabase
+      .from('payment_methods')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
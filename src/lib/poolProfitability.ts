@@ -0,0 +1,184 @@
+import { supabase } from './supabase';
+import type { ResourcePool } from '../types/inventory';
+
+export interface PoolProfitability {
+  poolId: string;
+  // All amounts in USD, the currency transactions are stored in
+  cost: number | null;
+  revenue: number;
+  margin: number | null;
+  // Subscriptions that ever held a seat in the pool
+  soldSeats: number;
+  revenuePerSeat: number;
+  marginPerSeat: number | null;
+  // Seats that must sell at the current average revenue to cover the purchase cost
+  breakEvenSeats: number | null;
+}
+
+// Convert a pool's purchase cost to USD so it compares with sale amounts
+export const getPoolCostInUSD = (pool: Pick<ResourcePool, 'purchase_cost' | 'purchase_currency'>, exchangeRate: number): number | null => {
+  if (pool.purchase_cost === null || pool.purchase_cost === undefined) return null;
+  return pool.purchase_currency === 'TND' ? pool.purchase_cost / exchangeRate : pool.purchase_cost;
+};
+
+interface PoolSubscriptionRow {
+  id: string;
+  transaction_id: string | null;
+  services: { selling_price: number } | null;
+}
+
+interface PoolStay {
+  poolId: string;
+  // Day the subscription took its seat in the pool ('' when it predates seat history)
+  from: string;
+}
+
+// Pool a subscription sat in on a given day: the last seat taken by then, or its
+// first seat for a sale made before the seat was handed out
+const getPoolOnDate = (stays: PoolStay[], date: string): string => {
+  const current = stays.filter(stay => stay.from <= date);
+  return (current.length > 0 ? current[current.length - 1] : stays[0]).poolId;
+};
+
+/**
+ * Revenue of each pool: every sale that references a subscription which held
+ * one of its seats (the original sale and each charged renewal). Each sale
+ * counts for the pool the subscription sat in on the sale date, per its seat
+ * history, so a client moved between pools is not counted twice.
+ * Subscriptions without any recorded sale count their service's selling price
+ * for the first pool they sat in.
+ */
+export async function getPoolsProfitability(pools: ResourcePool[], exchangeRate: number): Promise<Map<string, PoolProfitability>> {
+  const result = new Map<string, PoolProfitability>();
+  if (pools.length === 0) return result;
+  const poolIds = pools.map(pool => pool.id);
+
+  const [historyResult, linkedResult] = await Promise.all([
+    supabase
+      .from('seat_assignments_history')
+      .select('pool_id, subscription_id')
+      .in('pool_id', poolIds)
+      .not('subscription_id', 'is', null),
+    supabase
+      .from('subscriptions')
+      .select('id, resource_pool_id')
+      .in('resource_pool_id', poolIds)
+  ]);
+  if (historyResult.error) throw historyResult.error;
+  if (linkedResult.error) throw linkedResult.error;
+
+  const subscriptionIdsByPool = new Map<string, Set<string>>();
+  const addSubscription = (poolId: string, subscriptionId: string) => {
+    if (!subscriptionIdsByPool.has(poolId)) subscriptionIdsByPool.set(poolId, new Set());
+    subscriptionIdsByPool.get(poolId)!.add(subscriptionId);
+  };
+  (historyResult.data || []).forEach(row => addSubscription(row.pool_id, row.subscription_id as string));
+  (linkedResult.data || []).forEach(row => addSubscription(row.resource_pool_id as string, row.id));
+
+  const subscriptionIds = [...new Set([...subscriptionIdsByPool.values()].flatMap(ids => [...ids]))];
+
+  const subscriptions = new Map<string, PoolSubscriptionRow>();
+  const saleIdsBySubscription = new Map<string, Set<string>>();
+  const transactions = new Map<string, { date: string; selling_price: number }>();
+  const staysBySubscription = new Map<string, PoolStay[]>();
+
+  if (subscriptionIds.length > 0) {
+    const [subscriptionsResult, eventsResult, staysResult] = await Promise.all([
+      supabase
+        .from('subscriptions')
+        .select('id, transaction_id, services(selling_price)')
+        .in('id', subscriptionIds),
+      supabase
+        .from('subscription_events')
+        .select('subscription_id, type, meta')
+        .in('subscription_id', subscriptionIds)
+        .in('type', ['created', 'renewed']),
+      // Every seat these subscriptions held, including pools not being reported on
+      supabase
+        .from('seat_assignments_history')
+        .select('pool_id, subscription_id, assigned_at')
+        .in('subscription_id', subscriptionIds)
+        .order('assigned_at', { ascending: true })
+    ]);
+    if (subscriptionsResult.error) throw subscriptionsResult.error;
+    if (eventsResult.error) throw eventsResult.error;
+    if (staysResult.error) throw staysResult.error;
+
+    (staysResult.data || []).forEach(row => {
+      const subscriptionId = row.subscription_id as string;
+      if (!staysBySubscription.has(subscriptionId)) staysBySubscription.set(subscriptionId, []);
+      staysBySubscription.get(subscriptionId)!.push({ poolId: row.pool_id, from: row.assigned_at.split('T')[0] });
+    });
+    // Linked before seat history was recorded
+    (linkedResult.data || []).forEach(row => {
+      if (!staysBySubscription.has(row.id)) {
+        staysBySubscription.set(row.id, [{ poolId: row.resource_pool_id as string, from: '' }]);
+      }
+    });
+
+    const addSale = (subscriptionId: string, saleId: string | null | undefined) => {
+      if (!saleId) return;
+      if (!saleIdsBySubscription.has(subscriptionId)) saleIdsBySubscription.set(subscriptionId, new Set());
+      saleIdsBySubscription.get(subscriptionId)!.add(saleId);
+    };
+    ((subscriptionsResult.data || []) as unknown as PoolSubscriptionRow[]).forEach(sub => {
+      subscriptions.set(sub.id, sub);
+      addSale(sub.id, sub.transaction_id);
+    });
+    // The original sale and each charged renewal are referenced from the subscription's events
+    (eventsResult.data || []).forEach(event => {
+      addSale(event.subscription_id, event.type === 'created' ? event.meta?.saleId : event.meta?.transactionId);
+    });
+
+    const saleIds = [...new Set([...saleIdsBySubscription.values()].flatMap(ids => [...ids]))];
+    if (saleIds.length > 0) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, date, selling_price')
+        .in('id', saleIds);
+      if (error) throw error;
+      (data || []).forEach(tx => transactions.set(tx.id, { date: tx.date, selling_price: Number(tx.selling_price) || 0 }));
+    }
+  }
+
+  const revenueByPool = new Map<string, number>();
+  const addRevenue = (poolId: string, amount: number) => {
+    revenueByPool.set(poolId, (revenueByPool.get(poolId) || 0) + amount);
+  };
+  for (const subscriptionId of subscriptionIds) {
+    const stays = staysBySubscription.get(subscriptionId) || [];
+    if (stays.length === 0) continue;
+
+    const sales = [...(saleIdsBySubscription.get(subscriptionId) || [])]
+      .map(id => transactions.get(id))
+      .filter((tx): tx is { date: string; selling_price: number } => !!tx);
+    if (sales.length > 0) {
+      sales.forEach(tx => addRevenue(getPoolOnDate(stays, tx.date), tx.selling_price));
+    } else {
+      addRevenue(stays[0].poolId, Number(subscriptions.get(subscriptionId)?.services?.selling_price) || 0);
+    }
+  }
+
+  for (const pool of pools) {
+    const poolSubscriptionIds = [...(subscriptionIdsByPool.get(pool.id) || [])];
+    const revenue = revenueByPool.get(pool.id) || 0;
+
+    const cost = getPoolCostInUSD(pool, exchangeRate);
+    const soldSeats = poolSubscriptionIds.length;
+    const revenuePerSeat = soldSeats > 0 ? revenue / soldSeats : 0;
+    const costPerSeat = cost !== null ? cost / pool.max_seats : null;
+
+    result.set(pool.id, {
+      poolId: pool.id,
+      cost,
+      revenue,
+      margin: cost !== null ? revenue - cost : null,
+      soldSeats,
+      revenuePerSeat,
+      marginPerSeat: costPerSeat !== null && soldSeats > 0 ? revenuePerSeat - costPerSeat : null,
+      breakEvenSeats: cost !== null && revenuePerSeat > 0 ? Math.ceil(cost / revenuePerSeat) : null,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,84 @@
+import { supabase, Service } from './supabase';
+import type { PriceList, PriceListFormData, PriceListItem, PriceListItemFormData } from '../types/priceList';
+
+// USD price of a service on a list: its override, or the retail price less the list discount
+export const resolvePrice = (service: Pick<Service, 'id' | 'selling_price'>, priceList: PriceList | null | undefined) => {
+  if (!priceList) return service.selling_price;
+
+  const item = (priceList.price_list_items || []).find(i => i.service_id === service.id);
+  if (item) return Number(item.selling_price);
+
+  return Math.round(service.selling_price * (1 - (Number(priceList.discount_percent) || 0) / 100) * 100) / 100;
+};
+
+export const priceListsDb = {
+  // With their overrides
+  async getAll() {
+    const { data, error } = await supabase
+      .from('price_lists')
+      .select('*, price_list_items (*)')
+      .order('name');
+    if (error) throw error;
+    return data as PriceList[];
+  },
+
+  // The list a client's sales are priced from, or null for retail
+  async getForClient(clientId: string) {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('price_list:price_lists (*, price_list_items (*))')
+      .eq('id', clientId)
+      .single();
+    if (error) throw error;
+    return (data.price_list as unknown as PriceList | null) || null;
+  },
+
+  async create(priceList: PriceListFormData) {
+    const { data, error } = await supabase
+      .from('price_lists')
+      .insert(priceList)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PriceList;
+  },
+
+  async update(id: string, updates: PriceListFormData) {
+    const { data, error } = await supabase
+      .from('price_lists')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PriceList;
+  },
+
+  // Clients on the list go back to retail; past sales keep their price and lose the link
+  async remove(id: string) {
+    const { error } = await supabase
+      .from('price_lists')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  // One override per list and service; saving again replaces it
+  async saveItem(item: PriceListItemFormData) {
+    const { data, error } = await supabase
+      .from('price_list_items')
+      .upsert({ ...item, updated_at: new Date().toISOString() }, { onConflict: 'price_list_id,service_id' })
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PriceListItem;
+  },
+
+  async removeItem(id: string) {
+    const { error } = await supabase
+      .from('price_list_items')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
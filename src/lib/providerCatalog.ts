@@ -0,0 +1,64 @@
+import { supabase, ServiceType } from './supabase';
+import type { Provider, ProviderFormData } from '../types/provider';
+
+export const providersDb = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('providers')
+      .select('*')
+      .order('display_name');
+    if (error) throw error;
+    return data as Provider[];
+  },
+
+  async create(provider: ProviderFormData) {
+    const { data, error } = await supabase
+      .from('providers')
+      .insert(provider)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Provider;
+  },
+
+  // The key is referenced by pools, accounts and the waitlist, so it never changes
+  async update(id: string, updates: Omit<ProviderFormData, 'key'>) {
+    const { data, error } = await supabase
+      .from('providers')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Provider;
+  },
+
+  async remove(id: string) {
+    const { error } = await supabase
+      .from('providers')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  /**
+   * Providers linked to at least one service of the given type. While no
+   * service has a type set yet, every provider is returned.
+   */
+  async getByServiceType(serviceType: ServiceType) {
+    const { data, error } = await supabase
+      .from('services')
+      .select('service_type, provider_id');
+    if (error) throw error;
+
+    const all = await providersDb.getAll();
+    if (!(data || []).some(service => service.service_type !== null)) return all;
+
+    const providerIds = new Set(
+      (data || [])
+        .filter(service => service.service_type === serviceType && service.provider_id)
+        .map(service => service.provider_id as string)
+    );
+    return all.filter(provider => providerIds.has(provider.id));
+  }
+};
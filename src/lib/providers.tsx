@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { supabase } from './supabase';
+import { providersDb } from './providerCatalog';
+import type { Provider } from '../types/provider';
+import { ProvidersContext, ProvidersContextType } from './useProviders';
+
+export function ProvidersProvider({ children }: { children: ReactNode }) {
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [loading, setLoading] = useState(true);
+  // provider id -> logo of a linked service, the fallback when the catalog has none
+  const [serviceLogos, setServiceLogos] = useState<Map<string, string>>(new Map());
+
+  const refreshProviders = useCallback(async () => {
+    try {
+      const [catalog, { data: services, error }] = await Promise.all([
+        providersDb.getAll(),
+        supabase.from('services').select('provider_id, logo_url').not('provider_id', 'is', null).not('logo_url', 'is', null),
+      ]);
+      if (error) throw error;
+
+      const logos = new Map<string, string>();
+      (services || []).forEach(service => {
+        if (!logos.has(service.provider_id)) logos.set(service.provider_id, service.logo_url);
+      });
+      setProviders(catalog);
+      setServiceLogos(logos);
+    } catch (error) {
+      console.error('Error loading providers:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshProviders();
+  }, [refreshProviders]);
+
+  const value = useMemo<ProvidersContextType>(() => {
+    const byKey = new Map(providers.map(provider => [provider.key, provider]));
+    const byId = new Map(providers.map(provider => [provider.id, provider]));
+
+    return {
+      providers,
+      loading,
+      refreshProviders,
+      getProvider: (key) => byKey.get(key),
+      getProviderById: (id) => (id ? byId.get(id) : undefined),
+      getProviderName: (key) => byKey.get(key)?.display_name
+        || key.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+      getProviderIcon: (key) => byKey.get(key)?.icon || '📦',
+      getProviderLogoUrl: (key) => {
+        const provider = byKey.get(key);
+        if (!provider) return null;
+        return provider.logo_url || serviceLogos.get(provider.id) || null;
+      },
+    };
+  }, [providers, serviceLogos, loading, refreshProviders]);
+
+  return (
+    <ProvidersContext.Provider value={value}>
+      {children}
+    </ProvidersContext.Provider>
+  );
+}
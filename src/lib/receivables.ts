@@ -0,0 +1,160 @@
+import { supabase, Transaction } from './supabase';
+import { recordAudit } from './auditLog';
+import { getTodayInTunisia } from './dateUtils';
+import type { ClientReceivable, PaymentFormData, ReceivableAgingBucket, TransactionPayment } from '../types/receivable';
+
+// Rows selected before amount_paid existed count as collected
+export const getAmountCollected = (transaction: Pick<Transaction, 'selling_price' | 'amount_paid'>) =>
+  Number(transaction.amount_paid ?? transaction.selling_price);
+
+// What actually landed: collected less the payment method's fee
+export const getNetReceived = (transaction: Pick<Transaction, 'selling_price' | 'amount_paid' | 'payment_fee'>) =>
+  getAmountCollected(transaction) - Number(transaction.payment_fee || 0);
+
+// Credit drawn and refunds of what was owed settle a sale without any money coming in
+export const getOutstanding = (transaction: Pick<Transaction, 'selling_price' | 'amount_paid' | 'credit_paid' | 'amount_canceled'>) =>
+  Math.max(0, Number(transaction.selling_price) - getAmountCollected(transaction)
+    - Number(transaction.credit_paid || 0) - Number(transaction.amount_canceled || 0));
+
+// What landed from a set of payments, after the methods' fees
+export const sumNetPayments = (payments: Pick<TransactionPayment, 'amount' | 'payment_fee'>[]) =>
+  payments.reduce((sum, payment) => sum + Number(payment.amount) - Number(payment.payment_fee || 0), 0);
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export const getAgingBucket = (saleDate: string, today = getTodayInTunisia()): ReceivableAgingBucket => {
+  const days = Math.floor((new Date(today).getTime() - new Date(saleDate).getTime()) / (1000 * 60 * 60 * 24));
+  if (days <= 7) return 'current';
+  if (days <= 30) return 'late';
+  return 'overdue';
+};
+
+// Open sales grouped by client, biggest balance first
+export const summarizeReceivables = (transactions: Transaction[]): ClientReceivable[] => {
+  const today = getTodayInTunisia();
+  const byClient = new Map<string, ClientReceivable>();
+
+  transactions.forEach(t => {
+    const outstanding = getOutstanding(t);
+    if (!t.client_id || outstanding <= 0) return;
+
+    const existing = byClient.get(t.client_id) || {
+      client_id: t.client_id,
+      name: t.client?.name || 'Unknown client',
+      outstanding: 0,
+      sales: 0,
+      oldest_date: t.date,
+      buckets: { current: 0, late: 0, overdue: 0 }
+    };
+    existing.outstanding += outstanding;
+    existing.sales += 1;
+    existing.buckets[getAgingBucket(t.date, today)] += outstanding;
+    if (t.date < existing.oldest_date) existing.oldest_date = t.date;
+    byClient.set(t.client_id, existing);
+  });
+
+  return Array.from(byClient.values()).sort((a, b) => b.outstanding - a.outstanding);
+};
+
+export const receivablesDb = {
+  // Unpaid and partly paid sales, oldest first
+  async getOpen() {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('*, services (product_service, duration), client:clients (id, name)')
+      .neq('payment_status', 'paid')
+      .order('date');
+    if (error) throw error;
+    return data as Transaction[];
+  },
+
+  // Payments dated within the range, by when the money came in
+  async getPaymentsBetween(from: string, to: string) {
+    const { data, error } = await supabase
+      .from('transaction_payments')
+      .select('*')
+      .gte('date', from)
+      .lte('date', to)
+      .order('date', { ascending: false });
+    if (error) throw error;
+    return data as TransactionPayment[];
+  },
+
+  // Oldest first
+  async getPayments(transactionId: string) {
+    const { data, error } = await supabase
+      .from('transaction_payments')
+      .select('*')
+      .eq('transaction_id', transactionId)
+      .order('date')
+      .order('created_at');
+    if (error) throw error;
+    return data as TransactionPayment[];
+  },
+
+  // Adds to what's been collected on a sale, up to what's still owed; the
+  // database keeps the sale's amount_paid equal to its payments
+  async recordPayment(transaction: Transaction, amount: number, paymentMethod: string | null, date = getTodayInTunisia()) {
+    const collected = roundCents(Math.min(amount, getOutstanding(transaction)));
+    if (collected <= 0) return null;
+
+    const payment: PaymentFormData = { transaction_id: transaction.id, amount: collected, payment_method: paymentMethod, date };
+    const { data, error } = await supabase
+      .from('transaction_payments')
+      .insert(payment)
+      .select()
+      .single();
+    if (error) throw error;
+    await recordAudit('transaction', 'payment', transaction.id, { amount: collected, payment_method: paymentMethod, date });
+    return data as TransactionPayment;
+  },
+
+  // Corrects what's been collected on a sale when it's edited: the latest
+  // payments are taken back first, and anything more is a new payment today
+  // with the edited method. Earlier payments keep their method and fee.
+  async setAmountCollected(transaction: Pick<Transaction, 'id'>, amount: number, paymentMethod: string | null) {
+    const payments = await this.getPayments(transaction.id);
+    let total = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+    const removed: TransactionPayment[] = [];
+    while (payments.length > 0 && roundCents(total - Number(payments[payments.length - 1].amount)) >= roundCents(amount)) {
+      const payment = payments.pop()!;
+      removed.push(payment);
+      total -= Number(payment.amount);
+    }
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from('transaction_payments')
+        .delete()
+        .in('id', removed.map(payment => payment.id));
+      if (error) throw error;
+    }
+
+    // Only part of the latest payment is taken back
+    const excess = roundCents(total - amount);
+    const reduced = excess > 0 ? payments[payments.length - 1] : null;
+    if (reduced) {
+      const { error } = await supabase
+        .from('transaction_payments')
+        .update({ amount: roundCents(Number(reduced.amount) - excess) })
+        .eq('id', reduced.id);
+      if (error) throw error;
+    }
+
+    const missing = roundCents(amount - total);
+    if (missing > 0) {
+      const payment: PaymentFormData = {
+        transaction_id: transaction.id,
+        amount: missing,
+        payment_method: paymentMethod,
+        date: getTodayInTunisia()
+      };
+      const { error } = await supabase.from('transaction_payments').insert(payment);
+      if (error) throw error;
+    }
+
+    if (removed.length > 0 || reduced || missing > 0) {
+      await recordAudit('transaction', 'payments_corrected', transaction.id, { amount_paid: amount, payment_method: paymentMethod });
+    }
+  }
+};
@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+import { recordAudit } from './auditLog';
+import type { RefundFormData, TransactionRefund } from '../types/refund';
+
+export const sumRefunds = (refunds: Pick<TransactionRefund, 'amount'>[]) =>
+  refunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+
+// Only what went back to the client; the part of a refund they still owed just cancels the debt
+export const sumRefundsPaidOut = (refunds: Pick<TransactionRefund, 'amount' | 'paid_out'>[]) =>
+  refunds.reduce((sum, refund) => sum + Number(refund.paid_out ?? refund.amount), 0);
+
+export const refundsDb = {
+  // Refunds dated within the range, by when the money went back
+  async getBetween(from: string, to: string) {
+    const { data, error } = await supabase
+      .from('transaction_refunds')
+      .select('*, transactions (date, selling_price, services (product_service))')
+      .gte('date', from)
+      .lte('date', to)
+      .order('date', { ascending: false });
+    if (error) throw error;
+    return data as TransactionRefund[];
+  },
+
+  async getForClient(clientId: string) {
+    const { data, error } = await supabase
+      .from('transaction_refunds')
+      .select('*, transactions (date, selling_price, services (product_service))')
+      .eq('client_id', clientId)
+      .order('date', { ascending: false });
+    if (error) throw error;
+    return data as TransactionRefund[];
+  },
+
+  async create(refund: RefundFormData) {
+    const { data, error } = await supabase
+      .from('transaction_refunds')
+      .insert(refund)
+      .select()
+      .single();
+    if (error) throw error;
+    await recordAudit('transaction', refund.kind, refund.transaction_id, { amount: refund.amount, reason: refund.reason });
+    return data as TransactionRefund;
+  },
+
+  // Removing a store credit takes it back off the client's balance
+  async remove(id: string) {
+    const { error } = await supabase
+      .from('transaction_refunds')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,188 @@
+import { supabase } from './supabase';
+import { subscriptionService } from './subscriptionService';
+import { formatDate } from './subscriptionUtils';
+import { getNowInTunisia } from './dateUtils';
+import { resolvePrice } from './priceLists';
+import { Subscription } from '../types/subscription';
+import type { ReminderBucket, ReminderTemplate, ClientReminder } from '../types/reminder';
+import type { PriceList } from '../types/priceList';
+
+export const DEFAULT_REMINDER_TEMPLATE =
+  'Hi {client_name}, your {service} subscription renews on {renewal_date}. ' +
+  'The renewal price is {price_tnd} TND (${price_usd}). Let us know if you want to keep it active!';
+
+export const REMINDER_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: '{client_name}', description: 'Client name' },
+  { key: '{service}', description: 'Service name(s)' },
+  { key: '{renewal_date}', description: 'Next renewal date(s)' },
+  { key: '{price_usd}', description: 'Renewal price in USD' },
+  { key: '{price_tnd}', description: 'Renewal price in TND' },
+  { key: '{days_overdue}', description: 'Days past the renewal date (0 if not overdue)' },
+];
+
+export const REMINDER_BUCKET_LABELS: Record<ReminderBucket, string> = {
+  dueToday: 'Due Today',
+  dueIn3Days: 'Due in 3 Days',
+  overdue: 'Overdue',
+};
+
+export const reminderTemplatesDb = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('reminder_templates')
+      .select('*');
+    if (error) throw error;
+    return data as ReminderTemplate[];
+  },
+
+  // serviceId = null saves the global default template
+  async save(serviceId: string | null, body: string) {
+    let query = supabase.from('reminder_templates').select('id');
+    query = serviceId ? query.eq('service_id', serviceId) : query.is('service_id', null);
+    const { data: existing, error: fetchError } = await query.maybeSingle();
+    if (fetchError) throw fetchError;
+
+    const { data, error } = existing
+      ? await supabase
+        .from('reminder_templates')
+        .update({ body, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select()
+        .single()
+      : await supabase
+        .from('reminder_templates')
+        .insert({ service_id: serviceId, body })
+        .select()
+        .single();
+    if (error) throw error;
+    return data as ReminderTemplate;
+  },
+
+  async remove(id: string) {
+    const { error } = await supabase
+      .from('reminder_templates')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
+
+export const renderReminderTemplate = (body: string, values: Record<string, string>): string => {
+  // Unknown placeholders are left untouched so typos stay visible
+  return body.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? values[key] : match));
+};
+
+interface BuildRemindersInput {
+  subscriptions: Subscription[];
+  // price_list is the list the client's renewals are charged from, null for retail
+  clients: Map<string, { name: string; price_list?: PriceList | null }>;
+  services: Map<string, { id: string; product_service: string; selling_price: number }>;
+  templates: ReminderTemplate[];
+  exchangeRate: number;
+}
+
+/**
+ * Build one reminder per client. Clients with several due subscriptions get a
+ * single message listing every service, using the service template when they
+ * all share one and the global default otherwise.
+ */
+export const buildClientReminders = ({
+  subscriptions,
+  clients,
+  services,
+  templates,
+  exchangeRate
+}: BuildRemindersInput): ClientReminder[] => {
+  const now = getNowInTunisia();
+  const defaultTemplate = templates.find(t => t.service_id === null)?.body || DEFAULT_REMINDER_TEMPLATE;
+  const templateByService = new Map(
+    templates.filter(t => t.service_id !== null).map(t => [t.service_id as string, t.body])
+  );
+
+  const byClient = new Map<string, Subscription[]>();
+  subscriptions.forEach(sub => {
+    const list = byClient.get(sub.clientId) || [];
+    list.push(sub);
+    byClient.set(sub.clientId, list);
+  });
+
+  return [...byClient.entries()].map(([clientId, clientSubs]) => {
+    const client = clients.get(clientId);
+    const clientName = client?.name || 'there';
+    const serviceIds = [...new Set(clientSubs.map(sub => sub.serviceId))];
+    const body = serviceIds.length === 1
+      ? templateByService.get(serviceIds[0]) || defaultTemplate
+      : defaultTemplate;
+
+    // Quote what the renewals will be charged
+    const priceUsd = clientSubs.reduce((sum, sub) => {
+      const service = services.get(sub.serviceId);
+      return sum + (service ? resolvePrice(service, client?.price_list) : 0);
+    }, 0);
+    const daysOverdue = Math.max(0, ...clientSubs.map(sub => {
+      if (!sub.nextRenewalAt) return 0;
+      const diffMs = now.getTime() - new Date(sub.nextRenewalAt).getTime();
+      return Math.floor(diffMs / (1000 * 60 * 60 * 24));
+    }));
+
+    const message = renderReminderTemplate(body, {
+      client_name: clientName,
+      service: clientSubs.map(sub => services.get(sub.serviceId)?.product_service || 'Unknown Service').join(', '),
+      renewal_date: clientSubs
+        .map(sub => (sub.nextRenewalAt ? formatDate(sub.nextRenewalAt) : 'N/A'))
+        .join(', '),
+      price_usd: priceUsd.toFixed(2),
+      price_tnd: (priceUsd * exchangeRate).toFixed(2),
+      days_overdue: daysOverdue.toString(),
+    });
+
+    return {
+      clientId,
+      clientName,
+      subscriptionIds: clientSubs.map(sub => sub.id),
+      message
+    };
+  });
+};
+
+// Generate the reminders for every subscription in one of the getDueBuckets buckets
+export async function generateBucketReminders(bucket: ReminderBucket, exchangeRate: number): Promise<ClientReminder[]> {
+  const buckets = await subscriptionService.getDueBucketSubscriptions();
+  const subscriptions = buckets[bucket];
+  if (subscriptions.length === 0) return [];
+
+  const clientIds = [...new Set(subscriptions.map(sub => sub.clientId))];
+  const serviceIds = [...new Set(subscriptions.map(sub => sub.serviceId))];
+
+  const [clientResult, serviceResult, templates] = await Promise.all([
+    supabase.from('clients').select('id, name, price_list:price_lists (*, price_list_items (*))').in('id', clientIds),
+    supabase.from('services').select('id, product_service, selling_price').in('id', serviceIds),
+    reminderTemplatesDb.getAll()
+  ]);
+  if (clientResult.error) throw clientResult.error;
+  if (serviceResult.error) throw serviceResult.error;
+
+  return buildClientReminders({
+    subscriptions,
+    clients: new Map((clientResult.data || []).map(c => [
+      c.id,
+      { name: c.name, price_list: (c.price_list as unknown as PriceList | null) || null }
+    ])),
+    services: new Map((serviceResult.data || []).map(s => [s.id, s])),
+    templates,
+    exchangeRate
+  });
+}
+
+// Record a reminder_sent event on every subscription covered by the reminders
+export async function logRemindersSent(reminders: ClientReminder[], bucket: ReminderBucket): Promise<void> {
+  await Promise.all(reminders.flatMap(reminder =>
+    reminder.subscriptionIds.map(subscriptionId =>
+      subscriptionService.logReminderSent(subscriptionId, {
+        bucket,
+        clientId: reminder.clientId,
+        message: reminder.message
+      })
+    )
+  ));
+}
@@ -0,0 +1,51 @@
+import { supabase } from './supabase';
+import type { ServicePriceChange, ServicePrices } from '../types/priceHistory';
+
+// Margin in percent of the selling price; null when the service is given away
+export const getMarginPercent = ({ cost, selling_price }: ServicePrices): number | null =>
+  selling_price > 0 ? ((selling_price - cost) / selling_price) * 100 : null;
+
+export const servicePriceHistoryDb = {
+  // Oldest first, so the rows read as a timeline
+  async getForService(serviceId: string) {
+    const { data, error } = await supabase
+      .from('service_price_history')
+      .select('*')
+      .eq('service_id', serviceId)
+      .order('changed_at', { ascending: true });
+    if (error) throw error;
+    return data as ServicePriceChange[];
+  },
+
+  // Actual changes only; the starting-price rows have no old values
+  async getChangesSince(since: string) {
+    const { data, error } = await supabase
+      .from('service_price_history')
+      .select('*, services (product_service, duration)')
+      .gte('changed_at', since)
+      .not('old_cost', 'is', null)
+      .order('changed_at', { ascending: true });
+    if (error) throw error;
+    return data as ServicePriceChange[];
+  },
+
+  /**
+   * Record a price edit. Pass previous = null for a new service. Nothing is
+   * written when neither the cost nor the selling price changed.
+   */
+  async record(serviceId: string, previous: ServicePrices | null, next: ServicePrices, reason?: string) {
+    if (previous && previous.cost === next.cost && previous.selling_price === next.selling_price) return;
+
+    const { error } = await supabase
+      .from('service_price_history')
+      .insert({
+        service_id: serviceId,
+        old_cost: previous?.cost ?? null,
+        old_selling_price: previous?.selling_price ?? null,
+        new_cost: next.cost,
+        new_selling_price: next.selling_price,
+        reason: reason?.trim() || null,
+      });
+    if (error) throw error;
+  }
+};
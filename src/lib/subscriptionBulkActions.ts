@@ -0,0 +1,108 @@
+import { Subscription, RenewalPayment } from '../types/subscription';
+import { subscriptionService } from './subscriptionService';
+import { linkSubscriptionToPool, moveSubscriptionToPool } from './inventory';
+
+export type BulkSubscriptionAction =
+  | 'renew'
+  | 'archive'
+  | 'complete'
+  | 'markOverdue'
+  | 'setCustomRenewalDate'
+  | 'relinkPool';
+
+export interface BulkActionOptions {
+  customDate?: string; // YYYY-MM-DD, required for setCustomRenewalDate
+  poolId?: string;     // required for relinkPool
+  renewalPayment?: RenewalPayment; // for renew; without it charged renewals are left owed
+}
+
+export interface BulkActionResult {
+  subscriptionId: string;
+  success: boolean;
+  subscription?: Subscription;
+  error?: string;
+}
+
+export const BULK_ACTION_LABELS: Record<BulkSubscriptionAction, string> = {
+  renew: 'Renew',
+  archive: 'Archive',
+  complete: 'Complete',
+  markOverdue: 'Mark Overdue',
+  setCustomRenewalDate: 'Set Renewal Date',
+  relinkPool: 'Relink Pool'
+};
+
+async function relinkToPool(subscription: Subscription, poolId: string): Promise<Subscription> {
+  if (subscription.resourcePoolId === poolId) {
+    throw new Error('Already linked to this pool');
+  }
+
+  // A subscription that already has a seat keeps it until the new one is taken
+  const assignment = { clientId: subscription.clientId, subscriptionId: subscription.id };
+  const { error: linkError } = subscription.resourcePoolId
+    ? await moveSubscriptionToPool(subscription.id, poolId, assignment)
+    : await linkSubscriptionToPool(subscription.id, poolId, undefined, assignment);
+  if (linkError) {
+    throw new Error(`Failed to link pool: ${linkError.message || 'Unknown error'}`);
+  }
+
+  const updated = await subscriptionService.getSubscription(subscription.id);
+  if (!updated) {
+    throw new Error(`Subscription not found: ${subscription.id}`);
+  }
+  return updated;
+}
+
+async function applyAction(
+  subscription: Subscription,
+  action: BulkSubscriptionAction,
+  options: BulkActionOptions
+): Promise<Subscription> {
+  switch (action) {
+    case 'renew':
+      return subscriptionService.renewNow(subscription.id, options.renewalPayment);
+    case 'archive':
+      return subscriptionService.archive(subscription.id);
+    case 'complete':
+      return subscriptionService.complete(subscription.id);
+    case 'markOverdue':
+      return subscriptionService.markOverdue(subscription.id);
+    case 'setCustomRenewalDate':
+      if (!options.customDate) throw new Error('No renewal date provided');
+      return subscriptionService.setCustomRenewalDate(subscription.id, options.customDate);
+    case 'relinkPool':
+      if (!options.poolId) throw new Error('No pool selected');
+      return relinkToPool(subscription, options.poolId);
+  }
+}
+
+/**
+ * Apply one action to many subscriptions. Runs sequentially so seat
+ * assignment and sale recording never race, and never throws: each
+ * subscription gets its own result so partial failures can be reported.
+ */
+export async function runBulkSubscriptionAction(
+  subscriptions: Subscription[],
+  action: BulkSubscriptionAction,
+  options: BulkActionOptions = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkActionResult[]> {
+  const results: BulkActionResult[] = [];
+
+  for (const subscription of subscriptions) {
+    try {
+      const updated = await applyAction(subscription, action, options);
+      results.push({ subscriptionId: subscription.id, success: true, subscription: updated });
+    } catch (error) {
+      console.error(`Bulk ${action} failed for subscription ${subscription.id}:`, error);
+      results.push({
+        subscriptionId: subscription.id,
+        success: false,
+        error: (error as Error).message || 'Unknown error'
+      });
+    }
+    onProgress?.(results.length, subscriptions.length);
+  }
+
+  return results;
+}
@@ -1,12 +1,13 @@
-import { Subscription, SubscriptionEvent, RenewalStrategyKey, ServiceConfig } from '../types/subscription';
-import { STRATEGIES, onRenewWithPoolAwareness, computeNextRenewalWithPoolAwareness, computeNextRenewalWithoutCustomWithPoolAwareness } from './subscriptionStrategies';
+import { Subscription, SubscriptionEvent, RenewalStrategyKey, ServiceConfig, RenewalPayment } from '../types/subscription';
+import { STRATEGIES, onRenewWithPoolAwareness, computeNextRenewalWithPoolAwareness, computeNextRenewalWithoutCustomWithPoolAwareness, getPoolEndDate } from './subscriptionStrategies';
 import { supabase } from './supabase';
 import { SupabaseSubscriptionPersistenceAdapter, SubscriptionPersistenceAdapter } from './supabaseSubscriptionAdapter';
+import { SupabaseSalesIntegrationHook, SalesIntegrationHook } from './supabaseSalesIntegration';
 import { getNowISOInTunisia } from './dateUtils';
+import { getRemainingPrepaidCycles, hasPrepaidRenewal, isChargedRenewal } from './subscriptionUtils';
+import { recordAudit } from './auditLog';
 
-export interface SalesIntegrationHook {
-  onSubscriptionRenewed(subscription: Subscription): Promise<void>;
-}
+export type { SalesIntegrationHook };
 
 export class SubscriptionService {
   constructor(
@@ -14,6 +15,13 @@ export class SubscriptionService {
     private salesIntegration?: SalesIntegrationHook
   ) {}
 
+  // Every subscription mutation goes through here so the change also lands in the audit log
+  private async recordEvent(event: Omit<SubscriptionEvent, 'id' | 'createdAt'>): Promise<SubscriptionEvent> {
+    const created = await this.persistenceAdapter.createSubscriptionEvent(event);
+    await recordAudit('subscription', event.type, event.subscriptionId, event.meta || {});
+    return created;
+  }
+
   private async getServiceConfig(serviceId: string): Promise<ServiceConfig | null> {
     try {
       const { data, error } = await supabase
@@ -57,7 +65,7 @@ export class SubscriptionService {
     saleId: string, 
     serviceId: string, 
     clientId: string, 
-    configOverrides?: Partial<Pick<Subscription, 'strategy' | 'intervalDays' | 'startedAt' | 'notes' | 'targetEndAt'>>
+    configOverrides?: Partial<Pick<Subscription, 'strategy' | 'intervalDays' | 'renewalDay' | 'cyclesPaid' | 'chargeOnRenewal' | 'startedAt' | 'notes' | 'targetEndAt' | 'waitlistEntryId'>>
   ): Promise<Subscription> {
     const serviceConfig = await this.getServiceConfig(serviceId);
     if (!serviceConfig) {
@@ -86,6 +94,7 @@ export class SubscriptionService {
         currentCycleStartAt: startDate,
         strategy,
         intervalDays: configOverrides?.intervalDays || serviceConfig.intervalDays,
+        renewalDay: configOverrides?.renewalDay,
         status: 'active',
         notes: configOverrides?.notes,
         createdAt: startDate,
@@ -117,6 +126,10 @@ export class SubscriptionService {
       currentCycleStartAt: startDate,
       strategy,
       intervalDays: configOverrides?.intervalDays || serviceConfig.intervalDays,
+      renewalDay: configOverrides?.renewalDay,
+      cyclesPaid: configOverrides?.cyclesPaid,
+      chargeOnRenewal: configOverrides?.chargeOnRenewal ?? true,
+      waitlistEntryId: configOverrides?.waitlistEntryId,
       status: 'active' as const,
       notes: configOverrides?.notes,
       nextRenewalAt,
@@ -126,11 +139,11 @@ export class SubscriptionService {
     const subscription = await this.persistenceAdapter.createSubscription(subscriptionData);
 
     // Create event
-    await this.persistenceAdapter.createSubscriptionEvent({
+    await this.recordEvent({
       subscriptionId: subscription.id,
       type: 'created',
       at: startDate,
-      meta: { saleId, strategy }
+      meta: { saleId, strategy, cyclesPaid: configOverrides?.cyclesPaid }
     });
 
     return subscription;
@@ -139,12 +152,13 @@ export class SubscriptionService {
   async createManual(
     serviceId: string, 
     clientId: string, 
-    initialConfig: Pick<Subscription, 'strategy' | 'intervalDays' | 'startedAt' | 'notes' | 'targetEndAt'>
+    initialConfig: Pick<Subscription, 'strategy' | 'intervalDays' | 'startedAt' | 'notes' | 'targetEndAt'> & Partial<Pick<Subscription, 'renewalDay' | 'cyclesPaid' | 'chargeOnRenewal' | 'waitlistEntryId'>>
   ): Promise<Subscription> {
     return this.createFromSale('', serviceId, clientId, initialConfig);
   }
 
-  async renewNow(subscriptionId: string): Promise<Subscription> {
+  // payment is what the client paid for a charged renewal; without it the renewal is left owed
+  async renewNow(subscriptionId: string, payment?: RenewalPayment): Promise<Subscription> {
     const subscription = await this.persistenceAdapter.getSubscription(subscriptionId);
     if (!subscription) {
       throw new Error(`Subscription not found: ${subscriptionId}`);
@@ -164,14 +178,40 @@ export class SubscriptionService {
     const renewalDate = new Date(now);
     const nextRenewalDate = updates.nextRenewalAt ? new Date(updates.nextRenewalAt) : null;
 
-    const updatedSubscription = await this.persistenceAdapter.updateSubscription(subscriptionId, {
+    // A new cycle starts with no paused time
+    updates.cyclePausedMs = 0;
+
+    // Prepaid subscriptions consume a cycle that was already paid for; once the block is used up it's cleared
+    // and the subscription goes back to paying per cycle
+    const isPrepaidRenewal = hasPrepaidRenewal(subscription);
+    if (!isPrepaidRenewal && subscription.cyclesPaid) {
+      updates.cyclesPaid = null;
+    }
+
+    let updatedSubscription = await this.persistenceAdapter.updateSubscription(subscriptionId, {
       ...updates,
       status: 'active', // Reset status to active when renewing (especially important for overdue subscriptions)
       updatedAt: now
     });
 
+    // Record the renewal as a sale (prepaid cycles were already sold upfront)
+    let transactionId: string | null = null;
+    if (this.salesIntegration && isChargedRenewal(subscription)) {
+      try {
+        transactionId = await this.salesIntegration.onSubscriptionRenewed(updatedSubscription, payment);
+        if (transactionId) {
+          // Link the subscription to its latest sale
+          updatedSubscription = await this.persistenceAdapter.updateSubscription(subscriptionId, {
+            saleId: transactionId
+          });
+        }
+      } catch (error) {
+        console.error('Error calling sales integration hook:', error);
+      }
+    }
+
     // Create detailed renewal event
-    await this.persistenceAdapter.createSubscriptionEvent({
+    await this.recordEvent({
       subscriptionId: subscriptionId,
       type: 'renewed',
       at: now,
@@ -184,19 +224,15 @@ export class SubscriptionService {
         intervalDays: subscription.intervalDays,
         cycleStartDate: updates.currentCycleStartAt,
         cycleEndDate: updates.nextRenewalAt,
+        prepaid: isPrepaidRenewal,
+        charged: !!transactionId,
+        transactionId: transactionId || undefined,
+        cyclesPaid: updatedSubscription.cyclesPaid,
+        cyclesRemaining: getRemainingPrepaidCycles(updatedSubscription),
         poolAware: true // Flag to indicate pool-aware logic was used
       }
     });
 
-    // Call sales integration hook if available
-    if (this.salesIntegration) {
-      try {
-        await this.salesIntegration.onSubscriptionRenewed(updatedSubscription);
-      } catch (error) {
-        console.error('Error calling sales integration hook:', error);
-      }
-    }
-
     return updatedSubscription;
   }
 
@@ -217,7 +253,7 @@ export class SubscriptionService {
       updatedAt: now
     });
 
-    await this.persistenceAdapter.createSubscriptionEvent({
+    await this.recordEvent({
       subscriptionId: subscriptionId,
       type: 'custom_date_set',
       at: now,
@@ -254,7 +290,7 @@ export class SubscriptionService {
       updatedAt: now
     });
 
-    await this.persistenceAdapter.createSubscriptionEvent({
+    await this.recordEvent({
       subscriptionId: subscriptionId,
       type: 'custom_date_cleared',
       at: now,
@@ -279,7 +315,7 @@ export class SubscriptionService {
       updatedAt: now
     });
 
-    await this.persistenceAdapter.createSubscriptionEvent({
+    await this.recordEvent({
       subscriptionId: subscriptionId,
       type: 'completed',
       at: now
@@ -307,7 +343,7 @@ export class SubscriptionService {
       updatedAt: now
     });
 
-    await this.persistenceAdapter.createSubscriptionEvent({
+    await this.recordEvent({
       subscriptionId: subscriptionId,
       type: 'archived',
       at: now,
@@ -351,7 +387,7 @@ export class SubscriptionService {
       updatedAt: now
     });
 
-    await this.persistenceAdapter.createSubscriptionEvent({
+    await this.recordEvent({
       subscriptionId: subscriptionId,
       type: 'reverted',
       at: now,
@@ -388,7 +424,7 @@ export class SubscriptionService {
       updatedAt: now
     });
 
-    await this.persistenceAdapter.createSubscriptionEvent({
+    await this.recordEvent({
       subscriptionId: subscriptionId,
       type: 'overdue',
       at: now,
@@ -401,14 +437,108 @@ export class SubscriptionService {
     return updatedSubscription;
   }
 
+  async pause(subscriptionId: string, reason?: string): Promise<Subscription> {
+    const subscription = await this.persistenceAdapter.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Subscription not found: ${subscriptionId}`);
+    }
+
+    if (subscription.status === 'paused') {
+      throw new Error(`Subscription is already paused`);
+    }
+
+    if (subscription.status !== 'active') {
+      throw new Error(`Cannot pause subscription with status: ${subscription.status}. Only active subscriptions can be paused.`);
+    }
+
+    const now = new Date().toISOString();
+    const updatedSubscription = await this.persistenceAdapter.updateSubscription(subscriptionId, {
+      status: 'paused',
+      pausedAt: now,
+      updatedAt: now
+    });
+
+    await this.recordEvent({
+      subscriptionId: subscriptionId,
+      type: 'paused',
+      at: now,
+      meta: {
+        previousStatus: subscription.status,
+        pausedAt: now,
+        nextRenewalAt: subscription.nextRenewalAt,
+        targetEndAt: subscription.targetEndAt,
+        reason
+      }
+    });
+
+    return updatedSubscription;
+  }
+
+  async resume(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.persistenceAdapter.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Subscription not found: ${subscriptionId}`);
+    }
+
+    if (subscription.status !== 'paused') {
+      throw new Error(`Cannot resume subscription with status: ${subscription.status}. Only paused subscriptions can be resumed.`);
+    }
+
+    const now = new Date().toISOString();
+    const pausedAt = subscription.pausedAt || subscription.updatedAt;
+    const pausedMs = Math.max(0, new Date(now).getTime() - new Date(pausedAt).getTime());
+
+    // Extend the cycle by the time spent paused so the client doesn't lose any days
+    const shift = (isoString?: string): string | undefined =>
+      isoString ? new Date(new Date(isoString).getTime() + pausedMs).toISOString() : undefined;
+    // but a pool-linked subscription still can't renew after its pool ends
+    const poolEndDate = await getPoolEndDate(subscription);
+    const clampToPool = (isoString?: string): string | undefined =>
+      isoString && poolEndDate && new Date(isoString) > poolEndDate ? poolEndDate.toISOString() : isoString;
+
+    const updatedSubscription = await this.persistenceAdapter.updateSubscription(subscriptionId, {
+      status: 'active',
+      nextRenewalAt: clampToPool(shift(subscription.nextRenewalAt)),
+      customNextRenewalAt: clampToPool(shift(subscription.customNextRenewalAt)),
+      targetEndAt: shift(subscription.targetEndAt),
+      cyclePausedMs: (subscription.cyclePausedMs || 0) + pausedMs,
+      updatedAt: now
+    });
+
+    await this.recordEvent({
+      subscriptionId: subscriptionId,
+      type: 'resumed',
+      at: now,
+      meta: {
+        pausedAt,
+        resumedAt: now,
+        pausedMs,
+        pausedDays: Math.round((pausedMs / (1000 * 60 * 60 * 24)) * 10) / 10,
+        previousNextRenewalAt: subscription.nextRenewalAt,
+        newNextRenewalAt: updatedSubscription.nextRenewalAt,
+        previousTargetEndAt: subscription.targetEndAt,
+        newTargetEndAt: updatedSubscription.targetEndAt
+      }
+    });
+
+    return updatedSubscription;
+  }
+
   async updateSubscription(subscriptionId: string, updates: Partial<Subscription>): Promise<Subscription> {
     const now = new Date().toISOString();
+
+    // Prepaid cycles entered on an existing subscription are counted from its current cycle
+    if (updates.cyclesPaid !== undefined && updates.prepaidFromIteration === undefined) {
+      const subscription = await this.persistenceAdapter.getSubscription(subscriptionId);
+      updates = { ...updates, prepaidFromIteration: subscription?.iterationsDone || 0 };
+    }
+
     const updatedSubscription = await this.persistenceAdapter.updateSubscription(subscriptionId, {
       ...updates,
       updatedAt: now
     });
     
-    await this.persistenceAdapter.createSubscriptionEvent({
+    await this.recordEvent({
       subscriptionId: subscriptionId,
       type: 'updated',
       at: now,
@@ -420,6 +550,7 @@ export class SubscriptionService {
 
   async delete(subscriptionId: string): Promise<void> {
     await this.persistenceAdapter.deleteSubscription(subscriptionId);
+    await recordAudit('subscription', 'deleted', subscriptionId);
   }
 
   async listSubscriptions(): Promise<Subscription[]> {
@@ -431,12 +562,21 @@ export class SubscriptionService {
   }
 
   async getDueBuckets(): Promise<{ dueToday: number; dueIn3Days: number; overdue: number }> {
+    const buckets = await this.getDueBucketSubscriptions();
+    return {
+      dueToday: buckets.dueToday.length,
+      dueIn3Days: buckets.dueIn3Days.length,
+      overdue: buckets.overdue.length
+    };
+  }
+
+  async getDueBucketSubscriptions(): Promise<{ dueToday: Subscription[]; dueIn3Days: Subscription[]; overdue: Subscription[] }> {
     const subscriptions = await this.persistenceAdapter.listSubscriptions();
     const now = new Date();
-    
-    let dueToday = 0;
-    let dueIn3Days = 0;
-    let overdue = 0;
+
+    const dueToday: Subscription[] = [];
+    const dueIn3Days: Subscription[] = [];
+    const overdue: Subscription[] = [];
 
     subscriptions.forEach(sub => {
       if (sub.status !== 'active' || !sub.nextRenewalAt) return;
@@ -446,17 +586,26 @@ export class SubscriptionService {
       const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 
       if (diffDays === 0) {
-        dueToday++;
+        dueToday.push(sub);
       } else if (diffDays > 0 && diffDays <= 3) {
-        dueIn3Days++;
+        dueIn3Days.push(sub);
       } else if (diffDays < 0) {
-        overdue++;
+        overdue.push(sub);
       }
     });
 
     return { dueToday, dueIn3Days, overdue };
   }
 
+  async logReminderSent(subscriptionId: string, meta: SubscriptionEvent['meta']): Promise<void> {
+    await this.recordEvent({
+      subscriptionId: subscriptionId,
+      type: 'reminder_sent',
+      at: new Date().toISOString(),
+      meta
+    });
+  }
+
   async getRenewalHistory(subscriptionId: string): Promise<SubscriptionEvent[]> {
     const events = await this.persistenceAdapter.getSubscriptionEvents(subscriptionId);
     return events.filter((event: SubscriptionEvent) => event.type === 'renewed').sort((a: SubscriptionEvent, b: SubscriptionEvent) => 
@@ -496,7 +645,7 @@ export class SubscriptionService {
       updatedAt: now
     });
 
-    await this.persistenceAdapter.createSubscriptionEvent({
+    await this.recordEvent({
       subscriptionId: subscriptionId,
       type: 'renewal_recalculated',
       at: now,
@@ -512,6 +661,83 @@ export class SubscriptionService {
     return updatedSubscription;
   }
 
+  // Called after the subscription's pool got a later end date: back to active and renewing on the new pool end
+  async applyPoolExtension(subscriptionId: string, poolId: string, previousEndAt: string, newEndAt: string): Promise<Subscription> {
+    const subscription = await this.persistenceAdapter.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Subscription not found: ${subscriptionId}`);
+    }
+
+    if (subscription.status !== 'active' && subscription.status !== 'overdue') {
+      throw new Error(`Cannot recalculate renewal date for subscription with status: ${subscription.status}`);
+    }
+
+    const nextRenewal = await computeNextRenewalWithPoolAwareness(subscription);
+    const nextRenewalAt = nextRenewal ? nextRenewal.toISOString() : undefined;
+
+    const now = new Date().toISOString();
+    const updatedSubscription = await this.persistenceAdapter.updateSubscription(subscriptionId, {
+      status: 'active',
+      nextRenewalAt,
+      updatedAt: now
+    });
+
+    await this.recordEvent({
+      subscriptionId,
+      type: 'pool_extended',
+      at: now,
+      meta: {
+        poolId,
+        previousPoolEndAt: previousEndAt,
+        newPoolEndAt: newEndAt,
+        previousNextRenewalAt: subscription.nextRenewalAt,
+        newNextRenewalAt: nextRenewalAt,
+        previousStatus: subscription.status
+      }
+    });
+
+    return updatedSubscription;
+  }
+
+  // Called after a subscription was moved to another pool: back to active and renewing on the new pool's end date
+  async recordPoolMigration(subscriptionId: string, fromPoolId: string, toPoolId: string): Promise<Subscription> {
+    const subscription = await this.persistenceAdapter.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Subscription not found: ${subscriptionId}`);
+    }
+
+    const now = new Date().toISOString();
+    // Dead-pool overdue flags are lifted; paused, completed and archived subscriptions keep their status
+    const status = subscription.status === 'overdue' ? 'active' : subscription.status;
+
+    let nextRenewalAt = subscription.nextRenewalAt;
+    if (status === 'active') {
+      const nextRenewal = await computeNextRenewalWithPoolAwareness(subscription);
+      nextRenewalAt = nextRenewal ? nextRenewal.toISOString() : undefined;
+    }
+
+    const updatedSubscription = await this.persistenceAdapter.updateSubscription(subscriptionId, {
+      status,
+      nextRenewalAt,
+      updatedAt: now
+    });
+
+    await this.recordEvent({
+      subscriptionId,
+      type: 'pool_migrated',
+      at: now,
+      meta: {
+        fromPoolId,
+        toPoolId,
+        previousStatus: subscription.status,
+        previousNextRenewalAt: subscription.nextRenewalAt,
+        newNextRenewalAt: nextRenewalAt
+      }
+    });
+
+    return updatedSubscription;
+  }
+
   // Method to automatically complete expired subscriptions
   async refreshSubscriptionStatus(): Promise<{ completedCount: number; overdueCount: number }> {
     try {
@@ -555,4 +781,7 @@ export class SubscriptionService {
 }
 
 // Export a default instance
-export const subscriptionService = new SubscriptionService(new SupabaseSubscriptionPersistenceAdapter());
+export const subscriptionService = new SubscriptionService(
+  new SupabaseSubscriptionPersistenceAdapter(),
+  new SupabaseSalesIntegrationHook()
+);
@@ -9,6 +9,53 @@ const addMonths = (date: Date, months: number): Date => {
   return newDate;
 };
 
+// Utility function to get the number of days in a month
+const getDaysInMonth = (year: number, month: number): number => {
+  return new Date(year, month + 1, 0).getDate();
+};
+
+// Utility function to add months to a date, clamping to the end of the target month
+// (e.g. Jan 31 + 1 month = Feb 28/29 instead of rolling over into March).
+// A date that was itself clamped to a month end goes back to anchorDay, so the
+// day doesn't drift (Jan 31 -> Apr 30 -> Jul 31, Feb 29 -> Feb 28 -> Feb 29)
+const addMonthsClamped = (date: Date, months: number, anchorDay: number = date.getDate()): Date => {
+  const newDate = new Date(date);
+  const wasClamped = newDate.getDate() === getDaysInMonth(newDate.getFullYear(), newDate.getMonth());
+  const day = wasClamped ? Math.max(anchorDay, newDate.getDate()) : newDate.getDate();
+  newDate.setDate(1);
+  newDate.setMonth(newDate.getMonth() + months);
+  newDate.setDate(Math.min(day, getDaysInMonth(newDate.getFullYear(), newDate.getMonth())));
+  return newDate;
+};
+
+// Utility function to get the next occurrence of a calendar day strictly after a date
+// Days that don't exist in a month are clamped to the month end (e.g. 31 -> Apr 30)
+const getNextDayOfMonth = (after: Date, dayOfMonth: number): Date => {
+  const candidate = new Date(after);
+  candidate.setDate(Math.min(dayOfMonth, getDaysInMonth(candidate.getFullYear(), candidate.getMonth())));
+  if (candidate > after) {
+    return candidate;
+  }
+
+  const nextMonth = new Date(after);
+  nextMonth.setDate(1);
+  nextMonth.setMonth(nextMonth.getMonth() + 1);
+  nextMonth.setDate(Math.min(dayOfMonth, getDaysInMonth(nextMonth.getFullYear(), nextMonth.getMonth())));
+  return nextMonth;
+};
+
+// Utility function to get the renewal day for DAY_OF_MONTH subscriptions
+// Falls back to the day the subscription started when no explicit day is set
+const getRenewalDay = (sub: Subscription): number => {
+  if (sub.renewalDay && sub.renewalDay >= 1 && sub.renewalDay <= 31) {
+    return sub.renewalDay;
+  }
+  return new Date(sub.startedAt).getDate();
+};
+
+// Utility function to get the calendar day QUARTERLY and YEARLY renewals are anchored on
+const getStartDay = (sub: Subscription): number => new Date(sub.startedAt).getDate();
+
 // Utility function to add days to a date
 const addDays = (date: Date, days: number): Date => {
   const newDate = new Date(date);
@@ -32,7 +79,7 @@ const isWithinDays = (date: Date, days: number): boolean => {
 
 // Utility function to get pool end date if subscription is linked to a pool
 // Returns the pool's end date if the subscription is linked to an alive pool, null otherwise
-const getPoolEndDate = async (subscription: Subscription): Promise<Date | null> => {
+export const getPoolEndDate = async (subscription: Subscription): Promise<Date | null> => {
   if (!subscription.resourcePoolId) {
     return null;
   }
@@ -86,6 +133,93 @@ export const STRATEGIES: Record<RenewalStrategyKey, StrategyHandler> = {
     }
   },
 
+  QUARTERLY: {
+    computeNextRenewal(sub: Subscription): Date | null {
+      // If custom date is set, use it
+      if (sub.customNextRenewalAt) {
+        return new Date(sub.customNextRenewalAt);
+      }
+      // Otherwise use strategy logic
+      const lastRenewal = sub.lastRenewalAt ? new Date(sub.lastRenewalAt) : new Date(sub.currentCycleStartAt);
+      return addMonthsClamped(lastRenewal, 3, getStartDay(sub));
+    },
+    computeNextRenewalWithoutCustom(sub: Subscription): Date | null {
+      // Always use strategy logic, ignore custom dates
+      const lastRenewal = sub.lastRenewalAt ? new Date(sub.lastRenewalAt) : new Date(sub.currentCycleStartAt);
+      return addMonthsClamped(lastRenewal, 3, getStartDay(sub));
+    },
+    onRenew(sub: Subscription): Partial<Subscription> {
+      const now = getNowInTunisia();
+      const nextRenewal = addMonthsClamped(now, 3, getStartDay(sub));
+      return {
+        currentCycleStartAt: now.toISOString(),
+        lastRenewalAt: now.toISOString(),
+        nextRenewalAt: nextRenewal.toISOString(),
+        customNextRenewalAt: undefined, // Clear custom override after renewal
+        iterationsDone: (sub.iterationsDone || 0) + 1
+      };
+    }
+  },
+
+  YEARLY: {
+    computeNextRenewal(sub: Subscription): Date | null {
+      // If custom date is set, use it
+      if (sub.customNextRenewalAt) {
+        return new Date(sub.customNextRenewalAt);
+      }
+      // Otherwise use strategy logic (calendar year, so leap years don't drift)
+      const lastRenewal = sub.lastRenewalAt ? new Date(sub.lastRenewalAt) : new Date(sub.currentCycleStartAt);
+      return addMonthsClamped(lastRenewal, 12, getStartDay(sub));
+    },
+    computeNextRenewalWithoutCustom(sub: Subscription): Date | null {
+      // Always use strategy logic, ignore custom dates
+      const lastRenewal = sub.lastRenewalAt ? new Date(sub.lastRenewalAt) : new Date(sub.currentCycleStartAt);
+      return addMonthsClamped(lastRenewal, 12, getStartDay(sub));
+    },
+    onRenew(sub: Subscription): Partial<Subscription> {
+      const now = getNowInTunisia();
+      const nextRenewal = addMonthsClamped(now, 12, getStartDay(sub));
+      return {
+        currentCycleStartAt: now.toISOString(),
+        lastRenewalAt: now.toISOString(),
+        nextRenewalAt: nextRenewal.toISOString(),
+        customNextRenewalAt: undefined, // Clear custom override after renewal
+        iterationsDone: (sub.iterationsDone || 0) + 1
+      };
+    }
+  },
+
+  DAY_OF_MONTH: {
+    computeNextRenewal(sub: Subscription): Date | null {
+      // If custom date is set, use it
+      if (sub.customNextRenewalAt) {
+        return new Date(sub.customNextRenewalAt);
+      }
+      // Otherwise use strategy logic
+      const lastRenewal = sub.lastRenewalAt ? new Date(sub.lastRenewalAt) : new Date(sub.currentCycleStartAt);
+      return getNextDayOfMonth(lastRenewal, getRenewalDay(sub));
+    },
+    computeNextRenewalWithoutCustom(sub: Subscription): Date | null {
+      // Always use strategy logic, ignore custom dates
+      const lastRenewal = sub.lastRenewalAt ? new Date(sub.lastRenewalAt) : new Date(sub.currentCycleStartAt);
+      return getNextDayOfMonth(lastRenewal, getRenewalDay(sub));
+    },
+    onRenew(sub: Subscription): Partial<Subscription> {
+      const now = getNowInTunisia();
+      // Renewing early keeps the calendar day: move past the current due date, not just past today
+      const currentDue = sub.nextRenewalAt ? new Date(sub.nextRenewalAt) : null;
+      const from = currentDue && currentDue > now ? currentDue : now;
+      const nextRenewal = getNextDayOfMonth(from, getRenewalDay(sub));
+      return {
+        currentCycleStartAt: now.toISOString(),
+        lastRenewalAt: now.toISOString(),
+        nextRenewalAt: nextRenewal.toISOString(),
+        customNextRenewalAt: undefined, // Clear custom override after renewal
+        iterationsDone: (sub.iterationsDone || 0) + 1
+      };
+    }
+  },
+
   EVERY_N_DAYS: {
     computeNextRenewal(sub: Subscription): Date | null {
       // If custom date is set, use it
@@ -211,17 +345,26 @@ export const computeCycleProgress = (sub: Subscription): { pct: number; msLeft:
   return { pct, msLeft: Math.max(0, msLeft), msTotal };
 };
 
+// Reference "now" for countdowns: paused subscriptions are frozen at the moment they were paused
+export const getCountdownNow = (sub: Subscription): Date => {
+  if (sub.status === 'paused' && sub.pausedAt) {
+    return toTunisiaTime(new Date(sub.pausedAt));
+  }
+  return getNowInTunisia();
+};
+
 export const computeRenewalProgress = (sub: Subscription): { pct: number; msLeft: number; msTotal: number } => {
   if (!sub.nextRenewalAt) {
     return { pct: 0, msLeft: 0, msTotal: 0 };
   }
   
-  const now = getNowInTunisia();
+  const now = getCountdownNow(sub);
   const cycleStart = toTunisiaTime(new Date(sub.currentCycleStartAt));
   const nextRenewal = toTunisiaTime(new Date(sub.nextRenewalAt));
   
-  const msTotal = nextRenewal.getTime() - cycleStart.getTime();
-  const msElapsed = now.getTime() - cycleStart.getTime();
+  // Time spent paused during this cycle doesn't count towards its progress
+  const msPaused = sub.cyclePausedMs || 0;
+  const msTotal = nextRenewal.getTime() - cycleStart.getTime() - msPaused;
   const msLeft = nextRenewal.getTime() - now.getTime();
   
   if (msTotal <= 0) {
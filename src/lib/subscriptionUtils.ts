@@ -84,6 +84,8 @@ export const getStatusBadge = (status: Subscription['status']) => {
   switch (status) {
     case 'active':
       return { text: 'Active', bgColor: 'bg-white/10', color: 'text-white' };
+    case 'paused':
+      return { text: 'Paused', bgColor: 'bg-yellow-900/30', color: 'text-yellow-400' };
     case 'completed':
       return { text: 'Completed', bgColor: 'bg-blue-900/30', color: 'text-blue-400' };
     case 'overdue':
@@ -100,6 +102,12 @@ export const getStrategyDisplayName = (strategy: RenewalStrategyKey): string =>
   switch (strategy) {
     case 'MONTHLY':
       return 'Monthly';
+    case 'QUARTERLY':
+      return 'Quarterly';
+    case 'YEARLY':
+      return 'Yearly';
+    case 'DAY_OF_MONTH':
+      return 'Day of Month';
     case 'EVERY_N_DAYS':
       return 'Every N Days';
     default:
@@ -112,6 +120,12 @@ export const getStrategyPillColor = (strategy: RenewalStrategyKey): string => {
   switch (strategy) {
     case 'MONTHLY':
       return 'bg-blue-900/30 text-blue-400 border border-blue-700/50';
+    case 'QUARTERLY':
+      return 'bg-teal-900/30 text-teal-400 border border-teal-700/50';
+    case 'YEARLY':
+      return 'bg-amber-900/30 text-amber-400 border border-amber-700/50';
+    case 'DAY_OF_MONTH':
+      return 'bg-pink-900/30 text-pink-400 border border-pink-700/50';
     case 'EVERY_N_DAYS':
       return 'bg-purple-900/30 text-purple-400 border border-purple-700/50';
     default:
@@ -134,6 +148,38 @@ export const canRenew = (subscription: Subscription): boolean => {
          (subscription.nextRenewalAt !== undefined || subscription.targetEndAt !== undefined);
 };
 
+// Get remaining prepaid cycles, including the current one (null for pay-per-cycle subscriptions)
+export const getRemainingPrepaidCycles = (subscription: Subscription): number | null => {
+  if (!subscription.cyclesPaid) return null;
+  const cyclesUsed = (subscription.iterationsDone || 0) - (subscription.prepaidFromIteration || 0);
+  return Math.max(0, subscription.cyclesPaid - cyclesUsed);
+};
+
+// Check if the next renewal is already covered by a prepaid cycle
+export const hasPrepaidRenewal = (subscription: Subscription): boolean => {
+  const remaining = getRemainingPrepaidCycles(subscription);
+  return remaining !== null && remaining > 1;
+};
+
+// Whether renewing now records a sale (prepaid cycles were already sold upfront)
+export const isChargedRenewal = (subscription: Subscription): boolean =>
+  !hasPrepaidRenewal(subscription) && subscription.chargeOnRenewal !== false;
+
+// Format prepaid cycles display (e.g. "2 of 6 cycles remaining")
+export const formatPrepaidCycles = (subscription: Subscription): string | null => {
+  const remaining = getRemainingPrepaidCycles(subscription);
+  if (remaining === null || !subscription.cyclesPaid || subscription.cyclesPaid <= 1) return null;
+  return `${remaining} of ${subscription.cyclesPaid} cycle${subscription.cyclesPaid !== 1 ? 's' : ''} remaining`;
+};
+
+// Check if subscription needs payment: renewal is due and no prepaid cycle covers it
+export const needsPayment = (subscription: Subscription): boolean => {
+  if (subscription.status !== 'active' && subscription.status !== 'overdue') return false;
+  if (hasPrepaidRenewal(subscription)) return false;
+  if (subscription.status === 'overdue') return true;
+  return !!subscription.nextRenewalAt && new Date(subscription.nextRenewalAt).getTime() <= Date.now();
+};
+
 // Parse service duration string and extract months
 export const parseServiceDuration = (durationString: string): number => {
   const lowerDuration = durationString.toLowerCase();
@@ -148,6 +194,15 @@ export const parseServiceDuration = (durationString: string): number => {
   return 1;
 };
 
+// Renewal strategy matching a service duration: calendar strategies where one fits, a fixed number of days otherwise
+export const getStrategyForDuration = (durationString: string): Pick<Subscription, 'strategy' | 'intervalDays'> => {
+  const months = parseServiceDuration(durationString);
+  if (months === 1) return { strategy: 'MONTHLY', intervalDays: undefined };
+  if (months === 3) return { strategy: 'QUARTERLY', intervalDays: undefined };
+  if (months === 12) return { strategy: 'YEARLY', intervalDays: undefined };
+  return { strategy: 'EVERY_N_DAYS', intervalDays: months * 30 };
+};
+
 // Calculate end date based on service duration and start date
 export const calculateEndDateFromDuration = (durationString: string, startDate: string): string => {
   const months = parseServiceDuration(durationString);
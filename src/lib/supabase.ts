@@ -1,5 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Client } from '../types/client';
+import type { TransactionRefund } from '../types/refund';
+import type { PaymentStatus } from '../types/receivable';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -8,12 +10,15 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-// Create a single supabase client for interacting with your database
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
-
-// For now, we'll work without authentication
-// The RLS policies should allow access for authenticated users
-// If you need authentication, you can enable it in Supabase dashboard
+// Create a single supabase client for interacting with your database.
+// Operators sign in with email/password (see lib/auth.tsx); RLS only grants
+// table access to authenticated users, the anon key alone can read nothing.
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  auth: {
+    persistSession: true,
+    autoRefreshToken: true,
+  },
+});
 
 export type ServiceType = 'personal_upgrade' | 'family_invite';
 
@@ -27,6 +32,7 @@ export interface Service {
   selling_price: number;
   logo_url?: string;
   service_type?: ServiceType;
+  provider_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -35,6 +41,23 @@ export interface Transaction {
   id: string;
   service_id: string;
   client_id?: string;
+  // Supplier that filled the sale; cost_at_sale was taken from its offer
+  supplier_id?: string | null;
+  // Order the sale was a line of; discount_amount is the line's share of the order discount
+  order_id?: string | null;
+  discount_amount?: number;
+  // Price list the sale was priced from; null = retail
+  price_list_id?: string | null;
+  // USD collected so far, the total of its transaction_payments; credit_paid is what was
+  // drawn from the client's credit and amount_canceled what refunds took off the debt.
+  // payment_status is derived from all three by the database
+  amount_paid?: number;
+  credit_paid?: number;
+  amount_canceled?: number;
+  payment_status?: PaymentStatus;
+  // payment_methods.key; payment_fee is what the method took out of amount_paid (USD)
+  payment_method?: string | null;
+  payment_fee?: number;
   date: string;
   cost_at_sale: number;
   selling_price: number;
@@ -43,6 +66,12 @@ export interface Transaction {
   updated_at: string;
   services?: Service;
   client?: Client;
+  supplier?: { id: string; name: string } | null;
+  order?: { id: string; discount: number } | null;
+  price_list?: { id: string; name: string } | null;
+  method?: { key: string; name: string } | null;
+  // Refunds recorded against this sale, when selected
+  transaction_refunds?: Pick<TransactionRefund, 'id' | 'kind' | 'amount' | 'date' | 'reason'>[];
 }
 
 export const categories = [
@@ -0,0 +1,73 @@
+import { Subscription, RenewalPayment } from '../types/subscription';
+import { supabase } from './supabase';
+import { getTodayInTunisia } from './dateUtils';
+import { priceListsDb, resolvePrice } from './priceLists';
+
+export interface SalesIntegrationHook {
+  // Returns the id of the sale recorded for the renewal, if any
+  onSubscriptionRenewed(subscription: Subscription, payment?: RenewalPayment): Promise<string | null>;
+}
+
+// Uses the service's current prices so the sale reflects what the renewal costs today;
+// renewals are charged from the client's price list, like new orders
+async function getRenewalPricing(subscription: Pick<Subscription, 'serviceId' | 'clientId'>) {
+  const { data: service, error: serviceError } = await supabase
+    .from('services')
+    .select('id, product_service, cost, selling_price')
+    .eq('id', subscription.serviceId)
+    .single();
+
+  if (serviceError || !service) {
+    console.error('Sales integration: Error fetching service for renewal:', serviceError);
+    throw new Error(`Failed to fetch service for renewal: ${serviceError?.message || subscription.serviceId}`);
+  }
+
+  const priceList = subscription.clientId ? await priceListsDb.getForClient(subscription.clientId) : null;
+  return { service, priceList, sellingPrice: resolvePrice(service, priceList) };
+}
+
+// What renewing the subscription now will charge (USD)
+export async function getRenewalPrice(subscription: Pick<Subscription, 'serviceId' | 'clientId'>): Promise<number> {
+  return (await getRenewalPricing(subscription)).sellingPrice;
+}
+
+export class SupabaseSalesIntegrationHook implements SalesIntegrationHook {
+  async onSubscriptionRenewed(subscription: Subscription, payment?: RenewalPayment): Promise<string | null> {
+    const { service, priceList, sellingPrice } = await getRenewalPricing(subscription);
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('transactions')
+      .insert({
+        service_id: subscription.serviceId,
+        client_id: subscription.clientId,
+        date: getTodayInTunisia(),
+        cost_at_sale: service.cost,
+        selling_price: sellingPrice,
+        price_list_id: priceList?.id || null,
+        notes: `Renewal #${subscription.iterationsDone || 0} of ${service.product_service}`,
+        created_at: now,
+        updated_at: now
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Sales integration: Error creating renewal transaction:', error);
+      throw new Error(`Failed to create renewal transaction: ${error.message}`);
+    }
+
+    // Whatever wasn't paid when renewing stays owed on the sale
+    const amountPaid = payment ? Math.min(sellingPrice, payment.amount ?? sellingPrice) : 0;
+    if (amountPaid > 0) {
+      const { error: paymentError } = await supabase
+        .from('transaction_payments')
+        .insert({ transaction_id: data.id, amount: amountPaid, payment_method: payment?.paymentMethod || null, date: getTodayInTunisia() });
+      if (paymentError) {
+        console.error('Sales integration: Error recording renewal payment:', paymentError);
+      }
+    }
+
+    return data.id;
+  }
+}
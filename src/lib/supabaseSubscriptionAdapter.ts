@@ -27,9 +27,15 @@ export class SupabaseSubscriptionPersistenceAdapter implements SubscriptionPersi
         next_renewal_at: subscription.nextRenewalAt,
         custom_next_renewal_at: subscription.customNextRenewalAt,
         target_end_at: subscription.targetEndAt,
+        paused_at: subscription.pausedAt,
         interval_days: subscription.intervalDays,
+        renewal_day: subscription.renewalDay,
         notes: subscription.notes,
         iterations_done: subscription.iterationsDone || 0,
+        cycles_paid: subscription.cyclesPaid,
+        prepaid_from_iteration: subscription.prepaidFromIteration || 0,
+        charge_on_renewal: subscription.chargeOnRenewal ?? true,
+        waitlist_entry_id: subscription.waitlistEntryId || null,
         strategy: subscription.strategy,
         status: subscription.status,
       })
@@ -55,9 +61,15 @@ export class SupabaseSubscriptionPersistenceAdapter implements SubscriptionPersi
       nextRenewalAt: data.next_renewal_at,
       customNextRenewalAt: data.custom_next_renewal_at,
       targetEndAt: data.target_end_at,
+      pausedAt: data.paused_at,
       intervalDays: data.interval_days,
+      renewalDay: data.renewal_day,
+      chargeOnRenewal: data.charge_on_renewal,
       notes: data.notes,
       iterationsDone: data.iterations_done,
+      cyclesPaid: data.cycles_paid,
+      prepaidFromIteration: data.prepaid_from_iteration,
+      cyclePausedMs: data.cycle_paused_ms,
       strategy: data.strategy as RenewalStrategyKey,
       status: data.status as any,
       createdAt: data.created_at,
@@ -90,13 +102,20 @@ export class SupabaseSubscriptionPersistenceAdapter implements SubscriptionPersi
       nextRenewalAt: data.next_renewal_at,
       customNextRenewalAt: data.custom_next_renewal_at,
       targetEndAt: data.target_end_at,
+      pausedAt: data.paused_at,
       intervalDays: data.interval_days,
+      renewalDay: data.renewal_day,
+      chargeOnRenewal: data.charge_on_renewal,
       notes: data.notes,
       iterationsDone: data.iterations_done,
+      cyclesPaid: data.cycles_paid,
+      prepaidFromIteration: data.prepaid_from_iteration,
+      cyclePausedMs: data.cycle_paused_ms,
       strategy: data.strategy as RenewalStrategyKey,
       status: data.status as any,
       resourcePoolId: data.resource_pool_id,
       resourcePoolSeatId: data.resource_pool_seat_id,
+      waitlistEntryId: data.waitlist_entry_id,
       createdAt: data.created_at,
       updatedAt: data.updated_at
     };
@@ -119,9 +138,15 @@ export class SupabaseSubscriptionPersistenceAdapter implements SubscriptionPersi
     if (updates.nextRenewalAt !== undefined) dbUpdates.next_renewal_at = updates.nextRenewalAt;
     if (updates.customNextRenewalAt !== undefined) dbUpdates.custom_next_renewal_at = updates.customNextRenewalAt;
     if (updates.targetEndAt !== undefined) dbUpdates.target_end_at = updates.targetEndAt;
+    if (updates.pausedAt !== undefined) dbUpdates.paused_at = updates.pausedAt;
     if (updates.intervalDays !== undefined) dbUpdates.interval_days = updates.intervalDays;
+    if (updates.renewalDay !== undefined) dbUpdates.renewal_day = updates.renewalDay;
+    if (updates.chargeOnRenewal !== undefined) dbUpdates.charge_on_renewal = updates.chargeOnRenewal;
     if (updates.notes !== undefined) dbUpdates.notes = updates.notes;
     if (updates.iterationsDone !== undefined) dbUpdates.iterations_done = updates.iterationsDone;
+    if (updates.cyclesPaid !== undefined) dbUpdates.cycles_paid = updates.cyclesPaid;
+    if (updates.prepaidFromIteration !== undefined) dbUpdates.prepaid_from_iteration = updates.prepaidFromIteration;
+    if (updates.cyclePausedMs !== undefined) dbUpdates.cycle_paused_ms = updates.cyclePausedMs;
     if (updates.strategy !== undefined) dbUpdates.strategy = updates.strategy;
     if (updates.status !== undefined) dbUpdates.status = updates.status;
     if (updates.resourcePoolId !== undefined) dbUpdates.resource_pool_id = updates.resourcePoolId;
@@ -155,13 +180,20 @@ export class SupabaseSubscriptionPersistenceAdapter implements SubscriptionPersi
       nextRenewalAt: data.next_renewal_at,
       customNextRenewalAt: data.custom_next_renewal_at,
       targetEndAt: data.target_end_at,
+      pausedAt: data.paused_at,
       intervalDays: data.interval_days,
+      renewalDay: data.renewal_day,
+      chargeOnRenewal: data.charge_on_renewal,
       notes: data.notes,
       iterationsDone: data.iterations_done,
+      cyclesPaid: data.cycles_paid,
+      prepaidFromIteration: data.prepaid_from_iteration,
+      cyclePausedMs: data.cycle_paused_ms,
       strategy: data.strategy as RenewalStrategyKey,
       status: data.status as any,
       resourcePoolId: data.resource_pool_id,
       resourcePoolSeatId: data.resource_pool_seat_id,
+      waitlistEntryId: data.waitlist_entry_id,
       createdAt: data.created_at,
       updatedAt: data.updated_at
     };
@@ -196,13 +228,20 @@ export class SupabaseSubscriptionPersistenceAdapter implements SubscriptionPersi
       nextRenewalAt: dbSub.next_renewal_at,
       customNextRenewalAt: dbSub.custom_next_renewal_at,
       targetEndAt: dbSub.target_end_at,
+      pausedAt: dbSub.paused_at,
       intervalDays: dbSub.interval_days,
+      renewalDay: dbSub.renewal_day,
+      chargeOnRenewal: dbSub.charge_on_renewal,
       notes: dbSub.notes,
       iterationsDone: dbSub.iterations_done,
+      cyclesPaid: dbSub.cycles_paid,
+      prepaidFromIteration: dbSub.prepaid_from_iteration,
+      cyclePausedMs: dbSub.cycle_paused_ms,
       strategy: dbSub.strategy as RenewalStrategyKey,
       status: dbSub.status as any,
       resourcePoolId: dbSub.resource_pool_id,
       resourcePoolSeatId: dbSub.resource_pool_seat_id,
+      waitlistEntryId: dbSub.waitlist_entry_id,
       createdAt: dbSub.created_at,
       updatedAt: dbSub.updated_at
     }));
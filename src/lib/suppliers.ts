@@ -0,0 +1,83 @@
+import { supabase } from './supabase';
+import type { Supplier, SupplierFormData, SupplierOffer, SupplierOfferFormData } from '../types/supplier';
+
+export const suppliersDb = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('*')
+      .order('name');
+    if (error) throw error;
+    return data as Supplier[];
+  },
+
+  async create(supplier: SupplierFormData) {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .insert(supplier)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Supplier;
+  },
+
+  async update(id: string, updates: SupplierFormData) {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Supplier;
+  },
+
+  // Offers go with the supplier; past sales keep their cost and lose the link
+  async remove(id: string) {
+    const { error } = await supabase
+      .from('suppliers')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async getOffers() {
+    const { data, error } = await supabase
+      .from('supplier_offers')
+      .select('*, suppliers (name, is_active), services (product_service, duration)')
+      .order('cost');
+    if (error) throw error;
+    return data as SupplierOffer[];
+  },
+
+  // Offers from active suppliers for one service, cheapest first
+  async getOffersForService(serviceId: string) {
+    const { data, error } = await supabase
+      .from('supplier_offers')
+      .select('*, suppliers!inner (name, is_active)')
+      .eq('service_id', serviceId)
+      .eq('suppliers.is_active', true)
+      .order('cost');
+    if (error) throw error;
+    return data as SupplierOffer[];
+  },
+
+  // One offer per supplier and service; saving again replaces it
+  async saveOffer(offer: SupplierOfferFormData) {
+    const { data, error } = await supabase
+      .from('supplier_offers')
+      .upsert({ ...offer, updated_at: new Date().toISOString() }, { onConflict: 'supplier_id,service_id' })
+      .select()
+      .single();
+    if (error) throw error;
+    return data as SupplierOffer;
+  },
+
+  async removeOffer(id: string) {
+    const { error } = await supabase
+      .from('supplier_offers')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
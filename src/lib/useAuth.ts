@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import type { Operator, OperatorRole } from '../types/operator';
+
+export interface AuthContextType {
+  session: Session | null;
+  user: User | null;
+  // Operator record for the signed-in user; null when the account has not been invited
+  operator: Operator | null;
+  role: OperatorRole | null;
+  // True until the stored session (and its operator) has been restored on first load
+  loading: boolean;
+  // Set when the session ended without the operator signing out (refresh token expired or revoked)
+  sessionExpired: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import type { Provider } from '../types/provider';
+
+export interface ProvidersContextType {
+  providers: Provider[];
+  loading: boolean;
+  refreshProviders: () => Promise<void>;
+  getProvider: (key: string) => Provider | undefined;
+  getProviderById: (id: string | null | undefined) => Provider | undefined;
+  getProviderName: (key: string) => string;
+  getProviderIcon: (key: string) => string;
+  // Catalog logo, falling back to a logo uploaded for the provider's services
+  getProviderLogoUrl: (key: string) => string | null;
+}
+
+export const ProvidersContext = createContext<ProvidersContextType | undefined>(undefined);
+
+export function useProviders() {
+  const context = useContext(ProvidersContext);
+  if (context === undefined) {
+    throw new Error('useProviders must be used within a ProvidersProvider');
+  }
+  return context;
+}
@@ -0,0 +1,73 @@
+import { createContext, useContext, useState, useEffect } from 'react';
+import { decryptSecret } from './credentialVault';
+import { copyToClipboard, toast } from './toast';
+
+export interface VaultContextType {
+  isUnlocked: boolean;
+  // Resolves true once the vault is unlocked, prompting for the passphrase if needed
+  requestUnlock: () => Promise<boolean>;
+  lock: () => void;
+}
+
+export const VaultContext = createContext<VaultContextType | undefined>(undefined);
+
+export function useVault() {
+  const context = useContext(VaultContext);
+  if (context === undefined) {
+    throw new Error('useVault must be used within a VaultProvider');
+  }
+  return context;
+}
+
+/**
+ * On-demand access to a stored login secret. Nothing is fetched until the user
+ * clicks show/copy, and the decrypted value is dropped when the vault locks.
+ */
+export function useSecretReveal(fetchStoredSecret: () => Promise<string | null>) {
+  const { requestUnlock, isUnlocked } = useVault();
+  const [secret, setSecret] = useState<string | null>(null);
+  const [isShown, setIsShown] = useState(false);
+
+  useEffect(() => {
+    if (!isUnlocked) {
+      setSecret(null);
+      setIsShown(false);
+    }
+  }, [isUnlocked]);
+
+  const loadSecret = async (): Promise<string | null> => {
+    if (secret !== null) return secret;
+    if (!(await requestUnlock())) return null;
+
+    try {
+      const value = await decryptSecret(await fetchStoredSecret());
+      setSecret(value);
+      return value;
+    } catch (error) {
+      console.error('Error decrypting secret:', error);
+      toast.show('Could not decrypt password', { type: 'error' });
+      return null;
+    }
+  };
+
+  const toggleShow = async () => {
+    if (isShown) {
+      setIsShown(false);
+      setSecret(null);
+      return;
+    }
+    if ((await loadSecret()) !== null) {
+      setIsShown(true);
+    }
+  };
+
+  const copySecret = async () => {
+    const value = await loadSecret();
+    if (value !== null) {
+      await copyToClipboard(value, 'Password copied to clipboard');
+      if (!isShown) setSecret(null);
+    }
+  };
+
+  return { secret, isShown, toggleShow, copySecret };
+}
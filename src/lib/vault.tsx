@@ -0,0 +1,70 @@
+import { useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import {
+  isVaultUnlocked,
+  isVaultInitialized,
+  unlockVault,
+  initializeVault,
+  lockVault,
+  touchVault,
+  onVaultLockChange
+} from './credentialVault';
+import { VaultContext } from './useVault';
+import VaultUnlockModal from '../components/VaultUnlockModal';
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+
+export function VaultProvider({ children }: { children: ReactNode }) {
+  const [isUnlocked, setIsUnlocked] = useState(isVaultUnlocked());
+  const [prompt, setPrompt] = useState<{ isSetup: boolean } | null>(null);
+  const pendingResolvers = useRef<((unlocked: boolean) => void)[]>([]);
+
+  useEffect(() => onVaultLockChange(setIsUnlocked), []);
+
+  // Any user activity keeps an unlocked vault open
+  useEffect(() => {
+    if (!isUnlocked) return;
+
+    const handleActivity = () => touchVault();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [isUnlocked]);
+
+  const settle = (unlocked: boolean) => {
+    pendingResolvers.current.forEach(resolve => resolve(unlocked));
+    pendingResolvers.current = [];
+    setPrompt(null);
+  };
+
+  const requestUnlock = useCallback(async () => {
+    if (isVaultUnlocked()) return true;
+
+    const initialized = await isVaultInitialized();
+    return new Promise<boolean>(resolve => {
+      pendingResolvers.current.push(resolve);
+      setPrompt({ isSetup: !initialized });
+    });
+  }, []);
+
+  const handleSubmit = async (passphrase: string) => {
+    if (prompt?.isSetup) {
+      await initializeVault(passphrase);
+    } else {
+      await unlockVault(passphrase);
+    }
+    settle(true);
+  };
+
+  return (
+    <VaultContext.Provider value={{ isUnlocked, requestUnlock, lock: lockVault }}>
+      {children}
+      <VaultUnlockModal
+        open={prompt !== null}
+        isSetup={prompt?.isSetup ?? false}
+        onSubmit={handleSubmit}
+        onCancel={() => settle(false)}
+      />
+    </VaultContext.Provider>
+  );
+}
@@ -0,0 +1,168 @@
+import { supabase } from './supabase';
+import { recordAudit } from './auditLog';
+import { toast } from './toast';
+import { getNowISOInTunisia } from './dateUtils';
+import { subscriptionService } from './subscriptionService';
+import { getStrategyForDuration } from './subscriptionUtils';
+import { getResourcePool, getAvailableSeatsInPool, linkSubscriptionToPool } from './inventory';
+import type { CreateWaitlistEntryData, WaitlistAssignment, WaitlistEntry, WaitlistPriority } from '../types/waitlist';
+
+export const WAITLIST_PRIORITY_LABELS: Record<WaitlistPriority, string> = {
+  1: 'High',
+  2: 'Normal',
+  3: 'Low',
+};
+
+const WAITLIST_COLUMNS = '*, clients(name), services(product_service, duration)';
+
+export const waitlistDb = {
+  // Waiting entries first, each provider queue in assignment order
+  async list(status: WaitlistEntry['status'] | 'all' = 'waiting') {
+    let query = supabase
+      .from('seat_waitlist')
+      .select(WAITLIST_COLUMNS)
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true });
+    if (status !== 'all') query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data as WaitlistEntry[];
+  },
+
+  async add(entry: CreateWaitlistEntryData) {
+    const { data, error } = await supabase
+      .from('seat_waitlist')
+      .insert({
+        ...entry,
+        seat_email: entry.seat_email || null,
+        notes: entry.notes || null,
+      })
+      .select(WAITLIST_COLUMNS)
+      .single();
+    if (error) throw error;
+    await recordAudit('waitlist', 'created', data.id, {
+      clientId: entry.client_id,
+      provider: entry.provider,
+      priority: entry.priority,
+    });
+    return data as WaitlistEntry;
+  },
+
+  async updatePriority(id: string, priority: WaitlistPriority) {
+    const { data, error } = await supabase
+      .from('seat_waitlist')
+      .update({ priority, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(WAITLIST_COLUMNS)
+      .single();
+    if (error) throw error;
+    await recordAudit('waitlist', 'priority_changed', id, { priority });
+    return data as WaitlistEntry;
+  },
+
+  async cancel(id: string) {
+    const { error } = await supabase
+      .from('seat_waitlist')
+      .update({ status: 'canceled', updated_at: new Date().toISOString() })
+      .eq('id', id);
+    if (error) throw error;
+    await recordAudit('waitlist', 'canceled', id);
+  },
+
+  async remove(id: string) {
+    const { error } = await supabase
+      .from('seat_waitlist')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+    await recordAudit('waitlist', 'deleted', id);
+  }
+};
+
+/**
+ * Hand the free seats of a pool to the clients waiting for its provider,
+ * highest priority first and oldest first within a priority. Each assignment
+ * creates the client's subscription, renewing on the waitlisted service's
+ * duration, and links it to the pool. Pools that are dead, not active or
+ * already expired are left alone.
+ */
+export async function fillWaitlistForPool(poolId: string): Promise<WaitlistAssignment[]> {
+  const { data: pool, error: poolError } = await getResourcePool(poolId);
+  if (poolError || !pool) return [];
+  if (!pool.is_alive || pool.status !== 'active' || new Date(pool.end_at) <= new Date()) return [];
+
+  const { data: freeSeats, error: seatsError } = await getAvailableSeatsInPool(poolId);
+  if (seatsError || !freeSeats || freeSeats.length === 0) return [];
+
+  const { data: waiting, error: waitingError } = await supabase
+    .from('seat_waitlist')
+    .select(WAITLIST_COLUMNS)
+    .eq('status', 'waiting')
+    .eq('provider', pool.provider)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true })
+    .limit(freeSeats.length);
+  if (waitingError) throw waitingError;
+
+  const assignments: WaitlistAssignment[] = [];
+  for (const entry of (waiting || []) as WaitlistEntry[]) {
+    const subscription = await subscriptionService.createManual(entry.service_id, entry.client_id, {
+      ...getStrategyForDuration(entry.services?.duration || '1 month'),
+      startedAt: getNowISOInTunisia(),
+      notes: entry.notes ? `Assigned from waitlist: ${entry.notes}` : 'Assigned from waitlist',
+      targetEndAt: undefined,
+      // Lets inventory operators create and roll back this subscription
+      waitlistEntryId: entry.id,
+    });
+
+    const { error: linkError } = await linkSubscriptionToPool(subscription.id, poolId, undefined, {
+      email: entry.seat_email || undefined,
+      clientId: entry.client_id,
+      subscriptionId: subscription.id,
+    });
+    if (linkError) {
+      // The pool filled up under us; keep the entry waiting for the next opening
+      console.error('Error linking waitlisted client to pool:', linkError);
+      await subscriptionService.delete(subscription.id);
+      break;
+    }
+
+    const { error: updateError } = await supabase
+      .from('seat_waitlist')
+      .update({
+        status: 'assigned',
+        assigned_subscription_id: subscription.id,
+        assigned_pool_id: poolId,
+        assigned_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', entry.id);
+    if (updateError) throw updateError;
+
+    await recordAudit('waitlist', 'assigned', entry.id, { poolId, subscriptionId: subscription.id });
+    assignments.push({
+      entryId: entry.id,
+      clientName: entry.clients?.name || 'Client',
+      poolId,
+      subscriptionId: subscription.id,
+    });
+  }
+
+  return assignments;
+}
+
+// Called whenever a pool gains capacity; a waitlist failure never fails the inventory change
+export async function offerFreeSeatsToWaitlist(poolId: string): Promise<WaitlistAssignment[]> {
+  try {
+    const assignments = await fillWaitlistForPool(poolId);
+    if (assignments.length > 0) {
+      const names = assignments.map(a => a.clientName).join(', ');
+      toast.show(`Assigned from waitlist: ${names}`, { type: 'success' });
+    }
+    return assignments;
+  } catch (error) {
+    console.warn('Failed to assign waitlisted clients for pool', poolId, error);
+    return [];
+  }
+}
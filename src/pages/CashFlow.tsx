@@ -1,7 +1,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Plus, RefreshCw, TrendingUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
 import { cashFlowService } from '../lib/cashFlowService';
+import { useAuth } from '../lib/useAuth';
+import { hasPermission } from '../lib/operators';
 import {
     MoneyPoolWithStatus,
     TodaysNumbers as TodaysNumbersType,
@@ -20,6 +23,7 @@ import UpcomingMoney from '../components/UpcomingMoney';
 import TransferMoneyModal from '../components/TransferMoneyModal';
 import AddAdSpendModal from '../components/AddAdSpendModal';
 import AddPayoutModal from '../components/AddPayoutModal';
+import PaymentMethodsEditor from '../components/PaymentMethodsEditor';
 
 // Default data for when database tables don't exist yet
 const defaultPools: MoneyPoolWithStatus[] = [
@@ -30,6 +34,8 @@ const defaultPools: MoneyPoolWithStatus[] = [
 
 const defaultTodaysNumbers: TodaysNumbersType = {
     revenue: 0,
+    refunds: 0,
+    outstanding: 0,
     salesCount: 0,
     adSpend: 0,
     cogs: 0,
@@ -58,6 +64,7 @@ const defaultDecisionZone: DecisionZoneType = {
 };
 
 export default function CashFlow() {
+    const { role } = useAuth();
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [refreshKey, setRefreshKey] = useState(0);
@@ -220,6 +227,13 @@ export default function CashFlow() {
             {/* Section 5: Upcoming Money */}
             <UpcomingMoney items={upcomingMoney} />
 
+            {/* Section 6: Where payments land and what they cost */}
+            <Card>
+                <CardContent className="p-6">
+                    <PaymentMethodsEditor canManage={hasPermission(role, 'manage_cash_flow')} pools={pools} />
+                </CardContent>
+            </Card>
+
             {/* Modals */}
             {showTransferModal && (
                 <TransferMoneyModal
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { Clock, Package, AlertTriangle } from 'lucide-react';
+import { clientsDb } from '../lib/clients';
+import { computeRenewalProgress } from '../lib/subscriptionStrategies';
+import { formatDate, formatRenewalCountdown, formatServiceTitleWithDuration, getStatusBadge, getProgressBarColor } from '../lib/subscriptionUtils';
+import type { PublicClientStatus, PublicSubscriptionStatus } from '../types/client';
+import type { Subscription } from '../types/subscription';
+
+// Adapt the public payload to the Subscription shape used by the strategy helpers
+const toSubscription = (sub: PublicSubscriptionStatus): Subscription => ({
+  id: sub.id,
+  serviceId: '',
+  clientId: '',
+  startedAt: sub.started_at,
+  currentCycleStartAt: sub.current_cycle_start_at,
+  nextRenewalAt: sub.next_renewal_at || undefined,
+  customNextRenewalAt: sub.custom_next_renewal_at || undefined,
+  targetEndAt: sub.target_end_at || undefined,
+  pausedAt: sub.paused_at || undefined,
+  iterationsDone: sub.iterations_done || 0,
+  cyclePausedMs: sub.cycle_paused_ms || 0,
+  strategy: sub.strategy as Subscription['strategy'],
+  intervalDays: sub.interval_days || undefined,
+  renewalDay: sub.renewal_day || undefined,
+  status: sub.status as Subscription['status'],
+  createdAt: sub.started_at,
+  updatedAt: sub.started_at
+});
+
+function SubscriptionStatusCard({ sub }: { sub: PublicSubscriptionStatus }) {
+  const subscription = toSubscription(sub);
+  const progress = computeRenewalProgress(subscription);
+  const badge = getStatusBadge(subscription.status);
+
+  return (
+    <div className="bg-card/50 border border-border/50 rounded-2xl p-4 space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-lg overflow-hidden bg-secondary flex items-center justify-center border border-border flex-shrink-0">
+          {sub.logo_url ? (
+            <img src={sub.logo_url} alt={`${sub.service_name} logo`} className="w-full h-full object-cover" loading="lazy" />
+          ) : (
+            <Package className="w-5 h-5 text-muted-foreground" />
+          )}
+        </div>
+        <div className="min-w-0 flex-1">
+          <h2 className="text-base font-semibold text-white truncate">
+            {formatServiceTitleWithDuration(sub.service_name, sub.service_duration || '1 month')}
+          </h2>
+          {sub.next_renewal_at && (
+            <p className="text-sm text-muted-foreground">
+              Next renewal: {formatDate(sub.next_renewal_at)}
+            </p>
+          )}
+        </div>
+        <span className={`px-3 py-1 rounded-full text-xs font-medium ${badge.bgColor} ${badge.color}`}>
+          {badge.text}
+        </span>
+      </div>
+
+      {sub.next_renewal_at && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {subscription.status === 'paused' ? 'Paused' : formatRenewalCountdown(progress.msLeft)}
+            </span>
+            <span>{Math.round(progress.pct)}%</span>
+          </div>
+          <div className="w-full h-2 bg-secondary rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all ${getProgressBarColor(progress.pct)}`}
+              style={{ width: `${progress.pct}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {sub.target_end_at && (
+        <p className="text-xs text-muted-foreground">
+          Subscription ends: {formatDate(sub.target_end_at)}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function ClientStatus() {
+  const { token } = useParams<{ token: string }>();
+  const [status, setStatus] = useState<PublicClientStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      if (!token) {
+        setError('This link is invalid.');
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const data = await clientsDb.getPublicStatus(token);
+        if (!data) {
+          setError('This link is invalid or has been revoked.');
+        } else {
+          setStatus(data);
+        }
+      } catch (fetchError) {
+        console.error('Error loading client status:', fetchError);
+        setError('Could not load your subscriptions. Please try again later.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStatus();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-black">
+        <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-foreground px-4 py-10">
+      <div className="max-w-xl mx-auto space-y-6">
+        <div className="text-center">
+          <p className="text-sm text-muted-foreground">Upgrade TN</p>
+          <h1 className="text-2xl font-bold text-white mt-1">
+            {status ? `Hi ${status.client_name}` : 'Subscription Status'}
+          </h1>
+        </div>
+
+        {error ? (
+          <div className="bg-card/50 border border-border/50 rounded-2xl p-6 text-center">
+            <AlertTriangle className="w-8 h-8 text-yellow-500 mx-auto mb-3" />
+            <p className="text-muted-foreground">{error}</p>
+          </div>
+        ) : status && status.subscriptions.length === 0 ? (
+          <div className="bg-card/50 border border-border/50 rounded-2xl p-6 text-center">
+            <Package className="w-8 h-8 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">You have no active subscriptions.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {status?.subscriptions.map(sub => (
+              <SubscriptionStatusCard key={sub.id} sub={sub} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { clientsDb } from '../lib/clients';
 import { supabase } from '../lib/supabase';
 import type { Client, ClientStatistics } from '../types/client';
 import ClientModal from '../components/ClientModal';
+import ReceivablesSection from '../components/ReceivablesSection';
 import SearchableDropdown from '../components/SearchableDropdown';
 import { useCurrency } from '../lib/currency';
 
@@ -331,6 +332,9 @@ export default function Clients() {
         </Card>
       )}
 
+      {/* Unpaid sales by client and age */}
+      <ReceivablesSection onPaymentRecorded={loadClients} />
+
       {/* Clients Table */}
       <Card>
         <div className="overflow-x-auto">
@@ -342,6 +346,7 @@ export default function Clients() {
                 <TableHead>Contact</TableHead>
                 <TableHead>Source</TableHead>
                 <TableHead>Total Spent</TableHead>
+                <TableHead>Credit</TableHead>
                 <TableHead>Services Bought</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
@@ -349,7 +354,7 @@ export default function Clients() {
             <TableBody>
               {loading ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center py-12 text-muted-foreground">
+                  <TableCell colSpan={8} className="text-center py-12 text-muted-foreground">
                     <div className="flex items-center justify-center">
                       <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-foreground mr-3"></div>
                       Loading clients...
@@ -358,7 +363,7 @@ export default function Clients() {
                 </TableRow>
               ) : filteredClients.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center py-12 text-muted-foreground">
+                  <TableCell colSpan={8} className="text-center py-12 text-muted-foreground">
                     {searchTerm ? (
                       <div>
                         <p className="text-lg mb-2">No clients found matching "{searchTerm}"</p>
@@ -410,6 +415,14 @@ export default function Clients() {
                     </TableCell>
                     <TableCell className="text-foreground font-medium">
                       ${client.total_spent?.toFixed(2) || '0.00'}
+                      {!!client.total_refunded && (
+                        <div className="text-xs text-muted-foreground font-normal">
+                          ${client.total_refunded.toFixed(2)} refunded
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className={(client.credit_balance || 0) < 0 ? 'text-red-400' : 'text-muted-foreground'}>
+                      {client.credit_balance ? formatCurrency(client.credit_balance) : '-'}
                     </TableCell>
                     <TableCell className="text-muted-foreground">
                       <div className="max-w-xs">
@@ -470,6 +483,10 @@ export default function Clients() {
         }}
         onSave={handleSaveClient}
         initialData={selectedClient}
+        onClientUpdated={(updated) => {
+          setClients(prev => prev.map(client => client.id === updated.id ? { ...client, ...updated } : client));
+          setSelectedClient(updated);
+        }}
       />
     </div>
   );
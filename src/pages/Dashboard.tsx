@@ -6,6 +6,8 @@ import { toast } from '../lib/toast';
 import { getNowInTunisia } from '../lib/dateUtils';
 import { useCurrency } from '../lib/currency';
 import { subscriptionService } from '../lib/subscriptionService';
+import { refundsDb, sumRefunds } from '../lib/refunds';
+import type { TransactionRefund } from '../types/refund';
 import { Subscription } from '../types/subscription';
 import { generateCashFlowForecast, calculateCurrentCashPosition } from '../lib/cashFlowForecast';
 import { Link } from 'react-router-dom';
@@ -19,6 +21,7 @@ import { Badge } from '@/components/ui/badge';
 export default function Dashboard() {
   const { formatCurrency } = useCurrency();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [refunds, setRefunds] = useState<TransactionRefund[]>([]);
   const [services, setServices] = useState<Service[]>([]);
   const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
   const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
@@ -62,7 +65,7 @@ export default function Dashboard() {
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
       const thirtyDaysAgoStr = thirtyDaysAgo.toISOString().split('T')[0];
 
-      const [transactionsResult, servicesResult, subscriptionsData, clientsResult] = await Promise.all([
+      const [transactionsResult, servicesResult, subscriptionsData, clientsResult, refundsData] = await Promise.all([
         supabase
           .from('transactions')
           .select(`
@@ -82,7 +85,8 @@ export default function Dashboard() {
         subscriptionService.listSubscriptions(),
         supabase
           .from('clients')
-          .select('id, name')
+          .select('id, name'),
+        refundsDb.getBetween(thirtyDaysAgoStr, new Date().toISOString().split('T')[0])
       ]);
 
       if (transactionsResult.error) throw transactionsResult.error;
@@ -93,6 +97,7 @@ export default function Dashboard() {
       setServices(servicesResult.data || []);
       setSubscriptions(subscriptionsData || []);
       setClients(clientsResult.data || []);
+      setRefunds(refundsData);
     } catch (error) {
       console.error('Error fetching data:', error);
       toast.show('Failed to load data', { type: 'error' });
@@ -268,26 +273,29 @@ export default function Dashboard() {
 
   // Calculate profits for current and previous periods - memoized
   const calculatePeriodStats = useCallback((transactions: Transaction[], range: { start: string; end: string }) => {
-    const periodTransactions = transactions.filter(t => {
+    const isInRange = (date: string) => {
       // Ensure we're comparing dates in the same format (YYYY-MM-DD)
-      const transactionDate = t.date.split('T')[0]; // Handle both date and datetime formats
+      const day = date.split('T')[0]; // Handle both date and datetime formats
 
       // For single day comparison, check exact date match
       if (range.start === range.end) {
-        return transactionDate === range.start;
+        return day === range.start;
       }
 
       // For date ranges, use standard comparison
-      return transactionDate >= range.start && transactionDate <= range.end;
-    });
+      return day >= range.start && day <= range.end;
+    };
+    const periodTransactions = transactions.filter(t => isInRange(t.date));
+    // Refunds come off the period they were paid back in
+    const periodRefunds = sumRefunds(refunds.filter(r => isInRange(r.date)));
 
     return {
-      profit: periodTransactions.reduce((sum, t) => sum + (t.selling_price - t.cost_at_sale), 0),
-      revenue: periodTransactions.reduce((sum, t) => sum + t.selling_price, 0),
+      profit: periodTransactions.reduce((sum, t) => sum + (t.selling_price - t.cost_at_sale), 0) - periodRefunds,
+      revenue: periodTransactions.reduce((sum, t) => sum + t.selling_price, 0) - periodRefunds,
       count: periodTransactions.length,
       transactions: periodTransactions
     };
-  }, []);
+  }, [refunds]);
 
   const currentStats = useMemo(() => calculatePeriodStats(transactions, currentRange), [transactions, currentRange, calculatePeriodStats]);
   const previousStats = useMemo(() => calculatePeriodStats(transactions, previousRange), [transactions, previousRange, calculatePeriodStats]);
@@ -420,13 +428,14 @@ export default function Dashboard() {
     return generateCashFlowForecast(transactions, subscriptions, services, clients, {
       days: 7,
       includeOneTimeSales: true,
-      optimismFactor: 1.0
+      optimismFactor: 1.0,
+      refunds
     });
-  }, [transactions, subscriptions, services, clients]);
+  }, [transactions, subscriptions, services, clients, refunds]);
 
   const currentCashPosition = useMemo(() =>
-    calculateCurrentCashPosition(transactions),
-    [transactions]
+    calculateCurrentCashPosition(transactions, refunds),
+    [transactions, refunds]
   );
 
   if (loading) {
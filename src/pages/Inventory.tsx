@@ -11,7 +11,8 @@ import {
   Archive,
   HelpCircle,
   User,
-  Keyboard
+  Keyboard,
+  Hourglass
 } from 'lucide-react';
 import { ResourcePool, PoolFilter, PersonalAccount } from '../types/inventory';
 import { listResourcePools, refreshPoolStatus, archiveResourcePool, updateResourcePool, deleteResourcePool, searchPoolsBySeatEmail, listPersonalAccounts, deletePersonalAccount, refreshPersonalAccountStatus } from '../lib/inventory';
@@ -22,16 +23,19 @@ import PoolEditModal from '../components/PoolEditModal';
 import { PersonalAccountCard } from '../components/PersonalAccountCard';
 import { PersonalAccountFormModal } from '../components/PersonalAccountFormModal';
 import SearchableDropdown from '../components/SearchableDropdown';
-import { SERVICE_PROVISIONING, PROVIDER_ICONS, POOL_TYPE_LABELS, STATUS_LABELS } from '../constants/provisioning';
+import WaitlistPanel from '../components/WaitlistPanel';
+import { POOL_TYPE_LABELS, STATUS_LABELS } from '../constants/provisioning';
 import { useKeyboardShortcuts, shouldIgnoreKeyboardEvent } from '../lib/useKeyboardShortcuts';
-import { getProviderLogo } from '../lib/fileUtils';
+import { useProviders } from '../lib/useProviders';
+import type { Provider } from '../types/provider';
 
 // shadcn/ui components
 import { Button } from '@/components/ui/button';
 
-type ViewMode = 'pools' | 'archive' | 'personal';
+type ViewMode = 'pools' | 'archive' | 'personal' | 'waitlist';
 
 export default function Inventory() {
+  const { providers, getProviderIcon, getProviderLogoUrl } = useProviders();
   const [viewMode, setViewMode] = useState<ViewMode>('personal');
   const [pools, setPools] = useState<ResourcePool[]>([]);
   const [filteredPools, setFilteredPools] = useState<ResourcePool[]>([]);
@@ -537,6 +541,14 @@ export default function Inventory() {
 
   const stats = getStats();
 
+  const toProviderOption = (provider: Provider) => {
+    const displayIcon = getProviderLogoUrl(provider.key) ? '🖼️' : getProviderIcon(provider.key);
+    return {
+      value: provider.key,
+      label: `${displayIcon} ${provider.display_name}`
+    };
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -559,22 +571,24 @@ export default function Inventory() {
           </p>
         </div>
         <div className="flex-shrink-0 flex gap-2">
-          <Button
-            onClick={() => {
-              if (viewMode === 'personal') {
-                setIsPersonalAccountModalOpen(true);
-              } else {
-                setIsModalOpen(true);
-              }
-            }}
-            title={viewMode === 'personal' ? 'Create new personal account' : 'Create new pool (N or C)'}
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            <span className="hidden xs:inline">
-              {viewMode === 'personal' ? 'Add Account' : 'New Pool'}
-            </span>
-            <span className="xs:hidden">New</span>
-          </Button>
+          {viewMode !== 'waitlist' && (
+            <Button
+              onClick={() => {
+                if (viewMode === 'personal') {
+                  setIsPersonalAccountModalOpen(true);
+                } else {
+                  setIsModalOpen(true);
+                }
+              }}
+              title={viewMode === 'personal' ? 'Create new personal account' : 'Create new pool (N or C)'}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              <span className="hidden xs:inline">
+                {viewMode === 'personal' ? 'Add Account' : 'New Pool'}
+              </span>
+              <span className="xs:hidden">New</span>
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -618,8 +632,20 @@ export default function Inventory() {
           <Archive className="w-4 h-4 inline mr-2" />
           Archive
         </button>
+        <button
+          onClick={() => setViewMode('waitlist')}
+          className={`flex-1 px-4 py-2 rounded-md text-sm font-medium transition-colors ${viewMode === 'waitlist'
+            ? 'bg-white text-black'
+            : 'text-muted-foreground hover:text-foreground hover:bg-secondary'
+            }`}
+        >
+          <Hourglass className="w-4 h-4 inline mr-2" />
+          Waitlist
+        </button>
       </div>
 
+      {viewMode === 'waitlist' && <WaitlistPanel />}
+
       {viewMode === 'pools' && (
         <>
           {/* Filter Toolbar */}
@@ -655,14 +681,7 @@ export default function Inventory() {
                   label="Provider"
                   options={[
                     { value: '', label: 'All providers' },
-                    ...Object.keys(SERVICE_PROVISIONING).map(provider => {
-                      const providerLogo = getProviderLogo(provider);
-                      const displayIcon = providerLogo ? '🖼️' : (PROVIDER_ICONS[provider] || '📦');
-                      return {
-                        value: provider,
-                        label: `${displayIcon} ${provider.charAt(0).toUpperCase() + provider.slice(1)}`
-                      };
-                    })
+                    ...providers.map(toProviderOption)
                   ]}
                   value={filters.provider || ''}
                   onChange={(value) => setFilters(prev => ({ ...prev, provider: value || undefined }))}
@@ -879,14 +898,7 @@ export default function Inventory() {
                   label="Provider"
                   options={[
                     { value: '', label: 'All providers' },
-                    ...Object.keys(SERVICE_PROVISIONING).map(provider => {
-                      const providerLogo = getProviderLogo(provider);
-                      const displayIcon = providerLogo ? '🖼️' : (PROVIDER_ICONS[provider] || '📦');
-                      return {
-                        value: provider,
-                        label: `${displayIcon} ${provider.charAt(0).toUpperCase() + provider.slice(1)}`
-                      };
-                    })
+                    ...providers.map(toProviderOption)
                   ]}
                   value={archiveFilters.provider || ''}
                   onChange={(value) => setArchiveFilters(prev => ({ ...prev, provider: value || undefined }))}
@@ -1060,14 +1072,7 @@ export default function Inventory() {
                   label="Provider"
                   options={[
                     { value: '', label: 'All providers' },
-                    ...Object.keys(SERVICE_PROVISIONING).filter(p => SERVICE_PROVISIONING[p] !== null).map(provider => {
-                      const providerLogo = getProviderLogo(provider);
-                      const displayIcon = providerLogo ? '🖼️' : (PROVIDER_ICONS[provider] || '📦');
-                      return {
-                        value: provider,
-                        label: `${displayIcon} ${provider.charAt(0).toUpperCase() + provider.slice(1)}`
-                      };
-                    })
+                    ...providers.filter(provider => provider.pool_type).map(toProviderOption)
                   ]}
                   value={personalAccountFilters.provider || ''}
                   onChange={(value) => setPersonalAccountFilters(prev => ({ ...prev, provider: value || undefined }))}
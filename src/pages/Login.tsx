@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { LogIn, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../lib/useAuth';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+export default function Login() {
+  const { session, sessionExpired, signIn } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const redirectTo = (location.state as { from?: string } | null)?.from || '/';
+
+  if (session) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await signIn(email.trim(), password);
+      navigate(redirectTo, { replace: true });
+    } catch (signInError) {
+      console.error('Error signing in:', signInError);
+      setError((signInError as Error).message || 'Failed to sign in');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center px-4">
+      <div className="w-full max-w-sm space-y-6">
+        <div className="text-center">
+          <img src="/upgrade-tn-logo.png" alt="Upgrade TN" className="h-14 w-14 mx-auto mb-3 object-contain" />
+          <h1 className="text-2xl font-bold text-white">Upgrade TN</h1>
+          <p className="text-sm text-muted-foreground mt-1">Sign in to the dashboard</p>
+        </div>
+
+        {sessionExpired && (
+          <div className="flex items-start gap-2 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-400">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>Your session has expired. Please sign in again.</span>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-card border border-border rounded-2xl p-6 space-y-4">
+          <div>
+            <Label htmlFor="login-email" className="text-muted-foreground">Email</Label>
+            <Input
+              id="login-email"
+              type="email"
+              autoComplete="email"
+              autoFocus
+              required
+              className="mt-2"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="login-password" className="text-muted-foreground">Password</Label>
+            <Input
+              id="login-password"
+              type="password"
+              autoComplete="current-password"
+              required
+              className="mt-2"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+            />
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <Button type="submit" className="w-full" disabled={isSubmitting || !email || !password}>
+            <LogIn className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Signing in...' : 'Sign in'}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
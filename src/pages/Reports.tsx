@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { BarChart3, TrendingUp, DollarSign, Users, Package, Download, Target, AlertTriangle, TrendingDown, Archive, Clock } from 'lucide-react';
+import { BarChart3, TrendingUp, DollarSign, Users, Package, Download, Target, AlertTriangle, TrendingDown, Archive, Clock, Truck, ShoppingCart, Percent, Tags, Wallet } from 'lucide-react';
 import { supabase, Transaction, Service } from '../lib/supabase';
 import type { Client } from '../types/client';
 import { clientsDb } from '../lib/clients';
@@ -7,6 +7,14 @@ import SearchableDropdown from '../components/SearchableDropdown';
 import { listResourcePools } from '../lib/inventory';
 import { ResourcePool } from '../types/inventory';
 import { useCurrency } from '../lib/currency';
+import { getPoolsProfitability, PoolProfitability } from '../lib/poolProfitability';
+import { servicePriceHistoryDb, getMarginPercent } from '../lib/servicePriceHistory';
+import type { ServicePriceChange } from '../types/priceHistory';
+import { refundsDb, sumRefunds } from '../lib/refunds';
+import type { TransactionRefund } from '../types/refund';
+import { RETAIL_PRICE_LIST_LABEL } from '../constants/priceLists';
+import { getOutstanding, getAmountCollected } from '../lib/receivables';
+import { UNSPECIFIED_PAYMENT_METHOD_LABEL } from '../constants/payments';
 
 // shadcn/ui components
 import { Button } from '@/components/ui/button';
@@ -41,7 +49,13 @@ ChartJS.register(
 );
 
 interface ReportData {
+  // Revenue and profit are net of refunds paid back in the period
   totalRevenue: number;
+  totalRefunds: number;
+  // Revenue is accrual; this much of it hasn't been collected yet
+  totalOutstanding: number;
+  // Taken by payment methods; profit is after these
+  totalPaymentFees: number;
   totalProfit: number;
   totalTransactions: number;
   totalClients: number;
@@ -50,12 +64,28 @@ interface ReportData {
   averageTransactionValue: number;
   topServices: Array<{ name: string; revenue: number; profit: number; count: number }>;
   monthlyData: Array<{ month: string; revenue: number; profit: number; transactions: number }>;
+  // Margin per month next to the service price changes made that month
+  marginTrend: Array<{ month: string; margin: number | null; priceChanges: ServicePriceChange[] }>;
   serviceCategoryData: Array<{ category: string; count: number; revenue: number; profit: number }>;
   clientTypeData: Array<{ type: string; count: number; totalSpent: number }>;
   topClients: Array<{ name: string; totalSpent: number; transactions: number; type: string }>;
   serviceDurationData: Array<{ duration: string; count: number; revenue: number }>;
   profitTrends: { trend: 'up' | 'down' | 'stable'; percentage: number; period: string };
   lowProfitServices: Array<{ name: string; revenue: number; profit: number; margin: number }>;
+  // Sales grouped by the supplier that filled them, biggest spend first
+  supplierData: Array<{ name: string; count: number; spend: number; revenue: number; profit: number; margin: number }>;
+  // Sales grouped by the price list they were priced from, biggest revenue first
+  priceListData: Array<{ name: string; count: number; revenue: number; cost: number; profit: number; margin: number }>;
+  // Money collected grouped by how it was paid, biggest volume first
+  paymentMethodData: Array<{ name: string; count: number; volume: number; fees: number; net: number; feeRate: number }>;
+  // Order-level totals; sales recorded before orders existed (and renewals) aren't counted
+  orderData: {
+    totalOrders: number;
+    multiItemOrders: number;
+    averageOrderValue: number;
+    averageItemsPerOrder: number;
+    totalDiscounts: number;
+  };
   // Inventory data
   inventoryData: {
     totalPools: number;
@@ -66,11 +96,13 @@ interface ReportData {
     utilizationRate: number;
     poolsByProvider: Array<{ provider: string; count: number; seats: number }>;
     expiringPools: Array<{ provider: string; login_email: string; end_at: string; daysLeft: number }>;
+    // Pools with a purchase cost, best margin first
+    poolProfitability: Array<PoolProfitability & { provider: string; login_email: string; maxSeats: number }>;
   };
 }
 
 export default function Reports() {
-  const { formatCurrency } = useCurrency();
+  const { formatCurrency, exchangeRate } = useCurrency();
   const [reportData, setReportData] = useState<ReportData | null>(null);
   const [loading, setLoading] = useState(true);
   const [period, setPeriod] = useState<'month' | 'quarter' | 'year'>('month');
@@ -80,7 +112,7 @@ export default function Reports() {
   const [showLowProfitAlert, setShowLowProfitAlert] = useState(false);
 
   // Helper functions defined first
-  const getMonthlyData = useCallback((transactions: Transaction[]) => {
+  const getMonthlyData = useCallback((transactions: Transaction[], refunds: TransactionRefund[]) => {
     const months = [];
     const now = new Date();
 
@@ -96,8 +128,13 @@ export default function Reports() {
         return monthYear === month;
       });
 
-      const revenue = monthTransactions.reduce((sum, t) => sum + (t.selling_price || 0), 0);
-      const profit = monthTransactions.reduce((sum, t) => sum + ((t.selling_price || 0) - (t.cost_at_sale || 0)), 0);
+      const monthRefunds = sumRefunds(refunds.filter(r => {
+        const refundDate = new Date(r.date);
+        return refundDate.toLocaleDateString('en-US', { month: 'short', year: '2-digit' }) === month;
+      }));
+
+      const revenue = monthTransactions.reduce((sum, t) => sum + (t.selling_price || 0), 0) - monthRefunds;
+      const profit = monthTransactions.reduce((sum, t) => sum + ((t.selling_price || 0) - (t.cost_at_sale || 0)), 0) - monthRefunds;
 
       return {
         month,
@@ -139,12 +176,18 @@ export default function Reports() {
     transactions: Transaction[],
     services: Service[],
     clients: Client[],
-    pools: ResourcePool[]
+    pools: ResourcePool[],
+    profitabilityByPool: Map<string, PoolProfitability>,
+    priceChanges: ServicePriceChange[],
+    refunds: TransactionRefund[]
   ): ReportData => {
     // Calculate totals
-    const totalRevenue = transactions.reduce((sum, t) => sum + (t.selling_price || 0), 0);
+    const totalRefunds = sumRefunds(refunds);
+    const totalRevenue = transactions.reduce((sum, t) => sum + (t.selling_price || 0), 0) - totalRefunds;
+    const totalOutstanding = transactions.reduce((sum, t) => sum + getOutstanding(t), 0);
     const totalCost = transactions.reduce((sum, t) => sum + (t.cost_at_sale || 0), 0);
-    const totalProfit = totalRevenue - totalCost;
+    const totalPaymentFees = transactions.reduce((sum, t) => sum + (Number(t.payment_fee) || 0), 0);
+    const totalProfit = totalRevenue - totalCost - totalPaymentFees;
     const totalTransactions = transactions.length;
     const totalClients = clients.length;
     const totalServices = services.length;
@@ -163,13 +206,30 @@ export default function Reports() {
       });
     });
 
+    refunds.forEach(r => {
+      const serviceName = r.transactions?.services?.product_service || 'Unknown';
+      const existing = serviceRevenue.get(serviceName) || { revenue: 0, profit: 0, count: 0 };
+      serviceRevenue.set(serviceName, {
+        ...existing,
+        revenue: existing.revenue - Number(r.amount),
+        profit: existing.profit - Number(r.amount)
+      });
+    });
+
     const topServices = Array.from(serviceRevenue.entries())
       .map(([name, data]) => ({ name, ...data }))
       .sort((a, b) => b.revenue - a.revenue)
       .slice(0, 5);
 
     // Monthly data
-    const monthlyData = getMonthlyData(transactions);
+    const monthlyData = getMonthlyData(transactions, refunds);
+
+    const monthOf = (iso: string) => new Date(iso).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+    const marginTrend = monthlyData.map(m => ({
+      month: m.month,
+      margin: m.revenue > 0 ? (m.profit / m.revenue) * 100 : null,
+      priceChanges: priceChanges.filter(change => monthOf(change.changed_at) === m.month)
+    }));
 
     // Service category data with profit
     const categoryData = new Map<string, { count: number; revenue: number; profit: number }>();
@@ -192,7 +252,8 @@ export default function Reports() {
     clients.forEach(client => {
       const existing = clientTypeData.get(client.type) || { count: 0, totalSpent: 0 };
       const clientTransactions = transactions.filter(t => t.client_id === client.id);
-      const totalSpent = clientTransactions.reduce((sum, t) => sum + (t.selling_price || 0), 0);
+      const totalSpent = clientTransactions.reduce((sum, t) => sum + (t.selling_price || 0), 0)
+        - sumRefunds(refunds.filter(r => r.client_id === client.id));
 
       clientTypeData.set(client.type, {
         count: existing.count + 1,
@@ -207,7 +268,8 @@ export default function Reports() {
     const clientData = new Map<string, { name: string; totalSpent: number; transactions: number; type: string }>();
     clients.forEach(client => {
       const clientTransactions = transactions.filter(t => t.client_id === client.id);
-      const totalSpent = clientTransactions.reduce((sum, t) => sum + (t.selling_price || 0), 0);
+      const totalSpent = clientTransactions.reduce((sum, t) => sum + (t.selling_price || 0), 0)
+        - sumRefunds(refunds.filter(r => r.client_id === client.id));
 
       if (totalSpent > 0) {
         clientData.set(client.id, {
@@ -252,6 +314,87 @@ export default function Reports() {
       .sort((a, b) => a.margin - b.margin)
       .slice(0, 3);
 
+    // Spend and margin by supplier (sales only, expenses have no service)
+    const supplierTotals = new Map<string, { count: number; spend: number; revenue: number }>();
+    transactions.filter(t => t.service_id).forEach(t => {
+      const name = t.supplier?.name || 'No supplier';
+      const existing = supplierTotals.get(name) || { count: 0, spend: 0, revenue: 0 };
+      supplierTotals.set(name, {
+        count: existing.count + 1,
+        spend: existing.spend + (t.cost_at_sale || 0),
+        revenue: existing.revenue + (t.selling_price || 0)
+      });
+    });
+
+    const supplierData = Array.from(supplierTotals.entries())
+      .map(([name, data]) => ({
+        name,
+        ...data,
+        profit: data.revenue - data.spend,
+        margin: data.revenue > 0 ? ((data.revenue - data.spend) / data.revenue) * 100 : 0
+      }))
+      .sort((a, b) => b.spend - a.spend);
+
+    // Revenue and margin by price list (sales without one were charged retail)
+    const priceListTotals = new Map<string, { count: number; revenue: number; cost: number }>();
+    transactions.filter(t => t.service_id).forEach(t => {
+      const name = t.price_list?.name || RETAIL_PRICE_LIST_LABEL;
+      const existing = priceListTotals.get(name) || { count: 0, revenue: 0, cost: 0 };
+      priceListTotals.set(name, {
+        count: existing.count + 1,
+        revenue: existing.revenue + (t.selling_price || 0),
+        cost: existing.cost + (t.cost_at_sale || 0)
+      });
+    });
+
+    const priceListData = Array.from(priceListTotals.entries())
+      .map(([name, data]) => ({
+        name,
+        ...data,
+        profit: data.revenue - data.cost,
+        margin: data.revenue > 0 ? ((data.revenue - data.cost) / data.revenue) * 100 : 0
+      }))
+      .sort((a, b) => b.revenue - a.revenue);
+
+    // Volume and fees by payment method, over what was actually collected
+    const paymentMethodTotals = new Map<string, { count: number; volume: number; fees: number }>();
+    transactions.forEach(t => {
+      const collected = getAmountCollected(t);
+      if (collected <= 0) return;
+      const name = t.method?.name || UNSPECIFIED_PAYMENT_METHOD_LABEL;
+      const existing = paymentMethodTotals.get(name) || { count: 0, volume: 0, fees: 0 };
+      paymentMethodTotals.set(name, {
+        count: existing.count + 1,
+        volume: existing.volume + collected,
+        fees: existing.fees + (Number(t.payment_fee) || 0)
+      });
+    });
+
+    const paymentMethodData = Array.from(paymentMethodTotals.entries())
+      .map(([name, data]) => ({
+        name,
+        ...data,
+        net: data.volume - data.fees,
+        feeRate: data.volume > 0 ? (data.fees / data.volume) * 100 : 0
+      }))
+      .sort((a, b) => b.volume - a.volume);
+
+    // Order totals from the lines of each order
+    const orderTotals = new Map<string, { items: number; total: number }>();
+    transactions.forEach(t => {
+      if (!t.order_id) return;
+      const existing = orderTotals.get(t.order_id) || { items: 0, total: 0 };
+      orderTotals.set(t.order_id, { items: existing.items + 1, total: existing.total + (t.selling_price || 0) });
+    });
+    const orders = Array.from(orderTotals.values());
+    const orderData = {
+      totalOrders: orders.length,
+      multiItemOrders: orders.filter(o => o.items > 1).length,
+      averageOrderValue: orders.length > 0 ? orders.reduce((sum, o) => sum + o.total, 0) / orders.length : 0,
+      averageItemsPerOrder: orders.length > 0 ? orders.reduce((sum, o) => sum + o.items, 0) / orders.length : 0,
+      totalDiscounts: transactions.reduce((sum, t) => sum + (t.discount_amount || 0), 0)
+    };
+
     // Process inventory data
     const now = new Date();
     const threeDaysFromNow = new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000);
@@ -300,8 +443,22 @@ export default function Reports() {
       })
       .sort((a, b) => a.daysLeft - b.daysLeft);
 
+    // Pool profitability (only pools whose purchase cost is known)
+    const poolProfitability = pools
+      .filter(pool => (profitabilityByPool.get(pool.id)?.cost ?? null) !== null)
+      .map(pool => ({
+        ...(profitabilityByPool.get(pool.id) as PoolProfitability),
+        provider: pool.provider,
+        login_email: pool.login_email,
+        maxSeats: pool.max_seats
+      }))
+      .sort((a, b) => (b.margin ?? 0) - (a.margin ?? 0));
+
     return {
       totalRevenue,
+      totalRefunds,
+      totalOutstanding,
+      totalPaymentFees,
       totalProfit,
       totalTransactions,
       totalClients,
@@ -310,12 +467,17 @@ export default function Reports() {
       averageTransactionValue,
       topServices,
       monthlyData,
+      marginTrend,
       serviceCategoryData,
       clientTypeData: clientTypeDataArray,
       topClients,
       serviceDurationData,
       profitTrends,
       lowProfitServices,
+      supplierData,
+      priceListData,
+      paymentMethodData,
+      orderData,
       inventoryData: {
         totalPools,
         activePools,
@@ -324,7 +486,8 @@ export default function Reports() {
         usedSeats,
         utilizationRate,
         poolsByProvider: poolsByProviderArray,
-        expiringPools
+        expiringPools,
+        poolProfitability
       }
     };
   }, [getMonthlyData, analyzeProfitTrends]);
@@ -358,7 +521,12 @@ export default function Reports() {
       // Get date range based on period
       const { from, to } = getDateRange();
 
-      const [transactionsResult, servicesResult, clientsResult, poolsResult] = await Promise.all([
+      // The monthly charts always cover the last 12 months
+      const trendStart = new Date();
+      trendStart.setMonth(trendStart.getMonth() - 11, 1);
+      trendStart.setHours(0, 0, 0, 0);
+
+      const [transactionsResult, servicesResult, clientsResult, poolsResult, priceChanges, refunds] = await Promise.all([
         supabase
           .from('transactions')
           .select(`
@@ -373,6 +541,18 @@ export default function Reports() {
               id,
               name,
               type
+            ),
+            supplier:suppliers (
+              id,
+              name
+            ),
+            price_list:price_lists (
+              id,
+              name
+            ),
+            method:payment_methods (
+              key,
+              name
             )
           `)
           .gte('date', from)
@@ -383,7 +563,12 @@ export default function Reports() {
           .select('*')
           .order('product_service'),
         clientsDb.getAll(),
-        listResourcePools()
+        listResourcePools(),
+        servicePriceHistoryDb.getChangesSince(trendStart.toISOString()).catch(error => {
+          console.error('Error loading price history:', error);
+          return [] as ServicePriceChange[];
+        }),
+        refundsDb.getBetween(from, to)
       ]);
 
       if (transactionsResult.error) throw transactionsResult.error;
@@ -394,13 +579,17 @@ export default function Reports() {
       const servicesData = servicesResult.data || [];
       const clientsData = clientsResult || [];
       const poolsData = poolsResult.data || [];
+      const profitabilityByPool = await getPoolsProfitability(poolsData, exchangeRate).catch(error => {
+        console.error('Error computing pool profitability:', error);
+        return new Map<string, PoolProfitability>();
+      });
 
       setTransactions(transactionsData);
       setServices(servicesData);
       setClients(clientsData);
 
       // Process data for reports - memoized
-      const processedData = processReportData(transactionsData, servicesData, clientsData, poolsData);
+      const processedData = processReportData(transactionsData, servicesData, clientsData, poolsData, profitabilityByPool, priceChanges, refunds);
       setReportData(processedData);
 
       // Check for low profit margin alerts
@@ -412,7 +601,7 @@ export default function Reports() {
     } finally {
       setLoading(false);
     }
-  }, [getDateRange, processReportData]);
+  }, [getDateRange, processReportData, exchangeRate]);
 
   useEffect(() => {
     fetchData();
@@ -424,18 +613,34 @@ export default function Reports() {
     const csvContent = [
       ['Metric', 'Value'],
       ['Total Revenue', formatCurrency(reportData.totalRevenue)],
+      ['Total Refunds', formatCurrency(reportData.totalRefunds)],
+      ['Not Yet Collected', formatCurrency(reportData.totalOutstanding)],
+      ['Payment Fees', formatCurrency(reportData.totalPaymentFees)],
       ['Total Profit', formatCurrency(reportData.totalProfit)],
       ['Total Transactions', reportData.totalTransactions],
       ['Total Clients', reportData.totalClients],
       ['Total Services', reportData.totalServices],
       ['Average Profit Margin', `${reportData.averageProfitMargin.toFixed(2)}%`],
       ['Average Transaction Value', formatCurrency(reportData.averageTransactionValue)],
+      ['Orders', reportData.orderData.totalOrders],
+      ['Multi-item Orders', reportData.orderData.multiItemOrders],
+      ['Average Order Value', formatCurrency(reportData.orderData.averageOrderValue)],
+      ['Discounts Given', formatCurrency(reportData.orderData.totalDiscounts)],
       [''],
       ['Top Services', 'Revenue', 'Profit', 'Count'],
       ...reportData.topServices.map(s => [s.name, formatCurrency(s.revenue), formatCurrency(s.profit), s.count]),
       [''],
       ['Top Clients', 'Total Spent', 'Transactions', 'Type'],
-      ...reportData.topClients.map(c => [c.name, formatCurrency(c.totalSpent), c.transactions, c.type])
+      ...reportData.topClients.map(c => [c.name, formatCurrency(c.totalSpent), c.transactions, c.type]),
+      [''],
+      ['Supplier', 'Sales', 'Spend', 'Revenue', 'Profit', 'Margin'],
+      ...reportData.supplierData.map(s => [s.name, s.count, formatCurrency(s.spend), formatCurrency(s.revenue), formatCurrency(s.profit), `${s.margin.toFixed(1)}%`]),
+      [''],
+      ['Price List', 'Sales', 'Revenue', 'Cost', 'Profit', 'Margin'],
+      ...reportData.priceListData.map(p => [p.name, p.count, formatCurrency(p.revenue), formatCurrency(p.cost), formatCurrency(p.profit), `${p.margin.toFixed(1)}%`]),
+      [''],
+      ['Payment Method', 'Payments', 'Volume', 'Fees', 'Net Received', 'Fee Rate'],
+      ...reportData.paymentMethodData.map(m => [m.name, m.count, formatCurrency(m.volume), formatCurrency(m.fees), formatCurrency(m.net), `${m.feeRate.toFixed(1)}%`])
     ].map(row => row.join(',')).join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
@@ -485,6 +690,45 @@ export default function Reports() {
     ]
   };
 
+  const marginTrendData = {
+    labels: reportData.marginTrend.map(m => m.month),
+    datasets: [
+      {
+        type: 'line' as const,
+        label: 'Margin %',
+        data: reportData.marginTrend.map(m => m.margin),
+        borderColor: 'rgb(34, 197, 94)',
+        backgroundColor: 'rgba(34, 197, 94, 0.1)',
+        fill: true,
+        tension: 0.4,
+        spanGaps: true,
+      },
+      {
+        // Markers only: one triangle on each month with a price change
+        type: 'line' as const,
+        label: 'Price change',
+        data: reportData.marginTrend.map(m => (m.priceChanges.length > 0 ? m.margin ?? 0 : null)),
+        borderColor: 'rgb(245, 158, 11)',
+        backgroundColor: 'rgb(245, 158, 11)',
+        showLine: false,
+        pointStyle: 'triangle' as const,
+        pointRadius: 8,
+        pointHoverRadius: 10,
+      }
+    ]
+  };
+
+  const describePriceChange = (change: ServicePriceChange) => {
+    const name = change.services
+      ? `${change.services.product_service} (${change.services.duration})`
+      : 'Unknown service';
+    const before = getMarginPercent({ cost: change.old_cost ?? 0, selling_price: change.old_selling_price ?? 0 });
+    const after = getMarginPercent({ cost: change.new_cost, selling_price: change.new_selling_price });
+    return `${name}: ${formatCurrency(change.old_selling_price ?? 0)} → ${formatCurrency(change.new_selling_price)}`
+      + ` (margin ${before === null ? '-' : before.toFixed(0)}% → ${after === null ? '-' : after.toFixed(0)}%)`
+      + (change.reason ? ` · ${change.reason}` : '');
+  };
+
   const servicePerformanceData = {
     labels: reportData.topServices.map(s => s.name),
     datasets: [
@@ -610,6 +854,12 @@ export default function Reports() {
             <div>
               <p className="text-gray-400 text-xs lg:text-sm">Total Revenue</p>
               <p className="text-lg lg:text-2xl font-bold text-white">{formatCurrency(reportData.totalRevenue)}</p>
+              {reportData.totalRefunds > 0 && (
+                <p className="text-xs text-gray-400">after {formatCurrency(reportData.totalRefunds)} refunds</p>
+              )}
+              {reportData.totalOutstanding > 0 && (
+                <p className="text-xs text-yellow-400">{formatCurrency(reportData.totalOutstanding)} not yet collected</p>
+              )}
             </div>
             <DollarSign className="h-6 w-6 lg:h-8 lg:w-8 text-white" />
           </div>
@@ -620,6 +870,9 @@ export default function Reports() {
             <div>
               <p className="text-gray-400 text-xs lg:text-sm">Total Profit</p>
               <p className="text-lg lg:text-2xl font-bold text-white">{formatCurrency(reportData.totalProfit)}</p>
+              {reportData.totalPaymentFees > 0 && (
+                <p className="text-xs text-gray-400">after {formatCurrency(reportData.totalPaymentFees)} payment fees</p>
+              )}
             </div>
             <TrendingUp className="h-6 w-6 lg:h-8 lg:w-8 text-white" />
           </div>
@@ -701,6 +954,52 @@ export default function Reports() {
         </div>
       </div>
 
+      {/* Order Metrics */}
+      {reportData.orderData.totalOrders > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 lg:gap-6 mb-6 lg:mb-8">
+          <div className="bg-card border border-border rounded-lg shadow-sm p-4 lg:p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-gray-400 text-xs lg:text-sm">Orders</p>
+                <p className="text-lg lg:text-2xl font-bold text-white">{reportData.orderData.totalOrders}</p>
+                <p className="text-xs text-gray-400">{reportData.orderData.multiItemOrders} with several items</p>
+              </div>
+              <ShoppingCart className="h-6 w-6 lg:h-8 lg:w-8 text-white" />
+            </div>
+          </div>
+
+          <div className="bg-card border border-border rounded-lg shadow-sm p-4 lg:p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-gray-400 text-xs lg:text-sm">Avg Order</p>
+                <p className="text-lg lg:text-2xl font-bold text-white">{formatCurrency(reportData.orderData.averageOrderValue)}</p>
+              </div>
+              <Target className="h-6 w-6 lg:h-8 lg:w-8 text-white" />
+            </div>
+          </div>
+
+          <div className="bg-card border border-border rounded-lg shadow-sm p-4 lg:p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-gray-400 text-xs lg:text-sm">Items per Order</p>
+                <p className="text-lg lg:text-2xl font-bold text-white">{reportData.orderData.averageItemsPerOrder.toFixed(1)}</p>
+              </div>
+              <Package className="h-6 w-6 lg:h-8 lg:w-8 text-white" />
+            </div>
+          </div>
+
+          <div className="bg-card border border-border rounded-lg shadow-sm p-4 lg:p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-gray-400 text-xs lg:text-sm">Discounts Given</p>
+                <p className="text-lg lg:text-2xl font-bold text-white">{formatCurrency(reportData.orderData.totalDiscounts)}</p>
+              </div>
+              <Percent className="h-6 w-6 lg:h-8 lg:w-8 text-amber-500" />
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Inventory Metrics */}
       <div className="mb-6 lg:mb-8">
         <h2 className="text-xl lg:text-2xl font-bold text-white mb-4 lg:mb-6 flex items-center gap-2">
@@ -813,6 +1112,48 @@ export default function Reports() {
         </div>
       </div>
 
+      {/* Margin Trend */}
+      <div className="bg-card border border-border rounded-lg shadow-sm p-6 lg:p-8 mb-6 lg:mb-8">
+        <h3 className="text-lg lg:text-xl font-semibold text-white mb-1">Margin Trend</h3>
+        <p className="text-sm text-gray-400 mb-4 lg:mb-6">Triangles mark months in which a service's cost or price changed</p>
+        <div className="h-[250px] lg:h-[300px]">
+          <Line
+            data={marginTrendData}
+            options={{
+              responsive: true,
+              maintainAspectRatio: false,
+              plugins: {
+                legend: {
+                  position: 'top' as const,
+                  labels: { color: '#9ca3af', font: { size: 12 } }
+                },
+                tooltip: {
+                  callbacks: {
+                    label: (context) => context.datasetIndex === 0
+                      ? `Margin: ${context.parsed.y.toFixed(1)}%`
+                      : `${reportData.marginTrend[context.dataIndex].priceChanges.length} price change(s)`,
+                    afterBody: (items) => {
+                      const marker = items.find(item => item.datasetIndex === 1);
+                      return marker ? reportData.marginTrend[marker.dataIndex].priceChanges.map(describePriceChange) : [];
+                    }
+                  }
+                }
+              },
+              scales: {
+                x: {
+                  ticks: { color: '#9ca3af', font: { size: 10 } },
+                  grid: { color: '#374151' }
+                },
+                y: {
+                  ticks: { color: '#9ca3af', font: { size: 10 }, callback: (value) => `${value}%` },
+                  grid: { color: '#374151' }
+                }
+              }
+            }}
+          />
+        </div>
+      </div>
+
       {/* Additional Charts - Smaller Cards */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6 mb-6 lg:mb-8">
         {/* Category Distribution */}
@@ -991,6 +1332,162 @@ export default function Reports() {
         </div>
       </div>
 
+      {/* Spend & Margin by Supplier */}
+      {reportData.supplierData.length > 0 && (
+        <div className="bg-card border border-border rounded-lg shadow-sm p-6 lg:p-8 mb-6 lg:mb-8">
+          <h3 className="text-lg lg:text-xl font-semibold text-white mb-4 lg:mb-6 flex items-center gap-2">
+            <Truck className="h-5 w-5 text-white" />
+            Spend & Margin by Supplier
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Supplier</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Sales</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Spend</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Revenue</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Profit</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Margin</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reportData.supplierData.map(supplier => (
+                  <tr key={supplier.name} className="border-b border-gray-800 hover:bg-gray-800/50 transition-colors">
+                    <td className="text-white py-2 lg:py-3 text-xs lg:text-sm">{supplier.name}</td>
+                    <td className="text-right text-gray-300 py-2 lg:py-3 text-xs lg:text-sm font-medium">{supplier.count}</td>
+                    <td className="text-right text-white py-2 lg:py-3 text-xs lg:text-sm font-medium">{formatCurrency(supplier.spend)}</td>
+                    <td className="text-right text-white py-2 lg:py-3 text-xs lg:text-sm font-medium">{formatCurrency(supplier.revenue)}</td>
+                    <td className={`text-right py-2 lg:py-3 text-xs lg:text-sm font-medium ${supplier.profit < 0 ? 'text-red-400' : 'text-white'}`}>
+                      {formatCurrency(supplier.profit)}
+                    </td>
+                    <td className="text-right text-gray-300 py-2 lg:py-3 text-xs lg:text-sm font-medium">{supplier.margin.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Revenue & Margin by Price List */}
+      {reportData.priceListData.length > 0 && (
+        <div className="bg-card border border-border rounded-lg shadow-sm p-6 lg:p-8 mb-6 lg:mb-8">
+          <h3 className="text-lg lg:text-xl font-semibold text-white mb-4 lg:mb-6 flex items-center gap-2">
+            <Tags className="h-5 w-5 text-white" />
+            Revenue & Margin by Price List
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Price List</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Sales</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Revenue</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Cost</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Profit</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Margin</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reportData.priceListData.map(priceList => (
+                  <tr key={priceList.name} className="border-b border-gray-800 hover:bg-gray-800/50 transition-colors">
+                    <td className="text-white py-2 lg:py-3 text-xs lg:text-sm">{priceList.name}</td>
+                    <td className="text-right text-gray-300 py-2 lg:py-3 text-xs lg:text-sm font-medium">{priceList.count}</td>
+                    <td className="text-right text-white py-2 lg:py-3 text-xs lg:text-sm font-medium">{formatCurrency(priceList.revenue)}</td>
+                    <td className="text-right text-white py-2 lg:py-3 text-xs lg:text-sm font-medium">{formatCurrency(priceList.cost)}</td>
+                    <td className={`text-right py-2 lg:py-3 text-xs lg:text-sm font-medium ${priceList.profit < 0 ? 'text-red-400' : 'text-white'}`}>
+                      {formatCurrency(priceList.profit)}
+                    </td>
+                    <td className="text-right text-gray-300 py-2 lg:py-3 text-xs lg:text-sm font-medium">{priceList.margin.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Volume & Fees by Payment Method */}
+      {reportData.paymentMethodData.length > 0 && (
+        <div className="bg-card border border-border rounded-lg shadow-sm p-6 lg:p-8 mb-6 lg:mb-8">
+          <h3 className="text-lg lg:text-xl font-semibold text-white mb-4 lg:mb-6 flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-white" />
+            Volume & Fees by Payment Method
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Method</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Payments</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Volume</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Fees</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Net Received</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Fee Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reportData.paymentMethodData.map(method => (
+                  <tr key={method.name} className="border-b border-gray-800 hover:bg-gray-800/50 transition-colors">
+                    <td className="text-white py-2 lg:py-3 text-xs lg:text-sm">{method.name}</td>
+                    <td className="text-right text-gray-300 py-2 lg:py-3 text-xs lg:text-sm font-medium">{method.count}</td>
+                    <td className="text-right text-white py-2 lg:py-3 text-xs lg:text-sm font-medium">{formatCurrency(method.volume)}</td>
+                    <td className={`text-right py-2 lg:py-3 text-xs lg:text-sm font-medium ${method.fees > 0 ? 'text-red-400' : 'text-gray-300'}`}>
+                      {formatCurrency(method.fees)}
+                    </td>
+                    <td className="text-right text-white py-2 lg:py-3 text-xs lg:text-sm font-medium">{formatCurrency(method.net)}</td>
+                    <td className="text-right text-gray-300 py-2 lg:py-3 text-xs lg:text-sm font-medium">{method.feeRate.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Pool Profitability */}
+      {reportData.inventoryData.poolProfitability.length > 0 && (
+        <div className="bg-card border border-border rounded-lg shadow-sm p-6 lg:p-8 mb-6 lg:mb-8">
+          <h3 className="text-lg lg:text-xl font-semibold text-white mb-4 lg:mb-6">Pool Profitability</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Pool</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Cost</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Revenue</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Margin</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Margin / Seat</th>
+                  <th className="text-right text-gray-400 py-2 lg:py-3 text-xs lg:text-sm font-medium">Break-even</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reportData.inventoryData.poolProfitability.map(pool => (
+                  <tr key={pool.poolId} className="border-b border-gray-800 hover:bg-gray-800/50 transition-colors">
+                    <td className="py-2 lg:py-3 text-xs lg:text-sm">
+                      <p className="text-white">{pool.provider}</p>
+                      <p className="text-gray-400">{pool.login_email}</p>
+                    </td>
+                    <td className="text-right text-white py-2 lg:py-3 text-xs lg:text-sm font-medium">{formatCurrency(pool.cost ?? 0)}</td>
+                    <td className="text-right text-white py-2 lg:py-3 text-xs lg:text-sm font-medium">{formatCurrency(pool.revenue)}</td>
+                    <td className={`text-right py-2 lg:py-3 text-xs lg:text-sm font-medium ${(pool.margin ?? 0) < 0 ? 'text-red-400' : 'text-white'}`}>
+                      {formatCurrency(pool.margin ?? 0)}
+                    </td>
+                    <td className="text-right text-gray-300 py-2 lg:py-3 text-xs lg:text-sm font-medium">
+                      {pool.marginPerSeat !== null ? formatCurrency(pool.marginPerSeat) : '—'}
+                    </td>
+                    <td className="text-right text-gray-300 py-2 lg:py-3 text-xs lg:text-sm font-medium">
+                      {pool.breakEvenSeats !== null ? `${pool.breakEvenSeats} / ${pool.maxSeats} seats` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Detailed Tables */}
       <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 lg:gap-6">
         {/* Top Services Table */}
@@ -1,9 +1,18 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Plus, Edit, Trash2, Search, Download, Package, ChevronDown, ChevronRight, Clock, Tag, Info, Image } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, Download, Package, ChevronDown, ChevronRight, Clock, Tag, Info, Image, LineChart } from 'lucide-react';
 import { supabase, Service } from '../lib/supabase';
 import ServiceModal from '../components/ServiceModal';
-import { getServiceLogo, migrateExistingLogos } from '../lib/fileUtils';
+import ProvidersEditor from '../components/ProvidersEditor';
+import ServicePriceHistoryDrawer from '../components/ServicePriceHistoryDrawer';
+import SuppliersEditor from '../components/SuppliersEditor';
+import PriceListsEditor from '../components/PriceListsEditor';
+import { migrateCachedLogos } from '../lib/fileUtils';
 import { useCurrency } from '../lib/currency';
+import { useAuth } from '../lib/useAuth';
+import { hasPermission } from '../lib/operators';
+import { useProviders } from '../lib/useProviders';
+import { toast } from '../lib/toast';
+import { servicePriceHistoryDb } from '../lib/servicePriceHistory';
 
 // shadcn/ui components
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -12,20 +21,14 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 
-// ServiceLogo component for reactive logo display
+// Logo shared by all duration variants of a service
 interface ServiceLogoProps {
   serviceName: string;
-  refreshTrigger: number;
+  logoUrl: string | null;
   size: 'small' | 'large';
 }
 
-const ServiceLogo: React.FC<ServiceLogoProps> = ({ serviceName, refreshTrigger, size }) => {
-  const serviceLogo = useMemo(() => {
-    // This will re-compute when refreshTrigger changes
-    if (!serviceName) return null;
-    return getServiceLogo(serviceName);
-  }, [serviceName, refreshTrigger]);
-
+const ServiceLogo: React.FC<ServiceLogoProps> = ({ serviceName, logoUrl, size }) => {
   const containerClass = size === 'large'
     ? "w-12 h-12 rounded-xl overflow-hidden bg-secondary flex items-center justify-center border-2 border-border shadow-lg"
     : "w-10 h-10 rounded-lg overflow-hidden bg-secondary flex items-center justify-center border border-border shadow-sm";
@@ -34,10 +37,10 @@ const ServiceLogo: React.FC<ServiceLogoProps> = ({ serviceName, refreshTrigger,
 
   return (
     <div className={containerClass}>
-      {serviceLogo ? (
+      {logoUrl ? (
         <img
-          key={`${serviceName || 'unknown'}_${refreshTrigger}`} // Force re-render with new key
-          src={serviceLogo}
+          key={logoUrl}
+          src={logoUrl}
           alt={`${serviceName || 'Service'} logo`}
           className="w-full h-full object-cover"
           loading="lazy"
@@ -49,7 +52,7 @@ const ServiceLogo: React.FC<ServiceLogoProps> = ({ serviceName, refreshTrigger,
           }}
         />
       ) : null}
-      <div className={`w-full h-full flex items-center justify-center text-muted-foreground ${serviceLogo ? 'hidden' : ''}`}>
+      <div className={`w-full h-full flex items-center justify-center text-muted-foreground ${logoUrl ? 'hidden' : ''}`}>
         <Image className={iconSize} />
       </div>
     </div>
@@ -58,55 +61,41 @@ const ServiceLogo: React.FC<ServiceLogoProps> = ({ serviceName, refreshTrigger,
 
 export default function ServicesManager() {
   const { formatCurrency } = useCurrency();
+  const { role } = useAuth();
+  const { refreshProviders } = useProviders();
+  const canManageServices = hasPermission(role, 'manage_services');
   const [services, setServices] = useState<Service[]>([]);
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingService, setEditingService] = useState<Service | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
-  const [logoRefreshTrigger, setLogoRefreshTrigger] = useState(0); // State to force re-render of logo
-
-  useEffect(() => {
-    fetchServices();
-  }, []);
-
-  useEffect(() => {
-    // Migrate existing database logos to the new system
-    if (services.length > 0) {
-      migrateExistingLogos(services);
-      // Trigger logo refresh after migration to ensure logos are displayed
-      setLogoRefreshTrigger(prev => prev + 1);
-    }
-  }, [services]);
+  const [historyService, setHistoryService] = useState<Service | null>(null);
 
-  // Listen for localStorage changes and custom logo update events
   useEffect(() => {
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key && e.key.startsWith('service_logo_')) {
-        // Force logo refresh when localStorage changes
-        setLogoRefreshTrigger(prev => prev + 1);
+    const loadServices = async () => {
+      const loaded = await fetchServices();
+      // Move logos older versions cached in this browser into storage
+      if (!loaded || !canManageServices) return;
+      const migrated = await migrateCachedLogos(loaded);
+      if (migrated > 0) {
+        toast.show(`Moved ${migrated} cached logo${migrated === 1 ? '' : 's'} to storage`, { type: 'success' });
+        fetchServices();
       }
     };
-
-    const handleLogoUpdate = () => {
-      // Force logo refresh when custom logo update event is dispatched
-      setLogoRefreshTrigger(prev => prev + 1);
-    };
-
-    // Periodic logo refresh to ensure logos are always up-to-date
-    const logoRefreshInterval = setInterval(() => {
-      setLogoRefreshTrigger(prev => prev + 1);
-    }, 5000); // Refresh every 5 seconds
-
-    window.addEventListener('storage', handleStorageChange);
-    window.addEventListener('logoUpdated', handleLogoUpdate);
-
-    return () => {
-      window.removeEventListener('storage', handleStorageChange);
-      window.removeEventListener('logoUpdated', handleLogoUpdate);
-      clearInterval(logoRefreshInterval);
-    };
-  }, []);
+    loadServices();
+  }, [canManageServices]);
+
+  // Duration variants share one logo; use the first one set in each group
+  const logoByName = useMemo(() => {
+    const logos = new Map<string, string>();
+    services.forEach(service => {
+      if (service.logo_url && !logos.has(service.product_service)) {
+        logos.set(service.product_service, service.logo_url);
+      }
+    });
+    return logos;
+  }, [services]);
 
   const fetchServices = async () => {
     try {
@@ -117,13 +106,7 @@ export default function ServicesManager() {
 
       if (error) throw error;
       setServices(data || []);
-
-      // Trigger logo refresh after services are loaded to ensure logos are displayed
-      if (data && data.length > 0) {
-        setTimeout(() => {
-          setLogoRefreshTrigger(prev => prev + 1);
-        }, 100); // Small delay to ensure migration completes first
-      }
+      return data || [];
     } catch (error) {
       console.error('Error fetching services:', error);
     } finally {
@@ -131,24 +114,9 @@ export default function ServicesManager() {
     }
   };
 
-  const handleSaveService = async (serviceData: Omit<Service, 'id' | 'created_at' | 'updated_at'>) => {
+  const handleSaveService = async (serviceData: Omit<Service, 'id' | 'created_at' | 'updated_at'>, priceChangeReason?: string) => {
     try {
-      const session = await supabase.auth.getSession();
-      if (!session) {
-        // Try to sign in anonymously if no session exists
-        await supabase.auth.signInWithPassword({
-          email: 'anonymous@example.com',
-          password: 'anonymous'
-        });
-      }
-
-      // Handle logo name change if service name changed
-      if (editingService && editingService.product_service !== serviceData.product_service) {
-        // Update logo key in localStorage if service name changed
-        const { updateServiceLogoName } = await import('../lib/fileUtils');
-        updateServiceLogoName(editingService.product_service, serviceData.product_service);
-      }
-
+      let savedId: string | null = null;
       if (editingService) {
         const { data, error } = await supabase
           .from('services')
@@ -164,6 +132,7 @@ export default function ServicesManager() {
           throw error;
         }
         if (data) console.log('Updated service:', data);
+        savedId = editingService.id;
       } else {
         const { data, error } = await supabase
           .from('services')
@@ -179,12 +148,32 @@ export default function ServicesManager() {
           throw error;
         }
         if (data) console.log('Inserted service:', data);
+        savedId = data?.[0]?.id ?? null;
       }
 
-      // Force logo refresh immediately after successful save
-      setLogoRefreshTrigger(prev => prev + 1);
+      if (savedId) {
+        const prices = { cost: serviceData.cost, selling_price: serviceData.selling_price };
+        await servicePriceHistoryDb.record(savedId, editingService, prices, priceChangeReason).catch(error => {
+          // The service is saved; only its history entry is missing
+          console.error('Error recording price history:', error);
+          toast.show('Service saved, but the price change was not logged', { type: 'error' });
+        });
+      }
+
+      // Duration variants share one logo; keep the rest of the group in step
+      const previousLogo = editingService?.logo_url || '';
+      if (serviceData.product_service && serviceData.logo_url !== previousLogo) {
+        const { error } = await supabase
+          .from('services')
+          .update({ logo_url: serviceData.logo_url || null, updated_at: new Date().toISOString() })
+          .eq('product_service', serviceData.product_service);
+
+        if (error) throw error;
+      }
 
       await fetchServices();
+      // Pool and account cards fall back to their services' logos
+      refreshProviders();
       setEditingService(null);
       setIsModalOpen(false);
     } catch (error: any) {
@@ -204,7 +193,6 @@ export default function ServicesManager() {
 
       if (error) throw error;
       fetchServices();
-      setLogoRefreshTrigger(prev => prev + 1); // Refresh logo after deleting
     } catch (error) {
       console.error('Error deleting service:', error);
     }
@@ -335,10 +323,12 @@ export default function ServicesManager() {
             <Download className="h-4 w-4 mr-2" />
             Extract
           </Button>
-          <Button onClick={() => setIsModalOpen(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Service
-          </Button>
+          {canManageServices && (
+            <Button onClick={() => setIsModalOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Service
+            </Button>
+          )}
         </div>
       </div>
 
@@ -426,7 +416,7 @@ export default function ServicesManager() {
                               {/* Service Logo - Improved styling */}
                               <ServiceLogo
                                 serviceName={service.product_service}
-                                refreshTrigger={logoRefreshTrigger}
+                                logoUrl={logoByName.get(service.product_service) || null}
                                 size="large"
                               />
 
@@ -454,7 +444,7 @@ export default function ServicesManager() {
                             <div className="mr-4">
                               <ServiceLogo
                                 serviceName={service.product_service}
-                                refreshTrigger={logoRefreshTrigger}
+                                logoUrl={logoByName.get(service.product_service) || null}
                                 size="small"
                               />
                             </div>
@@ -496,7 +486,19 @@ export default function ServicesManager() {
                           </span>
                         </TableCell>
                         <TableCell>
-                          <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                          {canManageServices && <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setHistoryService(service);
+                              }}
+                              className="h-8 w-8"
+                              title="Price history"
+                            >
+                              <LineChart className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="icon"
@@ -520,7 +522,7 @@ export default function ServicesManager() {
                             >
                               <Trash2 className="h-4 w-4" />
                             </Button>
-                          </div>
+                          </div>}
                         </TableCell>
                       </TableRow>
                     )}
@@ -546,6 +548,27 @@ export default function ServicesManager() {
         </div>
       </Card>
 
+      {/* Provider catalog */}
+      <Card>
+        <CardContent className="p-6">
+          <ProvidersEditor canManage={canManageServices} />
+        </CardContent>
+      </Card>
+
+      {/* Suppliers and their per-service offers */}
+      <Card>
+        <CardContent className="p-6">
+          <SuppliersEditor canManage={canManageServices} services={services} />
+        </CardContent>
+      </Card>
+
+      {/* Reseller tiers and per-client price lists */}
+      <Card>
+        <CardContent className="p-6">
+          <PriceListsEditor canManage={canManageServices} services={services} />
+        </CardContent>
+      </Card>
+
       <ServiceModal
         isOpen={isModalOpen}
         onClose={() => {
@@ -554,10 +577,12 @@ export default function ServicesManager() {
         }}
         onSave={handleSaveService}
         service={editingService}
-        onLogoChange={() => {
-          // Force logo refresh when logo changes in modal
-          setLogoRefreshTrigger(prev => prev + 1);
-        }}
+      />
+
+      <ServicePriceHistoryDrawer
+        isOpen={!!historyService}
+        onClose={() => setHistoryService(null)}
+        service={historyService}
       />
     </div>
   );
@@ -1,6 +1,12 @@
 import { useState, useEffect } from 'react';
-import { Settings as SettingsIcon, User, Bell, Shield, Database, DollarSign } from 'lucide-react';
+import { Settings as SettingsIcon, User, Bell, Shield, Database, DollarSign, History } from 'lucide-react';
 import { useCurrency } from '../lib/currency';
+import ReminderTemplatesEditor from '../components/ReminderTemplatesEditor';
+import CredentialEncryptionSettings from '../components/CredentialEncryptionSettings';
+import OperatorsManager from '../components/OperatorsManager';
+import ActivityLog from '../components/ActivityLog';
+import { useAuth } from '../lib/useAuth';
+import { hasPermission } from '../lib/operators';
 
 // shadcn/ui components
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -12,7 +18,8 @@ import { Label } from '@/components/ui/label';
 
 export default function Settings() {
     const { currency, exchangeRate, setExchangeRate, formatCurrency } = useCurrency();
-    const [activeTab, setActiveTab] = useState<'general' | 'notifications' | 'security' | 'data'>('general');
+    const { role } = useAuth();
+    const [activeTab, setActiveTab] = useState<'general' | 'notifications' | 'security' | 'activity' | 'data'>('general');
     const [tempExchangeRate, setTempExchangeRate] = useState<string>(exchangeRate.toString());
     const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
 
@@ -68,6 +75,12 @@ export default function Settings() {
                                 <Shield className="h-4 w-4 mr-2" />
                                 Security
                             </TabsTrigger>
+                            {hasPermission(role, 'view_activity') && (
+                                <TabsTrigger value="activity" className="data-[state=active]:bg-foreground data-[state=active]:text-background">
+                                    <History className="h-4 w-4 mr-2" />
+                                    Activity
+                                </TabsTrigger>
+                            )}
                             <TabsTrigger value="data" className="data-[state=active]:bg-foreground data-[state=active]:text-background">
                                 <Database className="h-4 w-4 mr-2" />
                                 Data
@@ -208,6 +221,8 @@ export default function Settings() {
                                         </div>
                                     </div>
                                 </div>
+
+                                <ReminderTemplatesEditor />
                             </div>
                         </TabsContent>
 
@@ -238,9 +253,19 @@ export default function Settings() {
                                         </div>
                                     </div>
                                 </div>
+
+                                <CredentialEncryptionSettings />
+
+                                {hasPermission(role, 'manage_operators') && <OperatorsManager />}
                             </div>
                         </TabsContent>
 
+                        {hasPermission(role, 'view_activity') && (
+                            <TabsContent value="activity" className="mt-0">
+                                <ActivityLog />
+                            </TabsContent>
+                        )}
+
                         <TabsContent value="data" className="mt-0">
                             <div className="space-y-6">
                                 <div>
@@ -15,7 +15,8 @@ import {
   Archive,
   Download,
   Keyboard,
-  HelpCircle
+  HelpCircle,
+  MessageSquare
 } from 'lucide-react';
 import { Subscription } from '../types/subscription';
 import { getNowInTunisia, toTunisiaTime, getTodayInTunisia } from '../lib/dateUtils';
@@ -24,17 +25,22 @@ import { SubscriptionCard } from '../components/SubscriptionCard';
 import SubscriptionModal from '../components/SubscriptionModal';
 import SubscriptionDetailModal from '../components/SubscriptionDetailModal';
 import SubscriptionEditModal from '../components/SubscriptionEditModal';
+import SubscriptionBulkActionBar from '../components/SubscriptionBulkActionBar';
 import SearchableDropdown from '../components/SearchableDropdown';
 import { formatServiceTitleWithDuration, groupServicesByBaseName, getAvailablePeriods, ServiceGroup } from '../lib/subscriptionUtils';
 import { supabase } from '../lib/supabase';
 import { useKeyboardShortcuts, shouldIgnoreKeyboardEvent } from '../lib/useKeyboardShortcuts';
 import { syncSubscriptionsForDeadPools, getResourcePool } from '../lib/inventory';
 import { ResourcePool } from '../types/inventory';
+import { ReminderBucket } from '../types/reminder';
+import { generateBucketReminders, logRemindersSent, REMINDER_BUCKET_LABELS } from '../lib/reminders';
+import { copyToClipboard, toast } from '../lib/toast';
+import { useCurrency } from '../lib/currency';
 
 // shadcn/ui components
 import { Button } from '@/components/ui/button';
 
-type ViewMode = 'all' | 'active' | 'completed' | 'dueToday' | 'dueIn3Days' | 'overdue' | 'overdueNormal' | 'overdueDeadPool';
+type ViewMode = 'all' | 'active' | 'paused' | 'completed' | 'dueToday' | 'dueIn3Days' | 'overdue' | 'overdueNormal' | 'overdueDeadPool';
 type ArchiveViewMode = 'subscriptions' | 'archive';
 type GroupByMode = 'none' | 'client' | 'service';
 
@@ -62,6 +68,7 @@ interface GroupedSubscriptions {
 }
 
 export default function Subscriptions() {
+  const { exchangeRate } = useCurrency();
   const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
   const [archivedSubscriptions, setArchivedSubscriptions] = useState<Subscription[]>([]);
   const [filteredSubscriptions, setFilteredSubscriptions] = useState<Subscription[]>([]);
@@ -74,6 +81,7 @@ export default function Subscriptions() {
   const [selectedSubscription, setSelectedSubscription] = useState<Subscription | null>(null);
   const [editingSubscription, setEditingSubscription] = useState<Subscription | null>(null);
   const [dueBuckets, setDueBuckets] = useState({ dueToday: 0, dueIn3Days: 0, overdue: 0 });
+  const [copyingReminders, setCopyingReminders] = useState<ReminderBucket | null>(null);
 
   // Archive view state
   const [archiveViewMode, setArchiveViewMode] = useState<ArchiveViewMode>('subscriptions');
@@ -102,6 +110,11 @@ export default function Subscriptions() {
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  // Multi-select state for bulk actions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const selectionAnchorRef = useRef<string | null>(null);
+  const selectionOrderRef = useRef<string[]>([]);
   // Pagination for large lists
   const [displayLimit, setDisplayLimit] = useState(50);
 
@@ -264,19 +277,22 @@ export default function Subscriptions() {
       case 'active':
         filtered = filtered.filter(sub => sub.status === 'active' || sub.status === 'overdue');
         break;
+      case 'paused':
+        filtered = filtered.filter(sub => sub.status === 'paused');
+        break;
       case 'completed':
         filtered = filtered.filter(sub => sub.status === 'completed');
         break;
       case 'dueToday':
         filtered = filtered.filter(sub => {
-          if (!sub.nextRenewalAt) return false;
+          if (!sub.nextRenewalAt || sub.status === 'paused') return false;
           const renewalDate = new Date(sub.nextRenewalAt);
           return renewalDate.toDateString() === now.toDateString();
         });
         break;
       case 'dueIn3Days':
         filtered = filtered.filter(sub => {
-          if (!sub.nextRenewalAt) return false;
+          if (!sub.nextRenewalAt || sub.status === 'paused') return false;
           const renewalDate = new Date(sub.nextRenewalAt);
           const diffTime = renewalDate.getTime() - now.getTime();
           const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
@@ -285,14 +301,14 @@ export default function Subscriptions() {
         break;
       case 'overdue':
         filtered = filtered.filter(sub => {
-          if (!sub.nextRenewalAt || sub.status === 'completed') return false;
+          if (!sub.nextRenewalAt || sub.status === 'completed' || sub.status === 'paused') return false;
           const renewalDate = new Date(sub.nextRenewalAt);
           return renewalDate < now;
         });
         break;
       case 'overdueNormal':
         filtered = filtered.filter(sub => {
-          if (!sub.nextRenewalAt || sub.status === 'completed') return false;
+          if (!sub.nextRenewalAt || sub.status === 'completed' || sub.status === 'paused') return false;
           const renewalDate = new Date(sub.nextRenewalAt);
           if (renewalDate >= now) return false;
 
@@ -305,7 +321,7 @@ export default function Subscriptions() {
         break;
       case 'overdueDeadPool':
         filtered = filtered.filter(sub => {
-          if (!sub.nextRenewalAt || sub.status === 'completed') return false;
+          if (!sub.nextRenewalAt || sub.status === 'completed' || sub.status === 'paused') return false;
           const renewalDate = new Date(sub.nextRenewalAt);
           if (renewalDate >= now) return false;
 
@@ -526,6 +542,8 @@ export default function Subscriptions() {
             setEditingSubscription(null);
           } else if (showKeyboardHelp) {
             setShowKeyboardHelp(false);
+          } else if (selectedIds.size > 0) {
+            clearSelection();
           } else {
             setSelectedCardIndex(-1);
           }
@@ -584,6 +602,27 @@ export default function Subscriptions() {
         },
         description: 'Open selected subscription',
       },
+      {
+        key: 'x',
+        handler: (event) => {
+          if (isModalOpen || isDetailModalOpen || isEditModalOpen) return;
+          if (archiveViewMode !== 'subscriptions') return;
+          if (selectedCardIndex >= 0 && selectedCardIndex < filteredSubscriptions.length) {
+            handleSelectToggle(filteredSubscriptions[selectedCardIndex].id, event.shiftKey);
+          }
+        },
+        description: 'Toggle selection of highlighted subscription',
+      },
+      {
+        key: 'a',
+        handler: () => {
+          if (isModalOpen || isDetailModalOpen || isEditModalOpen) return;
+          if (archiveViewMode !== 'subscriptions') return;
+          handleSelectAll();
+        },
+        description: 'Select all visible subscriptions',
+        ctrl: true,
+      },
       {
         key: '?',
         handler: () => {
@@ -665,6 +704,68 @@ export default function Subscriptions() {
     return filteredSubscriptions.slice(0, displayLimit);
   }, [filteredSubscriptions, displayLimit]);
 
+  // Keep the on-screen order for shift-click range selection
+  useEffect(() => {
+    selectionOrderRef.current = groupBy !== 'none'
+      ? groupedSubscriptions.flatMap(group => group.subscriptions.map(sub => sub.id))
+      : filteredSubscriptions.map(sub => sub.id);
+  }, [filteredSubscriptions, groupedSubscriptions, groupBy]);
+
+  // Drop selected subscriptions that are no longer visible
+  useEffect(() => {
+    setSelectedIds(prev => {
+      if (prev.size === 0) return prev;
+      const visibleIds = new Set(filteredSubscriptions.map(sub => sub.id));
+      const next = new Set([...prev].filter(id => visibleIds.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [filteredSubscriptions]);
+
+  const selectedSubscriptions = useMemo(() => {
+    return filteredSubscriptions.filter(sub => selectedIds.has(sub.id));
+  }, [filteredSubscriptions, selectedIds]);
+
+  const handleSelectToggle = useCallback((subscriptionId: string, extendRange: boolean) => {
+    const anchorId = selectionAnchorRef.current;
+    const order = selectionOrderRef.current;
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (extendRange && anchorId && anchorId !== subscriptionId) {
+        const from = order.indexOf(anchorId);
+        const to = order.indexOf(subscriptionId);
+        if (from >= 0 && to >= 0) {
+          order.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(id => next.add(id));
+          return next;
+        }
+      }
+      if (next.has(subscriptionId)) {
+        next.delete(subscriptionId);
+      } else {
+        next.add(subscriptionId);
+      }
+      return next;
+    });
+
+    selectionAnchorRef.current = subscriptionId;
+  }, []);
+
+  const handleSelectAll = () => {
+    setSelectedIds(new Set(filteredSubscriptions.map(sub => sub.id)));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  };
+
+  const getSubscriptionLabel = (subscription: Subscription) => {
+    const client = clientsMap.get(subscription.clientId);
+    const service = servicesMap.get(subscription.serviceId);
+    const serviceName = service ? formatServiceTitleWithDuration(service.product_service, service.duration || '1 month') : 'Unknown Service';
+    return `${client ? client.name : 'Unknown Client'} - ${serviceName}`;
+  };
+
   const displayedArchivedSubscriptions = useMemo(() => {
     return filteredArchivedSubscriptions.slice(0, displayLimit);
   }, [filteredArchivedSubscriptions, displayLimit]);
@@ -690,11 +791,11 @@ export default function Subscriptions() {
     }
 
     // Load from URL first, then fallback to localStorage
-    if (view && ['all', 'active', 'completed', 'dueToday', 'dueIn3Days', 'overdue', 'overdueNormal', 'overdueDeadPool'].includes(view)) {
+    if (view && ['all', 'active', 'paused', 'completed', 'dueToday', 'dueIn3Days', 'overdue', 'overdueNormal', 'overdueDeadPool'].includes(view)) {
       setViewMode(view);
     } else {
       const savedView = localStorage.getItem('subscription-view-mode') as ViewMode;
-      if (savedView && ['all', 'active', 'completed', 'dueToday', 'dueIn3Days', 'overdue', 'overdueNormal', 'overdueDeadPool'].includes(savedView)) {
+      if (savedView && ['all', 'active', 'paused', 'completed', 'dueToday', 'dueIn3Days', 'overdue', 'overdueNormal', 'overdueDeadPool'].includes(savedView)) {
         setViewMode(savedView);
       }
     }
@@ -802,6 +903,31 @@ export default function Subscriptions() {
     }
   };
 
+  const handleCopyReminders = async (bucket: ReminderBucket) => {
+    setCopyingReminders(bucket);
+    try {
+      const reminders = await generateBucketReminders(bucket, exchangeRate);
+      if (reminders.length === 0) {
+        toast.show(`No subscriptions ${REMINDER_BUCKET_LABELS[bucket].toLowerCase()}`, { type: 'info' });
+        return;
+      }
+
+      const text = reminders.map(reminder => reminder.message).join('\n\n---\n\n');
+      const copied = await copyToClipboard(
+        text,
+        `Copied ${reminders.length} reminder${reminders.length !== 1 ? 's' : ''} (${REMINDER_BUCKET_LABELS[bucket]})`
+      );
+      if (copied) {
+        await logRemindersSent(reminders, bucket);
+      }
+    } catch (error) {
+      console.error('Error generating reminders:', error);
+      toast.show('Failed to generate reminders', { type: 'error' });
+    } finally {
+      setCopyingReminders(null);
+    }
+  };
+
   const refreshSubscriptionStatus = async () => {
     try {
       const result = await subscriptionService.refreshSubscriptionStatus();
@@ -954,6 +1080,22 @@ export default function Subscriptions() {
     fetchDueBuckets();
   };
 
+  const handleSubscriptionsBulkUpdated = (updatedSubscriptions: Subscription[]) => {
+    const updatedById = new Map(updatedSubscriptions.map(sub => [sub.id, sub]));
+    const archived = updatedSubscriptions.filter(sub => sub.status === 'archived');
+    const archivedIds = new Set(archived.map(sub => sub.id));
+
+    setSubscriptions(prev => prev
+      .filter(sub => !archivedIds.has(sub.id))
+      .map(sub => updatedById.get(sub.id) || sub));
+    setArchivedSubscriptions(prev => [
+      ...prev.filter(sub => !archivedIds.has(sub.id)),
+      ...archived
+    ]);
+
+    fetchDueBuckets();
+  };
+
   const handleSubscriptionDelete = async (subscriptionId: string) => {
     console.log('🗑️ Handling subscription deletion:', subscriptionId);
 
@@ -1014,7 +1156,7 @@ export default function Subscriptions() {
   const getTotalOverdue = () => {
     const now = getNowInTunisia();
     return filteredSubscriptions.filter(sub => {
-      if (!sub.nextRenewalAt || sub.status === 'completed') return false;
+      if (!sub.nextRenewalAt || sub.status === 'completed' || sub.status === 'paused') return false;
       const renewalDate = toTunisiaTime(new Date(sub.nextRenewalAt));
       return renewalDate < now;
     }).length;
@@ -1100,6 +1242,7 @@ export default function Subscriptions() {
         'Days Remaining': daysRemaining,
         'Renewal Strategy': subscription.strategy,
         'Iterations Done': subscription.iterationsDone?.toString() || '0',
+        'Cycles Paid': subscription.cyclesPaid?.toString() || '',
         'Notes': subscription.notes || '',
         'Created At': formatDate(subscription.createdAt),
         'Updated At': formatDate(subscription.updatedAt)
@@ -1256,6 +1399,7 @@ export default function Subscriptions() {
                   options={[
                     { value: 'all', label: 'All' },
                     { value: 'active', label: 'Active' },
+                    { value: 'paused', label: 'Paused' },
                     { value: 'completed', label: 'Completed' },
                     { value: 'dueToday', label: 'Due Today' },
                     { value: 'dueIn3Days', label: 'Due in 3 Days' },
@@ -1393,10 +1537,18 @@ export default function Subscriptions() {
                       <div className="w-12 h-12 bg-orange-500/20 rounded-xl flex items-center justify-center">
                         <Clock className="w-6 h-6 text-orange-500" />
                       </div>
-                      <div>
+                      <div className="flex-1">
                         <p className="text-muted-foreground text-sm">Due Today</p>
                         <p className="text-2xl font-bold text-white">{filteredBuckets.dueToday}</p>
                       </div>
+                      <button
+                        onClick={() => handleCopyReminders('dueToday')}
+                        disabled={copyingReminders !== null || dueBuckets.dueToday === 0}
+                        className="p-2 text-muted-foreground hover:text-white hover:bg-secondary disabled:opacity-40 disabled:hover:bg-transparent rounded-lg transition-colors"
+                        title="Copy all reminders"
+                      >
+                        <MessageSquare className={`w-4 h-4 ${copyingReminders === 'dueToday' ? 'animate-pulse' : ''}`} />
+                      </button>
                     </div>
                   </div>
 
@@ -1405,10 +1557,18 @@ export default function Subscriptions() {
                       <div className="w-12 h-12 bg-yellow-500/20 rounded-xl flex items-center justify-center">
                         <Calendar className="w-6 h-6 text-yellow-500" />
                       </div>
-                      <div>
+                      <div className="flex-1">
                         <p className="text-muted-foreground text-sm">Due in 3 Days</p>
                         <p className="text-2xl font-bold text-white">{filteredBuckets.dueIn3Days}</p>
                       </div>
+                      <button
+                        onClick={() => handleCopyReminders('dueIn3Days')}
+                        disabled={copyingReminders !== null || dueBuckets.dueIn3Days === 0}
+                        className="p-2 text-muted-foreground hover:text-white hover:bg-secondary disabled:opacity-40 disabled:hover:bg-transparent rounded-lg transition-colors"
+                        title="Copy all reminders"
+                      >
+                        <MessageSquare className={`w-4 h-4 ${copyingReminders === 'dueIn3Days' ? 'animate-pulse' : ''}`} />
+                      </button>
                     </div>
                   </div>
 
@@ -1417,10 +1577,18 @@ export default function Subscriptions() {
                       <div className="w-12 h-12 bg-red-500/20 rounded-xl flex items-center justify-center">
                         <AlertTriangle className="w-6 h-6 text-red-500" />
                       </div>
-                      <div>
+                      <div className="flex-1">
                         <p className="text-muted-foreground text-sm">Overdue</p>
                         <p className="text-2xl font-bold text-white">{filteredBuckets.overdue}</p>
                       </div>
+                      <button
+                        onClick={() => handleCopyReminders('overdue')}
+                        disabled={copyingReminders !== null || dueBuckets.overdue === 0}
+                        className="p-2 text-muted-foreground hover:text-white hover:bg-secondary disabled:opacity-40 disabled:hover:bg-transparent rounded-lg transition-colors"
+                        title="Copy all reminders"
+                      >
+                        <MessageSquare className={`w-4 h-4 ${copyingReminders === 'overdue' ? 'animate-pulse' : ''}`} />
+                      </button>
                     </div>
                   </div>
 
@@ -1456,6 +1624,16 @@ export default function Subscriptions() {
             </div>
           </div>
 
+          {/* Bulk Actions */}
+          <SubscriptionBulkActionBar
+            selectedSubscriptions={selectedSubscriptions}
+            visibleCount={filteredSubscriptions.length}
+            getSubscriptionLabel={getSubscriptionLabel}
+            onSelectAll={handleSelectAll}
+            onClearSelection={clearSelection}
+            onSubscriptionsUpdated={handleSubscriptionsBulkUpdated}
+          />
+
           {/* Keyboard Shortcuts Help Modal */}
           {showKeyboardHelp && (
             <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[110]">
@@ -1510,6 +1688,14 @@ export default function Subscriptions() {
                           <span className="text-muted-foreground text-sm">Toggle Archive</span>
                           <kbd className="px-2 py-1 bg-secondary text-muted-foreground rounded text-xs">A</kbd>
                         </div>
+                        <div className="flex items-center justify-between p-3 bg-secondary/50 rounded-lg">
+                          <span className="text-muted-foreground text-sm">Select Highlighted</span>
+                          <kbd className="px-2 py-1 bg-secondary text-muted-foreground rounded text-xs">X / Shift + X</kbd>
+                        </div>
+                        <div className="flex items-center justify-between p-3 bg-secondary/50 rounded-lg">
+                          <span className="text-muted-foreground text-sm">Select All Visible</span>
+                          <kbd className="px-2 py-1 bg-secondary text-muted-foreground rounded text-xs">Ctrl + A</kbd>
+                        </div>
                       </div>
                     </div>
                     <div className="space-y-3">
@@ -1545,7 +1731,7 @@ export default function Subscriptions() {
                       <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">General</h3>
                       <div className="space-y-2">
                         <div className="flex items-center justify-between p-3 bg-secondary/50 rounded-lg">
-                          <span className="text-muted-foreground text-sm">Close Modal</span>
+                          <span className="text-muted-foreground text-sm">Close Modal / Clear Selection</span>
                           <kbd className="px-2 py-1 bg-secondary text-muted-foreground rounded text-xs">Esc</kbd>
                         </div>
                         <div className="flex items-center justify-between p-3 bg-secondary/50 rounded-lg">
@@ -1659,6 +1845,8 @@ export default function Subscriptions() {
                                   onDelete={handleSubscriptionDelete}
                                   onView={handleSubscriptionView}
                                   onEdit={handleSubscriptionEdit}
+                                  isSelected={selectedIds.has(subscription.id)}
+                                  onSelectToggle={handleSelectToggle}
                                 />
                               </div>
                             );
@@ -1692,6 +1880,8 @@ export default function Subscriptions() {
                           onDelete={handleSubscriptionDelete}
                           onView={handleSubscriptionView}
                           onEdit={handleSubscriptionEdit}
+                          isSelected={selectedIds.has(subscription.id)}
+                          onSelectToggle={handleSelectToggle}
                         />
                       </div>
                     );
@@ -1,10 +1,19 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import { Plus, Edit, Trash2, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Fragment, useState, useEffect, useMemo, useCallback } from 'react';
+import { Plus, Edit, Trash2, Search, ChevronLeft, ChevronRight, ShoppingCart, Undo2 } from 'lucide-react';
 import { supabase, Transaction, Service } from '../lib/supabase';
 import TransactionModal from '../components/TransactionModal';
+import RefundModal from '../components/RefundModal';
 import SearchableDropdown from '../components/SearchableDropdown';
 import { getNowInTunisia } from '../lib/dateUtils';
 import { useCurrency } from '../lib/currency';
+import { ordersDb } from '../lib/orders';
+import { sumRefunds } from '../lib/refunds';
+import { clientCreditDb } from '../lib/clientCredit';
+import { getOutstanding, receivablesDb } from '../lib/receivables';
+import { REFUND_KIND_LABELS } from '../constants/refunds';
+import { PAYMENT_STATUS_LABELS } from '../constants/payments';
+import { subscriptionService } from '../lib/subscriptionService';
+import type { OrderFormData } from '../types/order';
 
 // shadcn/ui components
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -20,6 +29,7 @@ export default function Transactions() {
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [refundingTransaction, setRefundingTransaction] = useState<Transaction | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedService, setSelectedService] = useState('');
   // Default to last 30 days instead of 'all' for better performance
@@ -77,6 +87,21 @@ export default function Transactions() {
             product_service,
             category,
             duration
+          ),
+          supplier:suppliers (
+            id,
+            name
+          ),
+          order:orders (
+            id,
+            discount
+          ),
+          transaction_refunds (
+            id,
+            kind,
+            amount,
+            date,
+            reason
           )
         `);
 
@@ -134,22 +159,17 @@ export default function Transactions() {
     setCurrentDate(date);
   };
 
-  const handleSaveTransaction = async (transactionData: Omit<Transaction, 'id' | 'created_at' | 'updated_at' | 'services'>) => {
+  const handleSaveTransaction = async (transactionData: Omit<Transaction, 'id' | 'created_at' | 'updated_at' | 'services' | 'supplier' | 'order'>) => {
     try {
-      const session = await supabase.auth.getSession();
-      if (!session) {
-        // Try to sign in anonymously if no session exists
-        await supabase.auth.signInWithPassword({
-          email: 'anonymous@example.com',
-          password: 'anonymous'
-        });
-      }
+      // What's been collected is kept as payments, saved once the sale is
+      const { amount_paid: amountPaid, ...saleData } = transactionData;
+      let savedId = editingTransaction?.id;
 
       if (editingTransaction) {
         const { data, error } = await supabase
           .from('transactions')
           .update({
-            ...transactionData,
+            ...saleData,
             updated_at: new Date().toISOString()
           })
           .eq('id', editingTransaction.id)
@@ -164,7 +184,7 @@ export default function Transactions() {
         const { data, error } = await supabase
           .from('transactions')
           .insert([{
-            ...transactionData,
+            ...saleData,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
           }])
@@ -175,6 +195,11 @@ export default function Transactions() {
           throw error;
         }
         if (data) console.log('Inserted transaction:', data);
+        savedId = data?.[0]?.id;
+      }
+
+      if (savedId && amountPaid !== undefined) {
+        await receivablesDb.setAmountCollected({ id: savedId }, amountPaid, saleData.payment_method ?? null);
       }
 
       await fetchData();
@@ -186,6 +211,73 @@ export default function Transactions() {
     }
   };
 
+  const handleSaveOrder = async (orderData: OrderFormData) => {
+    try {
+      const { order, transactions: lineTransactions } = await ordersDb.create(orderData);
+
+      let creditError: string | null = null;
+      if (orderData.credit_used > 0) {
+        try {
+          await clientCreditDb.addEntry({
+            client_id: orderData.client_id,
+            kind: 'consumption',
+            amount: -orderData.credit_used,
+            order_id: order.id,
+            notes: null
+          });
+        } catch (error) {
+          console.error('Error drawing order from credit:', error);
+          creditError = (error as Error).message;
+          try {
+            await ordersDb.releaseCredit(order.id);
+          } catch (releaseError) {
+            console.error('Error releasing order credit:', releaseError);
+          }
+        }
+      }
+
+      // One subscription per line that asked for it, linked to that line's sale
+      const failedLines: string[] = [];
+      for (const [index, line] of orderData.lines.entries()) {
+        const sale = lineTransactions[index];
+        if (!line.create_subscription || !sale) continue;
+        try {
+          await subscriptionService.createFromSale(sale.id, line.service_id, orderData.client_id, {
+            startedAt: orderData.date
+          });
+        } catch (error) {
+          console.error('Error creating subscription for order line:', error);
+          failedLines.push(serviceMap.get(line.service_id)?.product_service || line.service_id);
+        }
+      }
+
+      await fetchData();
+      setIsModalOpen(false);
+
+      if (creditError) {
+        alert(`Order saved, but it could not be paid from credit, so that part is still owed: ${creditError}`);
+      }
+      if (failedLines.length > 0) {
+        alert(`Order saved, but subscriptions could not be created for: ${failedLines.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Error saving order:', error);
+      alert((error as Error).message || 'Error saving order');
+    }
+  };
+
+  const handleDeleteOrder = async (orderId: string, itemCount: number) => {
+    if (!confirm(`Delete this order and its ${itemCount} items?`)) return;
+
+    try {
+      await ordersDb.remove(orderId);
+      await fetchData();
+    } catch (error) {
+      console.error('Error deleting order:', error);
+      alert((error as Error).message || 'Error deleting order');
+    }
+  };
+
   const handleDeleteTransaction = async (id: string) => {
     if (!confirm('Are you sure you want to delete this transaction?')) return;
 
@@ -221,7 +313,7 @@ export default function Transactions() {
     const searchLower = searchTerm.toLowerCase();
     const dateRange = getDateRange();
 
-    return transactions.filter(transaction => {
+    const matching = transactions.filter(transaction => {
       const matchesSearch = transaction.services?.product_service.toLowerCase().includes(searchLower) ||
         (transaction.notes || '').toLowerCase().includes(searchLower);
       const matchesService = selectedService === '' || transaction.service_id === selectedService;
@@ -229,8 +321,37 @@ export default function Transactions() {
 
       return matchesSearch && matchesService && matchesDate;
     });
+
+    // Keep the lines of an order together, where its first line would be
+    const linesByOrder = new Map<string, Transaction[]>();
+    matching.forEach(transaction => {
+      if (!transaction.order_id) return;
+      linesByOrder.set(transaction.order_id, [...(linesByOrder.get(transaction.order_id) || []), transaction]);
+    });
+    return matching.flatMap(transaction => {
+      if (!transaction.order_id) return [transaction];
+      const lines = linesByOrder.get(transaction.order_id) || [];
+      return lines[0] === transaction ? lines : [];
+    });
   }, [transactions, searchTerm, selectedService, period, getDateRange]);
 
+  // Order totals over all of an order's lines, whatever the filters
+  const orderTotals = useMemo(() => {
+    const totals = new Map<string, { items: number; subtotal: number; discount: number; total: number; cost: number }>();
+    transactions.forEach(transaction => {
+      if (!transaction.order_id) return;
+      const entry = totals.get(transaction.order_id) || { items: 0, subtotal: 0, discount: 0, total: 0, cost: 0 };
+      const discount = transaction.discount_amount || 0;
+      entry.items += 1;
+      entry.subtotal += transaction.selling_price + discount;
+      entry.discount += discount;
+      entry.total += transaction.selling_price;
+      entry.cost += transaction.cost_at_sale;
+      totals.set(transaction.order_id, entry);
+    });
+    return totals;
+  }, [transactions]);
+
   // Paginated transactions for display
   const displayedTransactions = useMemo(() => {
     return filteredTransactions.slice(0, displayLimit);
@@ -241,10 +362,13 @@ export default function Transactions() {
     setDisplayLimit(100);
   }, [searchTerm, selectedService, period]);
 
-  // Memoize totals
-  const totalProfit = useMemo(() => filteredTransactions.reduce((sum, t) => sum + (t.selling_price - t.cost_at_sale), 0), [filteredTransactions]);
-  const totalRevenue = useMemo(() => filteredTransactions.reduce((sum, t) => sum + t.selling_price, 0), [filteredTransactions]);
+  // Memoize totals; refunds are netted out of the sales they were made against
+  const totalRefunds = useMemo(() => filteredTransactions.reduce((sum, t) => sum + sumRefunds(t.transaction_refunds || []), 0), [filteredTransactions]);
+  const totalProfit = useMemo(() => filteredTransactions.reduce((sum, t) => sum + (t.selling_price - t.cost_at_sale), 0) - totalRefunds, [filteredTransactions, totalRefunds]);
+  const totalRevenue = useMemo(() => filteredTransactions.reduce((sum, t) => sum + t.selling_price, 0) - totalRefunds, [filteredTransactions, totalRefunds]);
   const totalCosts = useMemo(() => filteredTransactions.reduce((sum, t) => sum + t.cost_at_sale, 0), [filteredTransactions]);
+  const totalDiscounts = useMemo(() => filteredTransactions.reduce((sum, t) => sum + (t.discount_amount || 0), 0), [filteredTransactions]);
+  const orderCount = useMemo(() => new Set(filteredTransactions.map(t => t.order_id).filter(Boolean)).size, [filteredTransactions]);
 
   if (loading) {
     return (
@@ -282,6 +406,9 @@ export default function Transactions() {
               <div>
                 <p className="text-muted-foreground text-sm">Total Transactions</p>
                 <p className="text-2xl font-bold text-foreground">{filteredTransactions.length}</p>
+                {orderCount > 0 && (
+                  <p className="text-xs text-muted-foreground">in {orderCount} orders</p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -295,6 +422,14 @@ export default function Transactions() {
               <div>
                 <p className="text-muted-foreground text-sm">Total Revenue</p>
                 <p className="text-2xl font-bold text-foreground">{formatCurrency(totalRevenue)}</p>
+                {(totalDiscounts > 0 || totalRefunds > 0) && (
+                  <p className="text-xs text-muted-foreground">
+                    after {[
+                      totalDiscounts > 0 && `${formatCurrency(totalDiscounts)} discounts`,
+                      totalRefunds > 0 && `${formatCurrency(totalRefunds)} refunds`
+                    ].filter(Boolean).join(' and ')}
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -456,56 +591,133 @@ export default function Transactions() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {displayedTransactions.map((transaction) => {
-                const profit = transaction.selling_price - transaction.cost_at_sale;
+              {displayedTransactions.map((transaction, index) => {
+                const refunds = transaction.transaction_refunds || [];
+                const refunded = sumRefunds(refunds);
+                const profit = transaction.selling_price - transaction.cost_at_sale - refunded;
+                const order = transaction.order_id ? orderTotals.get(transaction.order_id) : undefined;
+                // Multi-item orders get a header row above their first line
+                const showOrderHeader = order && order.items > 1 && displayedTransactions[index - 1]?.order_id !== transaction.order_id;
                 return (
-                  <TableRow key={transaction.id} className="hover:bg-secondary/50 transition-all">
-                    <TableCell className="text-muted-foreground">
-                      {new Date(transaction.date).toLocaleDateString()}
-                    </TableCell>
-                    <TableCell>
-                      <div className="font-medium text-foreground">
-                        {transaction.services?.product_service}
-                      </div>
-                      <div className="text-xs text-muted-foreground">
-                        {transaction.services?.category}
-                      </div>
-                    </TableCell>
-                    <TableCell className="text-muted-foreground">
-                      {transaction.services?.duration}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground">{formatCurrency(transaction.cost_at_sale)}</TableCell>
-                    <TableCell className="text-muted-foreground">{formatCurrency(transaction.selling_price)}</TableCell>
-                    <TableCell className={`font-bold ${profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                      {formatCurrency(profit)}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground max-w-xs truncate">
-                      {transaction.notes || '-'}
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex gap-1 md:gap-2">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => {
-                            setEditingTransaction(transaction);
-                            setIsModalOpen(true);
-                          }}
-                          className="h-8 w-8"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleDeleteTransaction(transaction.id)}
-                          className="h-8 w-8 text-muted-foreground hover:text-red-500"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
+                  <Fragment key={transaction.id}>
+                    {showOrderHeader && transaction.order_id && (
+                      <TableRow className="bg-secondary/30 hover:bg-secondary/30">
+                        <TableCell className="text-muted-foreground">
+                          {new Date(transaction.date).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell colSpan={2}>
+                          <div className="flex items-center gap-2 font-medium text-foreground">
+                            <ShoppingCart className="h-4 w-4 text-muted-foreground" />
+                            Order · {order.items} items
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{formatCurrency(order.cost)}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          <div className="font-medium text-foreground">{formatCurrency(order.total)}</div>
+                          {order.discount > 0 && (
+                            <div className="text-xs text-muted-foreground/70">
+                              {formatCurrency(order.subtotal)} - {formatCurrency(order.discount)} discount
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className={`font-bold ${order.total - order.cost >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {formatCurrency(order.total - order.cost)}
+                        </TableCell>
+                        <TableCell />
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeleteOrder(transaction.order_id as string, order.items)}
+                            className="h-8 w-8 text-muted-foreground hover:text-red-500"
+                            title="Delete order"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    <TableRow className="hover:bg-secondary/50 transition-all">
+                      <TableCell className="text-muted-foreground">
+                        {new Date(transaction.date).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium text-foreground">
+                          {transaction.services?.product_service}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {transaction.services?.category}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {transaction.services?.duration}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        <div>{formatCurrency(transaction.cost_at_sale)}</div>
+                        {transaction.supplier && (
+                          <div className="text-xs text-muted-foreground/70">{transaction.supplier.name}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        <div>{formatCurrency(transaction.selling_price)}</div>
+                        {!!transaction.discount_amount && (
+                          <div className="text-xs text-muted-foreground/70">
+                            incl. {formatCurrency(transaction.discount_amount)} discount
+                          </div>
+                        )}
+                        {transaction.payment_status && transaction.payment_status !== 'paid' && (
+                          <div className="text-xs text-yellow-400">
+                            {PAYMENT_STATUS_LABELS[transaction.payment_status]} · {formatCurrency(getOutstanding(transaction))} due
+                          </div>
+                        )}
+                        {refunds.map(refund => (
+                          <div key={refund.id} className="text-xs text-red-400" title={refund.reason || undefined}>
+                            -{formatCurrency(refund.amount)} {REFUND_KIND_LABELS[refund.kind].toLowerCase()} · {new Date(refund.date).toLocaleDateString()}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className={`font-bold ${profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {formatCurrency(profit)}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground max-w-xs truncate">
+                        {transaction.notes || '-'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1 md:gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              setEditingTransaction(transaction);
+                              setIsModalOpen(true);
+                            }}
+                            className="h-8 w-8"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {transaction.service_id && refunded < transaction.selling_price && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setRefundingTransaction(transaction)}
+                              className="h-8 w-8"
+                              title="Refund"
+                            >
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeleteTransaction(transaction.id)}
+                            className="h-8 w-8 text-muted-foreground hover:text-red-500"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  </Fragment>
                 );
               })}
             </TableBody>
@@ -543,9 +755,17 @@ export default function Transactions() {
           setEditingTransaction(null);
         }}
         onSave={handleSaveTransaction}
+        onSaveOrder={handleSaveOrder}
         transaction={editingTransaction}
         services={services}
       />
+
+      <RefundModal
+        isOpen={!!refundingTransaction}
+        onClose={() => setRefundingTransaction(null)}
+        transaction={refundingTransaction}
+        onRefunded={fetchData}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -53,7 +53,9 @@ export interface MoneyPoolWithStatus extends MoneyPool {
 }
 
 export interface TodaysNumbers {
-    revenue: number;
+    revenue: number; // Collected less payment fees, net of refunds
+    refunds: number;
+    outstanding: number; // Still owed on today's sales
     salesCount: number;
     adSpend: number;
     cogs: number; // Cost of goods sold
@@ -7,6 +7,10 @@ export interface Client {
     discord?: string;
     notes?: string;
     source?: string;
+    status_token?: string | null; // Share token for the public status page (null = revoked)
+    status_token_created_at?: string | null;
+    credit_balance?: number; // USD of store credit the client can spend
+    price_list_id?: string | null; // Price list their sales are priced from (null = retail)
     created_at: string;
     updated_at: string;
 }
@@ -25,6 +29,32 @@ export interface ClientStatistics {
     id: string;
     name: string;
     total_purchases: number;
-    total_spent: number;
+    total_spent: number; // Net of refunds
+    total_refunded?: number;
     services_bought: string[];
 }
+
+// Display-safe data returned by the public status page lookup
+export interface PublicSubscriptionStatus {
+    id: string;
+    service_name: string;
+    service_duration: string;
+    logo_url: string | null;
+    status: string;
+    strategy: string;
+    interval_days: number | null;
+    renewal_day: number | null;
+    started_at: string;
+    current_cycle_start_at: string;
+    next_renewal_at: string | null;
+    custom_next_renewal_at: string | null;
+    target_end_at: string | null;
+    paused_at: string | null;
+    cycle_paused_ms: number | null;
+    iterations_done: number | null;
+}
+
+export interface PublicClientStatus {
+    client_name: string;
+    subscriptions: PublicSubscriptionStatus[];
+}
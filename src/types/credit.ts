@@ -0,0 +1,28 @@
+export type CreditEntryKind = 'deposit' | 'consumption' | 'adjustment' | 'store_credit';
+
+export interface ClientCreditEntry {
+  id: string;
+  client_id: string;
+  kind: CreditEntryKind;
+  amount: number; // USD; positive adds to the balance, negative draws from it
+  order_id: string | null;
+  refund_id: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+export interface CreditEntryFormData {
+  client_id: string;
+  kind: CreditEntryKind;
+  amount: number;
+  order_id?: string | null;
+  notes: string | null;
+}
+
+export interface LowCreditClient {
+  id: string;
+  name: string;
+  balance: number; // USD
+}
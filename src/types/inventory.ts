@@ -1,6 +1,7 @@
 export type PoolType = 'admin_console' | 'family' | 'team' | 'workspace';
 export type PoolStatus = 'active' | 'paused' | 'completed' | 'overdue' | 'expired';
 export type SeatStatus = 'available' | 'reserved' | 'assigned';
+export type PurchaseCurrency = 'USD' | 'TND';
 
 export interface ResourcePool {
   id: string;
@@ -17,7 +18,8 @@ export interface ResourcePool {
     | string; // extensible
   pool_type: PoolType;
   login_email: string;
-  login_secret?: string | null;
+  login_secret?: string | null; // Encrypted; only present when fetched via getPoolSecret
+  has_login_secret?: boolean;
   notes?: string | null;
   start_at: string; // ISO
   end_at: string;   // ISO
@@ -25,6 +27,8 @@ export interface ResourcePool {
   max_seats: number;
   used_seats: number;
   status: PoolStatus;
+  purchase_cost?: number | null; // What we paid for the account, in purchase_currency
+  purchase_currency: PurchaseCurrency;
   created_at: string;
   updated_at: string;
 }
@@ -43,6 +47,51 @@ export interface ResourcePoolSeat {
   updated_at: string;
 }
 
+// One occupant of a seat; unassigned_at is null while they still hold it
+export interface SeatHistoryEntry {
+  id: string;
+  seat_id: string;
+  pool_id: string;
+  assigned_email?: string | null;
+  client_id?: string | null;
+  subscription_id?: string | null;
+  assigned_at: string;
+  unassigned_at?: string | null;
+  created_at: string;
+  // Joined for display
+  clients?: { name: string } | null;
+  subscriptions?: { id: string; status: string; services: { product_service: string } | null } | null;
+}
+
+export type PoolEventType = 'extended';
+
+export type PoolExtensionMeta = {
+  previousEndAt: string;
+  newEndAt: string;
+  daysAdded: number;
+  expenseAmount: number | null;
+  // pool_transfers row paying the expense; extensions recorded before it was a transfer have none
+  expenseTransferId?: string | null;
+  updatedSubscriptions: number;
+  failedSubscriptionIds: string[];
+};
+
+export interface ResourcePoolEvent {
+  id: string;
+  pool_id: string;
+  type: PoolEventType;
+  at: string;
+  meta: PoolExtensionMeta;
+  created_at: string;
+}
+
+export interface PoolExtensionResult {
+  pool: ResourcePool;
+  updated: number;
+  failures: Array<{ subscriptionId: string; error: string }>;
+  expenseTransferId: string | null;
+}
+
 export interface PoolStats {
   total_seats: number;
   used_seats: number;
@@ -62,6 +111,20 @@ export interface SeatAssignment {
   assignedAt?: string;
 }
 
+// One seat of a pool being migrated and the pool it moves to
+export interface SeatMigration {
+  seatId: string;
+  targetPoolId: string;
+  email?: string | null;
+  clientId?: string | null;
+  subscriptionId?: string | null;
+}
+
+export interface PoolMigrationResult {
+  migrated: number;
+  failures: Array<{ seatId: string; subscriptionId?: string | null; error: string }>;
+}
+
 export interface CreatePoolData {
   provider: string;
   pool_type: PoolType;
@@ -71,6 +134,8 @@ export interface CreatePoolData {
   start_at: string;
   end_at: string;
   max_seats: number;
+  purchase_cost?: number | null;
+  purchase_currency?: PurchaseCurrency;
 }
 
 export interface UpdatePoolData extends Partial<CreatePoolData> {
@@ -142,7 +207,8 @@ export interface PersonalAccount {
   id: string;
   provider: string;
   login_email: string;
-  login_secret?: string | null;
+  login_secret?: string | null; // Encrypted; only present when fetched via getPersonalAccountSecret
+  has_login_secret?: boolean;
   notes?: string | null;
   created_at: string;
   expiry_date?: string | null;
@@ -0,0 +1,43 @@
+export type OperatorRole = 'owner' | 'sales' | 'inventory';
+
+export interface Operator {
+  id: string;
+  user_id: string | null; // Linked on the operator's first sign-in
+  email: string;
+  display_name: string | null;
+  role: OperatorRole;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AuditEntityType =
+  | 'subscription'
+  | 'resource_pool'
+  | 'resource_pool_seat'
+  | 'personal_account'
+  | 'client'
+  | 'transaction'
+  | 'money_pool'
+  | 'ad_spend'
+  | 'pending_payout'
+  | 'operator'
+  | 'waitlist';
+
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  action: string;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface AuditLogFilter {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  action?: string;
+  from?: string; // ISO
+  to?: string; // ISO
+}
@@ -0,0 +1,32 @@
+export interface Order {
+  id: string;
+  client_id: string | null;
+  date: string;
+  discount: number; // USD, taken off the sum of the line prices
+  notes: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrderLineFormData {
+  service_id: string;
+  supplier_id: string | null;
+  cost_at_sale: number; // USD
+  selling_price: number; // USD, before the order discount
+  create_subscription: boolean;
+}
+
+export interface OrderFormData {
+  client_id: string;
+  date: string;
+  discount: number; // USD
+  notes: string;
+  // Price list the lines were priced from; null = retail
+  price_list_id: string | null;
+  // USD drawn from the client's credit balance towards the total
+  credit_used: number;
+  // USD collected towards the rest of the total so far
+  amount_paid: number;
+  payment_method: string | null;
+  lines: OrderLineFormData[];
+}
@@ -0,0 +1,23 @@
+import type { MoneyPoolName } from './cashflow';
+
+export interface PaymentMethod {
+  id: string;
+  key: string; // Stored on transactions.payment_method
+  name: string;
+  fee_fixed: number; // USD per payment
+  fee_percent: number;
+  // Pool that collected payments are credited to
+  pool_name: MoneyPoolName | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentMethodFormData {
+  key: string;
+  name: string;
+  fee_fixed: number;
+  fee_percent: number;
+  pool_name: MoneyPoolName | null;
+  is_active: boolean;
+}
@@ -0,0 +1,20 @@
+export interface ServicePriceChange {
+  id: string;
+  service_id: string;
+  // null on a service's first row (its starting price)
+  old_cost: number | null;
+  old_selling_price: number | null;
+  new_cost: number;
+  new_selling_price: number;
+  reason: string | null;
+  changed_by: string | null;
+  changed_by_email: string | null;
+  changed_at: string;
+  // Joined for display
+  services?: { product_service: string; duration: string } | null;
+}
+
+export interface ServicePrices {
+  cost: number;
+  selling_price: number;
+}
@@ -0,0 +1,36 @@
+export type PriceListKind = 'reseller' | 'custom';
+
+export interface PriceListItem {
+  id: string;
+  price_list_id: string;
+  service_id: string;
+  selling_price: number; // USD, like services.selling_price
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PriceList {
+  id: string;
+  name: string;
+  kind: PriceListKind;
+  // Taken off the retail price of services without an override
+  discount_percent: number;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  // Per-service overrides, when selected
+  price_list_items?: PriceListItem[];
+}
+
+export interface PriceListFormData {
+  name: string;
+  kind: PriceListKind;
+  discount_percent: number;
+  notes: string | null;
+}
+
+export interface PriceListItemFormData {
+  price_list_id: string;
+  service_id: string;
+  selling_price: number;
+}
@@ -0,0 +1,24 @@
+import type { PoolType } from './inventory';
+
+export interface Provider {
+  id: string;
+  key: string; // e.g. 'microsoft_365', stored on pools, accounts and waitlist entries
+  display_name: string;
+  pool_type: PoolType | null; // null = no inventory tracking
+  default_seats: number | null;
+  default_duration_days: number | null;
+  icon: string | null;
+  logo_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProviderFormData {
+  key: string;
+  display_name: string;
+  pool_type: PoolType | null;
+  default_seats: number | null;
+  default_duration_days: number | null;
+  icon: string | null;
+  logo_url: string | null;
+}
@@ -0,0 +1,37 @@
+export type PaymentStatus = 'paid' | 'partial' | 'unpaid';
+
+// Days since the sale: 0–7, 8–30, over 30
+export type ReceivableAgingBucket = 'current' | 'late' | 'overdue';
+
+export interface ClientReceivable {
+  client_id: string;
+  name: string;
+  outstanding: number; // USD
+  sales: number;
+  oldest_date: string;
+  buckets: Record<ReceivableAgingBucket, number>;
+}
+
+// One collection on a sale, dated when the money came in
+export interface TransactionPayment {
+  id: string;
+  transaction_id: string;
+  amount: number; // USD
+  // payment_methods.key; payment_fee is what the method took out of amount (USD)
+  payment_method: string | null;
+  payment_fee: number;
+  date: string;
+  // Shared by the rows of one payment spread over several sales, which pay the fixed fee once
+  payment_group: string | null;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+export interface PaymentFormData {
+  transaction_id: string;
+  amount: number;
+  payment_method: string | null;
+  date: string;
+  payment_group?: string | null;
+}
@@ -0,0 +1,28 @@
+// store_credit goes onto the client's credit balance instead of being paid out
+export type RefundKind = 'refund' | 'chargeback' | 'store_credit';
+
+export interface TransactionRefund {
+  id: string;
+  transaction_id: string;
+  client_id: string | null;
+  kind: RefundKind;
+  amount: number; // USD
+  // USD paid back (or credited); the rest of amount canceled what the client owed
+  paid_out: number;
+  reason: string | null;
+  date: string;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+  // Joined for display
+  transactions?: { date: string; selling_price: number; services?: { product_service: string } | null } | null;
+}
+
+export interface RefundFormData {
+  transaction_id: string;
+  client_id: string | null;
+  kind: RefundKind;
+  amount: number;
+  reason: string | null;
+  date: string;
+}
@@ -0,0 +1,16 @@
+export type ReminderBucket = 'dueToday' | 'dueIn3Days' | 'overdue';
+
+export interface ReminderTemplate {
+  id: string;
+  service_id: string | null; // null = global default template
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ClientReminder {
+  clientId: string;
+  clientName: string;
+  subscriptionIds: string[];
+  message: string;
+}
@@ -1,5 +1,8 @@
 export type RenewalStrategyKey = 
   | 'MONTHLY' 
+  | 'QUARTERLY'
+  | 'YEARLY'
+  | 'DAY_OF_MONTH'
   | 'EVERY_N_DAYS';
 
 export type SubscriptionStatus = 'active' | 'paused' | 'completed' | 'overdue' | 'canceled' | 'archived';
@@ -9,11 +12,17 @@ export type SubscriptionEventType =
   | 'renewed'
   | 'custom_date_set'
   | 'custom_date_cleared'
+  | 'paused'
+  | 'resumed'
   | 'completed'
   | 'overdue'
   | 'reverted'
   | 'updated'
-  | 'archived';
+  | 'archived'
+  | 'reminder_sent'
+  | 'pool_migrated'
+  | 'renewal_recalculated'
+  | 'pool_extended';
 
 export interface ServiceConfig {
   id: string;
@@ -37,13 +46,19 @@ export interface Subscription {
   nextRenewalAt?: string;
   customNextRenewalAt?: string; // Custom override for next renewal date
   targetEndAt?: string;
+  pausedAt?: string; // When the subscription was last paused
   
   // Counters
   iterationsDone?: number;
+  cyclesPaid?: number | null; // Cycles in the current prepaid block, including the one it started on (unset = pay per cycle)
+  prepaidFromIteration?: number; // iterationsDone when the prepaid block was bought
+  cyclePausedMs?: number; // Time spent paused during the current cycle
   
   // Config snapshot (portable from service)
   strategy: RenewalStrategyKey;
   intervalDays?: number;
+  renewalDay?: number; // Day of month (1-31) for DAY_OF_MONTH strategy
+  chargeOnRenewal?: boolean; // Record a sale on each renewal (false = renew without charging)
   
   // State
   status: SubscriptionStatus;
@@ -52,6 +67,7 @@ export interface Subscription {
   // Resource pool linking
   resourcePoolId?: string;
   resourcePoolSeatId?: string;
+  waitlistEntryId?: string; // Set when the waitlist auto-assignment created the subscription
   
   // Metadata
   createdAt: string;
@@ -84,3 +100,10 @@ export interface CycleProgress {
   msLeft: number;
   msTotal: number;
 }
+
+// Money collected when a renewal is charged; amount is USD, null = the full renewal price.
+// A renewal charged without one is left owed
+export interface RenewalPayment {
+  amount: number | null;
+  paymentMethod: string | null;
+}
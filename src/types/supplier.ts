@@ -0,0 +1,48 @@
+export type SupplierKind = 'key_seller' | 'gift_card_vendor' | 'reseller' | 'other';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  kind: SupplierKind;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SupplierFormData {
+  name: string;
+  kind: SupplierKind;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  notes: string | null;
+  is_active: boolean;
+}
+
+export interface SupplierOffer {
+  id: string;
+  supplier_id: string;
+  service_id: string;
+  cost: number; // USD, like services.cost
+  lead_time_days: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined for display
+  suppliers?: { name: string; is_active: boolean } | null;
+  services?: { product_service: string; duration: string } | null;
+}
+
+export interface SupplierOfferFormData {
+  supplier_id: string;
+  service_id: string;
+  cost: number;
+  lead_time_days: number | null;
+  notes: string | null;
+}
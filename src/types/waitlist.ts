@@ -0,0 +1,39 @@
+export type WaitlistStatus = 'waiting' | 'assigned' | 'canceled';
+
+// 1 = high, 2 = normal, 3 = low
+export type WaitlistPriority = 1 | 2 | 3;
+
+export interface WaitlistEntry {
+  id: string;
+  client_id: string;
+  service_id: string;
+  provider: string;
+  seat_email: string | null;
+  priority: WaitlistPriority;
+  notes: string | null;
+  status: WaitlistStatus;
+  assigned_subscription_id: string | null;
+  assigned_pool_id: string | null;
+  assigned_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined for display
+  clients?: { name: string } | null;
+  services?: { product_service: string; duration: string } | null;
+}
+
+export interface CreateWaitlistEntryData {
+  client_id: string;
+  service_id: string;
+  provider: string;
+  seat_email?: string;
+  priority: WaitlistPriority;
+  notes?: string;
+}
+
+export interface WaitlistAssignment {
+  entryId: string;
+  clientName: string;
+  poolId: string;
+  subscriptionId: string;
+}
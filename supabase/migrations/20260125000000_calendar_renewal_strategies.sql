@@ -0,0 +1,15 @@
+-- Calendar-based renewal strategies migration
+-- Adds QUARTERLY, YEARLY and DAY_OF_MONTH strategies so yearly plans no longer
+-- drift on leap years, plus the fixed renewal day used by DAY_OF_MONTH
+
+ALTER TABLE public.subscriptions
+  DROP CONSTRAINT IF EXISTS subscriptions_strategy_check;
+
+ALTER TABLE public.subscriptions
+  ADD CONSTRAINT subscriptions_strategy_check
+  CHECK (strategy IN ('MONTHLY', 'QUARTERLY', 'YEARLY', 'DAY_OF_MONTH', 'EVERY_N_DAYS'));
+
+-- Day of month (1-31) for DAY_OF_MONTH subscriptions
+-- Days that don't exist in a given month are clamped to the month end by the app
+ALTER TABLE IF EXISTS public.subscriptions
+  ADD COLUMN IF NOT EXISTS renewal_day integer CHECK (renewal_day BETWEEN 1 AND 31);
@@ -0,0 +1,32 @@
+-- Prepaid subscription cycles migration
+-- Tracks how many cycles a client paid upfront so prepaid renewals don't count as overdue
+
+-- Total cycles paid upfront, including the current one (NULL = pay per cycle)
+ALTER TABLE IF EXISTS public.subscriptions
+  ADD COLUMN IF NOT EXISTS cycles_paid integer CHECK (cycles_paid > 0);
+
+-- Only mark subscriptions overdue once their prepaid cycles have run out
+CREATE OR REPLACE FUNCTION public.refresh_subscription_status() 
+RETURNS TABLE(completed_count integer, overdue_count integer) AS $$
+DECLARE
+  v_completed_count integer := 0;
+  v_overdue_count integer := 0;
+BEGIN
+  -- Auto-complete expired subscriptions
+  SELECT public.fn_auto_complete_expired_subscriptions() INTO v_completed_count;
+  
+  -- Mark overdue subscriptions (past next_renewal_at, not completed and no prepaid cycle left)
+  UPDATE public.subscriptions
+  SET 
+    status = 'overdue',
+    updated_at = now()
+  WHERE status = 'active' 
+    AND next_renewal_at IS NOT NULL 
+    AND now() > next_renewal_at
+    AND (cycles_paid IS NULL OR cycles_paid - COALESCE(iterations_done, 0) <= 1);
+    
+  GET DIAGNOSTICS v_overdue_count = ROW_COUNT;
+  
+  RETURN QUERY SELECT v_completed_count, v_overdue_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,5 @@
+-- Renewal sales migration
+-- Renewals now record a sale transaction; this flag lets a subscription renew without charging
+
+ALTER TABLE IF EXISTS public.subscriptions
+  ADD COLUMN IF NOT EXISTS charge_on_renewal boolean NOT NULL DEFAULT true;
@@ -0,0 +1,10 @@
+-- Subscription pause/resume migration
+-- Paused subscriptions freeze their countdown; resuming extends the cycle by the paused duration
+
+-- When the subscription was last paused
+ALTER TABLE IF EXISTS public.subscriptions
+  ADD COLUMN IF NOT EXISTS paused_at timestamp with time zone;
+
+-- Time spent paused during the current cycle (excluded from renewal progress, reset on renewal)
+ALTER TABLE IF EXISTS public.subscriptions
+  ADD COLUMN IF NOT EXISTS cycle_paused_ms bigint NOT NULL DEFAULT 0;
@@ -0,0 +1,25 @@
+-- Renewal reminder templates migration
+-- One template per service plus a global default (service_id IS NULL)
+
+CREATE TABLE IF NOT EXISTS public.reminder_templates (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  service_id uuid REFERENCES public.services(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT reminder_templates_pkey PRIMARY KEY (id),
+  CONSTRAINT reminder_templates_service_id_key UNIQUE (service_id)
+);
+
+-- UNIQUE ignores NULLs, so enforce a single global default separately
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminder_templates_default
+  ON public.reminder_templates ((service_id IS NULL))
+  WHERE service_id IS NULL;
+
+-- Allow logging generated reminders on subscriptions
+ALTER TABLE public.subscription_events
+  DROP CONSTRAINT IF EXISTS subscription_events_type_check;
+
+ALTER TABLE public.subscription_events
+  ADD CONSTRAINT subscription_events_type_check
+  CHECK (type = ANY (ARRAY['created'::text, 'renewed'::text, 'custom_date_set'::text, 'custom_date_cleared'::text, 'paused'::text, 'resumed'::text, 'completed'::text, 'overdue'::text, 'canceled'::text, 'updated'::text, 'archived'::text, 'reverted'::text, 'reminder_sent'::text]));
@@ -0,0 +1,65 @@
+-- Client status page migration
+-- Each client can get a share token for a read-only public status page (/status/:token)
+
+ALTER TABLE IF EXISTS public.clients
+  ADD COLUMN IF NOT EXISTS status_token text,
+  ADD COLUMN IF NOT EXISTS status_token_created_at timestamp with time zone;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clients_status_token
+  ON public.clients (status_token)
+  WHERE status_token IS NOT NULL;
+
+-- Public lookup by token. SECURITY DEFINER so anonymous visitors never need
+-- table access; only display-safe columns are returned (no pool credentials,
+-- costs, prices or notes).
+CREATE OR REPLACE FUNCTION public.get_client_status(p_token text)
+RETURNS jsonb AS $$
+DECLARE
+  v_client public.clients%ROWTYPE;
+  v_subscriptions jsonb;
+BEGIN
+  IF p_token IS NULL OR length(p_token) < 32 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_client
+  FROM public.clients
+  WHERE status_token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', s.id,
+      'service_name', sv.product_service,
+      'service_duration', sv.duration,
+      'logo_url', sv.logo_url,
+      'status', s.status,
+      'strategy', s.strategy,
+      'interval_days', s.interval_days,
+      'renewal_day', s.renewal_day,
+      'started_at', s.started_at,
+      'current_cycle_start_at', s.current_cycle_start_at,
+      'next_renewal_at', s.next_renewal_at,
+      'custom_next_renewal_at', s.custom_next_renewal_at,
+      'target_end_at', s.target_end_at,
+      'paused_at', s.paused_at,
+      'cycle_paused_ms', s.cycle_paused_ms,
+      'iterations_done', s.iterations_done
+    ) ORDER BY s.next_renewal_at ASC NULLS LAST), '[]'::jsonb)
+  INTO v_subscriptions
+  FROM public.subscriptions s
+  JOIN public.services sv ON sv.id = s.service_id
+  WHERE s.client_id = v_client.id
+    AND s.status IN ('active', 'overdue', 'paused');
+
+  RETURN jsonb_build_object(
+    'client_name', v_client.name,
+    'subscriptions', v_subscriptions
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_client_status(text) TO anon;
+GRANT EXECUTE ON FUNCTION public.get_client_status(text) TO authenticated;
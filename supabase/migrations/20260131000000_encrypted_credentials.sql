@@ -0,0 +1,25 @@
+-- Encrypted credentials migration
+-- Pool and personal-account passwords are encrypted in the browser (AES-GCM,
+-- key derived from an operator passphrase). login_secret now holds
+-- `enc:v1:<iv>:<ciphertext>` values; legacy plaintext rows are migrated from
+-- Settings > Security.
+
+-- Single-row vault config: PBKDF2 salt/iterations plus an encrypted verifier
+-- used to check the passphrase. The passphrase and key are never stored.
+CREATE TABLE IF NOT EXISTS public.credential_vault (
+  id integer NOT NULL DEFAULT 1 CHECK (id = 1),
+  salt text NOT NULL,
+  iterations integer NOT NULL CHECK (iterations > 0),
+  verifier text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT credential_vault_pkey PRIMARY KEY (id)
+);
+
+-- Lets list queries show whether a password exists without selecting it
+ALTER TABLE public.resource_pools
+  ADD COLUMN IF NOT EXISTS has_login_secret boolean
+  GENERATED ALWAYS AS (login_secret IS NOT NULL AND login_secret <> '') STORED;
+
+ALTER TABLE public.personal_accounts
+  ADD COLUMN IF NOT EXISTS has_login_secret boolean
+  GENERATED ALWAYS AS (login_secret IS NOT NULL AND login_secret <> '') STORED;
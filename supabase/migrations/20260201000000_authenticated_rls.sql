@@ -0,0 +1,58 @@
+-- Authenticated-only access migration
+-- The dashboard now requires an email/password sign-in. Replace the
+-- development policies (anon / USING (true)) with policies that only let
+-- authenticated users through, so the anon key on its own exposes nothing.
+-- The public client status page keeps working through get_client_status().
+
+DO $$
+DECLARE
+  v_table text;
+  v_policy record;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'client_purchases',
+    'clients',
+    'credential_vault',
+    'daily_ad_spend',
+    'money_pools',
+    'pending_payouts',
+    'personal_accounts',
+    'pool_transfers',
+    'reminder_templates',
+    'resource_pool_seats',
+    'resource_pools',
+    'services',
+    'subscription_events',
+    'subscriptions',
+    'transactions'
+  ]
+  LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', v_table);
+
+    -- Drop every existing policy, including the development ones
+    FOR v_policy IN
+      SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = v_table
+    LOOP
+      EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_table);
+    END LOOP;
+
+    EXECUTE format(
+      'CREATE POLICY "Authenticated users can manage %s" ON public.%I FOR ALL TO authenticated USING (true) WITH CHECK (true)',
+      v_table, v_table
+    );
+
+    EXECUTE format('REVOKE ALL ON public.%I FROM anon, public', v_table);
+    EXECUTE format('GRANT ALL ON public.%I TO authenticated', v_table);
+  END LOOP;
+END $$;
+
+-- SECURITY DEFINER seat functions bypass RLS, so they must not be callable anonymously
+REVOKE EXECUTE ON ALL FUNCTIONS IN SCHEMA public FROM anon, public;
+GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA public TO authenticated;
+
+-- Token-gated public status page
+GRANT EXECUTE ON FUNCTION public.get_client_status(text) TO anon;
+
+-- New tables and functions are not exposed to anon by default
+ALTER DEFAULT PRIVILEGES IN SCHEMA public REVOKE ALL ON TABLES FROM anon;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public REVOKE EXECUTE ON FUNCTIONS FROM anon, public;
@@ -0,0 +1,190 @@
+-- Operator roles and audit log migration
+-- Operators sign in with their own Supabase account and get one role:
+--   owner     - everything, including cash flow, operators and the audit log
+--   sales     - clients, sales, subscriptions; read-only services and inventory
+--   inventory - pools and personal accounts; read-only subscriptions
+-- Replaces the blanket "Authenticated users can manage" policies.
+
+CREATE TABLE IF NOT EXISTS public.operators (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL,
+  email text NOT NULL,
+  display_name text,
+  role text NOT NULL DEFAULT 'sales'::text CHECK (role = ANY (ARRAY['owner'::text, 'sales'::text, 'inventory'::text])),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT operators_pkey PRIMARY KEY (id),
+  CONSTRAINT operators_email_key UNIQUE (email)
+);
+
+-- Generic, append-only audit trail written by the app's service modules
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  actor_id uuid DEFAULT auth.uid(),
+  actor_email text DEFAULT (auth.jwt() ->> 'email'),
+  entity_type text NOT NULL,
+  entity_id text,
+  action text NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT audit_log_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON public.audit_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON public.audit_log (actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON public.audit_log (entity_type, entity_id);
+
+-- Role check used by every policy below. SECURITY DEFINER so it can read
+-- operators regardless of the caller's own access to that table.
+CREATE OR REPLACE FUNCTION public.has_operator_role(VARIADIC p_roles text[])
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.operators
+    WHERE user_id = auth.uid() AND role = ANY (p_roles)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Returns the signed-in operator. An invited email is linked to the account on
+-- its first sign-in; if no operators exist yet the first user becomes owner.
+CREATE OR REPLACE FUNCTION public.get_my_operator()
+RETURNS jsonb AS $$
+DECLARE
+  v_operator public.operators%ROWTYPE;
+  v_email text := lower(auth.jwt() ->> 'email');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_operator FROM public.operators WHERE user_id = auth.uid();
+  IF FOUND THEN
+    RETURN to_jsonb(v_operator);
+  END IF;
+
+  UPDATE public.operators
+  SET user_id = auth.uid(), updated_at = now()
+  WHERE user_id IS NULL AND lower(email) = v_email
+  RETURNING * INTO v_operator;
+  IF FOUND THEN
+    RETURN to_jsonb(v_operator);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.operators) THEN
+    INSERT INTO public.operators (user_id, email, role)
+    VALUES (auth.uid(), v_email, 'owner')
+    RETURNING * INTO v_operator;
+    RETURN to_jsonb(v_operator);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.has_operator_role(text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_operator() TO authenticated;
+
+-- Drop the blanket policies from 20260201000000_authenticated_rls.sql
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'client_purchases', 'clients', 'credential_vault', 'daily_ad_spend', 'money_pools',
+    'pending_payouts', 'personal_accounts', 'pool_transfers', 'reminder_templates',
+    'resource_pool_seats', 'resource_pools', 'services', 'subscription_events',
+    'subscriptions', 'transactions'
+  ]
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Authenticated users can manage ' || v_table, v_table);
+  END LOOP;
+END $$;
+
+-- Owner: full access everywhere
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'client_purchases', 'clients', 'credential_vault', 'daily_ad_spend', 'money_pools',
+    'pending_payouts', 'personal_accounts', 'pool_transfers', 'reminder_templates',
+    'resource_pool_seats', 'resource_pools', 'services', 'subscription_events',
+    'subscriptions', 'transactions', 'operators'
+  ]
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY "Owners manage %s" ON public.%I FOR ALL TO authenticated USING (public.has_operator_role(''owner'')) WITH CHECK (public.has_operator_role(''owner''))',
+      v_table, v_table
+    );
+  END LOOP;
+END $$;
+
+-- Sales: full access to the sales side
+CREATE POLICY "Sales manage clients" ON public.clients
+  FOR ALL TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+CREATE POLICY "Sales manage client_purchases" ON public.client_purchases
+  FOR ALL TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+CREATE POLICY "Sales manage transactions" ON public.transactions
+  FOR ALL TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+CREATE POLICY "Sales manage subscriptions" ON public.subscriptions
+  FOR ALL TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+CREATE POLICY "Sales manage subscription_events" ON public.subscription_events
+  FOR ALL TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+CREATE POLICY "Sales manage reminder_templates" ON public.reminder_templates
+  FOR ALL TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+
+-- Sales: link subscriptions to existing seats and hand out personal accounts
+CREATE POLICY "Sales assign resource_pool_seats" ON public.resource_pool_seats
+  FOR UPDATE TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+CREATE POLICY "Sales assign personal_accounts" ON public.personal_accounts
+  FOR UPDATE TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+
+-- Inventory: full access to pools and accounts
+CREATE POLICY "Inventory manage resource_pools" ON public.resource_pools
+  FOR ALL TO authenticated USING (public.has_operator_role('inventory')) WITH CHECK (public.has_operator_role('inventory'));
+CREATE POLICY "Inventory manage resource_pool_seats" ON public.resource_pool_seats
+  FOR ALL TO authenticated USING (public.has_operator_role('inventory')) WITH CHECK (public.has_operator_role('inventory'));
+CREATE POLICY "Inventory manage personal_accounts" ON public.personal_accounts
+  FOR ALL TO authenticated USING (public.has_operator_role('inventory')) WITH CHECK (public.has_operator_role('inventory'));
+
+-- Inventory: keep subscriptions in sync when seats move
+CREATE POLICY "Inventory update subscriptions" ON public.subscriptions
+  FOR UPDATE TO authenticated USING (public.has_operator_role('inventory')) WITH CHECK (public.has_operator_role('inventory'));
+CREATE POLICY "Inventory log subscription_events" ON public.subscription_events
+  FOR INSERT TO authenticated WITH CHECK (public.has_operator_role('inventory'));
+
+-- Shared read access
+CREATE POLICY "Operators read services" ON public.services
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales', 'inventory'));
+CREATE POLICY "Operators read credential_vault" ON public.credential_vault
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales', 'inventory'));
+CREATE POLICY "Sales read resource_pools" ON public.resource_pools
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales'));
+CREATE POLICY "Sales read resource_pool_seats" ON public.resource_pool_seats
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales'));
+CREATE POLICY "Sales read personal_accounts" ON public.personal_accounts
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales'));
+CREATE POLICY "Inventory read clients" ON public.clients
+  FOR SELECT TO authenticated USING (public.has_operator_role('inventory'));
+CREATE POLICY "Inventory read subscriptions" ON public.subscriptions
+  FOR SELECT TO authenticated USING (public.has_operator_role('inventory'));
+CREATE POLICY "Inventory read subscription_events" ON public.subscription_events
+  FOR SELECT TO authenticated USING (public.has_operator_role('inventory'));
+
+-- Operators can always see their own row
+CREATE POLICY "Operators read own row" ON public.operators
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- Audit log: any operator appends entries as themselves, only owners read
+ALTER TABLE public.operators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Operators append audit_log" ON public.audit_log
+  FOR INSERT TO authenticated
+  WITH CHECK (actor_id = auth.uid() AND public.has_operator_role('owner', 'sales', 'inventory'));
+CREATE POLICY "Owners read audit_log" ON public.audit_log
+  FOR SELECT TO authenticated USING (public.has_operator_role('owner'));
+
+REVOKE ALL ON public.operators FROM anon, public;
+REVOKE ALL ON public.audit_log FROM anon, public;
+GRANT ALL ON public.operators TO authenticated;
+GRANT SELECT, INSERT ON public.audit_log TO authenticated;
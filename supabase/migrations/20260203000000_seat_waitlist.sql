@@ -0,0 +1,46 @@
+-- Seat waitlist migration
+-- Clients waiting for a seat on a full provider (Spotify, Apple One, ...).
+-- When a pool gains capacity the app assigns waiting entries in priority
+-- order through assign_next_free_seat and creates their subscription.
+
+CREATE TABLE IF NOT EXISTS public.seat_waitlist (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  service_id uuid NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  seat_email text,
+  -- 1 = high, 2 = normal, 3 = low; ties are first come, first served
+  priority smallint NOT NULL DEFAULT 2 CHECK (priority BETWEEN 1 AND 3),
+  notes text,
+  status text NOT NULL DEFAULT 'waiting'::text CHECK (status = ANY (ARRAY['waiting'::text, 'assigned'::text, 'canceled'::text])),
+  assigned_subscription_id uuid REFERENCES public.subscriptions(id) ON DELETE SET NULL,
+  assigned_pool_id uuid REFERENCES public.resource_pools(id) ON DELETE SET NULL,
+  assigned_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT seat_waitlist_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seat_waitlist_queue
+  ON public.seat_waitlist (provider, priority, created_at)
+  WHERE status = 'waiting';
+
+ALTER TABLE public.seat_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage seat_waitlist" ON public.seat_waitlist
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+CREATE POLICY "Sales manage seat_waitlist" ON public.seat_waitlist
+  FOR ALL TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+-- Inventory operators trigger auto-assignment when they add capacity
+CREATE POLICY "Inventory manage seat_waitlist" ON public.seat_waitlist
+  FOR ALL TO authenticated USING (public.has_operator_role('inventory')) WITH CHECK (public.has_operator_role('inventory'));
+
+-- Auto-assignment creates the subscription for the waiting client and
+-- removes it again when the seat was taken in the meantime
+CREATE POLICY "Inventory create subscriptions" ON public.subscriptions
+  FOR INSERT TO authenticated WITH CHECK (public.has_operator_role('inventory'));
+CREATE POLICY "Inventory delete subscriptions" ON public.subscriptions
+  FOR DELETE TO authenticated USING (public.has_operator_role('inventory'));
+
+REVOKE ALL ON public.seat_waitlist FROM anon, public;
+GRANT ALL ON public.seat_waitlist TO authenticated;
@@ -0,0 +1,10 @@
+-- Pool migration event
+-- Records a pool_migrated event when a subscription's seat is moved from a
+-- dying pool to another pool of the same provider.
+
+ALTER TABLE public.subscription_events
+  DROP CONSTRAINT IF EXISTS subscription_events_type_check;
+
+ALTER TABLE public.subscription_events
+  ADD CONSTRAINT subscription_events_type_check
+  CHECK (type = ANY (ARRAY['created'::text, 'renewed'::text, 'custom_date_set'::text, 'custom_date_cleared'::text, 'paused'::text, 'resumed'::text, 'completed'::text, 'overdue'::text, 'canceled'::text, 'updated'::text, 'archived'::text, 'reverted'::text, 'reminder_sent'::text, 'pool_migrated'::text]));
@@ -0,0 +1,152 @@
+-- Seat assignments history migration
+-- resource_pool_seats only keeps the current occupant. Every assignment now
+-- opens a history row and every unassignment closes it, so past occupants of
+-- a seat can be shown when a client disputes a removal.
+
+CREATE TABLE IF NOT EXISTS public.seat_assignments_history (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  seat_id uuid NOT NULL REFERENCES public.resource_pool_seats(id) ON DELETE CASCADE,
+  pool_id uuid NOT NULL REFERENCES public.resource_pools(id) ON DELETE CASCADE,
+  assigned_email text,
+  client_id uuid REFERENCES public.clients(id) ON DELETE SET NULL,
+  subscription_id uuid REFERENCES public.subscriptions(id) ON DELETE SET NULL,
+  assigned_at timestamp with time zone NOT NULL DEFAULT now(),
+  -- NULL while the occupant still holds the seat
+  unassigned_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT seat_assignments_history_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seat_assignments_history_pool
+  ON public.seat_assignments_history (pool_id, assigned_at DESC);
+
+-- At most one open occupancy per seat
+CREATE UNIQUE INDEX IF NOT EXISTS idx_seat_assignments_history_open
+  ON public.seat_assignments_history (seat_id)
+  WHERE unassigned_at IS NULL;
+
+-- Seed the history with the current occupants
+INSERT INTO public.seat_assignments_history (seat_id, pool_id, assigned_email, client_id, subscription_id, assigned_at)
+SELECT id, pool_id, assigned_email, assigned_client_id, assigned_subscription_id, COALESCE(assigned_at, now())
+FROM public.resource_pool_seats
+WHERE seat_status = 'assigned';
+
+ALTER TABLE public.seat_assignments_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage seat_assignments_history" ON public.seat_assignments_history
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+CREATE POLICY "Inventory manage seat_assignments_history" ON public.seat_assignments_history
+  FOR ALL TO authenticated USING (public.has_operator_role('inventory')) WITH CHECK (public.has_operator_role('inventory'));
+-- Sales can update seats, so they also record the occupancy change
+CREATE POLICY "Sales read seat_assignments_history" ON public.seat_assignments_history
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales'));
+CREATE POLICY "Sales insert seat_assignments_history" ON public.seat_assignments_history
+  FOR INSERT TO authenticated WITH CHECK (public.has_operator_role('sales'));
+CREATE POLICY "Sales close seat_assignments_history" ON public.seat_assignments_history
+  FOR UPDATE TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+
+REVOKE ALL ON public.seat_assignments_history FROM anon, public;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.seat_assignments_history TO authenticated;
+
+-- assign_next_free_seat: also open a history row for the new occupant
+CREATE OR REPLACE FUNCTION public.assign_next_free_seat(
+  p_pool_id uuid,
+  p_email text,
+  p_client_id uuid,
+  p_subscription_id uuid
+)
+RETURNS uuid AS $$
+DECLARE
+  v_seat_id uuid;
+BEGIN
+  -- Find and lock the next available seat
+  SELECT id INTO v_seat_id 
+  FROM public.resource_pool_seats
+  WHERE pool_id = p_pool_id 
+    AND seat_status = 'available'
+  ORDER BY seat_index ASC
+  FOR UPDATE SKIP LOCKED
+  LIMIT 1;
+
+  -- If no seat found, raise exception
+  IF v_seat_id IS NULL THEN
+    RAISE EXCEPTION 'No available seats in pool %', p_pool_id USING errcode = 'P0001';
+  END IF;
+
+  -- Assign the seat
+  UPDATE public.resource_pool_seats
+  SET 
+    seat_status = 'assigned',
+    assigned_email = p_email,
+    assigned_client_id = p_client_id,
+    assigned_subscription_id = p_subscription_id,
+    assigned_at = now(),
+    unassigned_at = null,
+    updated_at = now()
+  WHERE id = v_seat_id;
+
+  -- Close any occupancy left open by an out-of-band change, then open the new one
+  UPDATE public.seat_assignments_history
+  SET unassigned_at = now()
+  WHERE seat_id = v_seat_id AND unassigned_at IS NULL;
+
+  INSERT INTO public.seat_assignments_history (seat_id, pool_id, assigned_email, client_id, subscription_id, assigned_at)
+  VALUES (v_seat_id, p_pool_id, p_email, p_client_id, p_subscription_id, now());
+
+  -- If a subscription is being assigned, also update the subscription to link it to this pool and seat
+  IF p_subscription_id IS NOT NULL THEN
+    UPDATE public.subscriptions
+    SET 
+      resource_pool_id = p_pool_id,
+      resource_pool_seat_id = v_seat_id,
+      updated_at = now()
+    WHERE id = p_subscription_id;
+  END IF;
+
+  -- Note: used_seats sync is handled automatically by triggers
+  
+  RETURN v_seat_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- unassign_seat: also close the open history row
+CREATE OR REPLACE FUNCTION public.unassign_seat(
+  p_seat_id uuid
+)
+RETURNS void AS $$
+DECLARE
+  v_subscription_id uuid;
+BEGIN
+  -- Get the subscription ID before unassigning
+  SELECT assigned_subscription_id INTO v_subscription_id
+  FROM public.resource_pool_seats
+  WHERE id = p_seat_id;
+
+  -- Unassign the seat
+  UPDATE public.resource_pool_seats
+  SET 
+    seat_status = 'available',
+    assigned_email = null,
+    assigned_client_id = null,
+    assigned_subscription_id = null,
+    unassigned_at = now(),
+    updated_at = now()
+  WHERE id = p_seat_id;
+
+  UPDATE public.seat_assignments_history
+  SET unassigned_at = now()
+  WHERE seat_id = p_seat_id AND unassigned_at IS NULL;
+
+  -- If there was a subscription assigned, also unlink it from the pool and seat
+  IF v_subscription_id IS NOT NULL THEN
+    UPDATE public.subscriptions
+    SET 
+      resource_pool_id = null,
+      resource_pool_seat_id = null,
+      updated_at = now()
+    WHERE id = v_subscription_id;
+  END IF;
+  
+  -- Note: used_seats sync is handled automatically by triggers
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
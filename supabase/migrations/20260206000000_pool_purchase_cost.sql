@@ -0,0 +1,7 @@
+-- Pool purchase cost migration
+-- What we paid for each pool's account, so per-pool revenue can be set
+-- against it. Amounts are stored in the currency they were paid in.
+
+ALTER TABLE IF EXISTS public.resource_pools
+  ADD COLUMN IF NOT EXISTS purchase_cost numeric CHECK (purchase_cost >= 0),
+  ADD COLUMN IF NOT EXISTS purchase_currency text NOT NULL DEFAULT 'USD'::text CHECK (purchase_currency = ANY (ARRAY['USD'::text, 'TND'::text]));
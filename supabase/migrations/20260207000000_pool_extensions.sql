@@ -0,0 +1,42 @@
+-- Pool extensions migration
+-- Paying to extend a pool is now an explicit action: it records a pool event,
+-- optionally an expense, and a pool_extended event on every linked
+-- subscription whose renewal date was recalculated.
+
+CREATE TABLE IF NOT EXISTS public.resource_pool_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  pool_id uuid NOT NULL REFERENCES public.resource_pools(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type = ANY (ARRAY['extended'::text])),
+  at timestamp with time zone NOT NULL DEFAULT now(),
+  meta jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT resource_pool_events_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_resource_pool_events_pool
+  ON public.resource_pool_events (pool_id, at DESC);
+
+ALTER TABLE public.resource_pool_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage resource_pool_events" ON public.resource_pool_events
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+CREATE POLICY "Inventory manage resource_pool_events" ON public.resource_pool_events
+  FOR ALL TO authenticated USING (public.has_operator_role('inventory')) WITH CHECK (public.has_operator_role('inventory'));
+CREATE POLICY "Sales read resource_pool_events" ON public.resource_pool_events
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales'));
+
+REVOKE ALL ON public.resource_pool_events FROM anon, public;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.resource_pool_events TO authenticated;
+
+-- Inventory operators record the extension cost as an expense
+CREATE POLICY "Inventory record expenses" ON public.transactions
+  FOR INSERT TO authenticated WITH CHECK (public.has_operator_role('inventory') AND service_id IS NULL AND selling_price = 0);
+
+-- renewal_recalculated was written by the app but never allowed here, so
+-- recalculations after a pool link/unlink failed after updating the date
+ALTER TABLE public.subscription_events
+  DROP CONSTRAINT IF EXISTS subscription_events_type_check;
+
+ALTER TABLE public.subscription_events
+  ADD CONSTRAINT subscription_events_type_check
+  CHECK (type = ANY (ARRAY['created'::text, 'renewed'::text, 'custom_date_set'::text, 'custom_date_cleared'::text, 'paused'::text, 'resumed'::text, 'completed'::text, 'overdue'::text, 'canceled'::text, 'updated'::text, 'archived'::text, 'reverted'::text, 'reminder_sent'::text, 'pool_migrated'::text, 'renewal_recalculated'::text, 'pool_extended'::text]));
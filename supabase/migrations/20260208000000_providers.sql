@@ -0,0 +1,105 @@
+-- Provider catalog migration
+-- Providers (Adobe, Spotify, ...) were hard-coded in the app together with
+-- their pool defaults and icons. They now live in a table editable from the
+-- Services Manager, and services point at their provider by foreign key
+-- instead of having it guessed from the service name.
+
+CREATE TABLE IF NOT EXISTS public.providers (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  key text NOT NULL CHECK (key ~ '^[a-z0-9_]+$'),
+  display_name text NOT NULL,
+  -- NULL = no inventory tracking (no pools for this provider)
+  pool_type text CHECK (pool_type = ANY (ARRAY['admin_console'::text, 'family'::text, 'team'::text, 'workspace'::text])),
+  default_seats integer CHECK (default_seats > 0),
+  default_duration_days integer CHECK (default_duration_days > 0),
+  icon text,
+  logo_url text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT providers_pkey PRIMARY KEY (id),
+  CONSTRAINT providers_key_key UNIQUE (key)
+);
+
+-- Seed with the providers the app shipped with
+INSERT INTO public.providers (key, display_name, pool_type, default_seats, default_duration_days, icon) VALUES
+  ('adobe', 'Adobe', 'admin_console', 10, 14, '🎨'),
+  ('acrobat', 'Acrobat', 'admin_console', 10, 14, '📄'),
+  ('apple_one', 'Apple One', 'family', 6, 30, '🍎'),
+  ('canva', 'Canva', 'team', 5, 30, '🎨'),
+  ('chatgpt', 'ChatGPT', 'workspace', 5, 30, '🤖'),
+  ('duolingo', 'Duolingo', 'family', 5, 14, '🦉'),
+  ('lastpass', 'LastPass', 'team', 5, 14, '🔐'),
+  ('microsoft_365', 'Microsoft 365', 'family', 5, 30, '🏢'),
+  ('spotify', 'Spotify', 'family', 6, 30, '🎵'),
+  ('cursor', 'Cursor', NULL, NULL, NULL, NULL),
+  ('crunchyroll', 'Crunchyroll', NULL, NULL, NULL, NULL),
+  ('chess', 'Chess', NULL, NULL, NULL, NULL),
+  ('apple_music', 'Apple Music', NULL, NULL, NULL, NULL),
+  ('icloud', 'iCloud', NULL, NULL, NULL, NULL),
+  ('netflix', 'Netflix', NULL, NULL, NULL, NULL),
+  ('workspace', 'Workspace', NULL, NULL, NULL, NULL),
+  ('google_workspace', 'Google Workspace', NULL, NULL, NULL, NULL)
+ON CONFLICT (key) DO NOTHING;
+
+-- Keep any provider key already used by pools, accounts or the waitlist
+INSERT INTO public.providers (key, display_name)
+SELECT DISTINCT used.provider, initcap(replace(used.provider, '_', ' '))
+FROM (
+  SELECT provider FROM public.resource_pools
+  UNION SELECT provider FROM public.personal_accounts
+  UNION SELECT provider FROM public.seat_waitlist
+) used
+WHERE used.provider ~ '^[a-z0-9_]+$'
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.resource_pools
+  ADD CONSTRAINT resource_pools_provider_fkey FOREIGN KEY (provider) REFERENCES public.providers(key);
+ALTER TABLE public.personal_accounts
+  ADD CONSTRAINT personal_accounts_provider_fkey FOREIGN KEY (provider) REFERENCES public.providers(key);
+ALTER TABLE public.seat_waitlist
+  ADD CONSTRAINT seat_waitlist_provider_fkey FOREIGN KEY (provider) REFERENCES public.providers(key);
+
+-- Services link to their provider
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS provider_id uuid REFERENCES public.providers(id) ON DELETE SET NULL;
+
+-- Backfill with the name matching the app used to do: the first matching
+-- substring wins, with longer names ahead of the shorter names they contain
+UPDATE public.services s
+SET provider_id = p.id
+FROM (
+  SELECT DISTINCT ON (svc.id) svc.id AS service_id, m.provider_key
+  FROM public.services svc
+  JOIN (VALUES
+    (1, 'adobe', 'adobe'),
+    (2, 'acrobat', 'acrobat'),
+    (3, 'apple one', 'apple_one'),
+    (4, 'apple music', 'apple_music'),
+    (5, 'canva', 'canva'),
+    (6, 'chatgpt', 'chatgpt'),
+    (7, 'duolingo', 'duolingo'),
+    (8, 'icloud', 'icloud'),
+    (9, 'lastpass', 'lastpass'),
+    (10, 'microsoft 365', 'microsoft_365'),
+    (11, 'netflix', 'netflix'),
+    (12, 'spotify', 'spotify'),
+    (13, 'google workspace', 'google_workspace'),
+    (14, 'workspace', 'workspace')
+  ) AS m(position, pattern, provider_key)
+    ON lower(svc.product_service) LIKE '%' || m.pattern || '%'
+  ORDER BY svc.id, m.position
+) matched
+JOIN public.providers p ON p.key = matched.provider_key
+WHERE s.id = matched.service_id AND s.provider_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_services_provider_id ON public.services (provider_id);
+
+ALTER TABLE public.providers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage providers" ON public.providers
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+CREATE POLICY "Operators read providers" ON public.providers
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales', 'inventory'));
+
+REVOKE ALL ON public.providers FROM anon, public;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.providers TO authenticated;
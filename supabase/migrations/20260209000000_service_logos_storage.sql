@@ -0,0 +1,28 @@
+-- Service logos storage migration
+-- Uploaded logos were kept as blob URLs in each browser's localStorage, so
+-- they vanished on reload and never reached other operators. They are now
+-- uploaded to a public storage bucket and services.logo_url holds the
+-- stored object's URL.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'service-logos',
+  'service-logos',
+  true,
+  5242880, -- 5MB, same limit as validateLogoFile
+  ARRAY['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Logos are shown on cards and detail views to every operator; the bucket is
+-- public so the URLs also load without a session
+CREATE POLICY "Operators read service logos" ON storage.objects
+  FOR SELECT TO authenticated USING (bucket_id = 'service-logos');
+
+-- Only owners manage services, so only they upload or replace logos
+CREATE POLICY "Owners upload service logos" ON storage.objects
+  FOR INSERT TO authenticated WITH CHECK (bucket_id = 'service-logos' AND public.has_operator_role('owner'));
+CREATE POLICY "Owners update service logos" ON storage.objects
+  FOR UPDATE TO authenticated USING (bucket_id = 'service-logos' AND public.has_operator_role('owner'));
+CREATE POLICY "Owners delete service logos" ON storage.objects
+  FOR DELETE TO authenticated USING (bucket_id = 'service-logos' AND public.has_operator_role('owner'));
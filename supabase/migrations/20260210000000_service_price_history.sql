@@ -0,0 +1,37 @@
+-- Service price history migration
+-- Editing a service's cost or selling price overwrote the old values, so
+-- there was no record of when or why prices changed. Every price edit now
+-- writes a history row with the old and new values and an optional reason.
+
+CREATE TABLE IF NOT EXISTS public.service_price_history (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  service_id uuid NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  -- NULL on the first row of a service (its starting price)
+  old_cost numeric,
+  old_selling_price numeric,
+  new_cost numeric NOT NULL,
+  new_selling_price numeric NOT NULL,
+  reason text,
+  changed_by uuid DEFAULT auth.uid(),
+  changed_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  changed_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT service_price_history_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_price_history_service
+  ON public.service_price_history (service_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_service_price_history_changed_at
+  ON public.service_price_history (changed_at DESC);
+
+-- Seed each service with its current prices as the starting point
+INSERT INTO public.service_price_history (service_id, new_cost, new_selling_price, reason, changed_by, changed_by_email, changed_at)
+SELECT id, cost, selling_price, 'Price when history started', NULL, NULL, COALESCE(updated_at, created_at, now())
+FROM public.services;
+
+ALTER TABLE public.service_price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage service_price_history" ON public.service_price_history
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+
+REVOKE ALL ON public.service_price_history FROM anon, public;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.service_price_history TO authenticated;
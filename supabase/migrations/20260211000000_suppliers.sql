@@ -0,0 +1,62 @@
+-- Suppliers migration
+-- A service had a single cost, but the same product is bought from several
+-- suppliers (key sellers, gift card vendors) at different prices. Suppliers
+-- now have their own table, each supplier can offer a service at its own
+-- cost and lead time, and a sale records which supplier filled it.
+
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'other' CHECK (kind = ANY (ARRAY['key_seller'::text, 'gift_card_vendor'::text, 'reseller'::text, 'other'::text])),
+  contact_name text,
+  email text,
+  phone text,
+  website text,
+  notes text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT suppliers_pkey PRIMARY KEY (id),
+  CONSTRAINT suppliers_name_key UNIQUE (name)
+);
+
+CREATE TABLE IF NOT EXISTS public.supplier_offers (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  service_id uuid NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  -- USD, like services.cost
+  cost numeric NOT NULL CHECK (cost >= 0),
+  -- NULL = unknown
+  lead_time_days integer CHECK (lead_time_days >= 0),
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT supplier_offers_pkey PRIMARY KEY (id),
+  CONSTRAINT supplier_offers_supplier_service_key UNIQUE (supplier_id, service_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_offers_service ON public.supplier_offers (service_id);
+
+-- Which supplier filled a sale; cost_at_sale keeps the offer's cost at the time
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES public.suppliers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_supplier_id ON public.transactions (supplier_id);
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage suppliers" ON public.suppliers
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+CREATE POLICY "Owners manage supplier_offers" ON public.supplier_offers
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+-- Sales pick the supplier when recording a sale
+CREATE POLICY "Sales read suppliers" ON public.suppliers
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales'));
+CREATE POLICY "Sales read supplier_offers" ON public.supplier_offers
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales'));
+
+REVOKE ALL ON public.suppliers FROM anon, public;
+REVOKE ALL ON public.supplier_offers FROM anon, public;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.suppliers TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.supplier_offers TO authenticated;
@@ -0,0 +1,38 @@
+-- Orders migration
+-- Each transaction held a single service, so a client buying several services
+-- at once became unrelated rows. An order now groups the line items of one
+-- purchase and carries an order-level discount. Lines stay in transactions
+-- (so existing revenue and profit queries keep working); the discount is
+-- spread over the lines and each line's share is kept in discount_amount,
+-- so selling_price is what was actually charged for that line.
+
+CREATE TABLE IF NOT EXISTS public.orders (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  client_id uuid REFERENCES public.clients(id) ON DELETE SET NULL,
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  -- USD, taken off the sum of the line prices
+  discount numeric NOT NULL DEFAULT 0 CHECK (discount >= 0),
+  notes text DEFAULT ''::text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT orders_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_orders_date ON public.orders (date DESC);
+
+-- Deleting an order deletes its lines
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS order_id uuid REFERENCES public.orders(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS discount_amount numeric NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_order_id ON public.transactions (order_id);
+
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage orders" ON public.orders
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+CREATE POLICY "Sales manage orders" ON public.orders
+  FOR ALL TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+
+REVOKE ALL ON public.orders FROM anon, public;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.orders TO authenticated;
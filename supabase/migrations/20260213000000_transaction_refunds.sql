@@ -0,0 +1,57 @@
+-- Transaction refunds migration
+-- A refund used to mean deleting the sale or lowering its selling_price,
+-- which lost the original sale and moved revenue into the wrong period.
+-- Refunds, chargebacks and store credits are now their own rows linked to
+-- the sale, dated when the money went back. A store credit goes onto the
+-- client's credit balance instead of being paid out.
+
+CREATE TABLE IF NOT EXISTS public.transaction_refunds (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  client_id uuid REFERENCES public.clients(id) ON DELETE SET NULL,
+  kind text NOT NULL DEFAULT 'refund' CHECK (kind = ANY (ARRAY['refund'::text, 'chargeback'::text, 'store_credit'::text])),
+  -- USD, like transactions.selling_price
+  amount numeric NOT NULL CHECK (amount > 0),
+  reason text,
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  created_by uuid DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT transaction_refunds_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_refunds_transaction ON public.transaction_refunds (transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_refunds_client ON public.transaction_refunds (client_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_refunds_date ON public.transaction_refunds (date DESC);
+
+-- USD the client can spend on future purchases
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS credit_balance numeric NOT NULL DEFAULT 0;
+
+-- Keep the client's credit balance in step with their store credits
+CREATE OR REPLACE FUNCTION public.apply_refund_store_credit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.kind = 'store_credit' AND NEW.client_id IS NOT NULL THEN
+    UPDATE public.clients SET credit_balance = credit_balance + NEW.amount WHERE id = NEW.client_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.kind = 'store_credit' AND OLD.client_id IS NOT NULL THEN
+    UPDATE public.clients SET credit_balance = credit_balance - OLD.amount WHERE id = OLD.client_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER transaction_refunds_store_credit
+  AFTER INSERT OR DELETE ON public.transaction_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_refund_store_credit();
+
+ALTER TABLE public.transaction_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage transaction_refunds" ON public.transaction_refunds
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+CREATE POLICY "Sales manage transaction_refunds" ON public.transaction_refunds
+  FOR ALL TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+
+REVOKE ALL ON public.transaction_refunds FROM anon, public;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.transaction_refunds TO authenticated;
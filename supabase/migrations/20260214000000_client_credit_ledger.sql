@@ -0,0 +1,79 @@
+-- Client credit ledger migration
+-- Resellers prepay a lump sum and draw it down over many orders, and
+-- clients.credit_balance only ever moved with store-credit refunds. Every
+-- change to a client's credit is now a ledger row (deposit, consumption,
+-- adjustment or store credit from a refund) and credit_balance is kept equal
+-- to the sum of the client's rows.
+
+CREATE TABLE IF NOT EXISTS public.client_credit_ledger (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind = ANY (ARRAY['deposit'::text, 'consumption'::text, 'adjustment'::text, 'store_credit'::text])),
+  -- USD; positive adds to the balance, negative draws from it
+  amount numeric NOT NULL CHECK (amount <> 0),
+  -- The order paid from credit (consumption)
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  -- The refund that issued the credit (store_credit); goes with the refund
+  refund_id uuid REFERENCES public.transaction_refunds(id) ON DELETE CASCADE,
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT client_credit_ledger_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_credit_ledger_client
+  ON public.client_credit_ledger (client_id, created_at DESC);
+
+-- Store credits issued so far become the first ledger rows; the balance
+-- already includes them, so this runs before the balance trigger exists
+INSERT INTO public.client_credit_ledger (client_id, kind, amount, refund_id, notes, created_by, created_by_email, created_at)
+SELECT client_id, 'store_credit', amount, id, reason, created_by, created_by_email, created_at
+FROM public.transaction_refunds
+WHERE kind = 'store_credit' AND client_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.apply_client_credit_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.clients SET credit_balance = credit_balance + NEW.amount WHERE id = NEW.client_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.clients SET credit_balance = credit_balance - OLD.amount WHERE id = OLD.client_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER client_credit_ledger_balance
+  AFTER INSERT OR DELETE ON public.client_credit_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_client_credit_entry();
+
+-- Store-credit refunds now go through the ledger; deleting the refund
+-- deletes its ledger row, which takes the credit back off the balance
+CREATE OR REPLACE FUNCTION public.apply_refund_store_credit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.kind = 'store_credit' AND NEW.client_id IS NOT NULL THEN
+    INSERT INTO public.client_credit_ledger (client_id, kind, amount, refund_id, notes)
+    VALUES (NEW.client_id, 'store_credit', NEW.amount, NEW.id, NEW.reason);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transaction_refunds_store_credit ON public.transaction_refunds;
+CREATE TRIGGER transaction_refunds_store_credit
+  AFTER INSERT ON public.transaction_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_refund_store_credit();
+
+ALTER TABLE public.client_credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage client_credit_ledger" ON public.client_credit_ledger
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+CREATE POLICY "Sales manage client_credit_ledger" ON public.client_credit_ledger
+  FOR ALL TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+
+REVOKE ALL ON public.client_credit_ledger FROM anon, public;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.client_credit_ledger TO authenticated;
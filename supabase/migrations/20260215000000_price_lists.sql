@@ -0,0 +1,63 @@
+-- Price lists migration
+-- Every sale was pre-filled with services.selling_price, whether the buyer was
+-- a retail client or a reseller. Price lists (reseller tiers, or a custom list
+-- for one client) now set the price per service: an override where one is
+-- set, otherwise the retail price less the list's discount. A client without
+-- a list pays retail, and each sale records the list it was priced from.
+
+CREATE TABLE IF NOT EXISTS public.price_lists (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'reseller' CHECK (kind = ANY (ARRAY['reseller'::text, 'custom'::text])),
+  -- Applied to services.selling_price for services without an override
+  discount_percent numeric NOT NULL DEFAULT 0 CHECK (discount_percent >= 0 AND discount_percent <= 100),
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT price_lists_pkey PRIMARY KEY (id),
+  CONSTRAINT price_lists_name_key UNIQUE (name)
+);
+
+CREATE TABLE IF NOT EXISTS public.price_list_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  price_list_id uuid NOT NULL REFERENCES public.price_lists(id) ON DELETE CASCADE,
+  service_id uuid NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  -- USD, like services.selling_price
+  selling_price numeric NOT NULL CHECK (selling_price >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT price_list_items_pkey PRIMARY KEY (id),
+  CONSTRAINT price_list_items_list_service_key UNIQUE (price_list_id, service_id)
+);
+
+INSERT INTO public.price_lists (name, kind)
+VALUES ('Reseller Tier 1', 'reseller'), ('Reseller Tier 2', 'reseller')
+ON CONFLICT (name) DO NOTHING;
+
+-- NULL = retail
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS price_list_id uuid REFERENCES public.price_lists(id) ON DELETE SET NULL;
+
+-- The list the sale was priced from; NULL = retail
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS price_list_id uuid REFERENCES public.price_lists(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_price_list_id ON public.transactions (price_list_id);
+
+ALTER TABLE public.price_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage price_lists" ON public.price_lists
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+CREATE POLICY "Owners manage price_list_items" ON public.price_list_items
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+-- Sales price orders and assign lists to clients
+CREATE POLICY "Sales read price_lists" ON public.price_lists
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales'));
+CREATE POLICY "Sales read price_list_items" ON public.price_list_items
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales'));
+
+REVOKE ALL ON public.price_lists FROM anon, public;
+REVOKE ALL ON public.price_list_items FROM anon, public;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.price_lists TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.price_list_items TO authenticated;
@@ -0,0 +1,43 @@
+-- Transaction payment status migration
+-- Sales are often delivered before the client pays, but every transaction
+-- was counted as cash in. Sales now record how much of the price has been
+-- collected and how; payment_status follows amount_paid, so unpaid and
+-- partly paid sales show up as receivables and cash figures can count only
+-- what was collected.
+
+ALTER TABLE public.transactions
+  -- USD collected so far, including anything paid from client credit
+  ADD COLUMN IF NOT EXISTS amount_paid numeric CHECK (amount_paid >= 0),
+  ADD COLUMN IF NOT EXISTS payment_status text NOT NULL DEFAULT 'paid' CHECK (payment_status = ANY (ARRAY['paid'::text, 'partial'::text, 'unpaid'::text])),
+  ADD COLUMN IF NOT EXISTS payment_method text;
+
+-- Everything recorded so far was treated as collected
+UPDATE public.transactions SET amount_paid = selling_price WHERE amount_paid IS NULL;
+
+ALTER TABLE public.transactions
+  ALTER COLUMN amount_paid SET DEFAULT 0,
+  ALTER COLUMN amount_paid SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.set_transaction_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.payment_status := CASE
+    WHEN NEW.amount_paid >= NEW.selling_price THEN 'paid'
+    WHEN NEW.amount_paid > 0 THEN 'partial'
+    ELSE 'unpaid'
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_payment_status ON public.transactions;
+CREATE TRIGGER transactions_payment_status
+  BEFORE INSERT OR UPDATE OF amount_paid, selling_price ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.set_transaction_payment_status();
+
+-- Receivables are looked up by client and age
+CREATE INDEX IF NOT EXISTS idx_transactions_open_receivables
+  ON public.transactions (client_id, date)
+  WHERE payment_status <> 'paid';
@@ -0,0 +1,139 @@
+-- Payment methods migration
+-- Clients pay by bank transfer, D17, Flouci, PayPal, crypto or cash, and each
+-- channel takes a fee. Payment methods are now a table with a fixed and/or
+-- percentage fee and the money pool their payments land in. A sale stores the
+-- fee on what was collected, and collected money (less the fee) is credited
+-- to the method's pool as it comes in, logged as a transfer from 'external',
+-- instead of being moved there by hand.
+
+CREATE TABLE IF NOT EXISTS public.payment_methods (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  -- Stored on transactions.payment_method; never changes once created
+  key text NOT NULL CHECK (key ~ '^[a-z0-9_]+$'),
+  name text NOT NULL,
+  -- USD per payment, plus a share of the amount
+  fee_fixed numeric NOT NULL DEFAULT 0 CHECK (fee_fixed >= 0),
+  fee_percent numeric NOT NULL DEFAULT 0 CHECK (fee_percent >= 0 AND fee_percent <= 100),
+  -- NULL = payments aren't credited to a pool
+  pool_name text REFERENCES public.money_pools(name) ON DELETE SET NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT payment_methods_pkey PRIMARY KEY (id),
+  CONSTRAINT payment_methods_key_key UNIQUE (key)
+);
+
+-- The methods sales could already be tagged with, plus the local wallets
+INSERT INTO public.payment_methods (key, name, pool_name) VALUES
+  ('cash', 'Cash', 'business_vault'),
+  ('bank_transfer', 'Bank Transfer', 'business_vault'),
+  ('d17', 'D17', 'business_vault'),
+  ('flouci', 'Flouci', 'business_vault'),
+  ('card', 'Card', 'business_vault'),
+  ('paypal', 'PayPal', 'business_vault'),
+  ('crypto', 'Crypto', 'business_vault'),
+  ('other', 'Other', 'business_vault')
+ON CONFLICT (key) DO NOTHING;
+
+UPDATE public.transactions SET payment_method = NULL
+WHERE payment_method IS NOT NULL
+  AND payment_method NOT IN (SELECT key FROM public.payment_methods);
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_payment_method_fkey
+  FOREIGN KEY (payment_method) REFERENCES public.payment_methods(key) ON DELETE SET NULL;
+
+-- USD taken by the payment method out of amount_paid
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS payment_fee numeric NOT NULL DEFAULT 0 CHECK (payment_fee >= 0);
+
+-- The fee is fixed when the money is collected, like cost_at_sale
+CREATE OR REPLACE FUNCTION public.set_transaction_payment_fee()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_method public.payment_methods%ROWTYPE;
+BEGIN
+  NEW.payment_fee := 0;
+  IF NEW.payment_method IS NOT NULL AND NEW.amount_paid > 0 THEN
+    SELECT * INTO v_method FROM public.payment_methods WHERE key = NEW.payment_method;
+    IF FOUND THEN
+      NEW.payment_fee := LEAST(NEW.amount_paid, round(v_method.fee_fixed + NEW.amount_paid * v_method.fee_percent / 100, 2));
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_payment_fee ON public.transactions;
+CREATE TRIGGER transactions_payment_fee
+  BEFORE INSERT OR UPDATE OF amount_paid, payment_method ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.set_transaction_payment_fee();
+
+-- Moves the change in net received into the method's pool. Runs as the owner
+-- so sales operators, who can't edit money_pools, still credit them.
+CREATE OR REPLACE FUNCTION public.credit_payment_to_pool()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_pool text;
+  v_new_pool text;
+  v_old_net numeric := 0;
+  v_new_net numeric := 0;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    SELECT pool_name INTO v_old_pool FROM public.payment_methods WHERE key = OLD.payment_method;
+    v_old_net := OLD.amount_paid - OLD.payment_fee;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    SELECT pool_name INTO v_new_pool FROM public.payment_methods WHERE key = NEW.payment_method;
+    v_new_net := NEW.amount_paid - NEW.payment_fee;
+  END IF;
+
+  IF v_old_pool IS NOT DISTINCT FROM v_new_pool THEN
+    -- Same pool: only the difference moves
+    v_new_net := v_new_net - v_old_net;
+    v_old_pool := NULL;
+  END IF;
+
+  IF v_old_pool IS NOT NULL AND v_old_net <> 0 THEN
+    UPDATE public.money_pools SET balance = balance - v_old_net WHERE name = v_old_pool;
+    INSERT INTO public.pool_transfers (from_pool, to_pool, amount, notes)
+    VALUES (v_old_pool, 'external', abs(v_old_net), 'Payment reversed on sale ' || OLD.id);
+  END IF;
+
+  IF v_new_pool IS NOT NULL AND v_new_net <> 0 THEN
+    UPDATE public.money_pools SET balance = balance + v_new_net WHERE name = v_new_pool;
+    INSERT INTO public.pool_transfers (from_pool, to_pool, amount, notes)
+    VALUES (
+      CASE WHEN v_new_net > 0 THEN 'external' ELSE v_new_pool END,
+      CASE WHEN v_new_net > 0 THEN v_new_pool ELSE 'external' END,
+      abs(v_new_net),
+      CASE WHEN v_new_net > 0 THEN 'Payment received' ELSE 'Payment reversed' END
+        || ' on sale ' || NEW.id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_credit_pool ON public.transactions;
+CREATE TRIGGER transactions_credit_pool
+  AFTER INSERT OR DELETE OR UPDATE OF amount_paid, payment_method, payment_fee ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.credit_payment_to_pool();
+
+ALTER TABLE public.payment_methods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage payment_methods" ON public.payment_methods
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+-- Sales pick the method when recording a payment
+CREATE POLICY "Sales read payment_methods" ON public.payment_methods
+  FOR SELECT TO authenticated USING (public.has_operator_role('sales'));
+
+REVOKE ALL ON public.payment_methods FROM anon, public;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.payment_methods TO authenticated;
@@ -0,0 +1,35 @@
+-- Prepaid cycle blocks migration
+-- cycles_paid was compared with the lifetime iterations_done, so cycles
+-- prepaid on an existing subscription were miscounted, and every charged
+-- renewal after a block ran out kept raising cycles_paid. A prepaid block now
+-- records the renewal count it started at and is cleared once it's used up.
+
+-- iterations_done when the current block of cycles_paid was bought
+ALTER TABLE IF EXISTS public.subscriptions
+  ADD COLUMN IF NOT EXISTS prepaid_from_iteration integer NOT NULL DEFAULT 0 CHECK (prepaid_from_iteration >= 0);
+
+-- Only mark subscriptions overdue once their prepaid cycles have run out
+CREATE OR REPLACE FUNCTION public.refresh_subscription_status()
+RETURNS TABLE(completed_count integer, overdue_count integer) AS $$
+DECLARE
+  v_completed_count integer := 0;
+  v_overdue_count integer := 0;
+BEGIN
+  -- Auto-complete expired subscriptions
+  SELECT public.fn_auto_complete_expired_subscriptions() INTO v_completed_count;
+
+  -- Mark overdue subscriptions (past next_renewal_at, not completed and no prepaid cycle left)
+  UPDATE public.subscriptions
+  SET
+    status = 'overdue',
+    updated_at = now()
+  WHERE status = 'active'
+    AND next_renewal_at IS NOT NULL
+    AND now() > next_renewal_at
+    AND (cycles_paid IS NULL OR cycles_paid - (COALESCE(iterations_done, 0) - prepaid_from_iteration) <= 1);
+
+  GET DIAGNOSTICS v_overdue_count = ROW_COUNT;
+
+  RETURN QUERY SELECT v_completed_count, v_overdue_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,12 @@
+-- Google Workspace provider backfill fix
+-- The providers backfill matched 'workspace' before 'google workspace', so
+-- Google Workspace services were linked to the generic Workspace provider.
+-- Relink the ones the backfill got wrong.
+
+UPDATE public.services s
+SET provider_id = google.id
+FROM public.providers google, public.providers workspace
+WHERE google.key = 'google_workspace'
+  AND workspace.key = 'workspace'
+  AND s.provider_id = workspace.id
+  AND lower(s.product_service) LIKE '%google workspace%';
@@ -0,0 +1,37 @@
+-- Waitlist subscription policies migration
+-- The seat waitlist gave inventory operators INSERT and DELETE on every
+-- subscription, undoing their read-only access. Subscriptions created by
+-- auto-assignment now record the waitlist entry they were made for, and
+-- inventory operators can only create those, for a still waiting entry of the
+-- same client and service, and remove them again while the entry is waiting
+-- (the seat was taken in the meantime).
+
+-- The waitlist entry auto-assignment created the subscription for
+ALTER TABLE public.subscriptions
+  ADD COLUMN IF NOT EXISTS waitlist_entry_id uuid REFERENCES public.seat_waitlist(id) ON DELETE SET NULL;
+
+DROP POLICY IF EXISTS "Inventory create subscriptions" ON public.subscriptions;
+DROP POLICY IF EXISTS "Inventory delete subscriptions" ON public.subscriptions;
+
+CREATE POLICY "Inventory create waitlist subscriptions" ON public.subscriptions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    public.has_operator_role('inventory')
+    AND EXISTS (
+      SELECT 1 FROM public.seat_waitlist w
+      WHERE w.id = subscriptions.waitlist_entry_id
+        AND w.status = 'waiting'
+        AND w.client_id = subscriptions.client_id
+        AND w.service_id = subscriptions.service_id
+    )
+  );
+CREATE POLICY "Inventory delete waitlist subscriptions" ON public.subscriptions
+  FOR DELETE TO authenticated
+  USING (
+    public.has_operator_role('inventory')
+    AND EXISTS (
+      SELECT 1 FROM public.seat_waitlist w
+      WHERE w.id = subscriptions.waitlist_entry_id
+        AND w.status = 'waiting'
+    )
+  );
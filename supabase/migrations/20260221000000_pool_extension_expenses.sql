@@ -0,0 +1,59 @@
+-- Pool extension expenses migration
+-- The cost of extending a pool was stored as a sale without a service, so it
+-- counted in sales figures, order totals and supplier reports. It is now paid
+-- out of the Business Vault and recorded as a transfer to 'external'.
+
+-- Pays an extension out of the Business Vault. Runs as the owner so
+-- inventory operators, who can't edit money_pools, can still record it.
+CREATE OR REPLACE FUNCTION public.record_pool_extension_expense(p_pool_id uuid, p_amount numeric, p_notes text)
+RETURNS uuid AS $$
+DECLARE
+  v_transfer_id uuid;
+BEGIN
+  IF NOT (public.has_operator_role('owner') OR public.has_operator_role('inventory')) THEN
+    RAISE EXCEPTION 'Not allowed to record pool expenses' USING errcode = '42501';
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'The expense amount must be positive' USING errcode = 'P0001';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.resource_pools WHERE id = p_pool_id) THEN
+    RAISE EXCEPTION 'Pool % not found', p_pool_id USING errcode = 'P0001';
+  END IF;
+
+  UPDATE public.money_pools SET balance = balance - p_amount WHERE name = 'business_vault';
+  INSERT INTO public.pool_transfers (from_pool, to_pool, amount, notes)
+  VALUES ('business_vault', 'external', p_amount, p_notes)
+  RETURNING id INTO v_transfer_id;
+
+  RETURN v_transfer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_pool_extension_expense(uuid, numeric, text) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.record_pool_extension_expense(uuid, numeric, text) TO authenticated;
+
+-- Inventory operators no longer insert expense rows into transactions
+DROP POLICY IF EXISTS "Inventory record expenses" ON public.transactions;
+
+-- Move the extension costs already recorded as sales. Balances are left as
+-- they are: those rows never moved money between pools.
+INSERT INTO public.pool_transfers (from_pool, to_pool, amount, notes, created_at)
+SELECT 'business_vault', 'external', t.cost_at_sale, t.notes, t.created_at
+FROM public.transactions t
+WHERE t.service_id IS NULL
+  AND t.selling_price = 0
+  AND t.cost_at_sale > 0
+  AND t.id IN (
+    SELECT (meta->>'expenseTransactionId')::uuid
+    FROM public.resource_pool_events
+    WHERE type = 'extended' AND meta->>'expenseTransactionId' IS NOT NULL
+  );
+
+DELETE FROM public.transactions t
+WHERE t.service_id IS NULL
+  AND t.selling_price = 0
+  AND t.id IN (
+    SELECT (meta->>'expenseTransactionId')::uuid
+    FROM public.resource_pool_events
+    WHERE type = 'extended' AND meta->>'expenseTransactionId' IS NOT NULL
+  );
@@ -0,0 +1,12 @@
+-- Order credit consumption cascade migration
+-- Deleting an order kept its consumption row in the client credit ledger
+-- (order_id was only set to null), so the client lost the credit the order
+-- had drawn. The consumption row now goes with the order, like its sales do,
+-- and the ledger trigger puts the amount back on the client's balance.
+
+ALTER TABLE public.client_credit_ledger
+  DROP CONSTRAINT IF EXISTS client_credit_ledger_order_id_fkey;
+
+ALTER TABLE public.client_credit_ledger
+  ADD CONSTRAINT client_credit_ledger_order_id_fkey
+  FOREIGN KEY (order_id) REFERENCES public.orders(id) ON DELETE CASCADE;
@@ -0,0 +1,109 @@
+-- Transaction payments migration
+-- Collected money only lived in transactions.amount_paid, so cash figures
+-- counted it on the sale's date, even when the client paid weeks later.
+-- Each collection is now a payment row dated when the money came in, with
+-- the method and the fee it took. A sale's amount_paid and payment_fee are
+-- kept equal to the totals of its payments.
+
+CREATE TABLE IF NOT EXISTS public.transaction_payments (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  -- USD, like transactions.amount_paid
+  amount numeric NOT NULL CHECK (amount > 0),
+  payment_method text REFERENCES public.payment_methods(key) ON DELETE SET NULL,
+  -- USD taken by the payment method out of amount
+  payment_fee numeric NOT NULL DEFAULT 0 CHECK (payment_fee >= 0),
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  created_by uuid DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT transaction_payments_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_payments_transaction ON public.transaction_payments (transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_payments_date ON public.transaction_payments (date DESC);
+
+-- What each sale collected so far becomes one payment on the sale date; the
+-- totals already match, so this runs before the triggers exist
+INSERT INTO public.transaction_payments (transaction_id, amount, payment_method, payment_fee, date, created_by, created_by_email, created_at)
+SELECT id, amount_paid, payment_method, payment_fee, date, NULL, NULL, COALESCE(created_at, now())
+FROM public.transactions
+WHERE amount_paid > 0;
+
+-- The fee is now fixed on each payment rather than on the sale's total
+DROP TRIGGER IF EXISTS transactions_payment_fee ON public.transactions;
+DROP FUNCTION IF EXISTS public.set_transaction_payment_fee();
+
+CREATE OR REPLACE FUNCTION public.set_payment_fee()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_method public.payment_methods%ROWTYPE;
+BEGIN
+  NEW.payment_fee := 0;
+  IF NEW.payment_method IS NOT NULL THEN
+    SELECT * INTO v_method FROM public.payment_methods WHERE key = NEW.payment_method;
+    IF FOUND THEN
+      NEW.payment_fee := LEAST(NEW.amount, round(v_method.fee_fixed + NEW.amount * v_method.fee_percent / 100, 2));
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER transaction_payments_fee
+  BEFORE INSERT OR UPDATE OF amount, payment_method ON public.transaction_payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_payment_fee();
+
+-- Recomputes the sale's totals from its payments; the sale takes the method
+-- of its latest payment. The pool trigger on transactions credits the change.
+CREATE OR REPLACE FUNCTION public.sync_transaction_payments()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transaction_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_transaction_id := OLD.transaction_id;
+  ELSE
+    v_transaction_id := NEW.transaction_id;
+  END IF;
+
+  UPDATE public.transactions t
+  SET
+    amount_paid = totals.amount_paid,
+    payment_fee = totals.payment_fee,
+    payment_method = COALESCE(totals.payment_method, t.payment_method),
+    updated_at = now()
+  FROM (
+    SELECT
+      COALESCE(sum(p.amount), 0) AS amount_paid,
+      COALESCE(sum(p.payment_fee), 0) AS payment_fee,
+      (SELECT latest.payment_method FROM public.transaction_payments latest
+        WHERE latest.transaction_id = v_transaction_id
+        ORDER BY latest.date DESC, latest.created_at DESC
+        LIMIT 1) AS payment_method
+    FROM public.transaction_payments p
+    WHERE p.transaction_id = v_transaction_id
+  ) totals
+  WHERE t.id = v_transaction_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER transaction_payments_sync
+  AFTER INSERT OR DELETE OR UPDATE OF amount, payment_method, payment_fee ON public.transaction_payments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_transaction_payments();
+
+ALTER TABLE public.transaction_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage transaction_payments" ON public.transaction_payments
+  FOR ALL TO authenticated USING (public.has_operator_role('owner')) WITH CHECK (public.has_operator_role('owner'));
+CREATE POLICY "Sales manage transaction_payments" ON public.transaction_payments
+  FOR ALL TO authenticated USING (public.has_operator_role('sales')) WITH CHECK (public.has_operator_role('sales'));
+
+REVOKE ALL ON public.transaction_payments FROM anon, public;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.transaction_payments TO authenticated;
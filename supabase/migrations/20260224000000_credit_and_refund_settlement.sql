@@ -0,0 +1,100 @@
+-- Credit and refund settlement migration
+-- amount_paid counted money drawn from client credit as collected cash, and a
+-- refund on a sale that was never paid came off the cash figures instead of
+-- what the client owed. Sales now keep the credit they drew in credit_paid,
+-- so amount_paid and its payments are only money that came in. The part of a
+-- refund the client still owed cancels that debt (amount_canceled) and only
+-- the rest is paid back. Credit drawn by earlier orders stays in their payments.
+
+ALTER TABLE public.transactions
+  -- USD drawn from the client's credit balance
+  ADD COLUMN IF NOT EXISTS credit_paid numeric NOT NULL DEFAULT 0 CHECK (credit_paid >= 0),
+  -- USD the client owed that refunds canceled
+  ADD COLUMN IF NOT EXISTS amount_canceled numeric NOT NULL DEFAULT 0 CHECK (amount_canceled >= 0);
+
+-- USD actually paid back, or put on the client's balance for a store credit
+ALTER TABLE public.transaction_refunds
+  ADD COLUMN IF NOT EXISTS paid_out numeric;
+
+-- Refunds recorded so far were all treated as paid back
+UPDATE public.transaction_refunds SET paid_out = amount WHERE paid_out IS NULL;
+
+ALTER TABLE public.transaction_refunds
+  ALTER COLUMN paid_out SET DEFAULT 0,
+  ALTER COLUMN paid_out SET NOT NULL,
+  ADD CONSTRAINT transaction_refunds_paid_out_check CHECK (paid_out >= 0 AND paid_out <= amount);
+
+-- Credit and canceled amounts settle a sale like payments do
+CREATE OR REPLACE FUNCTION public.set_transaction_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.payment_status := CASE
+    WHEN NEW.amount_paid + NEW.credit_paid + NEW.amount_canceled >= NEW.selling_price THEN 'paid'
+    WHEN NEW.amount_paid + NEW.credit_paid > 0 THEN 'partial'
+    ELSE 'unpaid'
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_payment_status ON public.transactions;
+CREATE TRIGGER transactions_payment_status
+  BEFORE INSERT OR UPDATE OF amount_paid, credit_paid, amount_canceled, selling_price ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.set_transaction_payment_status();
+
+-- A refund first cancels what the client still owes on the sale
+CREATE OR REPLACE FUNCTION public.set_refund_paid_out()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_owed numeric := 0;
+BEGIN
+  SELECT GREATEST(0, selling_price - amount_paid - credit_paid - amount_canceled) INTO v_owed
+  FROM public.transactions
+  WHERE id = NEW.transaction_id;
+
+  NEW.paid_out := NEW.amount - LEAST(NEW.amount, COALESCE(v_owed, 0));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER transaction_refunds_paid_out
+  BEFORE INSERT ON public.transaction_refunds
+  FOR EACH ROW EXECUTE FUNCTION public.set_refund_paid_out();
+
+CREATE OR REPLACE FUNCTION public.apply_refund_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.amount > NEW.paid_out THEN
+    UPDATE public.transactions
+    SET amount_canceled = amount_canceled + (NEW.amount - NEW.paid_out), updated_at = now()
+    WHERE id = NEW.transaction_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.amount > OLD.paid_out THEN
+    UPDATE public.transactions
+    SET amount_canceled = GREATEST(0, amount_canceled - (OLD.amount - OLD.paid_out)), updated_at = now()
+    WHERE id = OLD.transaction_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER transaction_refunds_cancellation
+  AFTER INSERT OR DELETE ON public.transaction_refunds
+  FOR EACH ROW EXECUTE FUNCTION public.apply_refund_cancellation();
+
+-- Only the part of a store credit that wasn't owed goes onto the balance
+CREATE OR REPLACE FUNCTION public.apply_refund_store_credit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.kind = 'store_credit' AND NEW.client_id IS NOT NULL AND NEW.paid_out > 0 THEN
+    INSERT INTO public.client_credit_ledger (client_id, kind, amount, refund_id, notes)
+    VALUES (NEW.client_id, 'store_credit', NEW.paid_out, NEW.id, NEW.reason);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,103 @@
+-- Payment group fees migration
+-- An order paid in one go gets one payment row per line, and each row was
+-- charged the method's fixed fee, so a three-line order paid the fixed fee
+-- three times. Rows recorded for the same payment now share a payment_group;
+-- the fee is worked out once on the group's total and spread over its rows
+-- by amount, the last row taking the rounding remainder. Payments recorded
+-- before this keep the fees they were charged.
+
+ALTER TABLE public.transaction_payments
+  -- Rows of one payment spread over several sales; null for a single sale
+  ADD COLUMN IF NOT EXISTS payment_group uuid;
+
+CREATE INDEX IF NOT EXISTS idx_transaction_payments_group ON public.transaction_payments (payment_group)
+  WHERE payment_group IS NOT NULL;
+
+-- Grouped rows get their fee from refresh_payment_group_fees
+CREATE OR REPLACE FUNCTION public.set_payment_fee()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_method public.payment_methods%ROWTYPE;
+BEGIN
+  NEW.payment_fee := 0;
+  IF NEW.payment_method IS NOT NULL AND NEW.payment_group IS NULL THEN
+    SELECT * INTO v_method FROM public.payment_methods WHERE key = NEW.payment_method;
+    IF FOUND THEN
+      NEW.payment_fee := LEAST(NEW.amount, round(v_method.fee_fixed + NEW.amount * v_method.fee_percent / 100, 2));
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transaction_payments_fee ON public.transaction_payments;
+CREATE TRIGGER transaction_payments_fee
+  BEFORE INSERT OR UPDATE OF amount, payment_method, payment_group ON public.transaction_payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_payment_fee();
+
+-- Charges each method used in the group its fee once, on what the group paid with it
+CREATE OR REPLACE FUNCTION public.refresh_payment_group_fees(p_group uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_part record;
+  v_method public.payment_methods%ROWTYPE;
+  v_fee numeric;
+BEGIN
+  FOR v_part IN
+    SELECT payment_method, sum(amount) AS total, count(*) AS row_count
+    FROM public.transaction_payments
+    WHERE payment_group = p_group
+    GROUP BY payment_method
+  LOOP
+    v_fee := 0;
+    IF v_part.payment_method IS NOT NULL THEN
+      SELECT * INTO v_method FROM public.payment_methods WHERE key = v_part.payment_method;
+      IF FOUND THEN
+        v_fee := LEAST(v_part.total, round(v_method.fee_fixed + v_part.total * v_method.fee_percent / 100, 2));
+      END IF;
+    END IF;
+
+    UPDATE public.transaction_payments p
+    SET payment_fee = shares.fee
+    FROM (
+      SELECT
+        id,
+        CASE
+          WHEN row_number() OVER w = v_part.row_count THEN
+            GREATEST(0, v_fee - COALESCE(sum(round(amount / v_part.total * v_fee, 2)) OVER (w ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0))
+          ELSE round(amount / v_part.total * v_fee, 2)
+        END AS fee
+      FROM public.transaction_payments
+      WHERE payment_group = p_group AND payment_method IS NOT DISTINCT FROM v_part.payment_method
+      WINDOW w AS (ORDER BY created_at, id)
+    ) shares
+    WHERE p.id = shares.id AND p.payment_fee IS DISTINCT FROM shares.fee;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_payment_group_fees()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.payment_group IS NOT NULL THEN
+    PERFORM public.refresh_payment_group_fees(OLD.payment_group);
+  END IF;
+  IF TG_OP <> 'DELETE' AND NEW.payment_group IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.payment_group IS DISTINCT FROM OLD.payment_group) THEN
+    PERFORM public.refresh_payment_group_fees(NEW.payment_group);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Row triggers fire once the whole insert is in, so every row of the group is
+-- there. Only the fee column is written back, which doesn't fire this again.
+CREATE TRIGGER transaction_payments_group_fees
+  AFTER INSERT OR DELETE OR UPDATE OF amount, payment_method, payment_group ON public.transaction_payments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_payment_group_fees();
@@ -0,0 +1,63 @@
+-- Refund pool debits migration
+-- Payments are credited to their method's pool as they come in, but refunds
+-- and chargebacks paid back to the client never left any pool, so balances
+-- kept money the business no longer had. What a refund or chargeback pays
+-- out now comes off the pool the sale's method credits, logged as a transfer
+-- to 'external', and goes back if the refund is deleted. Store credits stay
+-- on the client's balance and move no money. Refunds recorded before this
+-- are left as they are.
+
+-- The pool the refund was paid out of, so deleting it puts the money back there
+ALTER TABLE public.transaction_refunds
+  ADD COLUMN IF NOT EXISTS pool_name text REFERENCES public.money_pools(name) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.set_refund_pool()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.pool_name := NULL;
+  IF NEW.kind IN ('refund', 'chargeback') THEN
+    SELECT m.pool_name INTO NEW.pool_name
+    FROM public.transactions t
+    JOIN public.payment_methods m ON m.key = t.payment_method
+    WHERE t.id = NEW.transaction_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER transaction_refunds_pool
+  BEFORE INSERT ON public.transaction_refunds
+  FOR EACH ROW EXECUTE FUNCTION public.set_refund_pool();
+
+-- Runs as the owner so sales operators, who can't edit money_pools, still debit them
+CREATE OR REPLACE FUNCTION public.debit_refund_from_pool()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.pool_name IS NOT NULL AND NEW.paid_out > 0 THEN
+    UPDATE public.money_pools SET balance = balance - NEW.paid_out WHERE name = NEW.pool_name;
+    INSERT INTO public.pool_transfers (from_pool, to_pool, amount, notes)
+    VALUES (
+      NEW.pool_name, 'external', NEW.paid_out,
+      CASE WHEN NEW.kind = 'chargeback' THEN 'Chargeback' ELSE 'Refund paid out' END || ' on sale ' || NEW.transaction_id
+    );
+  ELSIF TG_OP = 'DELETE' AND OLD.pool_name IS NOT NULL AND OLD.paid_out > 0 THEN
+    UPDATE public.money_pools SET balance = balance + OLD.paid_out WHERE name = OLD.pool_name;
+    INSERT INTO public.pool_transfers (from_pool, to_pool, amount, notes)
+    VALUES (
+      'external', OLD.pool_name, OLD.paid_out,
+      CASE WHEN OLD.kind = 'chargeback' THEN 'Chargeback' ELSE 'Refund' END || ' reversed on sale ' || OLD.transaction_id
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER transaction_refunds_pool_debit
+  AFTER INSERT OR DELETE ON public.transaction_refunds
+  FOR EACH ROW EXECUTE FUNCTION public.debit_refund_from_pool();
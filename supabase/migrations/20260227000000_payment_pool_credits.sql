@@ -0,0 +1,64 @@
+-- Payment pool credits migration
+-- Pools were credited from the sale's totals and the method of its latest
+-- payment, so a sale paid partly in cash and partly by PayPal took the cash
+-- back out of its pool and put everything, less both fees, into PayPal's.
+-- Each payment now credits its own method's pool with its own amount less
+-- its own fee, and takes it back when the payment is changed or deleted.
+-- Balances already credited are left as they are.
+
+DROP TRIGGER IF EXISTS transactions_credit_pool ON public.transactions;
+
+-- Moves the change in a payment's net into its method's pool. Runs as the
+-- owner so sales operators, who can't edit money_pools, still credit them.
+CREATE OR REPLACE FUNCTION public.credit_payment_to_pool()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_pool text;
+  v_new_pool text;
+  v_old_net numeric := 0;
+  v_new_net numeric := 0;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    SELECT pool_name INTO v_old_pool FROM public.payment_methods WHERE key = OLD.payment_method;
+    v_old_net := OLD.amount - OLD.payment_fee;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    SELECT pool_name INTO v_new_pool FROM public.payment_methods WHERE key = NEW.payment_method;
+    v_new_net := NEW.amount - NEW.payment_fee;
+  END IF;
+
+  IF v_old_pool IS NOT DISTINCT FROM v_new_pool THEN
+    -- Same pool: only the difference moves
+    v_new_net := v_new_net - v_old_net;
+    v_old_pool := NULL;
+  END IF;
+
+  IF v_old_pool IS NOT NULL AND v_old_net <> 0 THEN
+    UPDATE public.money_pools SET balance = balance - v_old_net WHERE name = v_old_pool;
+    INSERT INTO public.pool_transfers (from_pool, to_pool, amount, notes)
+    VALUES (v_old_pool, 'external', abs(v_old_net), 'Payment reversed on sale ' || OLD.transaction_id);
+  END IF;
+
+  IF v_new_pool IS NOT NULL AND v_new_net <> 0 THEN
+    UPDATE public.money_pools SET balance = balance + v_new_net WHERE name = v_new_pool;
+    INSERT INTO public.pool_transfers (from_pool, to_pool, amount, notes)
+    VALUES (
+      CASE WHEN v_new_net > 0 THEN 'external' ELSE v_new_pool END,
+      CASE WHEN v_new_net > 0 THEN v_new_pool ELSE 'external' END,
+      abs(v_new_net),
+      CASE WHEN v_new_net > 0 THEN 'Payment received' ELSE 'Payment reversed' END
+        || ' on sale ' || NEW.transaction_id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER transaction_payments_credit_pool
+  AFTER INSERT OR DELETE OR UPDATE OF amount, payment_method, payment_fee ON public.transaction_payments
+  FOR EACH ROW EXECUTE FUNCTION public.credit_payment_to_pool();
@@ -0,0 +1,127 @@
+-- Refund pool shares migration
+-- Refunds were paid out of the pool of the sale's latest payment method, so
+-- a refund on a sale paid partly in cash and partly by PayPal came entirely
+-- out of PayPal's pool. What a refund pays out is now spread over the pools
+-- the sale's payments went into, in proportion to what each one received,
+-- the last pool taking the rounding remainder. Each debit is a transfer
+-- linked to the refund, and deleting the refund puts those amounts back.
+
+DROP TRIGGER IF EXISTS transaction_refunds_pool ON public.transaction_refunds;
+DROP FUNCTION IF EXISTS public.set_refund_pool();
+DROP TRIGGER IF EXISTS transaction_refunds_pool_debit ON public.transaction_refunds;
+
+-- The refund a transfer paid out
+ALTER TABLE public.pool_transfers
+  ADD COLUMN IF NOT EXISTS refund_id uuid REFERENCES public.transaction_refunds(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pool_transfers_refund ON public.pool_transfers (refund_id)
+  WHERE refund_id IS NOT NULL;
+
+-- Refunds debited so far keep the pool they came out of
+UPDATE public.pool_transfers pt
+SET refund_id = r.id
+FROM public.transaction_refunds r
+WHERE r.pool_name IS NOT NULL
+  AND r.paid_out > 0
+  AND pt.refund_id IS NULL
+  AND pt.from_pool = r.pool_name
+  AND pt.to_pool = 'external'
+  AND pt.amount = r.paid_out
+  AND pt.notes = CASE WHEN r.kind = 'chargeback' THEN 'Chargeback' ELSE 'Refund paid out' END || ' on sale ' || r.transaction_id;
+
+ALTER TABLE public.transaction_refunds DROP COLUMN IF EXISTS pool_name;
+
+-- Runs as the owner so sales operators, who can't edit money_pools, still debit them
+CREATE OR REPLACE FUNCTION public.debit_refund_from_pool()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_share record;
+  v_total numeric;
+  v_left numeric;
+  v_amount numeric;
+BEGIN
+  IF NEW.kind NOT IN ('refund', 'chargeback') OR NEW.paid_out <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT sum(p.amount - p.payment_fee) INTO v_total
+  FROM public.transaction_payments p
+  JOIN public.payment_methods m ON m.key = p.payment_method
+  WHERE p.transaction_id = NEW.transaction_id AND m.pool_name IS NOT NULL;
+
+  IF v_total IS NULL OR v_total <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_left := NEW.paid_out;
+  FOR v_share IN
+    SELECT m.pool_name, sum(p.amount - p.payment_fee) AS received,
+      row_number() OVER (ORDER BY m.pool_name) AS position,
+      count(*) OVER () AS pool_count
+    FROM public.transaction_payments p
+    JOIN public.payment_methods m ON m.key = p.payment_method
+    WHERE p.transaction_id = NEW.transaction_id AND m.pool_name IS NOT NULL
+    GROUP BY m.pool_name
+    HAVING sum(p.amount - p.payment_fee) > 0
+  LOOP
+    IF v_share.position = v_share.pool_count THEN
+      v_amount := v_left;
+    ELSE
+      v_amount := LEAST(v_left, round(NEW.paid_out * v_share.received / v_total, 2));
+    END IF;
+    v_left := v_left - v_amount;
+
+    IF v_amount > 0 THEN
+      UPDATE public.money_pools SET balance = balance - v_amount WHERE name = v_share.pool_name;
+      INSERT INTO public.pool_transfers (from_pool, to_pool, amount, notes, refund_id)
+      VALUES (
+        v_share.pool_name, 'external', v_amount,
+        CASE WHEN NEW.kind = 'chargeback' THEN 'Chargeback' ELSE 'Refund paid out' END || ' on sale ' || NEW.transaction_id,
+        NEW.id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER transaction_refunds_pool_debit
+  AFTER INSERT ON public.transaction_refunds
+  FOR EACH ROW EXECUTE FUNCTION public.debit_refund_from_pool();
+
+-- Puts back what the refund took out of each pool; runs before the delete
+-- unlinks its transfers
+CREATE OR REPLACE FUNCTION public.restore_refund_to_pool()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_debit record;
+BEGIN
+  FOR v_debit IN
+    SELECT from_pool, sum(amount) AS amount
+    FROM public.pool_transfers
+    WHERE refund_id = OLD.id AND to_pool = 'external'
+    GROUP BY from_pool
+  LOOP
+    UPDATE public.money_pools SET balance = balance + v_debit.amount WHERE name = v_debit.from_pool;
+    INSERT INTO public.pool_transfers (from_pool, to_pool, amount, notes)
+    VALUES (
+      'external', v_debit.from_pool, v_debit.amount,
+      CASE WHEN OLD.kind = 'chargeback' THEN 'Chargeback' ELSE 'Refund' END || ' reversed on sale ' || OLD.transaction_id
+    );
+  END LOOP;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER transaction_refunds_pool_restore
+  BEFORE DELETE ON public.transaction_refunds
+  FOR EACH ROW EXECUTE FUNCTION public.restore_refund_to_pool();
@@ -0,0 +1,25 @@
+-- Order line credit return migration
+-- Deleting one line of an order paid from credit kept the order's whole
+-- consumption row, so the client never got back the credit that line drew.
+-- Deleting a line now adds an adjustment giving its credit_paid back. The
+-- adjustment is tied to the order, so deleting the whole order later takes
+-- it away again along with the consumption row.
+
+CREATE OR REPLACE FUNCTION public.return_order_line_credit()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- When the whole order goes, its consumption row goes with it
+  IF OLD.order_id IS NOT NULL AND OLD.client_id IS NOT NULL AND OLD.credit_paid > 0
+    AND EXISTS (SELECT 1 FROM public.orders WHERE id = OLD.order_id) THEN
+    INSERT INTO public.client_credit_ledger (client_id, kind, amount, order_id, notes)
+    VALUES (OLD.client_id, 'adjustment', OLD.credit_paid, OLD.order_id, 'Credit given back for a deleted order line');
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER transactions_return_credit
+  BEFORE DELETE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.return_order_line_credit();
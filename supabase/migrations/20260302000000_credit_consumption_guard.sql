@@ -0,0 +1,31 @@
+-- Credit consumption guard migration
+-- Orders drew credit up to the balance the order form loaded, with nothing
+-- in the database stopping a stale form or two orders at once from taking
+-- the balance below zero. A consumption row is now rejected when it draws
+-- more than the client has; the client row is locked while checking so
+-- concurrent draws queue up. The order is then left owed instead.
+
+-- Runs as the owner so the lock works for operators who can't edit clients
+CREATE OR REPLACE FUNCTION public.check_credit_consumption()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance numeric;
+BEGIN
+  IF NEW.kind = 'consumption' THEN
+    SELECT credit_balance INTO v_balance FROM public.clients WHERE id = NEW.client_id FOR UPDATE;
+    IF COALESCE(v_balance, 0) + NEW.amount < 0 THEN
+      RAISE EXCEPTION 'Not enough credit: the client has % left', round(COALESCE(v_balance, 0), 2)
+        USING errcode = 'P0001';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER client_credit_ledger_check_consumption
+  BEFORE INSERT ON public.client_credit_ledger
+  FOR EACH ROW EXECUTE FUNCTION public.check_credit_consumption();
@@ -0,0 +1,7 @@
+-- Client credit ledger append-only migration
+-- The balance trigger only follows inserted and deleted rows, yet operators
+-- could still update a row's amount and leave credit_balance out of step
+-- with the ledger. The ledger is append-only: a correction is a new
+-- adjustment row, as clientCreditDb.addEntry already does.
+
+REVOKE UPDATE ON public.client_credit_ledger FROM authenticated;
@@ -1,6 +1,33 @@
 -- WARNING: This schema is for context only and is not meant to be run.
 -- Table order and constraints may not be valid for execution.
 
+CREATE TABLE public.audit_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  actor_id uuid DEFAULT auth.uid(),
+  actor_email text DEFAULT (auth.jwt() ->> 'email'::text),
+  entity_type text NOT NULL,
+  entity_id text,
+  action text NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT audit_log_pkey PRIMARY KEY (id)
+);
+CREATE TABLE public.client_credit_ledger (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL,
+  kind text NOT NULL CHECK (kind = ANY (ARRAY['deposit'::text, 'consumption'::text, 'adjustment'::text, 'store_credit'::text])),
+  amount numeric NOT NULL CHECK (amount <> 0::numeric),
+  order_id uuid,
+  refund_id uuid,
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'::text),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT client_credit_ledger_pkey PRIMARY KEY (id),
+  CONSTRAINT client_credit_ledger_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id),
+  CONSTRAINT client_credit_ledger_order_id_fkey FOREIGN KEY (order_id) REFERENCES public.orders(id),
+  CONSTRAINT client_credit_ledger_refund_id_fkey FOREIGN KEY (refund_id) REFERENCES public.transaction_refunds(id)
+);
 CREATE TABLE public.client_purchases (
   id uuid NOT NULL DEFAULT uuid_generate_v4(),
   client_id uuid,
@@ -25,7 +52,55 @@ CREATE TABLE public.clients (
   created_at timestamp with time zone DEFAULT now(),
   updated_at timestamp with time zone DEFAULT now(),
   type text NOT NULL DEFAULT 'client'::text CHECK (type = ANY (ARRAY['client'::text, 'reseller'::text])),
-  CONSTRAINT clients_pkey PRIMARY KEY (id)
+  status_token text UNIQUE,
+  status_token_created_at timestamp with time zone,
+  credit_balance numeric NOT NULL DEFAULT 0,
+  price_list_id uuid,
+  CONSTRAINT clients_pkey PRIMARY KEY (id),
+  CONSTRAINT clients_price_list_id_fkey FOREIGN KEY (price_list_id) REFERENCES public.price_lists(id)
+);
+CREATE TABLE public.credential_vault (
+  id integer NOT NULL DEFAULT 1 CHECK (id = 1),
+  salt text NOT NULL,
+  iterations integer NOT NULL CHECK (iterations > 0),
+  verifier text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT credential_vault_pkey PRIMARY KEY (id)
+);
+CREATE TABLE public.operators (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid UNIQUE,
+  email text NOT NULL UNIQUE,
+  display_name text,
+  role text NOT NULL DEFAULT 'sales'::text CHECK (role = ANY (ARRAY['owner'::text, 'sales'::text, 'inventory'::text])),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT operators_pkey PRIMARY KEY (id),
+  CONSTRAINT operators_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id)
+);
+CREATE TABLE public.orders (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  client_id uuid,
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  discount numeric NOT NULL DEFAULT 0 CHECK (discount >= 0::numeric),
+  notes text DEFAULT ''::text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT orders_pkey PRIMARY KEY (id),
+  CONSTRAINT orders_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id)
+);
+CREATE TABLE public.payment_methods (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  key text NOT NULL UNIQUE CHECK (key ~ '^[a-z0-9_]+$'::text),
+  name text NOT NULL,
+  fee_fixed numeric NOT NULL DEFAULT 0 CHECK (fee_fixed >= 0::numeric),
+  fee_percent numeric NOT NULL DEFAULT 0 CHECK (fee_percent >= 0::numeric AND fee_percent <= 100::numeric),
+  pool_name text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT payment_methods_pkey PRIMARY KEY (id),
+  CONSTRAINT payment_methods_pool_name_fkey FOREIGN KEY (pool_name) REFERENCES public.money_pools(name)
 );
 CREATE TABLE public.personal_accounts (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
@@ -39,8 +114,65 @@ CREATE TABLE public.personal_accounts (
   assigned_to_client_id uuid,
   assigned_at timestamp with time zone,
   updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  has_login_secret boolean DEFAULT (login_secret IS NOT NULL AND login_secret <> ''::text),
   CONSTRAINT personal_accounts_pkey PRIMARY KEY (id),
-  CONSTRAINT personal_accounts_assigned_to_client_id_fkey FOREIGN KEY (assigned_to_client_id) REFERENCES public.clients(id)
+  CONSTRAINT personal_accounts_assigned_to_client_id_fkey FOREIGN KEY (assigned_to_client_id) REFERENCES public.clients(id),
+  CONSTRAINT personal_accounts_provider_fkey FOREIGN KEY (provider) REFERENCES public.providers(key)
+);
+CREATE TABLE public.price_list_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  price_list_id uuid NOT NULL,
+  service_id uuid NOT NULL,
+  selling_price numeric NOT NULL CHECK (selling_price >= 0::numeric),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT price_list_items_pkey PRIMARY KEY (id),
+  CONSTRAINT price_list_items_list_service_key UNIQUE (price_list_id, service_id),
+  CONSTRAINT price_list_items_price_list_id_fkey FOREIGN KEY (price_list_id) REFERENCES public.price_lists(id),
+  CONSTRAINT price_list_items_service_id_fkey FOREIGN KEY (service_id) REFERENCES public.services(id)
+);
+CREATE TABLE public.price_lists (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  kind text NOT NULL DEFAULT 'reseller'::text CHECK (kind = ANY (ARRAY['reseller'::text, 'custom'::text])),
+  discount_percent numeric NOT NULL DEFAULT 0 CHECK (discount_percent >= 0::numeric AND discount_percent <= 100::numeric),
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT price_lists_pkey PRIMARY KEY (id)
+);
+CREATE TABLE public.providers (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  key text NOT NULL UNIQUE CHECK (key ~ '^[a-z0-9_]+$'::text),
+  display_name text NOT NULL,
+  pool_type text CHECK (pool_type = ANY (ARRAY['admin_console'::text, 'family'::text, 'team'::text, 'workspace'::text])),
+  default_seats integer CHECK (default_seats > 0),
+  default_duration_days integer CHECK (default_duration_days > 0),
+  icon text,
+  logo_url text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT providers_pkey PRIMARY KEY (id)
+);
+CREATE TABLE public.reminder_templates (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  service_id uuid,
+  body text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT reminder_templates_pkey PRIMARY KEY (id),
+  CONSTRAINT reminder_templates_service_id_key UNIQUE (service_id),
+  CONSTRAINT reminder_templates_service_id_fkey FOREIGN KEY (service_id) REFERENCES public.services(id)
+);
+CREATE TABLE public.resource_pool_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  pool_id uuid NOT NULL,
+  type text NOT NULL CHECK (type = ANY (ARRAY['extended'::text])),
+  at timestamp with time zone NOT NULL DEFAULT now(),
+  meta jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT resource_pool_events_pkey PRIMARY KEY (id),
+  CONSTRAINT resource_pool_events_pool_id_fkey FOREIGN KEY (pool_id) REFERENCES public.resource_pools(id)
 );
 CREATE TABLE public.resource_pool_seats (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
@@ -74,7 +206,62 @@ CREATE TABLE public.resource_pools (
   status text NOT NULL DEFAULT 'active'::text CHECK (status = ANY (ARRAY['active'::text, 'paused'::text, 'completed'::text, 'overdue'::text, 'expired'::text])),
   created_at timestamp with time zone NOT NULL DEFAULT now(),
   updated_at timestamp with time zone NOT NULL DEFAULT now(),
-  CONSTRAINT resource_pools_pkey PRIMARY KEY (id)
+  has_login_secret boolean DEFAULT (login_secret IS NOT NULL AND login_secret <> ''::text),
+  purchase_cost numeric CHECK (purchase_cost >= 0::numeric),
+  purchase_currency text NOT NULL DEFAULT 'USD'::text CHECK (purchase_currency = ANY (ARRAY['USD'::text, 'TND'::text])),
+  CONSTRAINT resource_pools_pkey PRIMARY KEY (id),
+  CONSTRAINT resource_pools_provider_fkey FOREIGN KEY (provider) REFERENCES public.providers(key)
+);
+CREATE TABLE public.seat_assignments_history (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  seat_id uuid NOT NULL,
+  pool_id uuid NOT NULL,
+  assigned_email text,
+  client_id uuid,
+  subscription_id uuid,
+  assigned_at timestamp with time zone NOT NULL DEFAULT now(),
+  unassigned_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT seat_assignments_history_pkey PRIMARY KEY (id),
+  CONSTRAINT seat_assignments_history_seat_id_fkey FOREIGN KEY (seat_id) REFERENCES public.resource_pool_seats(id),
+  CONSTRAINT seat_assignments_history_pool_id_fkey FOREIGN KEY (pool_id) REFERENCES public.resource_pools(id),
+  CONSTRAINT seat_assignments_history_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id),
+  CONSTRAINT seat_assignments_history_subscription_id_fkey FOREIGN KEY (subscription_id) REFERENCES public.subscriptions(id)
+);
+CREATE TABLE public.seat_waitlist (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL,
+  service_id uuid NOT NULL,
+  provider text NOT NULL,
+  seat_email text,
+  priority smallint NOT NULL DEFAULT 2 CHECK (priority >= 1 AND priority <= 3),
+  notes text,
+  status text NOT NULL DEFAULT 'waiting'::text CHECK (status = ANY (ARRAY['waiting'::text, 'assigned'::text, 'canceled'::text])),
+  assigned_subscription_id uuid,
+  assigned_pool_id uuid,
+  assigned_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT seat_waitlist_pkey PRIMARY KEY (id),
+  CONSTRAINT seat_waitlist_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id),
+  CONSTRAINT seat_waitlist_service_id_fkey FOREIGN KEY (service_id) REFERENCES public.services(id),
+  CONSTRAINT seat_waitlist_assigned_subscription_id_fkey FOREIGN KEY (assigned_subscription_id) REFERENCES public.subscriptions(id),
+  CONSTRAINT seat_waitlist_assigned_pool_id_fkey FOREIGN KEY (assigned_pool_id) REFERENCES public.resource_pools(id),
+  CONSTRAINT seat_waitlist_provider_fkey FOREIGN KEY (provider) REFERENCES public.providers(key)
+);
+CREATE TABLE public.service_price_history (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  service_id uuid NOT NULL,
+  old_cost numeric,
+  old_selling_price numeric,
+  new_cost numeric NOT NULL,
+  new_selling_price numeric NOT NULL,
+  reason text,
+  changed_by uuid DEFAULT auth.uid(),
+  changed_by_email text DEFAULT (auth.jwt() ->> 'email'::text),
+  changed_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT service_price_history_pkey PRIMARY KEY (id),
+  CONSTRAINT service_price_history_service_id_fkey FOREIGN KEY (service_id) REFERENCES public.services(id)
 );
 CREATE TABLE public.services (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
@@ -88,12 +275,14 @@ CREATE TABLE public.services (
   updated_at timestamp with time zone DEFAULT now(),
   logo_url text,
   service_type text CHECK (service_type = ANY (ARRAY['personal_upgrade'::text, 'family_invite'::text])),
-  CONSTRAINT services_pkey PRIMARY KEY (id)
+  provider_id uuid,
+  CONSTRAINT services_pkey PRIMARY KEY (id),
+  CONSTRAINT services_provider_id_fkey FOREIGN KEY (provider_id) REFERENCES public.providers(id)
 );
 CREATE TABLE public.subscription_events (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   subscription_id uuid NOT NULL,
-  type text NOT NULL CHECK (type = ANY (ARRAY['created'::text, 'renewed'::text, 'custom_date_set'::text, 'custom_date_cleared'::text, 'paused'::text, 'resumed'::text, 'completed'::text, 'overdue'::text, 'canceled'::text, 'updated'::text, 'archived'::text, 'reverted'::text])),
+  type text NOT NULL CHECK (type = ANY (ARRAY['created'::text, 'renewed'::text, 'custom_date_set'::text, 'custom_date_cleared'::text, 'paused'::text, 'resumed'::text, 'completed'::text, 'overdue'::text, 'canceled'::text, 'updated'::text, 'archived'::text, 'reverted'::text, 'reminder_sent'::text, 'pool_migrated'::text, 'renewal_recalculated'::text, 'pool_extended'::text])),
   at timestamp with time zone NOT NULL,
   meta jsonb,
   created_at timestamp with time zone DEFAULT now(),
@@ -111,22 +300,89 @@ CREATE TABLE public.subscriptions (
   next_renewal_at timestamp with time zone,
   custom_next_renewal_at timestamp with time zone,
   target_end_at timestamp with time zone,
+  paused_at timestamp with time zone,
   iterations_done integer DEFAULT 0,
-  strategy text NOT NULL DEFAULT 'MONTHLY'::text CHECK (strategy = ANY (ARRAY['MONTHLY'::text, 'EVERY_N_DAYS'::text])),
+  cycles_paid integer CHECK (cycles_paid > 0),
+  prepaid_from_iteration integer NOT NULL DEFAULT 0 CHECK (prepaid_from_iteration >= 0),
+  cycle_paused_ms bigint NOT NULL DEFAULT 0,
+  strategy text NOT NULL DEFAULT 'MONTHLY'::text CHECK (strategy = ANY (ARRAY['MONTHLY'::text, 'QUARTERLY'::text, 'YEARLY'::text, 'DAY_OF_MONTH'::text, 'EVERY_N_DAYS'::text])),
   interval_days integer,
+  renewal_day integer CHECK (renewal_day >= 1 AND renewal_day <= 31),
   status text NOT NULL DEFAULT 'active'::text CHECK (status = ANY (ARRAY['active'::text, 'paused'::text, 'completed'::text, 'overdue'::text, 'canceled'::text, 'archived'::text])),
   is_auto_renew boolean NOT NULL DEFAULT true,
+  charge_on_renewal boolean NOT NULL DEFAULT true,
   notes text,
   created_at timestamp with time zone DEFAULT now(),
   updated_at timestamp with time zone DEFAULT now(),
   resource_pool_id uuid,
   resource_pool_seat_id uuid,
+  waitlist_entry_id uuid,
   CONSTRAINT subscriptions_pkey PRIMARY KEY (id),
   CONSTRAINT subscriptions_service_id_fkey FOREIGN KEY (service_id) REFERENCES public.services(id),
   CONSTRAINT subscriptions_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id),
   CONSTRAINT subscriptions_transaction_id_fkey FOREIGN KEY (transaction_id) REFERENCES public.transactions(id),
   CONSTRAINT subscriptions_resource_pool_id_fkey FOREIGN KEY (resource_pool_id) REFERENCES public.resource_pools(id),
-  CONSTRAINT subscriptions_resource_pool_seat_id_fkey FOREIGN KEY (resource_pool_seat_id) REFERENCES public.resource_pool_seats(id)
+  CONSTRAINT subscriptions_resource_pool_seat_id_fkey FOREIGN KEY (resource_pool_seat_id) REFERENCES public.resource_pool_seats(id),
+  CONSTRAINT subscriptions_waitlist_entry_id_fkey FOREIGN KEY (waitlist_entry_id) REFERENCES public.seat_waitlist(id)
+);
+CREATE TABLE public.supplier_offers (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  supplier_id uuid NOT NULL,
+  service_id uuid NOT NULL,
+  cost numeric NOT NULL CHECK (cost >= 0::numeric),
+  lead_time_days integer CHECK (lead_time_days >= 0),
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT supplier_offers_pkey PRIMARY KEY (id),
+  CONSTRAINT supplier_offers_supplier_service_key UNIQUE (supplier_id, service_id),
+  CONSTRAINT supplier_offers_supplier_id_fkey FOREIGN KEY (supplier_id) REFERENCES public.suppliers(id),
+  CONSTRAINT supplier_offers_service_id_fkey FOREIGN KEY (service_id) REFERENCES public.services(id)
+);
+CREATE TABLE public.suppliers (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  kind text NOT NULL DEFAULT 'other'::text CHECK (kind = ANY (ARRAY['key_seller'::text, 'gift_card_vendor'::text, 'reseller'::text, 'other'::text])),
+  contact_name text,
+  email text,
+  phone text,
+  website text,
+  notes text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT suppliers_pkey PRIMARY KEY (id)
+);
+CREATE TABLE public.transaction_payments (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0::numeric),
+  payment_method text,
+  payment_fee numeric NOT NULL DEFAULT 0 CHECK (payment_fee >= 0::numeric),
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  created_by uuid DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'::text),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  payment_group uuid,
+  CONSTRAINT transaction_payments_pkey PRIMARY KEY (id),
+  CONSTRAINT transaction_payments_transaction_id_fkey FOREIGN KEY (transaction_id) REFERENCES public.transactions(id),
+  CONSTRAINT transaction_payments_payment_method_fkey FOREIGN KEY (payment_method) REFERENCES public.payment_methods(key)
+);
+CREATE TABLE public.transaction_refunds (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL,
+  client_id uuid,
+  kind text NOT NULL DEFAULT 'refund'::text CHECK (kind = ANY (ARRAY['refund'::text, 'chargeback'::text, 'store_credit'::text])),
+  amount numeric NOT NULL CHECK (amount > 0::numeric),
+  reason text,
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  created_by uuid DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'::text),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  paid_out numeric NOT NULL DEFAULT 0 CHECK (paid_out >= 0::numeric AND paid_out <= amount),
+  CONSTRAINT transaction_refunds_pkey PRIMARY KEY (id),
+  CONSTRAINT transaction_refunds_transaction_id_fkey FOREIGN KEY (transaction_id) REFERENCES public.transactions(id),
+  CONSTRAINT transaction_refunds_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id)
 );
 CREATE TABLE public.transactions (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
@@ -138,7 +394,21 @@ CREATE TABLE public.transactions (
   created_at timestamp with time zone DEFAULT now(),
   updated_at timestamp with time zone DEFAULT now(),
   client_id uuid,
+  supplier_id uuid,
+  order_id uuid,
+  discount_amount numeric NOT NULL DEFAULT 0 CHECK (discount_amount >= 0::numeric),
+  price_list_id uuid,
+  amount_paid numeric NOT NULL DEFAULT 0 CHECK (amount_paid >= 0::numeric),
+  payment_status text NOT NULL DEFAULT 'paid'::text CHECK (payment_status = ANY (ARRAY['paid'::text, 'partial'::text, 'unpaid'::text])),
+  payment_method text,
+  payment_fee numeric NOT NULL DEFAULT 0 CHECK (payment_fee >= 0::numeric),
+  credit_paid numeric NOT NULL DEFAULT 0 CHECK (credit_paid >= 0::numeric),
+  amount_canceled numeric NOT NULL DEFAULT 0 CHECK (amount_canceled >= 0::numeric),
   CONSTRAINT transactions_pkey PRIMARY KEY (id),
   CONSTRAINT transactions_service_id_fkey FOREIGN KEY (service_id) REFERENCES public.services(id),
-  CONSTRAINT transactions_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id)
+  CONSTRAINT transactions_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id),
+  CONSTRAINT transactions_supplier_id_fkey FOREIGN KEY (supplier_id) REFERENCES public.suppliers(id),
+  CONSTRAINT transactions_order_id_fkey FOREIGN KEY (order_id) REFERENCES public.orders(id),
+  CONSTRAINT transactions_price_list_id_fkey FOREIGN KEY (price_list_id) REFERENCES public.price_lists(id),
+  CONSTRAINT transactions_payment_method_fkey FOREIGN KEY (payment_method) REFERENCES public.payment_methods(key)
 );
\ No newline at end of file